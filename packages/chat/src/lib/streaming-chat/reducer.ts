@@ -15,6 +15,11 @@ import type {
 	MessageReaction
 } from './types.js';
 
+/**
+ * Effect id of the response stream, used to stop generation.
+ */
+const RESPONSE_STREAM_ID = 'streaming-chat-response';
+
 /**
  * Streaming chat reducer.
  *
@@ -52,20 +57,19 @@ export function streamingChatReducer(
 					error: null,
 					pendingAttachments: [] // Clear attachments after sending
 				},
-				Effect.run(async (dispatch) => {
-					// Call user's streaming implementation
-					const abortController = deps.streamMessage(
-						action.message,
-						(chunk) => dispatch({ type: 'chunkReceived', chunk }),
-						() => dispatch({ type: 'streamComplete' }),
-						(error) => dispatch({ type: 'streamError', error })
-					);
-
-					// Store abort controller if returned
-					if (abortController) {
-						dispatch({ type: '_internal_setAbortController', abortController });
+				Effect.stream(
+					RESPONSE_STREAM_ID,
+					// Defer the call so the transport starts when the effect runs
+					{ [Symbol.asyncIterator]: () => deps.streamMessage(action.message)[Symbol.asyncIterator]() },
+					(chunk): StreamingChatAction => ({ type: 'chunkReceived', chunk }),
+					{
+						onComplete: () => ({ type: 'streamComplete' }),
+						onError: (error) => ({
+							type: 'streamError',
+							error: error instanceof Error ? error.message : 'Unknown error'
+						})
 					}
-				})
+				)
 			];
 		}
 
@@ -125,13 +129,10 @@ export function streamingChatReducer(
 		}
 
 		case 'stopGeneration': {
-			if (!state.currentStreaming?.abortController) {
+			if (!state.currentStreaming) {
 				return [state, Effect.none()];
 			}
 
-			// Abort the stream
-			state.currentStreaming.abortController.abort();
-
 			// Save partial content as a message if there's any content
 			if (state.currentStreaming.content.trim()) {
 				const partialMessage: Message = {
@@ -148,7 +149,7 @@ export function streamingChatReducer(
 						currentStreaming: null,
 						isWaitingForResponse: false
 					},
-					Effect.none()
+					Effect.cancel(RESPONSE_STREAM_ID)
 				];
 			}
 
@@ -158,7 +159,7 @@ export function streamingChatReducer(
 					currentStreaming: null,
 					isWaitingForResponse: false
 				},
-				Effect.none()
+				Effect.cancel(RESPONSE_STREAM_ID)
 			];
 		}
 
@@ -373,23 +374,6 @@ export function streamingChatReducer(
 			];
 		}
 
-		case '_internal_setAbortController': {
-			if (!state.currentStreaming) {
-				return [state, Effect.none()];
-			}
-
-			return [
-				{
-					...state,
-					currentStreaming: {
-						...state.currentStreaming,
-						abortController: action.abortController
-					}
-				},
-				Effect.none()
-			];
-		}
-
 		case 'addAttachment': {
 			return [
 				{
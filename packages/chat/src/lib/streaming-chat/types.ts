@@ -83,8 +83,6 @@ export interface StreamingChatState {
 	currentStreaming: {
 		content: string;
 		isComplete: boolean;
-		/** Controller for cancelling the stream */
-		abortController?: AbortController;
 	} | null;
 
 	/** Waiting for response to start */
@@ -145,9 +143,7 @@ export type StreamingChatAction =
 	| { type: 'clearError' }
 	| { type: 'clearMessages' }
 	// Session restore (for persistence/recovery)
-	| { type: 'restoreMessages'; messages: Message[] }
-	// Internal actions
-	| { type: '_internal_setAbortController'; abortController: AbortController };
+	| { type: 'restoreMessages'; messages: Message[] };
 
 /**
  * Streaming chat dependencies.
@@ -157,20 +153,17 @@ export type StreamingChatAction =
  */
 export interface StreamingChatDependencies {
 	/**
-	 * Stream a message to the backend and receive chunks.
+	 * Stream a message to the backend and yield response chunks.
+	 *
+	 * Called when the send effect runs. The response ends when the iterable
+	 * completes and fails when it throws. Stopping generation calls `return()`
+	 * on the iterator, so release resources (close sockets, abort requests)
+	 * in a `finally` block.
 	 *
 	 * @param message - The user's message
-	 * @param onChunk - Called for each chunk of the response
-	 * @param onComplete - Called when streaming is complete
-	 * @param onError - Called if an error occurs
-	 * @returns AbortController for cancellation (optional)
+	 * @returns Async iterable of response chunks (e.g. an async generator)
 	 */
-	streamMessage: (
-		message: string,
-		onChunk: (chunk: string) => void,
-		onComplete: () => void,
-		onError: (error: string) => void
-	) => AbortController | void;
+	streamMessage: (message: string) => AsyncIterable<string>;
 
 	/**
 	 * Generate unique ID for messages.
@@ -220,76 +213,49 @@ export function createInitialStreamingChatState(): StreamingChatState {
  */
 export function createMockStreamingChat(): StreamingChatDependencies {
 	return {
-		streamMessage: (message, onChunk, onComplete, onError) => {
-			const abortController = new AbortController();
-
-			(async () => {
-				try {
-					// Simulate some delay before starting
-					await new Promise((resolve) => setTimeout(resolve, 300));
-
-					// Check if aborted
-					if (abortController.signal.aborted) {
-						return;
-					}
-
-					// Check for image and video trigger keywords
-					const lowerMessage = message.toLowerCase();
-					const imageKeywords = ['image', 'images', 'photo', 'photos', 'picture', 'pictures', 'gallery'];
-					const videoKeywords = ['video', 'videos', 'watch', 'youtube', 'vimeo', 'twitch'];
-					const shouldShowImages = imageKeywords.some(keyword => lowerMessage.includes(keyword));
-					const shouldShowVideos = videoKeywords.some(keyword => lowerMessage.includes(keyword));
-
-					// Generate a mock response with markdown
-					const responses = [
-						`Great question about "${message}"! Here's what I can tell you:\n\n## Key Points\n\n1. This is a **markdown-formatted** response\n2. It supports *italic* and **bold** text\n3. You can include \`inline code\` too\n\n### Code Example\n\nHere's a simple TypeScript example:\n\n\`\`\`typescript\nfunction greet(name: string): string {\n  return \`Hello, \${name}!\`;\n}\n\nconsole.log(greet("World"));\n\`\`\`\n\nPretty cool, right?`,
-
-						`I'd be happy to explain "${message}". Let me break it down:\n\n**Benefits:**\n- Easy to read and write\n- Supports syntax highlighting\n- Works great for technical content\n\n\`\`\`javascript\nconst message = "${message}";\nconsole.log("Processing:", message);\n\`\`\`\n\nHope this helps!`,
+		async *streamMessage(message) {
+			// Simulate some delay before starting
+			await new Promise((resolve) => setTimeout(resolve, 300));
 
-						`Regarding "${message}", here's a comprehensive answer:\n\n> This is a blockquote with important information.\n\nYou can create lists:\n\n1. First item\n2. Second item with **bold**\n3. Third item with *italics*\n\nAnd unordered lists:\n\n- Feature A\n- Feature B\n- Feature C\n\n---\n\nCheck out this Python code:\n\n\`\`\`python\ndef hello(name):\n    return f"Hello, {name}!"\n\nprint(hello("${message}"))\n\`\`\``,
+			// Check for image and video trigger keywords
+			const lowerMessage = message.toLowerCase();
+			const imageKeywords = ['image', 'images', 'photo', 'photos', 'picture', 'pictures', 'gallery'];
+			const videoKeywords = ['video', 'videos', 'watch', 'youtube', 'vimeo', 'twitch'];
+			const shouldShowImages = imageKeywords.some(keyword => lowerMessage.includes(keyword));
+			const shouldShowVideos = videoKeywords.some(keyword => lowerMessage.includes(keyword));
 
-						`Let me explain "${message}" step by step:\n\n### Step 1: Understanding\n\nFirst, you need to understand the basics. The \`concept\` involves several key components.\n\n### Step 2: Implementation\n\nHere's a simple implementation:\n\n\`\`\`typescript\ninterface Config {\n  name: string;\n  value: number;\n}\n\nconst config: Config = {\n  name: "${message}",\n  value: 42\n};\n\`\`\`\n\n### Step 3: Testing\n\nAlways test your code! Use **unit tests** and *integration tests* for best results.`,
+			// Generate a mock response with markdown
+			const responses = [
+				`Great question about "${message}"! Here's what I can tell you:\n\n## Key Points\n\n1. This is a **markdown-formatted** response\n2. It supports *italic* and **bold** text\n3. You can include \`inline code\` too\n\n### Code Example\n\nHere's a simple TypeScript example:\n\n\`\`\`typescript\nfunction greet(name: string): string {\n  return \`Hello, \${name}!\`;\n}\n\nconsole.log(greet("World"));\n\`\`\`\n\nPretty cool, right?`,
 
-						`Here are some example images related to "${message}":\n\n## Image Gallery Demo\n\nClick on any image to view it in the lightbox with full navigation support!\n\n![Mountain Landscape](https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&h=600&fit=crop "Beautiful mountain view with snow-capped peaks")\n\n![Ocean Sunset](https://images.unsplash.com/photo-1507525428034-b723cf961d3e?w=800&h=600&fit=crop "Stunning sunset over the ocean with vibrant colors")\n\n![Forest Path](https://images.unsplash.com/photo-1441974231531-c6227db76b6e?w=800&h=600&fit=crop "Peaceful forest path surrounded by tall trees")\n\n![City Skyline](https://images.unsplash.com/photo-1480714378408-67cf0d13bc1b?w=800&h=600&fit=crop "Modern city skyline at night with illuminated buildings")\n\n---\n\nThe image gallery supports:\n- **Touch gestures** - Swipe left/right to navigate\n- **Keyboard navigation** - Use arrow keys, Home, End, Esc\n- **Accessibility** - Full ARIA labels and focus management\n- **Animations** - Smooth transitions with reduced motion support`,
+				`I'd be happy to explain "${message}". Let me break it down:\n\n**Benefits:**\n- Easy to read and write\n- Supports syntax highlighting\n- Works great for technical content\n\n\`\`\`javascript\nconst message = "${message}";\nconsole.log("Processing:", message);\n\`\`\`\n\nHope this helps!`,
 
-						`Here are some great video tutorials on "${message}":\n\n## Video Resources\n\nCheck out these helpful videos to learn more!\n\n**Watchtower of Turkey - Beautiful Timelapse:**\nhttps://vimeo.com/148751763\n\nAn amazing visual journey showcasing stunning cinematography and beautiful landscapes.\n\n---\n\n**The Mountain - Epic Time-lapse:**\nhttps://vimeo.com/76979871\n\nWatch this breathtaking time-lapse of mountain landscapes with stunning night skies.\n\n---\n\n**Life in a Day:**\nhttps://vimeo.com/336812660\n\nA creative exploration of everyday moments captured beautifully on film.\n\n---\n\n💡 **Tip**: All videos are embedded directly in the chat for easy viewing! Vimeo videos work great on localhost for testing.`
-					];
+				`Regarding "${message}", here's a comprehensive answer:\n\n> This is a blockquote with important information.\n\nYou can create lists:\n\n1. First item\n2. Second item with **bold**\n3. Third item with *italics*\n\nAnd unordered lists:\n\n- Feature A\n- Feature B\n- Feature C\n\n---\n\nCheck out this Python code:\n\n\`\`\`python\ndef hello(name):\n    return f"Hello, {name}!"\n\nprint(hello("${message}"))\n\`\`\``,
 
-					// If message contains keywords, show relevant response
-					let response: string;
-					if (shouldShowVideos) {
-						response = responses[5]!;  // The video response is at index 5
-					} else if (shouldShowImages) {
-						response = responses[4]!;  // The image gallery response is at index 4
-					} else {
-						response = responses[Math.floor(Math.random() * 4)]!;  // Random from first 4
-					}
+				`Let me explain "${message}" step by step:\n\n### Step 1: Understanding\n\nFirst, you need to understand the basics. The \`concept\` involves several key components.\n\n### Step 2: Implementation\n\nHere's a simple implementation:\n\n\`\`\`typescript\ninterface Config {\n  name: string;\n  value: number;\n}\n\nconst config: Config = {\n  name: "${message}",\n  value: 42\n};\n\`\`\`\n\n### Step 3: Testing\n\nAlways test your code! Use **unit tests** and *integration tests* for best results.`,
 
-					const words = response.split(' ');
+				`Here are some example images related to "${message}":\n\n## Image Gallery Demo\n\nClick on any image to view it in the lightbox with full navigation support!\n\n![Mountain Landscape](https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&h=600&fit=crop "Beautiful mountain view with snow-capped peaks")\n\n![Ocean Sunset](https://images.unsplash.com/photo-1507525428034-b723cf961d3e?w=800&h=600&fit=crop "Stunning sunset over the ocean with vibrant colors")\n\n![Forest Path](https://images.unsplash.com/photo-1441974231531-c6227db76b6e?w=800&h=600&fit=crop "Peaceful forest path surrounded by tall trees")\n\n![City Skyline](https://images.unsplash.com/photo-1480714378408-67cf0d13bc1b?w=800&h=600&fit=crop "Modern city skyline at night with illuminated buildings")\n\n---\n\nThe image gallery supports:\n- **Touch gestures** - Swipe left/right to navigate\n- **Keyboard navigation** - Use arrow keys, Home, End, Esc\n- **Accessibility** - Full ARIA labels and focus management\n- **Animations** - Smooth transitions with reduced motion support`,
 
-					// Stream word by word
-					for (const word of words) {
-						// Check abort before each chunk
-						if (abortController.signal.aborted) {
-							return;
-						}
+				`Here are some great video tutorials on "${message}":\n\n## Video Resources\n\nCheck out these helpful videos to learn more!\n\n**Watchtower of Turkey - Beautiful Timelapse:**\nhttps://vimeo.com/148751763\n\nAn amazing visual journey showcasing stunning cinematography and beautiful landscapes.\n\n---\n\n**The Mountain - Epic Time-lapse:**\nhttps://vimeo.com/76979871\n\nWatch this breathtaking time-lapse of mountain landscapes with stunning night skies.\n\n---\n\n**Life in a Day:**\nhttps://vimeo.com/336812660\n\nA creative exploration of everyday moments captured beautifully on film.\n\n---\n\n💡 **Tip**: All videos are embedded directly in the chat for easy viewing! Vimeo videos work great on localhost for testing.`
+			];
 
-						await new Promise((resolve) => setTimeout(resolve, 50));
-						onChunk(word + ' ');
-					}
+			// If message contains keywords, show relevant response
+			let response: string;
+			if (shouldShowVideos) {
+				response = responses[5]!;  // The video response is at index 5
+			} else if (shouldShowImages) {
+				response = responses[4]!;  // The image gallery response is at index 4
+			} else {
+				response = responses[Math.floor(Math.random() * 4)]!;  // Random from first 4
+			}
 
-					// Only call onComplete if not aborted
-					if (!abortController.signal.aborted) {
-						onComplete();
-					}
-				} catch (error) {
-					if (!abortController.signal.aborted) {
-						onError(error instanceof Error ? error.message : 'Unknown error');
-					}
-				}
-			})();
+			const words = response.split(' ');
 
-			return abortController;
+			// Stream word by word
+			for (const word of words) {
+				await new Promise((resolve) => setTimeout(resolve, 50));
+				yield word + ' ';
+			}
 		},
 
 		generateId: () => crypto.randomUUID(),
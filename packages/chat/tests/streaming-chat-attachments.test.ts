@@ -23,10 +23,8 @@ import {
 } from '../src/lib/streaming-chat/utils';
 
 describe('StreamingChat Attachments', () => {
-	const mockStreamMessage = vi.fn((message, onChunk, onComplete, onError) => {
+	const mockStreamMessage = vi.fn(async function* (_message: string) {
 		// Simulate immediate completion for testing
-		setTimeout(() => onComplete(), 0);
-		return new AbortController();
 	});
 
 	const dependencies: StreamingChatDependencies = {
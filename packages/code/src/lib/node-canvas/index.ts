@@ -33,6 +33,7 @@ export type {
   NodeCanvasState,
   NodeCanvasAction,
   NodeCanvasDependencies,
+  NodeCanvasSnapshot,
   NodeTypeDefinition,
   PortDefinition,
   ConnectionValidation,
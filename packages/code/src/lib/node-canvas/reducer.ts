@@ -9,14 +9,47 @@ import type { Node, Edge } from '@xyflow/svelte';
 import type {
   NodeCanvasState,
   NodeCanvasAction,
-  NodeCanvasDependencies
+  NodeCanvasDependencies,
+  NodeCanvasSnapshot
 } from './types.js';
 import type { EffectType } from '@composable-svelte/core';
-import { Effect } from '@composable-svelte/core';
+import { Effect, createSystemClock, undoable } from '@composable-svelte/core';
+
+/**
+ * Time window in which consecutive moves of the same node
+ * (e.g. one drag gesture) are undone as a single step.
+ */
+const MOVE_GROUP_WINDOW_MS = 500;
+
+const systemClock = createSystemClock();
+
+const historyReducer = undoable<NodeCanvasState, NodeCanvasAction, NodeCanvasSnapshot, NodeCanvasDependencies>(
+  canvasReducer,
+  {
+    snapshot: (state) => ({ nodes: state.nodes, edges: state.edges }),
+    restore: (state, { nodes, edges }) => ({
+      ...state,
+      nodes,
+      edges,
+      // Drop selections of nodes/edges that no longer exist
+      selectedNodes: new Set([...state.selectedNodes].filter((id) => id in nodes)),
+      selectedEdges: new Set([...state.selectedEdges].filter((id) => id in edges)),
+      connectionInProgress: null
+    }),
+    groupBy: (action) => (action.type === 'moveNode' ? `moveNode:${action.nodeId}` : null),
+    groupWindowMs: MOVE_GROUP_WINDOW_MS,
+    clock: (deps) => deps.clock ?? systemClock
+  }
+);
 
 /**
  * Node canvas reducer - pure function handling all state transitions.
  *
+ * Undo/redo of nodes and edges is provided by `undoable()`:
+ * - Consecutive `moveNode` actions for the same node are coalesced
+ * - `beginTransaction`/`endTransaction` group several actions into one step
+ * - Viewport, selection and configuration changes are not recorded
+ *
  * @param state - Current canvas state
  * @param action - Action to process
  * @param deps - Injectable dependencies (validation, ID generation, etc.)
@@ -29,6 +62,23 @@ export function nodeCanvasReducer<
   state: NodeCanvasState<NodeData, EdgeData>,
   action: NodeCanvasAction<NodeData, EdgeData>,
   deps: NodeCanvasDependencies = {}
+): [NodeCanvasState<NodeData, EdgeData>, EffectType<NodeCanvasAction<NodeData, EdgeData>>] {
+  return historyReducer(state as NodeCanvasState, action as NodeCanvasAction, deps) as [
+    NodeCanvasState<NodeData, EdgeData>,
+    EffectType<NodeCanvasAction<NodeData, EdgeData>>
+  ];
+}
+
+/**
+ * Canvas reducer without history handling.
+ */
+function canvasReducer<
+  NodeData extends Record<string, unknown> = Record<string, unknown>,
+  EdgeData extends Record<string, unknown> = Record<string, unknown>
+>(
+  state: NodeCanvasState<NodeData, EdgeData>,
+  action: NodeCanvasAction<NodeData, EdgeData>,
+  deps: NodeCanvasDependencies = {}
 ): [NodeCanvasState<NodeData, EdgeData>, EffectType<NodeCanvasAction<NodeData, EdgeData>>] {
   switch (action.type) {
     // ========================================================================
@@ -457,10 +507,11 @@ export function nodeCanvasReducer<
     }
 
     case 'undo':
-    case 'redo': {
-      // Undo/redo will be implemented as a higher-order reducer
-      // For now, return current state
-      console.warn(`[NodeCanvas] ${action.type} not yet implemented`);
+    case 'redo':
+    case 'beginTransaction':
+    case 'endTransaction':
+    case 'clearHistory': {
+      // Handled by undoable() in nodeCanvasReducer
       return [state, Effect.none()];
     }
 
@@ -6,7 +6,8 @@
  */
 
 import type { Node, Edge, Viewport } from '@xyflow/svelte';
-import type { EffectType } from '@composable-svelte/core';
+import type { Clock, EffectType, UndoHistory } from '@composable-svelte/core';
+import { createUndoHistory } from '@composable-svelte/core';
 
 // ============================================================================
 // State
@@ -78,6 +79,23 @@ export interface NodeCanvasState<
    * Grid spacing (if snapToGrid is enabled).
    */
   gridSize: number;
+
+  /**
+   * Undo/redo history of nodes and edges.
+   * Managed by nodeCanvasReducer; viewport and selection are not recorded.
+   */
+  history: UndoHistory<NodeCanvasSnapshot<NodeData, EdgeData>>;
+}
+
+/**
+ * Part of the canvas state restored by undo/redo.
+ */
+export interface NodeCanvasSnapshot<
+  NodeData extends Record<string, unknown> = Record<string, unknown>,
+  EdgeData extends Record<string, unknown> = Record<string, unknown>
+> {
+  nodes: Record<string, Node<NodeData>>;
+  edges: Record<string, Edge<EdgeData>>;
 }
 
 // ============================================================================
@@ -142,8 +160,13 @@ export type NodeCanvasAction<
   // Batch operations
   | { type: 'importGraph'; nodes: Node<NodeData>[]; edges: Edge<EdgeData>[] }
   | { type: 'clearCanvas' }
+
+  // History operations
   | { type: 'undo' }
-  | { type: 'redo' };
+  | { type: 'redo' }
+  | { type: 'beginTransaction' }
+  | { type: 'endTransaction' }
+  | { type: 'clearHistory' };
 
 // ============================================================================
 // Node Types & Validation
@@ -266,6 +289,12 @@ export interface NodeCanvasDependencies {
     nodes: Node[],
     edges: Edge[]
   ) => Record<string, { x: number; y: number }>;
+
+  /**
+   * Clock used to group consecutive node moves into one undo step.
+   * Defaults to the system clock.
+   */
+  clock?: Clock;
 }
 
 // ============================================================================
@@ -313,6 +342,7 @@ export function createInitialNodeCanvasState<
     showControls: true,
     snapToGrid: false,
     gridSize: 15,
+    history: createUndoHistory(),
     ...overrides
   };
 }
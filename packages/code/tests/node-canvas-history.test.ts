@@ -0,0 +1,112 @@
+/**
+ * NodeCanvas undo/redo tests
+ *
+ * Tests call the reducer directly - no component mounting needed
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Node } from '@xyflow/svelte';
+import { createMockClock, type MockClock } from '@composable-svelte/core';
+import { nodeCanvasReducer } from '../src/lib/node-canvas/reducer';
+import {
+	createInitialNodeCanvasState,
+	type NodeCanvasAction,
+	type NodeCanvasState
+} from '../src/lib/node-canvas/types';
+
+const node = (id: string, x = 0, y = 0): Node => ({ id, position: { x, y }, data: {} });
+
+let clock: MockClock;
+
+function apply(state: NodeCanvasState, ...actions: NodeCanvasAction[]): NodeCanvasState {
+	return actions.reduce((current, action) => nodeCanvasReducer(current, action, { clock })[0], state);
+}
+
+describe('NodeCanvas history', () => {
+	beforeEach(() => {
+		clock = createMockClock();
+	});
+
+	it('undoes and redoes node and edge changes', () => {
+		const state = apply(
+			createInitialNodeCanvasState(),
+			{ type: 'addNode', node: node('a') },
+			{ type: 'addNode', node: node('b') },
+			{ type: 'addEdge', edge: { id: 'a-b', source: 'a', target: 'b' } }
+		);
+
+		const undone = apply(state, { type: 'undo' }, { type: 'undo' });
+		expect(Object.keys(undone.nodes)).toEqual(['a']);
+		expect(undone.edges).toEqual({});
+
+		const redone = apply(undone, { type: 'redo' }, { type: 'redo' });
+		expect(Object.keys(redone.nodes)).toEqual(['a', 'b']);
+		expect(Object.keys(redone.edges)).toEqual(['a-b']);
+	});
+
+	it('drops selections of nodes removed by undo', () => {
+		const state = apply(
+			createInitialNodeCanvasState(),
+			{ type: 'addNode', node: node('a') },
+			{ type: 'selectNode', nodeId: 'a' }
+		);
+
+		const undone = apply(state, { type: 'undo' });
+
+		expect(undone.nodes).toEqual({});
+		expect(undone.selectedNodes.size).toBe(0);
+	});
+
+	it('undoes moves of one drag gesture as a single step', () => {
+		let state = apply(createInitialNodeCanvasState(), { type: 'addNode', node: node('a') });
+
+		// Drag: moves closer together than MOVE_GROUP_WINDOW_MS
+		for (let x = 10; x <= 50; x += 10) {
+			state = apply(state, { type: 'moveNode', nodeId: 'a', position: { x, y: 0 } });
+			clock.advance(100);
+		}
+
+		const undone = apply(state, { type: 'undo' });
+		expect(undone.nodes['a']?.position).toEqual({ x: 0, y: 0 });
+	});
+
+	it('records moves after the group window as separate steps', () => {
+		let state = apply(
+			createInitialNodeCanvasState(),
+			{ type: 'addNode', node: node('a') },
+			{ type: 'moveNode', nodeId: 'a', position: { x: 10, y: 0 } }
+		);
+
+		clock.advance(600);
+		state = apply(state, { type: 'moveNode', nodeId: 'a', position: { x: 20, y: 0 } });
+
+		const undone = apply(state, { type: 'undo' });
+		expect(undone.nodes['a']?.position).toEqual({ x: 10, y: 0 });
+	});
+
+	it('does not group moves of different nodes', () => {
+		const state = apply(
+			createInitialNodeCanvasState(),
+			{ type: 'addNode', node: node('a') },
+			{ type: 'addNode', node: node('b') },
+			{ type: 'moveNode', nodeId: 'a', position: { x: 10, y: 0 } },
+			{ type: 'moveNode', nodeId: 'b', position: { x: 20, y: 0 } }
+		);
+
+		const undone = apply(state, { type: 'undo' });
+		expect(undone.nodes['a']?.position).toEqual({ x: 10, y: 0 });
+		expect(undone.nodes['b']?.position).toEqual({ x: 0, y: 0 });
+	});
+
+	it('does not record viewport changes', () => {
+		const state = apply(
+			createInitialNodeCanvasState(),
+			{ type: 'addNode', node: node('a') },
+			{ type: 'setViewport', viewport: { x: 100, y: 50, zoom: 2 } }
+		);
+
+		const undone = apply(state, { type: 'undo' });
+		expect(undone.nodes).toEqual({});
+		expect(undone.viewport).toEqual({ x: 100, y: 50, zoom: 2 });
+	});
+});
@@ -2,31 +2,28 @@
 // Response Caching Layer
 // ============================================================================
 
-import type { APIResponse, CacheConfig, HTTPMethod, RequestConfig } from './types.js';
-
-// ============================================================================
-// Cache Entry
-// ============================================================================
-
-interface CacheEntry<T> {
-  response: APIResponse<T>;
-  timestamp: number;
-  ttl: number;
-}
-
-// ============================================================================
-// Cache State
-// ============================================================================
+import { getByteSize } from '../dependencies/utils.js';
+import type { Storage } from '../dependencies/storage.js';
+import type {
+  APIResponse,
+  CacheBackend,
+  CacheConfig,
+  CacheEntry,
+  CacheStore,
+  CacheStoreConfig,
+  HTTPMethod,
+  RequestConfig
+} from './types.js';
 
 /**
- * In-memory cache storage.
+ * Default TTL (5 minutes).
  */
-const cache = new Map<string, CacheEntry<any>>();
+const DEFAULT_TTL = 300000;
 
 /**
- * Default TTL (5 minutes).
+ * Default maximum number of entries.
  */
-const DEFAULT_TTL = 300000;
+const DEFAULT_MAX_ENTRIES = 1000;
 
 // ============================================================================
 // Cache Key Generation
@@ -95,213 +92,294 @@ function generateCacheKey(
 }
 
 // ============================================================================
-// Cache Operations
+// Cache Backends
 // ============================================================================
 
 /**
- * Check if cache entry is still valid (not expired).
+ * In-memory backend. Each CacheStore gets its own Map by default.
  */
-function isCacheValid<T>(entry: CacheEntry<T>): boolean {
-  const now = Date.now();
-  return now - entry.timestamp < entry.ttl;
+export function createMemoryCacheBackend(): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: (key) => entries.get(key) ?? null,
+    set: (key, entry) => {
+      entries.set(key, entry);
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    keys: () => [...entries.keys()],
+    clear: () => entries.clear()
+  };
 }
 
 /**
- * Get cached response if available and valid.
+ * Backend on a Storage from `dependencies/` (e.g. createLocalStorage()), so
+ * cached responses survive reloads. Give the storage its own prefix:
+ * `clear()` clears the whole storage.
+ *
+ * @example
+ * ```typescript
+ * const api = createAPIClient({
+ *   cache: true,
+ *   cacheStore: createCacheStore({
+ *     backend: createStorageCacheBackend(createLocalStorage({ prefix: 'api-cache:' })),
+ *     maxBytes: 2_000_000
+ *   })
+ * });
+ * ```
  */
-export function getCachedResponse<T>(
-  method: HTTPMethod,
-  url: string,
-  config?: RequestConfig,
-  cacheConfig?: boolean | CacheConfig
-): APIResponse<T> | null {
-  // Only cache GET requests
-  if (method !== 'GET') {
-    return null;
-  }
-
-  // Check if caching is disabled
-  if (cacheConfig === false) {
-    return null;
-  }
-
-  // Generate cache key
-  const key = generateCacheKey(
-    method,
-    url,
-    config,
-    typeof cacheConfig === 'object' ? cacheConfig : undefined
-  );
-
-  // Check cache
-  const entry = cache.get(key);
-  if (!entry) {
-    return null;
-  }
-
-  // Check if valid
-  if (!isCacheValid(entry)) {
-    cache.delete(key);
-    return null;
-  }
-
-  // Return cached response with cached flag
+export function createStorageCacheBackend(storage: Storage<CacheEntry>): CacheBackend {
   return {
-    ...entry.response,
-    cached: true
+    get: (key) => storage.getItem(key),
+    set: (key, entry) => storage.setItem(key, entry),
+    delete: (key) => storage.removeItem(key),
+    keys: () => storage.keys(),
+    clear: () => storage.clear()
   };
 }
 
+// ============================================================================
+// Cache Store
+// ============================================================================
+
 /**
- * Store response in cache.
+ * Check if an entry is within its TTL.
  */
-export function setCachedResponse<T>(
-  method: HTTPMethod,
-  url: string,
-  response: APIResponse<T>,
-  config?: RequestConfig,
-  cacheConfig?: boolean | CacheConfig
-): void {
-  // Only cache GET requests
-  if (method !== 'GET') {
-    return;
-  }
-
-  // Check if caching is disabled
-  if (cacheConfig === false) {
-    return;
-  }
-
-  // Determine TTL
-  let ttl = DEFAULT_TTL;
-  if (typeof cacheConfig === 'object' && cacheConfig.ttl !== undefined) {
-    ttl = cacheConfig.ttl;
-  }
+function isFresh(entry: CacheEntry, now: number): boolean {
+  return now - entry.timestamp < entry.ttl;
+}
 
-  // Generate cache key
-  const key = generateCacheKey(
-    method,
-    url,
-    config,
-    typeof cacheConfig === 'object' ? cacheConfig : undefined
-  );
-
-  // Store in cache
-  cache.set(key, {
-    response,
-    timestamp: Date.now(),
-    ttl
-  });
-
-  // Cleanup old entries if cache is getting large
-  if (cache.size > 1000) {
-    cleanupExpiredEntries();
-  }
+/**
+ * Check if an entry may still be served (fresh or stale-while-revalidate).
+ */
+function isUsable(entry: CacheEntry, now: number): boolean {
+  return now - entry.timestamp < entry.ttl + entry.staleTime;
 }
 
 /**
- * Invalidate cache entries matching a pattern.
+ * Check if a URL matches an invalidation pattern.
  *
  * Patterns:
  * - Exact match: "/api/users/123"
  * - Prefix match: "/api/users/*"
  */
-export function invalidateCache(pattern: string): void {
-  const isPrefix = pattern.endsWith('*');
-  const prefix = isPrefix ? pattern.slice(0, -1) : pattern;
+function matchesPattern(url: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? url.startsWith(pattern.slice(0, -1)) : url === pattern;
+}
+
+/**
+ * Approximate size of a response in bytes.
+ */
+function responseSize(response: APIResponse<unknown>): number {
+  try {
+    return getByteSize(JSON.stringify(response));
+  } catch {
+    return 0;
+  }
+}
 
-  const keysToDelete: string[] = [];
+/**
+ * Create a response cache. Every APIClient creates its own unless one is
+ * passed as `cacheStore`.
+ *
+ * Entries beyond `maxEntries` or `maxBytes` are evicted least recently used
+ * first.
+ */
+export function createCacheStore(config: CacheStoreConfig = {}): CacheStore {
+  const {
+    backend = createMemoryCacheBackend(),
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    maxBytes = Infinity
+  } = config;
+
+  // Key → size, in least recently used order (oldest first)
+  const usage = new Map<string, number>();
+  let totalBytes = 0;
+
+  // Pick up entries already in a persistent backend
+  const existing: [string, CacheEntry][] = [];
+  for (const key of backend.keys()) {
+    const entry = backend.get(key);
+    if (entry) {
+      existing.push([key, entry]);
+    }
+  }
+  existing.sort(([, a], [, b]) => a.timestamp - b.timestamp);
+  for (const [key, entry] of existing) {
+    usage.set(key, entry.size);
+    totalBytes += entry.size;
+  }
+
+  function remove(key: string): void {
+    const size = usage.get(key);
+    if (size !== undefined) {
+      usage.delete(key);
+      totalBytes -= size;
+    }
+    backend.delete(key);
+  }
+
+  function touch(key: string, size: number): void {
+    remove(key);
+    usage.set(key, size);
+    totalBytes += size;
+  }
 
-  cache.forEach((_, key) => {
-    // Extract URL from cache key (format: "METHOD::URL::params")
-    const parts = key.split('::');
-    const url = parts[1] || '';
+  function evict(): void {
+    const now = Date.now();
 
-    if (isPrefix) {
-      if (url.startsWith(prefix)) {
-        keysToDelete.push(key);
+    // Expired entries go first
+    if (usage.size > maxEntries || totalBytes > maxBytes) {
+      for (const key of [...usage.keys()]) {
+        const entry = backend.get(key);
+        if (!entry || !isUsable(entry, now)) {
+          remove(key);
+        }
       }
-    } else {
-      if (url === prefix) {
-        keysToDelete.push(key);
+    }
+
+    // Then the least recently used ones
+    for (const key of usage.keys()) {
+      if (usage.size <= maxEntries && totalBytes <= maxBytes) {
+        break;
       }
+      remove(key);
     }
-  });
+  }
 
-  for (let i = 0; i < keysToDelete.length; i++) {
-    const key = keysToDelete[i];
-    if (key !== undefined) {
-      cache.delete(key);
+  function removeWhere(predicate: (entry: CacheEntry) => boolean): void {
+    for (const key of [...usage.keys()]) {
+      const entry = backend.get(key);
+      if (!entry || predicate(entry)) {
+        remove(key);
+      }
     }
   }
-}
 
-/**
- * Invalidate cache based on mutation.
- * This is called after POST/PUT/PATCH/DELETE requests.
- */
-export function invalidateCacheOnMutation(
-  method: HTTPMethod,
-  url: string,
-  cacheConfig?: boolean | CacheConfig
-): void {
-  // Only invalidate for mutation methods
-  if (method === 'GET' || method === 'HEAD' || method === 'OPTIONS') {
-    return;
+  function invalidate(pattern: string): void {
+    removeWhere((entry) => matchesPattern(entry.url, pattern));
   }
 
-  // Check if invalidation is disabled
-  if (typeof cacheConfig === 'object' && cacheConfig.invalidateOnMutation === false) {
-    return;
+  function invalidateTags(tags: string[]): void {
+    removeWhere((entry) => entry.tags.some((tag) => tags.includes(tag)));
   }
 
-  // Invalidate specific patterns if configured
-  if (typeof cacheConfig === 'object' && cacheConfig.invalidates) {
-    for (let i = 0; i < cacheConfig.invalidates.length; i++) {
-      const pattern = cacheConfig.invalidates[i];
-      if (pattern !== undefined) {
-        invalidateCache(pattern);
+  return {
+    get: <T>(
+      method: HTTPMethod,
+      url: string,
+      config?: RequestConfig,
+      cacheConfig?: boolean | CacheConfig
+    ): APIResponse<T> | null => {
+      // Only cache GET requests
+      if (method !== 'GET' || cacheConfig === false) {
+        return null;
       }
-    }
-    return;
-  }
 
-  // Default: invalidate all cache entries with matching URL prefix
-  // Example: POST /api/users -> invalidates /api/users/*
-  const urlWithoutQuery = url.split('?')[0];
-  invalidateCache(`${urlWithoutQuery}*`);
-}
+      const key = generateCacheKey(
+        method,
+        url,
+        config,
+        typeof cacheConfig === 'object' ? cacheConfig : undefined
+      );
+
+      const entry = backend.get(key) as CacheEntry<T> | null;
+      if (!entry) {
+        if (usage.has(key)) remove(key);
+        return null;
+      }
 
-/**
- * Clear all cached responses.
- */
-export function clearCache(): void {
-  cache.clear();
-}
+      const now = Date.now();
+      if (!isUsable(entry, now)) {
+        remove(key);
+        return null;
+      }
 
-/**
- * Remove expired cache entries.
- */
-function cleanupExpiredEntries(): void {
-  const keysToDelete: string[] = [];
+      usage.delete(key);
+      usage.set(key, entry.size);
+
+      // Return cached response with cached flag
+      return {
+        ...entry.response,
+        cached: true,
+        ...(!isFresh(entry, now) && { stale: true })
+      };
+    },
+
+    set: <T>(
+      method: HTTPMethod,
+      url: string,
+      response: APIResponse<T>,
+      config?: RequestConfig,
+      cacheConfig?: boolean | CacheConfig
+    ): void => {
+      // Only cache GET requests
+      if (method !== 'GET' || cacheConfig === false) {
+        return;
+      }
 
-  cache.forEach((entry, key) => {
-    if (!isCacheValid(entry)) {
-      keysToDelete.push(key);
-    }
-  });
+      const options = typeof cacheConfig === 'object' ? cacheConfig : undefined;
+      const key = generateCacheKey(method, url, config, options);
+      const swr = options?.staleWhileRevalidate ?? false;
+
+      // Store the response without the per-call flags
+      const { cached: _cached, stale: _stale, revalidation: _revalidation, ...stored } = response;
+      const entry: CacheEntry<T> = {
+        response: stored,
+        url,
+        timestamp: Date.now(),
+        ttl: options?.ttl ?? DEFAULT_TTL,
+        staleTime: swr === true ? Number.MAX_SAFE_INTEGER : swr === false ? 0 : swr,
+        tags: options?.tags ?? [],
+        size: responseSize(stored)
+      };
+
+      touch(key, entry.size);
+      backend.set(key, entry as CacheEntry);
+      evict();
+    },
+
+    invalidate,
+
+    invalidateTags,
+
+    invalidateOnMutation: (method: HTTPMethod, url: string, cacheConfig?: boolean | CacheConfig): void => {
+      // Only invalidate for mutation methods
+      if (method === 'GET' || method === 'HEAD' || method === 'OPTIONS') {
+        return;
+      }
 
-  for (let i = 0; i < keysToDelete.length; i++) {
-    const key = keysToDelete[i];
-    if (key !== undefined) {
-      cache.delete(key);
-    }
-  }
-}
+      const options = typeof cacheConfig === 'object' ? cacheConfig : undefined;
 
-/**
- * Get cache size (for debugging/testing).
- */
-export function getCacheSize(): number {
-  return cache.size;
+      if (options?.invalidatesTags) {
+        invalidateTags(options.invalidatesTags);
+      }
+
+      // Check if invalidation is disabled
+      if (options?.invalidateOnMutation === false) {
+        return;
+      }
+
+      // Invalidate specific patterns if configured
+      if (options?.invalidates) {
+        options.invalidates.forEach(invalidate);
+        return;
+      }
+
+      // Default: invalidate all cache entries with matching URL prefix
+      // Example: POST /api/users -> invalidates /api/users/*
+      const urlWithoutQuery = url.split('?')[0];
+      invalidate(`${urlWithoutQuery}*`);
+    },
+
+    clear: (): void => {
+      usage.clear();
+      totalBytes = 0;
+      backend.clear();
+    },
+
+    size: (): number => usage.size
+  };
 }
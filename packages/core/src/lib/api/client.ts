@@ -5,13 +5,8 @@
 import { APIError, NetworkError, TimeoutError, ValidationError } from './errors.js';
 import { deduplicateRequest } from './deduplication.js';
 import { retryRequest } from './retry.js';
-import {
-  getCachedResponse,
-  setCachedResponse,
-  invalidateCacheOnMutation,
-  clearCache as clearCacheStorage,
-  invalidateCache as invalidateCachePattern
-} from './cache.js';
+import { createCacheStore } from './cache.js';
+import { parseRequestBody, parseResponse } from './schema.js';
 import type {
   APIClient,
   APIClientConfig,
@@ -30,7 +25,8 @@ import type {
  * Normalize URL by removing duplicate slashes and ensuring proper formatting.
  */
 function normalizeURL(baseURL: string | undefined, path: string): string {
-  if (!baseURL) {
+  // Absolute URLs (e.g. from Link headers) are used as-is
+  if (!baseURL || /^[a-z][a-z\d+.-]*:\/\//i.test(path)) {
     return path;
   }
 
@@ -158,6 +154,7 @@ export function createAPIClient(config: APIClientConfig = {}): APIClient {
     deduplicate = true,
     retry: defaultRetry = false,
     cache: defaultCache = false,
+    cacheStore = createCacheStore(),
     interceptors: initialInterceptors = []
   } = config;
 
@@ -184,7 +181,9 @@ export function createAPIClient(config: APIClientConfig = {}): APIClient {
     // Normalize URL
     const normalizedURL = normalizeURL(baseURL, url);
     const queryString = params ? buildQueryString(params) : '';
-    const fullURL = `${normalizedURL}${queryString}`;
+    const fullURL = normalizedURL.includes('?')
+      ? `${normalizedURL}${queryString.replace(/^\?/, '&')}`
+      : `${normalizedURL}${queryString}`;
 
     // Merge headers
     let headers = mergeHeaders(defaultHeaders, requestHeaders);
@@ -360,16 +359,41 @@ export function createAPIClient(config: APIClientConfig = {}): APIClient {
     url: string,
     config: RequestConfig = {}
   ): Promise<APIResponse<T>> {
+    // Validate the request body before anything is sent
+    config = parseRequestBody(config);
+
     // Determine cache/retry config (merge defaults with request config)
     const cacheConfig = config.cache !== undefined ? config.cache : defaultCache;
     const retryConfig = config.retry !== undefined ? config.retry : defaultRetry;
 
     // Layer 1: Cache (outermost - fastest exit)
-    const cached = getCachedResponse<T>(method, url, config, cacheConfig);
+    const cached = cacheStore.get<T>(method, url, config, cacheConfig);
     if (cached) {
-      return cached;
+      // Stale-while-revalidate: serve the stale response, refetch in background
+      if (cached.stale) {
+        const revalidation = fetchAndCache<T>(method, url, config, cacheConfig, retryConfig);
+        revalidation.catch(() => {
+          // Keep serving the stale response; callers can observe the error
+        });
+        return { ...parseResponse(cached, config), revalidation };
+      }
+      return parseResponse(cached, config);
     }
 
+    return fetchAndCache<T>(method, url, config, cacheConfig, retryConfig);
+  }
+
+  /**
+   * Fetch through deduplication and retry, then invalidate the cache on
+   * mutations and cache GET responses.
+   */
+  async function fetchAndCache<T>(
+    method: HTTPMethod,
+    url: string,
+    config: RequestConfig,
+    cacheConfig: RequestConfig['cache'],
+    retryConfig: RequestConfig['retry']
+  ): Promise<APIResponse<T>> {
     // Layer 2: Deduplication
     const response = await deduplicateRequest<T>(
       method,
@@ -384,15 +408,19 @@ export function createAPIClient(config: APIClientConfig = {}): APIClient {
       )
     );
 
+    // Invalidate cache on mutations. The server has applied the mutation
+    // even when its response fails validation below.
+    cacheStore.invalidateOnMutation(method, url, cacheConfig);
+
+    // Validate before caching, so invalid responses are never stored
+    const validated = parseResponse(response, config);
+
     // Store in cache if applicable
     if (method === 'GET') {
-      setCachedResponse(method, url, response, config, cacheConfig);
+      cacheStore.set(method, url, validated, config, cacheConfig);
     }
 
-    // Invalidate cache on mutations
-    invalidateCacheOnMutation(method, url, cacheConfig);
-
-    return response;
+    return validated;
   }
 
   // ============================================================================
@@ -400,23 +428,23 @@ export function createAPIClient(config: APIClientConfig = {}): APIClient {
   // ============================================================================
 
   return {
-    get: <T = unknown>(url: string, config?: RequestConfig) => {
+    get: <T = unknown>(url: string, config?: RequestConfig<T>) => {
       return executeRequest<T>('GET', url, config);
     },
 
-    post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       return executeRequest<T>('POST', url, { ...config, body });
     },
 
-    put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       return executeRequest<T>('PUT', url, { ...config, body });
     },
 
-    patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       return executeRequest<T>('PATCH', url, { ...config, body });
     },
 
-    delete: <T = unknown>(url: string, config?: RequestConfig) => {
+    delete: <T = unknown>(url: string, config?: RequestConfig<T>) => {
       return executeRequest<T>('DELETE', url, config);
     },
 
@@ -441,11 +469,15 @@ export function createAPIClient(config: APIClientConfig = {}): APIClient {
     },
 
     clearCache: () => {
-      clearCacheStorage();
+      cacheStore.clear();
     },
 
     invalidateCache: (pattern: string) => {
-      invalidateCachePattern(pattern);
+      cacheStore.invalidate(pattern);
+    },
+
+    invalidateTags: (tags: string[]) => {
+      cacheStore.invalidateTags(tags);
     }
   };
 }
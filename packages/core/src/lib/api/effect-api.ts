@@ -11,12 +11,38 @@ import type { APIClient, APIRequest, APIResponse, InferResponse } from './types.
 // Effect.api() Implementation
 // ============================================================================
 
+/**
+ * Dispatch the refreshed response of a stale-while-revalidate cache hit.
+ * If revalidation fails, the stale response stays in place.
+ */
+async function dispatchRevalidation<T, A>(
+  response: APIResponse<T>,
+  onSuccess: (response: APIResponse<T>) => A,
+  dispatch: (action: A) => void
+): Promise<void> {
+  if (!response.revalidation) {
+    return;
+  }
+
+  let fresh: APIResponse<T>;
+  try {
+    fresh = await response.revalidation;
+  } catch {
+    return;
+  }
+  dispatch(onSuccess(fresh));
+}
+
 /**
  * Create an effect for making an API call with success/failure handling.
  *
  * This provides clean integration between the API client and the Effect system,
  * with full type inference for request/response types.
  *
+ * When the client serves a stale cached response (`staleWhileRevalidate`),
+ * `onSuccess` is dispatched twice: with the stale response, then with the
+ * refreshed one.
+ *
  * @param client - API client to use
  * @param request - API request to execute
  * @param onSuccess - Map successful response to action
@@ -47,6 +73,7 @@ export function api<Request extends APIRequest<any>, SuccessAction, FailureActio
     try {
       const response = await client.request<InferResponse<Request>>(request);
       dispatch(onSuccess(response));
+      await dispatchRevalidation(response, onSuccess, dispatch);
     } catch (error: unknown) {
       // Convert to APIError if needed
       if (error instanceof APIError) {
@@ -100,6 +127,7 @@ export function apiFireAndForget<Request extends APIRequest<any>, SuccessAction>
     try {
       const response = await client.request<InferResponse<Request>>(request);
       dispatch(onSuccess(response));
+      await dispatchRevalidation(response, onSuccess, dispatch);
     } catch {
       // Ignore errors
     }
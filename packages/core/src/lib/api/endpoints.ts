@@ -202,6 +202,177 @@ export function createPaginatedEndpoints<T, CreateDTO = Partial<T>, UpdateDTO =
   };
 }
 
+// ============================================================================
+// Cursor Endpoints
+// ============================================================================
+
+/**
+ * Cursor pagination parameters.
+ * A null/undefined cursor requests the first page.
+ */
+export interface CursorParams {
+  cursor?: string | null;
+  limit?: number;
+}
+
+/**
+ * Cursor-paginated response.
+ * `nextCursor` is null on the last page.
+ */
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Query parameter names used by cursor endpoints.
+ */
+export interface CursorEndpointOptions {
+  /**
+   * Name of the cursor query parameter (default: 'cursor').
+   */
+  cursorParam?: string;
+
+  /**
+   * Name of the page size query parameter (default: 'limit').
+   */
+  limitParam?: string;
+}
+
+/**
+ * Cursor-paginated REST endpoints.
+ */
+export interface CursorEndpoints<T, CreateDTO = Partial<T>, UpdateDTO = Partial<T>>
+  extends RESTEndpoints<T, CreateDTO, UpdateDTO> {
+  /**
+   * List resources after an opaque cursor.
+   * GET /resource?cursor=abc&limit=20
+   */
+  listCursor(params: CursorParams, config?: RequestConfig): APIRequest<CursorPaginatedResponse<T>>;
+}
+
+/**
+ * Create cursor-paginated REST endpoints.
+ *
+ * @example
+ * ```typescript
+ * const events = createCursorEndpoints<Event>('/api/events', { cursorParam: 'after' });
+ *
+ * // Usage:
+ * const first = events.listCursor({ limit: 50 });
+ * // GET /api/events?limit=50
+ * const next = events.listCursor({ cursor: response.data.nextCursor, limit: 50 });
+ * // GET /api/events?after=eyJpZCI6NTB9&limit=50
+ * ```
+ */
+export function createCursorEndpoints<T, CreateDTO = Partial<T>, UpdateDTO = Partial<T>>(
+  basePath: string,
+  options: CursorEndpointOptions = {}
+): CursorEndpoints<T, CreateDTO, UpdateDTO> {
+  const { cursorParam = 'cursor', limitParam = 'limit' } = options;
+  const base = createRESTEndpoints<T, CreateDTO, UpdateDTO>(basePath);
+
+  return {
+    ...base,
+
+    listCursor(params: CursorParams, config?: RequestConfig): APIRequest<CursorPaginatedResponse<T>> {
+      return {
+        method: 'GET',
+        url: basePath,
+        config: {
+          ...config,
+          params: {
+            ...config?.params,
+            [cursorParam]: params.cursor,
+            [limitParam]: params.limit
+          }
+        }
+      };
+    }
+  };
+}
+
+// ============================================================================
+// Link Header Endpoints
+// ============================================================================
+
+/**
+ * Parse an RFC 8288 `Link` header into a map of rel to URL.
+ *
+ * @example
+ * ```typescript
+ * parseLinkHeader('<https://api.example.com/items?page=2>; rel="next", <https://api.example.com/items?page=9>; rel="last"');
+ * // { next: 'https://api.example.com/items?page=2', last: 'https://api.example.com/items?page=9' }
+ * ```
+ */
+export function parseLinkHeader(header: string | null | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  const pattern = /<([^>]*)>((?:\s*;\s*[^;,]+)*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(header)) !== null) {
+    const url = match[1]!;
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2] ?? '');
+    if (rel) {
+      // A link may have several space-separated relation types
+      for (const type of rel[1]!.trim().split(/\s+/)) {
+        links[type.toLowerCase()] = url;
+      }
+    }
+  }
+
+  return links;
+}
+
+/**
+ * REST endpoints paginated through `Link` response headers.
+ */
+export interface LinkEndpoints<T, CreateDTO = Partial<T>, UpdateDTO = Partial<T>>
+  extends RESTEndpoints<T, CreateDTO, UpdateDTO> {
+  /**
+   * List a page of resources.
+   * Without a URL: GET /resource. With a URL from the previous response's
+   * `Link: <...>; rel="next"` header: GET that URL.
+   */
+  listPage(url?: string | null, config?: RequestConfig): APIRequest<T[]>;
+}
+
+/**
+ * Create REST endpoints paginated through `Link` headers (GitHub style).
+ *
+ * @example
+ * ```typescript
+ * const issues = createLinkEndpoints<Issue>('/repos/acme/app/issues');
+ *
+ * // Usage:
+ * const response = await client.request(issues.listPage());
+ * const next = parseLinkHeader(response.headers['link']).next;
+ * if (next) {
+ *   await client.request(issues.listPage(next));
+ * }
+ * ```
+ */
+export function createLinkEndpoints<T, CreateDTO = Partial<T>, UpdateDTO = Partial<T>>(
+  basePath: string
+): LinkEndpoints<T, CreateDTO, UpdateDTO> {
+  const base = createRESTEndpoints<T, CreateDTO, UpdateDTO>(basePath);
+
+  return {
+    ...base,
+
+    listPage(url?: string | null, config?: RequestConfig): APIRequest<T[]> {
+      return {
+        method: 'GET',
+        url: url ?? basePath,
+        ...(config !== undefined && { config })
+      };
+    }
+  };
+}
+
 // ============================================================================
 // Search Endpoints
 // ============================================================================
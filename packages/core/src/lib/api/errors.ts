@@ -259,6 +259,7 @@ export class ValidationError extends APIError {
    * - Rails: { errors: { email: ["is invalid"] } }
    * - Laravel: { errors: { email: ["The email field is required."] } }
    * - Generic: { errors: [{ field: "email", message: "..." }] }
+   * - GraphQL: { errors: [{ message: "...", path: ["createUser"], extensions: { field: "email", code: "..." } }] }
    *
    * @private
    */
@@ -291,6 +292,14 @@ export class ValidationError extends APIError {
               code: err.code
             });
           }
+          // GraphQL format: { message: "...", path: ["createUser"], extensions: { field: "email", code: "..." } }
+          else if (err.message && (Array.isArray(err.path) || err.extensions)) {
+            errors.push({
+              field: err.extensions?.field ?? (Array.isArray(err.path) ? err.path.join('.') : ''),
+              message: err.message,
+              code: err.extensions?.code
+            });
+          }
         }
       }
     }
@@ -351,3 +360,71 @@ export class ValidationError extends APIError {
     };
   }
 }
+
+// ============================================================================
+// Schema Mismatch Error
+// ============================================================================
+
+/**
+ * Error thrown when a request body or response does not match the
+ * `requestSchema` / `responseSchema` of the request config.
+ * Raised on the client side, so it is never retried.
+ */
+export class SchemaMismatchError extends APIError {
+  /**
+   * Whether the request body or the response failed validation.
+   */
+  readonly source: 'request' | 'response';
+
+  /**
+   * Schema issues by path (e.g., "items.0.price").
+   */
+  readonly errors: ValidationErrorField[];
+
+  constructor(
+    source: 'request' | 'response',
+    errors: ValidationErrorField[],
+    status: number | null,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ) {
+    const first = errors[0];
+    super(
+      `${source === 'request' ? 'Request body' : 'Response'} does not match schema` +
+        (first ? `: ${first.field ? `${first.field}: ` : ''}${first.message}` : ''),
+      status,
+      body,
+      headers,
+      false // Schema mismatches are not retryable
+    );
+    this.name = 'SchemaMismatchError';
+    this.source = source;
+    this.errors = errors;
+
+    if ('captureStackTrace' in Error) {
+      (Error as any).captureStackTrace(this, SchemaMismatchError);
+    }
+  }
+
+  /**
+   * Get errors for a specific path.
+   */
+  getErrorsForField(field: string): ValidationErrorField[] {
+    return this.errors.filter(e => e.field === field);
+  }
+
+  /**
+   * Check if a specific path has errors.
+   */
+  hasErrorForField(field: string): boolean {
+    return this.errors.some(e => e.field === field);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      source: this.source,
+      errors: this.errors
+    };
+  }
+}
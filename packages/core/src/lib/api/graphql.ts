@@ -0,0 +1,499 @@
+// ============================================================================
+// GraphQL Client - Typed operations over the APIClient transport
+// ============================================================================
+
+/**
+ * createGraphQLClient() sends GraphQL operations as POST requests through an
+ * APIClient, so interceptors, retry, deduplication and timeouts work the
+ * same as for REST calls. Errors from the response's `errors` array are
+ * turned into the API error classes (`APIError`, `ValidationError`).
+ *
+ * Subscriptions run over a WebSocketClient speaking the
+ * `graphql-transport-ws` protocol.
+ *
+ * @example
+ * ```typescript
+ * const GetUser = GraphQL.query<{ user: User }, { id: string }>(`
+ *   query GetUser($id: ID!) { user(id: $id) { id name } }
+ * `);
+ *
+ * const graphql = createGraphQLClient({ baseURL: 'https://api.example.com' });
+ * const response = await graphql.request(GetUser, { id: '1' });
+ * response.data.user.name;
+ * ```
+ */
+
+import { Effect } from '../effect.js';
+import { createAPIClient } from './client.js';
+import { APIError, ValidationError } from './errors.js';
+import { subscribe } from '../websocket/effect-websocket.js';
+import type { Effect as EffectType } from '../types.js';
+import type { APIClient, APIClientConfig, APIResponse, Interceptor, RequestConfig } from './types.js';
+import type { WebSocketClient } from '../websocket/types.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Kind of a GraphQL operation.
+ */
+export type GraphQLOperationKind = 'query' | 'mutation' | 'subscription';
+
+/**
+ * A GraphQL document typed with its result data and variables.
+ * Create with GraphQL.query(), GraphQL.mutation() or GraphQL.subscription().
+ */
+export interface GraphQLOperation<Data, Variables = Record<string, never>> {
+  readonly kind: GraphQLOperationKind;
+  readonly document: string;
+  readonly operationName?: string;
+
+  /**
+   * Type-only marker for inference (never set at runtime).
+   */
+  readonly __types?: { data: Data; variables: Variables };
+}
+
+/**
+ * Error entry of a GraphQL response.
+ */
+export interface GraphQLErrorItem {
+  message: string;
+  locations?: { line: number; column: number }[];
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Body of a GraphQL response.
+ */
+export interface GraphQLResult<Data> {
+  data?: Data | null;
+  errors?: GraphQLErrorItem[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Response of a GraphQL operation.
+ * `errors` is only non-empty with `errorPolicy: 'all'` (partial data).
+ */
+export interface GraphQLResponse<Data> extends APIResponse<Data> {
+  errors: GraphQLErrorItem[];
+}
+
+/**
+ * Variables and request config arguments. Variables can be omitted when the
+ * operation has none.
+ */
+export type GraphQLRequestArgs<Variables> = {} extends Variables
+  ? [variables?: Variables, config?: RequestConfig]
+  : [variables: Variables, config?: RequestConfig];
+
+/**
+ * GraphQL client configuration.
+ * All APIClientConfig options apply to the underlying client.
+ */
+export interface GraphQLClientConfig extends APIClientConfig {
+  /**
+   * GraphQL endpoint path or URL (default: '/graphql').
+   */
+  endpoint?: string;
+
+  /**
+   * Existing API client to send requests through
+   * (default: createAPIClient(config)).
+   */
+  client?: APIClient;
+
+  /**
+   * 'none' (default): any error in `errors` rejects the request.
+   * 'all': responses with data and errors resolve with both.
+   */
+  errorPolicy?: 'none' | 'all';
+}
+
+/**
+ * GraphQL client.
+ */
+export interface GraphQLClient {
+  /**
+   * Send a query or mutation.
+   */
+  request<Data, Variables>(
+    operation: GraphQLOperation<Data, Variables>,
+    ...args: GraphQLRequestArgs<Variables>
+  ): Promise<GraphQLResponse<Data>>;
+
+  /**
+   * Add an interceptor to the underlying API client.
+   */
+  addInterceptor(interceptor: Interceptor): () => void;
+
+  /**
+   * The API client requests are sent through.
+   */
+  readonly api: APIClient;
+}
+
+/**
+ * Messages of the `graphql-transport-ws` protocol.
+ */
+export type GraphQLWSMessage =
+  | { type: 'connection_init'; payload?: Record<string, unknown> }
+  | { type: 'connection_ack'; payload?: Record<string, unknown> }
+  | { type: 'ping'; payload?: Record<string, unknown> }
+  | { type: 'pong'; payload?: Record<string, unknown> }
+  | {
+      type: 'subscribe';
+      id: string;
+      payload: { query: string; variables?: unknown; operationName?: string };
+    }
+  | { type: 'next'; id: string; payload: GraphQLResult<unknown> }
+  | { type: 'error'; id: string; payload: GraphQLErrorItem[] }
+  | { type: 'complete'; id: string };
+
+/**
+ * WebSocket subprotocol for GraphQL subscriptions.
+ */
+export const GRAPHQL_WS_PROTOCOL = 'graphql-transport-ws';
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+function defineOperation<Data, Variables>(
+  kind: GraphQLOperationKind,
+  document: string
+): GraphQLOperation<Data, Variables> {
+  const match = new RegExp(`\\b${kind}\\s+([_A-Za-z][_0-9A-Za-z]*)`).exec(document);
+  return {
+    kind,
+    document,
+    ...(match?.[1] !== undefined && { operationName: match[1] })
+  };
+}
+
+/**
+ * Typed GraphQL operation builders.
+ * The operation name is read from the document.
+ *
+ * @example
+ * ```typescript
+ * const CreatePost = GraphQL.mutation<{ createPost: Post }, { input: NewPost }>(`
+ *   mutation CreatePost($input: NewPost!) { createPost(input: $input) { id } }
+ * `);
+ * ```
+ */
+export const GraphQL = {
+  query: <Data, Variables = Record<string, never>>(document: string): GraphQLOperation<Data, Variables> =>
+    defineOperation('query', document),
+
+  mutation: <Data, Variables = Record<string, never>>(document: string): GraphQLOperation<Data, Variables> =>
+    defineOperation('mutation', document),
+
+  subscription: <Data, Variables = Record<string, never>>(document: string): GraphQLOperation<Data, Variables> =>
+    defineOperation('subscription', document)
+};
+
+// ============================================================================
+// Error Normalization
+// ============================================================================
+
+/**
+ * HTTP statuses for common `extensions.code` values.
+ */
+const ERROR_CODE_STATUS: Record<string, number> = {
+  GRAPHQL_PARSE_FAILED: 400,
+  GRAPHQL_VALIDATION_FAILED: 400,
+  BAD_REQUEST: 400,
+  BAD_USER_INPUT: 422,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  INTERNAL_SERVER_ERROR: 500
+};
+
+/**
+ * Convert the `errors` of a GraphQL response into an API error.
+ *
+ * The first error's `extensions.code` picks the status: BAD_USER_INPUT
+ * becomes a ValidationError (422), UNAUTHENTICATED 401, FORBIDDEN 403 and
+ * so on. Unknown codes keep the HTTP status of the response.
+ * The full response body stays available as `error.body`.
+ */
+export function normalizeGraphQLErrors(
+  errors: GraphQLErrorItem[],
+  status: number | null,
+  body: unknown = { errors },
+  headers: Record<string, string> = {}
+): APIError {
+  const first = errors[0];
+  const code = typeof first?.extensions?.['code'] === 'string' ? first.extensions['code'] : undefined;
+  const message =
+    (first?.message ?? 'GraphQL request failed') +
+    (errors.length > 1 ? ` (and ${errors.length - 1} more)` : '');
+  const mapped = (code !== undefined ? ERROR_CODE_STATUS[code] : undefined) ?? status;
+
+  if (mapped === 422) {
+    return new ValidationError(message, mapped, body, headers);
+  }
+
+  const isRetryable = mapped !== null && (mapped >= 500 || mapped === 408 || mapped === 429);
+  return new APIError(message, mapped, body, headers, isRetryable);
+}
+
+function hasGraphQLErrors(body: unknown): body is GraphQLResult<unknown> & { errors: GraphQLErrorItem[] } {
+  const errors = (body as GraphQLResult<unknown> | null)?.errors;
+  return Array.isArray(errors) && errors.length > 0;
+}
+
+// ============================================================================
+// Core: createGraphQLClient
+// ============================================================================
+
+/**
+ * Create a GraphQL client.
+ *
+ * Queries use the API client's defaults. Mutations are never retried or
+ * deduplicated unless their request config asks for it, since sending them
+ * twice is not safe.
+ *
+ * @example
+ * ```typescript
+ * const graphql = createGraphQLClient({
+ *   baseURL: 'https://api.example.com',
+ *   retry: true,
+ *   interceptors: [authInterceptor]
+ * });
+ *
+ * // Or share an existing client
+ * const graphql = createGraphQLClient({ client: deps.api, endpoint: '/v2/graphql' });
+ * ```
+ */
+export function createGraphQLClient(config: GraphQLClientConfig = {}): GraphQLClient {
+  const { endpoint = '/graphql', client, errorPolicy = 'none', ...clientConfig } = config;
+  const api = client ?? createAPIClient(clientConfig);
+
+  async function request<Data, Variables>(
+    operation: GraphQLOperation<Data, Variables>,
+    ...[variables, requestConfig]: GraphQLRequestArgs<Variables>
+  ): Promise<GraphQLResponse<Data>> {
+    if (operation.kind === 'subscription') {
+      throw new TypeError(
+        `createGraphQLClient: ${operation.operationName ?? 'subscription'} must be sent with Effect.graphqlSubscription()`
+      );
+    }
+
+    const mutationDefaults: RequestConfig =
+      operation.kind === 'mutation' ? { retry: false, deduplicate: false } : {};
+
+    let response: APIResponse<GraphQLResult<Data>>;
+    try {
+      response = await api.request<GraphQLResult<Data>>({
+        method: 'POST',
+        url: endpoint,
+        config: {
+          ...mutationDefaults,
+          ...requestConfig,
+          body: {
+            query: operation.document,
+            ...(variables !== undefined && { variables }),
+            ...(operation.operationName !== undefined && { operationName: operation.operationName })
+          }
+        }
+      });
+    } catch (error) {
+      // Servers often answer invalid operations with 400 and an errors array
+      if (error instanceof APIError && !(error instanceof ValidationError) && hasGraphQLErrors(error.body)) {
+        throw normalizeGraphQLErrors(error.body.errors, error.status, error.body, error.headers);
+      }
+      throw error;
+    }
+
+    const { data, errors = [] } = response.data ?? {};
+    if (data === undefined || data === null || (errors.length > 0 && errorPolicy === 'none')) {
+      throw normalizeGraphQLErrors(
+        errors.length > 0 ? errors : [{ message: 'GraphQL response has no data' }],
+        response.status,
+        response.data,
+        response.headers
+      );
+    }
+
+    return { status: response.status, headers: response.headers, data, errors };
+  }
+
+  return {
+    request,
+    addInterceptor: (interceptor) => api.addInterceptor(interceptor),
+    api
+  };
+}
+
+// ============================================================================
+// Effects
+// ============================================================================
+
+/**
+ * Create an effect that sends a query or mutation.
+ *
+ * @example
+ * ```typescript
+ * case 'loadUser':
+ *   return [
+ *     { ...state, loading: true },
+ *     Effect.graphql(
+ *       deps.graphql,
+ *       GetUser,
+ *       { id: action.id },
+ *       (data) => ({ type: 'userLoaded', user: data.user }),
+ *       (error) => ({ type: 'userFailed', error: error.message })
+ *     )
+ *   ];
+ * ```
+ */
+export function graphql<Data, Variables, SuccessAction, FailureAction>(
+  client: GraphQLClient,
+  operation: GraphQLOperation<Data, Variables>,
+  variables: Variables,
+  onSuccess: (data: Data, response: GraphQLResponse<Data>) => SuccessAction,
+  onFailure: (error: APIError) => FailureAction
+): EffectType<SuccessAction | FailureAction> {
+  return Effect.run(async (dispatch) => {
+    try {
+      const response = await client.request(operation, ...([variables] as GraphQLRequestArgs<Variables>));
+      dispatch(onSuccess(response.data, response));
+    } catch (error: unknown) {
+      dispatch(
+        onFailure(
+          error instanceof APIError
+            ? error
+            : new APIError(error instanceof Error ? error.message : String(error), null, null, {}, false)
+        )
+      );
+    }
+  });
+}
+
+/**
+ * Create an effect that runs a GraphQL subscription over a WebSocket using
+ * the `graphql-transport-ws` protocol.
+ *
+ * The socket must be connected with GRAPHQL_WS_PROTOCOL and have sent
+ * `graphqlConnectionInit()`. The subscription id doubles as the protocol
+ * operation id; `Effect.cancel(id)` stops listening and sends `complete`.
+ *
+ * @example
+ * ```typescript
+ * case 'watchMessages':
+ *   return [
+ *     state,
+ *     Effect.graphqlSubscription(
+ *       deps.graphqlSocket,
+ *       'messages',
+ *       OnMessage,
+ *       { room: state.room },
+ *       (data) => ({ type: 'messageReceived', message: data.message }),
+ *       (error) => ({ type: 'subscriptionFailed', error: error.message })
+ *     )
+ *   ];
+ * ```
+ */
+export function graphqlSubscription<Data, Variables, NextAction, ErrorAction = never>(
+  client: WebSocketClient<GraphQLWSMessage>,
+  id: string,
+  operation: GraphQLOperation<Data, Variables>,
+  variables: Variables,
+  onNext: (data: Data) => NextAction,
+  onError?: (error: APIError) => ErrorAction
+): EffectType<NextAction | ErrorAction> {
+  const fail = (error: APIError): NextAction | ErrorAction | null => (onError ? onError(error) : null);
+
+  const listen = subscribe<GraphQLWSMessage, NextAction | ErrorAction>(client, id, ({ data: message }) => {
+    if (!('id' in message) || message.id !== id) {
+      return null;
+    }
+
+    switch (message.type) {
+      case 'next': {
+        const { data, errors = [] } = message.payload as GraphQLResult<Data>;
+        if (errors.length > 0 || data === undefined || data === null) {
+          return fail(normalizeGraphQLErrors(errors, null, message.payload));
+        }
+        return onNext(data);
+      }
+      case 'error':
+        return fail(normalizeGraphQLErrors(message.payload, null, message.payload));
+      default:
+        return null;
+    }
+  });
+
+  // Run the listener inside this subscription so that cancelling `id`
+  // also completes the operation on the server
+  return Effect.subscription<NextAction | ErrorAction>(id, (dispatch) => {
+    const stopListening =
+      listen._tag === 'Subscription' ? listen.setup(dispatch) : () => {};
+
+    client
+      .send({
+        id,
+        type: 'subscribe',
+        payload: {
+          query: operation.document,
+          ...(variables !== undefined && { variables }),
+          ...(operation.operationName !== undefined && { operationName: operation.operationName })
+        }
+      })
+      .catch((error: unknown) => {
+        const action = fail(new APIError(error instanceof Error ? error.message : String(error), null, null, {}, true));
+        if (action !== null) dispatch(action);
+      });
+
+    return async () => {
+      await stopListening();
+      if (client.state.status === 'connected') {
+        await client.send({ id, type: 'complete' }).catch(() => {});
+      }
+    };
+  });
+}
+
+/**
+ * The `connection_init` message to send once the socket is connected.
+ *
+ * @example
+ * ```typescript
+ * case 'socketEvent':
+ *   if (action.event.type === 'connected') {
+ *     return [state, Effect.websocket.send(deps.graphqlSocket, graphqlConnectionInit({ token }))];
+ *   }
+ *   return [state, Effect.none()];
+ * ```
+ */
+export function graphqlConnectionInit(payload?: Record<string, unknown>): GraphQLWSMessage {
+  return { type: 'connection_init', ...(payload !== undefined && { payload }) };
+}
+
+// ============================================================================
+// Augment Effect Namespace
+// ============================================================================
+
+declare module '../effect.js' {
+  interface Effect {
+    /**
+     * Create an effect that sends a GraphQL query or mutation.
+     */
+    graphql: typeof graphql;
+
+    /**
+     * Create an effect that runs a GraphQL subscription over a WebSocket.
+     */
+    graphqlSubscription: typeof graphqlSubscription;
+  }
+}
+
+// Add to Effect namespace
+(Effect as any).graphql = graphql;
+(Effect as any).graphqlSubscription = graphqlSubscription;
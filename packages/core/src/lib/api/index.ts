@@ -8,6 +8,7 @@ export {
   NetworkError,
   TimeoutError,
   ValidationError,
+  SchemaMismatchError,
   type ValidationErrorField
 } from './errors.js';
 
@@ -18,6 +19,10 @@ export type {
   RequestConfig,
   RetryConfig,
   CacheConfig,
+  CacheEntry,
+  CacheBackend,
+  CacheStore,
+  CacheStoreConfig,
   APIRequest,
   APIResponse,
   RequestInterceptor,
@@ -35,6 +40,13 @@ export { Request } from './types.js';
 // Client factory
 export { createAPIClient } from './client.js';
 
+// Response cache
+export {
+  createCacheStore,
+  createMemoryCacheBackend,
+  createStorageCacheBackend
+} from './cache.js';
+
 // Testing utilities
 export {
   createMockAPI,
@@ -48,20 +60,118 @@ export {
   type RecordedCall
 } from './testing/spy-client.js';
 
+export {
+  createOpenAPIRoutes,
+  createOpenAPIMock,
+  createOpenAPIEndpoints,
+  parseOpenAPI,
+  validateSchema,
+  ContractError,
+  type OpenAPIDocument,
+  type OpenAPIPathItem,
+  type OpenAPIOperation,
+  type OpenAPIRequestBody,
+  type OpenAPIResponseObject,
+  type OpenAPIMediaType,
+  type OpenAPISchema,
+  type OpenAPIReference,
+  type OpenAPIMockOptions,
+  type SchemaViolation
+} from './testing/openapi.js';
+
 // Endpoint helpers
 export {
   createRESTEndpoints,
   createPaginatedEndpoints,
+  createCursorEndpoints,
+  createLinkEndpoints,
   createSearchEndpoints,
   createFullEndpoints,
+  parseLinkHeader,
   type RESTEndpoints,
   type PaginatedEndpoints,
+  type CursorEndpoints,
+  type CursorEndpointOptions,
+  type LinkEndpoints,
   type SearchEndpoints,
   type FullEndpoints,
   type PaginationParams,
   type PaginatedResponse,
+  type CursorParams,
+  type CursorPaginatedResponse,
   type SearchParams
 } from './endpoints.js';
 
+// Queries & mutations
+export {
+  createQuery,
+  createMutation,
+  createQueryState,
+  createMutationState,
+  startQuery,
+  stopQuery,
+  fetchQuery,
+  refetchQuery,
+  invalidateQueries,
+  mutate,
+  resetMutation,
+  type RequestStatus,
+  type QueryState,
+  type MutationState,
+  type QueryAction,
+  type MutationAction,
+  type QueryConfig,
+  type MutationConfig,
+  type OptimisticUpdate
+} from './query.js';
+
+// Infinite lists
+export {
+  createInfiniteList,
+  createInfiniteListState,
+  loadFirstPage,
+  loadNextPage,
+  getCursorPage,
+  getLinkPage,
+  appendPage,
+  type Page,
+  type InfiniteListState,
+  type InfiniteListAction,
+  type InfiniteListConfig
+} from './infinite.js';
+
+// GraphQL (side-effect: augments Effect namespace)
+export {
+  createGraphQLClient,
+  GraphQL,
+  graphql,
+  graphqlSubscription,
+  graphqlConnectionInit,
+  normalizeGraphQLErrors,
+  GRAPHQL_WS_PROTOCOL,
+  type GraphQLClient,
+  type GraphQLClientConfig,
+  type GraphQLOperation,
+  type GraphQLOperationKind,
+  type GraphQLRequestArgs,
+  type GraphQLResponse,
+  type GraphQLResult,
+  type GraphQLErrorItem,
+  type GraphQLWSMessage
+} from './graphql.js';
+
+// Offline mutation queue (side-effect: augments Effect namespace)
+export {
+  createOfflineAPIClient,
+  createBrowserNetworkStatus,
+  offlineQueue,
+  type OfflineAPIClient,
+  type OfflineAPIClientConfig,
+  type OfflineQueueEvent,
+  type QueuedRequest,
+  type QueueableHTTPMethod,
+  type NetworkStatus
+} from './offline.js';
+
 // Effect integration (side-effect: augments Effect namespace)
 export { api, apiFireAndForget, apiAll } from './effect-api.js';
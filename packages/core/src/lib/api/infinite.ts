@@ -0,0 +1,356 @@
+// ============================================================================
+// Infinite Lists - Cursor-paginated lists that grow page by page
+// ============================================================================
+
+/**
+ * createInfiniteList() wraps a reducer so that a slice of its state holds a
+ * list loaded page by page from cursor or `Link` header paginated endpoints.
+ * Pages are appended and deduplicated by id, so items that shift between
+ * pages while the user scrolls are not shown twice.
+ *
+ * Like createQuery(), it handles its own namespaced actions (`infinite/*`)
+ * that carry a key, and reloads the first page on `invalidateQueries()`.
+ *
+ * @example
+ * ```typescript
+ * const events = createCursorEndpoints<Event>('/api/events');
+ *
+ * const reducer = createInfiniteList(appReducer, {
+ *   key: 'events',
+ *   get: (state) => state.events,
+ *   set: (state, events) => ({ ...state, events }),
+ *   client: (deps) => deps.api,
+ *   request: (cursor) => events.listCursor({ cursor, limit: 50 }),
+ *   getPage: getCursorPage
+ * });
+ *
+ * store.dispatch(loadFirstPage('events'));
+ * store.dispatch(loadNextPage('events'));
+ * ```
+ */
+
+import { Effect } from '../effect.js';
+import { parseLinkHeader } from './endpoints.js';
+import { requestReducers, matchesKey, toAPIError, type RequestStatus, type QueryAction } from './query.js';
+import type { APIError } from './errors.js';
+import type { Reducer, Effect as EffectType } from '../types.js';
+import type { APIClient, APIRequest, APIResponse } from './types.js';
+import type { CursorPaginatedResponse } from './endpoints.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * One page of items and the cursor of the page after it.
+ * `nextCursor` is null on the last page.
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * State of an infinite list.
+ */
+export interface InfiniteListState<T> {
+  /**
+   * Status of the first page. Stays 'success' while later pages load.
+   */
+  status: RequestStatus;
+
+  /**
+   * All loaded items, in page order without duplicates.
+   */
+  items: T[];
+
+  /**
+   * Cursor for the next page (null before the first page and after the last).
+   */
+  nextCursor: string | null;
+
+  /**
+   * Whether there is a page after the loaded ones.
+   */
+  hasNextPage: boolean;
+
+  /**
+   * Error of the last failed page request.
+   */
+  error: APIError | null;
+
+  /**
+   * Whether a page after the first is being fetched.
+   */
+  isFetchingNextPage: boolean;
+
+  /**
+   * Id of the latest page request. Pages of superseded requests carry an
+   * older id and are ignored.
+   */
+  requestId: number;
+}
+
+/**
+ * Actions handled by createInfiniteList().
+ */
+export type InfiniteListAction<T> =
+  | { type: 'infinite/loadFirst'; key: string }
+  | { type: 'infinite/loadNext'; key: string }
+  | { type: 'infinite/pageLoaded'; key: string; requestId: number; page: Page<T>; reset: boolean }
+  | { type: 'infinite/pageFailed'; key: string; requestId: number; error: APIError };
+
+/**
+ * Configuration for createInfiniteList().
+ */
+export interface InfiniteListConfig<State, T, Response, Dependencies = any> {
+  /**
+   * Identifies the list in `infinite/*` actions and invalidations.
+   */
+  key: string;
+
+  /**
+   * Read the list state from the parent state.
+   */
+  get: (state: State) => InfiniteListState<T>;
+
+  /**
+   * Write the list state into the parent state.
+   */
+  set: (state: State, list: InfiniteListState<T>) => State;
+
+  /**
+   * Pick the API client from the store dependencies.
+   */
+  client: (deps: Dependencies) => APIClient;
+
+  /**
+   * Build the request for the page at `cursor` (null for the first page).
+   */
+  request: (cursor: string | null, deps: Dependencies) => APIRequest<Response>;
+
+  /**
+   * Extract the items and next cursor from a response.
+   * Use getCursorPage or getLinkPage for the built-in endpoint shapes.
+   */
+  getPage: (response: APIResponse<Response>) => Page<T>;
+
+  /**
+   * Item id used for deduplication (default: `item.id`).
+   */
+  getId?: (item: T) => string;
+}
+
+// ============================================================================
+// State, Action Creators & Page Helpers
+// ============================================================================
+
+/**
+ * Create the initial (idle, empty) list state.
+ */
+export function createInfiniteListState<T>(): InfiniteListState<T> {
+  return {
+    status: 'idle',
+    items: [],
+    nextCursor: null,
+    hasNextPage: false,
+    error: null,
+    isFetchingNextPage: false,
+    requestId: 0
+  };
+}
+
+/**
+ * Load the first page, replacing the loaded items once it arrives.
+ */
+export function loadFirstPage(key: string): InfiniteListAction<never> {
+  return { type: 'infinite/loadFirst', key };
+}
+
+/**
+ * Load the page after the loaded ones. Ignored while a page is loading or
+ * when there is no next page; loads the first page if nothing is loaded yet.
+ */
+export function loadNextPage(key: string): InfiniteListAction<never> {
+  return { type: 'infinite/loadNext', key };
+}
+
+/**
+ * Page extractor for createCursorEndpoints() responses.
+ */
+export function getCursorPage<T>(response: APIResponse<CursorPaginatedResponse<T>>): Page<T> {
+  return { items: response.data.data, nextCursor: response.data.nextCursor };
+}
+
+/**
+ * Page extractor for createLinkEndpoints() responses. The next cursor is the
+ * URL of the `rel="next"` link.
+ */
+export function getLinkPage<T>(response: APIResponse<T[]>): Page<T> {
+  return { items: response.data, nextCursor: parseLinkHeader(response.headers['link']).next ?? null };
+}
+
+/**
+ * Append a page to a list. Items already in the list are updated in place,
+ * duplicates within the page are dropped.
+ */
+export function appendPage<T>(items: T[], page: T[], getId: (item: T) => string): T[] {
+  const indexById = new Map<string, number>();
+  const merged = [...items];
+  merged.forEach((item, index) => indexById.set(getId(item), index));
+
+  for (const item of page) {
+    const id = getId(item);
+    const index = indexById.get(id);
+    if (index === undefined) {
+      indexById.set(id, merged.length);
+      merged.push(item);
+    } else {
+      merged[index] = item;
+    }
+  }
+
+  return merged;
+}
+
+// ============================================================================
+// Core: createInfiniteList
+// ============================================================================
+
+/**
+ * Wraps a reducer so that the slice at `get`/`set` is an infinite list.
+ *
+ * - `infinite/loadFirst` fetches the first page and drops any page in
+ *   flight; its items replace the list when they arrive.
+ * - `infinite/loadNext` fetches the page at `nextCursor` and appends it.
+ * - `query/invalidate` with a matching key reloads the first page.
+ */
+export function createInfiniteList<State, Action, T, Response, Dependencies = any>(
+  reducer: Reducer<State, Action, Dependencies>,
+  config: InfiniteListConfig<State, T, Response, Dependencies>
+): Reducer<State, Action | InfiniteListAction<T>, Dependencies> {
+  const {
+    key,
+    get,
+    set,
+    client,
+    request,
+    getPage,
+    getId = (item: T) => String((item as { id?: unknown }).id)
+  } = config;
+
+  const fetchId = `infinite:${key}`;
+
+  function isListAction(action: Action | InfiniteListAction<T>): action is InfiniteListAction<T> {
+    const candidate = action as { type?: unknown; key?: unknown };
+    return (
+      typeof candidate?.type === 'string' &&
+      candidate.type.startsWith('infinite/') &&
+      candidate.key === key
+    );
+  }
+
+  function isInvalidation(action: unknown): action is Extract<QueryAction<unknown>, { type: 'query/invalidate' }> {
+    return (action as { type?: unknown })?.type === 'query/invalidate';
+  }
+
+  function fetchPage(
+    state: State,
+    cursor: string | null,
+    deps: Dependencies
+  ): readonly [State, EffectType<InfiniteListAction<T>>] {
+    const list = get(state);
+    const api = client(deps);
+    const req = request(cursor, deps);
+    const reset = cursor === null;
+    const requestId = list.requestId + 1;
+
+    return [
+      set(state, {
+        ...list,
+        status: reset && list.status !== 'success' ? 'loading' : list.status,
+        error: null,
+        isFetchingNextPage: !reset,
+        requestId
+      }),
+      Effect.cancellable<InfiniteListAction<T>>(fetchId, async (dispatch) => {
+        try {
+          const response = await api.request<Response>(req);
+          dispatch({ type: 'infinite/pageLoaded', key, requestId, page: getPage(response), reset });
+        } catch (error) {
+          dispatch({ type: 'infinite/pageFailed', key, requestId, error: toAPIError(error) });
+        }
+      })
+    ];
+  }
+
+  const listReducer: Reducer<State, Action | InfiniteListAction<T>, Dependencies> = (state, action, deps) => {
+    if (isInvalidation(action)) {
+      // Other request reducers wrapped inside may match the same keys
+      const [inner, innerEffect] = requestReducers.has(reducer)
+        ? reducer(state, action as Action, deps)
+        : [state, Effect.none<Action>()];
+      if (!action.keys.some((pattern) => matchesKey(key, pattern)) || get(inner).status === 'idle') {
+        return [inner, innerEffect];
+      }
+      const [fetched, fetchEffect] = fetchPage(inner, null, deps);
+      return [fetched, Effect.batch<Action | InfiniteListAction<T>>(innerEffect, fetchEffect)];
+    }
+
+    if (!isListAction(action)) {
+      return reducer(state, action, deps);
+    }
+
+    const list = get(state);
+
+    switch (action.type) {
+      case 'infinite/loadFirst':
+        return fetchPage(state, null, deps);
+
+      case 'infinite/loadNext':
+        if (list.status === 'idle') {
+          return fetchPage(state, null, deps);
+        }
+        if (list.status === 'loading' || list.isFetchingNextPage || !list.hasNextPage) {
+          return [state, Effect.none()];
+        }
+        return fetchPage(state, list.nextCursor, deps);
+
+      case 'infinite/pageLoaded': {
+        if (action.requestId !== list.requestId) {
+          return [state, Effect.none()];
+        }
+        const { items, nextCursor } = action.page;
+        return [
+          set(state, {
+            status: 'success',
+            items: appendPage(action.reset ? [] : list.items, items, getId),
+            nextCursor,
+            hasNextPage: nextCursor !== null,
+            error: null,
+            isFetchingNextPage: false,
+            requestId: list.requestId
+          }),
+          Effect.none()
+        ];
+      }
+
+      case 'infinite/pageFailed':
+        if (action.requestId !== list.requestId) {
+          return [state, Effect.none()];
+        }
+        return [
+          set(state, {
+            ...list,
+            status: list.status === 'success' ? 'success' : 'error',
+            error: action.error,
+            isFetchingNextPage: false
+          }),
+          Effect.none()
+        ];
+    }
+  };
+
+  requestReducers.add(listReducer);
+  return listReducer;
+}
@@ -0,0 +1,465 @@
+// ============================================================================
+// Offline Mutation Queue - Persist unsafe requests and replay when online
+// ============================================================================
+
+/**
+ * createOfflineAPIClient() wraps an APIClient so that POST/PUT/PATCH/DELETE
+ * requests made while offline are persisted to a Storage backend instead of
+ * failing. When the network comes back they are replayed in order.
+ *
+ * Queued calls resolve immediately with a `202` response whose `queuedId`
+ * is the request's idempotency key. The key is sent with the request (the
+ * `Idempotency-Key` header by default), so the server can drop duplicates,
+ * and a request whose key is already queued is not queued twice.
+ *
+ * Outcomes reach the store through `Effect.offlineQueue()`, which
+ * dispatches an action for every `queued`, `replayed` and `failed` event.
+ *
+ * @example
+ * ```typescript
+ * const api = createOfflineAPIClient(createAPIClient({ baseURL: '/api' }), {
+ *   storage: createLocalStorage<QueuedRequest[]>({ prefix: 'app:' })
+ * });
+ *
+ * const response = await api.post('/todos', { title: 'Buy milk' });
+ * if (response.queuedId) {
+ *   // Saved for later - show a pending badge
+ * }
+ * ```
+ */
+
+import { Effect } from '../effect.js';
+import { APIError, NetworkError } from './errors.js';
+import { parseRequestBody } from './schema.js';
+import type { Effect as EffectType } from '../types.js';
+import type { Storage, Unsubscribe } from '../dependencies/storage.js';
+import type { APIClient, APIRequest, APIResponse, HTTPMethod, RequestConfig } from './types.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Methods that are queued while offline.
+ */
+export type QueueableHTTPMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A persisted mutation waiting to be replayed.
+ */
+export interface QueuedRequest {
+  /**
+   * Idempotency key (also sent as a request header).
+   */
+  readonly id: string;
+
+  readonly method: QueueableHTTPMethod;
+  readonly url: string;
+
+  /**
+   * JSON-serializable part of the request config.
+   */
+  readonly config: Pick<RequestConfig, 'headers' | 'params' | 'body' | 'timeout'>;
+
+  /**
+   * Time the request was queued (ms since epoch).
+   */
+  readonly queuedAt: number;
+}
+
+/**
+ * Lifecycle event of a queued request.
+ */
+export type OfflineQueueEvent =
+  | { type: 'queued'; request: QueuedRequest }
+  | { type: 'replayed'; request: QueuedRequest; response: APIResponse<unknown> }
+  | { type: 'failed'; request: QueuedRequest; error: APIError };
+
+/**
+ * Source of connectivity changes.
+ * Defaults to `navigator.onLine` and the window `online`/`offline` events.
+ */
+export interface NetworkStatus {
+  isOnline(): boolean;
+  subscribe(listener: (online: boolean) => void): Unsubscribe;
+}
+
+/**
+ * Offline client configuration.
+ */
+export interface OfflineAPIClientConfig {
+  /**
+   * Backend for the queue (e.g. createLocalStorage()).
+   */
+  storage: Storage<QueuedRequest[]>;
+
+  /**
+   * Storage key of the queue.
+   * @default 'offline-queue'
+   */
+  storageKey?: string;
+
+  /**
+   * Header carrying the idempotency key. An existing value is kept,
+   * otherwise a key is generated.
+   * @default 'Idempotency-Key'
+   */
+  idempotencyHeader?: string;
+
+  /**
+   * Connectivity source (inject for tests).
+   * @default createBrowserNetworkStatus()
+   */
+  network?: NetworkStatus;
+
+  /**
+   * Maximum number of queued requests. The oldest is dropped when full.
+   * @default 100
+   */
+  maxSize?: number;
+}
+
+/**
+ * APIClient with an offline mutation queue.
+ */
+export interface OfflineAPIClient extends APIClient {
+  /**
+   * Requests waiting to be replayed, oldest first.
+   */
+  readonly queue: readonly QueuedRequest[];
+
+  /**
+   * Replay queued requests in order. Stops at the first network failure.
+   * Runs automatically when the network comes back.
+   */
+  replay: () => Promise<void>;
+
+  /**
+   * Subscribe to queue events.
+   */
+  subscribeToEvents: (listener: (event: OfflineQueueEvent) => void) => Unsubscribe;
+
+  /**
+   * Stop listening for connectivity changes.
+   */
+  dispose: () => void;
+}
+
+// ============================================================================
+// Network Status
+// ============================================================================
+
+/**
+ * Network status backed by `navigator.onLine`.
+ * Reports online and never changes outside the browser.
+ */
+export function createBrowserNetworkStatus(): NetworkStatus {
+  return {
+    isOnline: () => (typeof navigator === 'undefined' ? true : navigator.onLine),
+    subscribe(listener) {
+      if (typeof window === 'undefined') return () => {};
+
+      const onOnline = () => listener(true);
+      const onOffline = () => listener(false);
+      window.addEventListener('online', onOnline);
+      window.addEventListener('offline', onOffline);
+      return () => {
+        window.removeEventListener('online', onOnline);
+        window.removeEventListener('offline', onOffline);
+      };
+    }
+  };
+}
+
+// ============================================================================
+// Offline Client
+// ============================================================================
+
+const QUEUEABLE_METHODS: readonly HTTPMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+function isQueueable(method: HTTPMethod): method is QueueableHTTPMethod {
+  return QUEUEABLE_METHODS.includes(method);
+}
+
+function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Find a header value by case-insensitive name.
+ */
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    if (key.toLowerCase() === lower) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Wrap an APIClient with an offline mutation queue.
+ *
+ * A mutation is queued when the network status reports offline, or when
+ * sending it fails with a NetworkError. Safe methods pass through.
+ *
+ * Replayed requests are sent without `requestSchema`/`responseSchema`
+ * (the body was validated when queued); their outcome is reported as a
+ * `replayed` or `failed` event. Requests rejected by the server are
+ * dropped from the queue.
+ */
+export function createOfflineAPIClient(
+  client: APIClient,
+  config: OfflineAPIClientConfig
+): OfflineAPIClient {
+  const {
+    storage,
+    storageKey = 'offline-queue',
+    idempotencyHeader = 'Idempotency-Key',
+    network = createBrowserNetworkStatus(),
+    maxSize = 100
+  } = config;
+
+  const listeners = new Set<(event: OfflineQueueEvent) => void>();
+  let replaying: Promise<void> | null = null;
+
+  function emit(event: OfflineQueueEvent): void {
+    listeners.forEach((listener) => listener(event));
+  }
+
+  function load(): QueuedRequest[] {
+    return storage.getItem(storageKey) ?? [];
+  }
+
+  function save(queue: QueuedRequest[]): void {
+    if (queue.length === 0) {
+      storage.removeItem(storageKey);
+    } else {
+      storage.setItem(storageKey, queue);
+    }
+  }
+
+  function remove(id: string): void {
+    save(load().filter((request) => request.id !== id));
+  }
+
+  function enqueue<T>(request: QueuedRequest): APIResponse<T> {
+    const queue = load();
+    if (!queue.some((queued) => queued.id === request.id)) {
+      while (queue.length >= maxSize) {
+        queue.shift(); // Drop oldest
+      }
+      queue.push(request);
+      save(queue);
+      emit({ type: 'queued', request });
+    }
+
+    return {
+      status: 202,
+      headers: {},
+      data: undefined as T,
+      queuedId: request.id
+    };
+  }
+
+  async function execute<T>(
+    method: HTTPMethod,
+    url: string,
+    requestConfig: RequestConfig = {}
+  ): Promise<APIResponse<T>> {
+    if (!isQueueable(method)) {
+      return client.request<T>({ method, url, config: requestConfig });
+    }
+
+    // Validate now: schemas cannot be persisted
+    const { requestSchema: _requestSchema, ...parsedConfig } = parseRequestBody(requestConfig);
+    const existingKey = findHeader(parsedConfig.headers, idempotencyHeader);
+    const id = existingKey ?? generateIdempotencyKey();
+    const headers = existingKey !== undefined
+      ? { ...parsedConfig.headers }
+      : { ...parsedConfig.headers, [idempotencyHeader]: id };
+
+    const queued: QueuedRequest = {
+      id,
+      method,
+      url,
+      config: {
+        headers,
+        ...(parsedConfig.params !== undefined && { params: parsedConfig.params }),
+        ...(parsedConfig.body !== undefined && { body: parsedConfig.body }),
+        ...(parsedConfig.timeout !== undefined && { timeout: parsedConfig.timeout })
+      },
+      queuedAt: Date.now()
+    };
+
+    if (!network.isOnline()) {
+      return enqueue(queued);
+    }
+
+    // Keep order: wait behind requests that have not been replayed yet
+    if (load().length > 0) {
+      const response = enqueue<T>(queued);
+      void replay();
+      return response;
+    }
+
+    try {
+      return await client.request<T>({ method, url, config: { ...parsedConfig, headers } });
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        return enqueue(queued);
+      }
+      throw error;
+    }
+  }
+
+  async function replayQueue(): Promise<void> {
+    for (let request = load()[0]; request !== undefined; request = load()[0]) {
+      try {
+        const response = await client.request({ method: request.method, url: request.url, config: request.config });
+        remove(request.id);
+        emit({ type: 'replayed', request, response });
+      } catch (error) {
+        if (error instanceof NetworkError) {
+          return; // Still offline - keep the queue
+        }
+        remove(request.id);
+        emit({
+          type: 'failed',
+          request,
+          error: error instanceof APIError
+            ? error
+            : new APIError(error instanceof Error ? error.message : String(error), null, null, {}, false)
+        });
+      }
+    }
+  }
+
+  function replay(): Promise<void> {
+    if (!replaying) {
+      replaying = replayQueue().finally(() => {
+        replaying = null;
+      });
+    }
+    return replaying;
+  }
+
+  const unsubscribeNetwork = network.subscribe((online) => {
+    if (online) {
+      void replay();
+    }
+  });
+
+  // Replay requests left over from a previous session
+  if (network.isOnline() && load().length > 0) {
+    void replay();
+  }
+
+  return {
+    get: <T = unknown>(url: string, requestConfig?: RequestConfig<T>) => {
+      return execute<T>('GET', url, requestConfig);
+    },
+
+    post: <T = unknown>(url: string, body?: unknown, requestConfig?: RequestConfig<T>) => {
+      return execute<T>('POST', url, { ...requestConfig, body });
+    },
+
+    put: <T = unknown>(url: string, body?: unknown, requestConfig?: RequestConfig<T>) => {
+      return execute<T>('PUT', url, { ...requestConfig, body });
+    },
+
+    patch: <T = unknown>(url: string, body?: unknown, requestConfig?: RequestConfig<T>) => {
+      return execute<T>('PATCH', url, { ...requestConfig, body });
+    },
+
+    delete: <T = unknown>(url: string, requestConfig?: RequestConfig<T>) => {
+      return execute<T>('DELETE', url, requestConfig);
+    },
+
+    head: (url: string, requestConfig?: RequestConfig) => client.head(url, requestConfig),
+
+    request: <T = unknown>(request: APIRequest<T>) => {
+      return execute<T>(request.method, request.url, request.config);
+    },
+
+    addInterceptor: (interceptor) => client.addInterceptor(interceptor),
+    clearCache: () => client.clearCache(),
+    invalidateCache: (pattern) => client.invalidateCache(pattern),
+    invalidateTags: (tags) => client.invalidateTags(tags),
+    get queue() {
+      return load();
+    },
+    replay,
+    subscribeToEvents(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: unsubscribeNetwork
+  };
+}
+
+// ============================================================================
+// Effects
+// ============================================================================
+
+/**
+ * Create an effect that dispatches an action for every queue event.
+ *
+ * **Cleanup**: Unsubscribes when cancelled with `Effect.cancel(subscriptionId)`.
+ *
+ * @param client - Offline API client
+ * @param subscriptionId - Unique ID for subscription cleanup
+ * @param onEvent - Callback to transform events into actions
+ *   (return null to ignore an event)
+ *
+ * @example
+ * ```typescript
+ * case 'appStarted':
+ *   return [
+ *     state,
+ *     Effect.offlineQueue(deps.api, 'offline-queue', (event) => {
+ *       switch (event.type) {
+ *         case 'queued': return { type: 'todoPending', id: event.request.id };
+ *         case 'replayed': return { type: 'todoSynced', id: event.request.id };
+ *         case 'failed': return { type: 'todoSyncFailed', id: event.request.id, error: event.error.message };
+ *       }
+ *     })
+ *   ];
+ * ```
+ */
+export function offlineQueue<Action>(
+  client: OfflineAPIClient,
+  subscriptionId: string,
+  onEvent: (event: OfflineQueueEvent) => Action | null
+): EffectType<Action> {
+  return Effect.subscription<Action>(subscriptionId, (dispatch) =>
+    client.subscribeToEvents((event) => {
+      const action = onEvent(event);
+      if (action !== null) {
+        dispatch(action);
+      }
+    })
+  );
+}
+
+// ============================================================================
+// Augment Effect Namespace
+// ============================================================================
+
+declare module '../effect.js' {
+  interface Effect {
+    /**
+     * Create an effect that dispatches offline queue events.
+     */
+    offlineQueue: typeof offlineQueue;
+  }
+}
+
+// Add to Effect namespace
+(Effect as any).offlineQueue = offlineQueue;
@@ -0,0 +1,736 @@
+// ============================================================================
+// Queries & Mutations - Standard request state on top of APIClient
+// ============================================================================
+
+/**
+ * createQuery() and createMutation() wrap a reducer so that a slice of its
+ * state follows a standard request lifecycle, instead of every feature
+ * hand-writing loading/error/data fields.
+ *
+ * Like persist(), each helper handles its own namespaced actions
+ * (`query/*`, `mutation/*`) that carry a key, so several queries and
+ * mutations can live in the same store.
+ *
+ * @example
+ * ```typescript
+ * interface State {
+ *   todos: QueryState<Todo[]>;
+ *   addTodo: MutationState<Todo, NewTodo>;
+ * }
+ *
+ * const withTodos = createQuery(appReducer, {
+ *   key: 'todos',
+ *   get: (state) => state.todos,
+ *   set: (state, todos) => ({ ...state, todos }),
+ *   client: (deps) => deps.api,
+ *   request: () => Request.get<Todo[]>('/todos'),
+ *   staleTime: 30_000,
+ *   refetchOnFocus: true
+ * });
+ *
+ * const reducer = createMutation(withTodos, {
+ *   key: 'addTodo',
+ *   get: (state) => state.addTodo,
+ *   set: (state, addTodo) => ({ ...state, addTodo }),
+ *   client: (deps) => deps.api,
+ *   request: (todo) => Request.post<Todo>('/todos', todo),
+ *   optimistic: {
+ *     select: (state) => state.todos.data,
+ *     restore: (state, data) => ({ ...state, todos: { ...state.todos, data } }),
+ *     update: (state, todo) => ({
+ *       ...state,
+ *       todos: { ...state.todos, data: [...(state.todos.data ?? []), { id: 'pending', ...todo }] }
+ *     })
+ *   },
+ *   invalidates: ['todos']
+ * });
+ *
+ * store.dispatch(startQuery('todos'));
+ * store.dispatch(mutate('addTodo', { title: 'Write docs' }));
+ * ```
+ */
+
+import { Effect } from '../effect.js';
+import { APIError } from './errors.js';
+import type { Reducer, Effect as EffectType, Dispatch } from '../types.js';
+import type { APIClient, APIRequest, APIResponse } from './types.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Lifecycle of a query or mutation.
+ */
+export type RequestStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * Standard state of a query.
+ */
+export interface QueryState<T> {
+  /**
+   * 'loading' only for the first fetch; refetches keep the previous status
+   * and set `isFetching`.
+   */
+  status: RequestStatus;
+  data: T | null;
+  error: APIError | null;
+
+  /**
+   * Time of the last successful fetch (ms since epoch).
+   */
+  fetchedAt: number | null;
+
+  /**
+   * Whether `data` is older than `staleTime` or was invalidated.
+   */
+  isStale: boolean;
+
+  /**
+   * Whether a request is in flight.
+   */
+  isFetching: boolean;
+
+  /**
+   * Id of the latest request. Results of superseded or stopped requests
+   * carry an older id and are ignored.
+   */
+  requestId: number;
+}
+
+/**
+ * Standard state of a mutation.
+ */
+export interface MutationState<Data, Variables, Snapshot = unknown> {
+  status: RequestStatus;
+  data: Data | null;
+  error: APIError | null;
+
+  /**
+   * Variables of the last mutate().
+   */
+  variables: Variables | null;
+
+  /**
+   * State selected by `optimistic.select` before the optimistic update,
+   * restored if the mutation fails.
+   */
+  rollback: { snapshot: Snapshot } | null;
+
+  /**
+   * Id of the latest mutate(). Results of superseded or reset mutations
+   * carry an older id and are ignored.
+   */
+  requestId: number;
+}
+
+/**
+ * Actions handled by a query reducer.
+ */
+export type QueryAction<T> =
+  | { type: 'query/start'; key: string }
+  | { type: 'query/stop'; key: string }
+  | { type: 'query/fetch'; key: string }
+  | { type: 'query/refetch'; key: string }
+  | {
+      type: 'query/succeeded';
+      key: string;
+      requestId: number;
+      data: T;
+      fetchedAt: number;
+      /** Served stale from the cache; a refreshed response follows */
+      stale: boolean;
+    }
+  | {
+      type: 'query/failed';
+      key: string;
+      requestId: number;
+      error: APIError;
+      /** Refreshing a stale cached response failed; the stale data stays */
+      stale: boolean;
+    }
+  | { type: 'query/stale'; key: string; fetchedAt: number }
+  | { type: 'query/invalidate'; keys: string[] };
+
+/**
+ * Actions handled by a mutation reducer.
+ */
+export type MutationAction<Data, Variables> =
+  | { type: 'mutation/mutate'; key: string; variables: Variables }
+  | { type: 'mutation/succeeded'; key: string; requestId: number; data: Data }
+  | { type: 'mutation/failed'; key: string; requestId: number; error: APIError }
+  | { type: 'mutation/reset'; key: string };
+
+/**
+ * Configuration for createQuery().
+ */
+export interface QueryConfig<State, T, Dependencies = any> {
+  /**
+   * Query key, used by action creators and invalidateQueries().
+   */
+  key: string;
+
+  /**
+   * Read the query slice from state.
+   */
+  get: (state: State) => QueryState<T>;
+
+  /**
+   * Write the query slice back into state.
+   */
+  set: (state: State, query: QueryState<T>) => State;
+
+  /**
+   * API client to fetch with.
+   */
+  client: (deps: Dependencies) => APIClient;
+
+  /**
+   * Request to fetch.
+   */
+  request: (deps: Dependencies) => APIRequest<T>;
+
+  /**
+   * How long fetched data stays fresh (ms). `query/fetch` and focus
+   * refetches skip fresh data.
+   * Default: 0
+   */
+  staleTime?: number;
+
+  /**
+   * Refetch stale data when the window regains focus (while started).
+   * Default: false
+   */
+  refetchOnFocus?: boolean;
+
+  /**
+   * Poll interval in milliseconds (while started).
+   * Default: no polling
+   */
+  refetchInterval?: number;
+}
+
+/**
+ * Optimistic update of a mutation.
+ */
+export interface OptimisticUpdate<State, Variables, Snapshot> {
+  /**
+   * Part of state the update changes; restored if the mutation fails.
+   */
+  select: (state: State) => Snapshot;
+
+  /**
+   * Put a selected snapshot back into state.
+   */
+  restore: (state: State, snapshot: Snapshot) => State;
+
+  /**
+   * Apply the expected result before the server responds.
+   */
+  update: (state: State, variables: Variables) => State;
+}
+
+/**
+ * Configuration for createMutation().
+ */
+export interface MutationConfig<State, Data, Variables, Snapshot = unknown, Dependencies = any> {
+  /**
+   * Mutation key, used by action creators.
+   */
+  key: string;
+
+  /**
+   * Read the mutation slice from state.
+   */
+  get: (state: State) => MutationState<Data, Variables, Snapshot>;
+
+  /**
+   * Write the mutation slice back into state.
+   */
+  set: (state: State, mutation: MutationState<Data, Variables, Snapshot>) => State;
+
+  /**
+   * API client to send the mutation with.
+   */
+  client: (deps: Dependencies) => APIClient;
+
+  /**
+   * Request for the given variables.
+   */
+  request: (variables: Variables, deps: Dependencies) => APIRequest<Data>;
+
+  /**
+   * Update state before the server responds, rolled back on failure.
+   */
+  optimistic?: OptimisticUpdate<State, Variables, Snapshot>;
+
+  /**
+   * Apply the server response to state (e.g. replace the optimistic item).
+   */
+  onSuccess?: (state: State, data: Data, variables: Variables) => State;
+
+  /**
+   * Query keys to invalidate after the mutation succeeds.
+   * Supports exact keys and prefixes ending with *.
+   */
+  invalidates?: string[];
+}
+
+// ============================================================================
+// Initial State & Action Creators
+// ============================================================================
+
+/**
+ * Create the initial state of a query.
+ */
+export function createQueryState<T>(): QueryState<T> {
+  return {
+    status: 'idle',
+    data: null,
+    error: null,
+    fetchedAt: null,
+    isStale: true,
+    isFetching: false,
+    requestId: 0
+  };
+}
+
+/**
+ * Create the initial state of a mutation.
+ */
+export function createMutationState<Data, Variables, Snapshot = unknown>(): MutationState<
+  Data,
+  Variables,
+  Snapshot
+> {
+  return { status: 'idle', data: null, error: null, variables: null, rollback: null, requestId: 0 };
+}
+
+/**
+ * Fetch the query and start its focus/polling subscriptions.
+ */
+export function startQuery(key: string): QueryAction<never> {
+  return { type: 'query/start', key };
+}
+
+/**
+ * Stop the query's subscriptions and cancel its request.
+ */
+export function stopQuery(key: string): QueryAction<never> {
+  return { type: 'query/stop', key };
+}
+
+/**
+ * Fetch the query unless its data is still fresh.
+ */
+export function fetchQuery(key: string): QueryAction<never> {
+  return { type: 'query/fetch', key };
+}
+
+/**
+ * Fetch the query even if its data is fresh.
+ */
+export function refetchQuery(key: string): QueryAction<never> {
+  return { type: 'query/refetch', key };
+}
+
+/**
+ * Mark queries stale and refetch the ones that have been fetched before.
+ * Keys ending with * match by prefix.
+ */
+export function invalidateQueries(keys: string[]): QueryAction<never> {
+  return { type: 'query/invalidate', keys };
+}
+
+/**
+ * Run the mutation with the given variables.
+ */
+export function mutate<Variables>(key: string, variables: Variables): MutationAction<never, Variables> {
+  return { type: 'mutation/mutate', key, variables };
+}
+
+/**
+ * Reset the mutation to idle.
+ */
+export function resetMutation(key: string): MutationAction<never, never> {
+  return { type: 'mutation/reset', key };
+}
+
+// ============================================================================
+// Helpers (shared with infinite.ts, not re-exported)
+// ============================================================================
+
+/**
+ * Reducers created by createQuery()/createMutation()/createInfiniteList().
+ * Invalidations are only passed on to these, since feature reducers don't
+ * know `query/invalidate`.
+ */
+export const requestReducers = new WeakSet<Reducer<any, any, any>>();
+
+export function matchesKey(key: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern;
+}
+
+/**
+ * Convert anything thrown by a request into an APIError.
+ */
+export function toAPIError(error: unknown): APIError {
+  if (error instanceof APIError) {
+    return error;
+  }
+  return new APIError(error instanceof Error ? error.message : String(error), null, null, {}, false);
+}
+
+// ============================================================================
+// Core: createQuery
+// ============================================================================
+
+/**
+ * Wraps a reducer so that the slice at `get`/`set` is a query.
+ *
+ * - `query/start` fetches and, if configured, refetches stale data on window
+ *   focus and polls via `Effect.subscription`; `query/stop` ends both and
+ *   cancels the request.
+ * - `query/fetch` skips fresh data; `query/refetch` always fetches.
+ * - Responses served stale by a `staleWhileRevalidate` cache are shown
+ *   right away and replaced by the refreshed response.
+ */
+export function createQuery<State, Action, T, Dependencies = any>(
+  reducer: Reducer<State, Action, Dependencies>,
+  config: QueryConfig<State, T, Dependencies>
+): Reducer<State, Action | QueryAction<T>, Dependencies> {
+  const {
+    key,
+    get,
+    set,
+    client,
+    request,
+    staleTime = 0,
+    refetchOnFocus = false,
+    refetchInterval
+  } = config;
+
+  if (staleTime < 0) {
+    throw new TypeError(`createQuery: staleTime must be non-negative, got ${staleTime}`);
+  }
+  if (refetchInterval !== undefined && refetchInterval <= 0) {
+    throw new TypeError(`createQuery: refetchInterval must be positive, got ${refetchInterval}`);
+  }
+
+  const fetchId = `query:${key}`;
+  const focusId = `query:${key}:focus`;
+  const pollId = `query:${key}:poll`;
+
+  function isQueryAction(action: Action | QueryAction<T>): action is QueryAction<T> {
+    const candidate = action as { type?: unknown; key?: unknown };
+    return (
+      typeof candidate?.type === 'string' &&
+      candidate.type.startsWith('query/') &&
+      (candidate.key === key || candidate.type === 'query/invalidate')
+    );
+  }
+
+  function fetch(state: State, deps: Dependencies): readonly [State, EffectType<QueryAction<T>>] {
+    const query = get(state);
+    const api = client(deps);
+    const req = request(deps);
+    const requestId = query.requestId + 1;
+
+    const dispatchResponse = (dispatch: Dispatch<QueryAction<T>>, response: APIResponse<T>) => {
+      dispatch({
+        type: 'query/succeeded',
+        key,
+        requestId,
+        data: response.data,
+        fetchedAt: Date.now(),
+        stale: response.stale === true
+      });
+    };
+
+    return [
+      set(state, {
+        ...query,
+        status: query.status === 'success' ? 'success' : 'loading',
+        isFetching: true,
+        requestId
+      }),
+      Effect.cancellable<QueryAction<T>>(fetchId, async (dispatch) => {
+        let response: APIResponse<T>;
+        try {
+          response = await api.request<T>(req);
+        } catch (error) {
+          dispatch({ type: 'query/failed', key, requestId, error: toAPIError(error), stale: false });
+          return;
+        }
+
+        dispatchResponse(dispatch, response);
+        if (!response.revalidation) {
+          return;
+        }
+        try {
+          dispatchResponse(dispatch, await response.revalidation);
+        } catch (error) {
+          dispatch({ type: 'query/failed', key, requestId, error: toAPIError(error), stale: true });
+        }
+      })
+    ];
+  }
+
+  function subscriptions(): EffectType<QueryAction<T>> {
+    const effects: EffectType<QueryAction<T>>[] = [];
+
+    if (refetchOnFocus) {
+      effects.push(
+        Effect.subscription<QueryAction<T>>(focusId, (dispatch) => {
+          if (typeof window === 'undefined') return () => {};
+
+          const onFocus = () => {
+            if (document.visibilityState !== 'hidden') {
+              dispatch(fetchQuery(key));
+            }
+          };
+          window.addEventListener('focus', onFocus);
+          document.addEventListener('visibilitychange', onFocus);
+          return () => {
+            window.removeEventListener('focus', onFocus);
+            document.removeEventListener('visibilitychange', onFocus);
+          };
+        })
+      );
+    }
+
+    if (refetchInterval !== undefined) {
+      effects.push(
+        Effect.subscription<QueryAction<T>>(pollId, (dispatch) => {
+          const interval = setInterval(() => dispatch(refetchQuery(key)), refetchInterval);
+          return () => clearInterval(interval);
+        })
+      );
+    }
+
+    return Effect.batch(...effects);
+  }
+
+  const queryReducer: Reducer<State, Action | QueryAction<T>, Dependencies> = (state, action, deps) => {
+    if (!isQueryAction(action)) {
+      return reducer(state, action, deps);
+    }
+
+    const query = get(state);
+
+    switch (action.type) {
+      case 'query/start': {
+        const [fetched, fetchEffect] =
+          query.isStale || query.status !== 'success'
+            ? fetch(state, deps)
+            : [state, Effect.none<QueryAction<T>>()];
+        return [fetched, Effect.batch(fetchEffect, subscriptions())];
+      }
+
+      case 'query/stop':
+        return [
+          // A new request id drops the result of the cancelled request
+          query.isFetching ? set(state, { ...query, isFetching: false, requestId: query.requestId + 1 }) : state,
+          Effect.batch<QueryAction<T>>(
+            Effect.cancel(fetchId),
+            Effect.cancel(focusId),
+            Effect.cancel(pollId)
+          )
+        ];
+
+      case 'query/fetch':
+        if (query.isFetching || (query.status === 'success' && !query.isStale)) {
+          return [state, Effect.none()];
+        }
+        return fetch(state, deps);
+
+      case 'query/refetch':
+        return fetch(state, deps);
+
+      case 'query/succeeded': {
+        if (action.requestId !== query.requestId) {
+          return [state, Effect.none()];
+        }
+        const isStale = action.stale || staleTime === 0;
+        const next = set(state, {
+          status: 'success',
+          data: action.data,
+          error: null,
+          fetchedAt: action.fetchedAt,
+          isStale,
+          isFetching: action.stale,
+          requestId: query.requestId
+        });
+
+        if (isStale || staleTime === Infinity) {
+          return [next, Effect.none()];
+        }
+        return [
+          next,
+          Effect.afterDelay<QueryAction<T>>(staleTime, (dispatch) => {
+            dispatch({ type: 'query/stale', key, fetchedAt: action.fetchedAt });
+          })
+        ];
+      }
+
+      case 'query/failed':
+        if (action.requestId !== query.requestId) {
+          return [state, Effect.none()];
+        }
+        // Like Effect.api(), a failed revalidation leaves the stale data in place
+        if (action.stale) {
+          return [set(state, { ...query, isFetching: false }), Effect.none()];
+        }
+        return [
+          set(state, { ...query, status: 'error', error: action.error, isFetching: false }),
+          Effect.none()
+        ];
+
+      case 'query/stale':
+        // Ignore timers of data that has been replaced since
+        if (query.fetchedAt !== action.fetchedAt || query.isStale) {
+          return [state, Effect.none()];
+        }
+        return [set(state, { ...query, isStale: true }), Effect.none()];
+
+      case 'query/invalidate': {
+        // Other queries wrapped inside may match the same keys
+        const [inner, innerEffect] = requestReducers.has(reducer)
+          ? reducer(state, action as Action, deps)
+          : [state, Effect.none<Action>()];
+        const current = get(inner);
+        if (!action.keys.some((pattern) => matchesKey(key, pattern)) || current.status === 'idle') {
+          return [inner, innerEffect];
+        }
+        const [fetched, fetchEffect] = fetch(set(inner, { ...current, isStale: true }), deps);
+        return [fetched, Effect.batch<Action | QueryAction<T>>(innerEffect, fetchEffect)];
+      }
+    }
+  };
+
+  requestReducers.add(queryReducer);
+  return queryReducer;
+}
+
+// ============================================================================
+// Core: createMutation
+// ============================================================================
+
+/**
+ * Wraps a reducer so that the slice at `get`/`set` is a mutation.
+ *
+ * - `mutation/mutate` applies the optimistic update (keeping a snapshot of
+ *   `optimistic.select`) and sends the request. A new mutate cancels the
+ *   pending request but keeps the original snapshot.
+ * - On success, `onSuccess` is applied and the `invalidates` queries are
+ *   refetched; on failure or reset, the snapshot is restored.
+ */
+export function createMutation<State, Action, Data, Variables, Snapshot = unknown, Dependencies = any>(
+  reducer: Reducer<State, Action, Dependencies>,
+  config: MutationConfig<State, Data, Variables, Snapshot, Dependencies>
+): Reducer<State, Action | MutationAction<Data, Variables> | QueryAction<never>, Dependencies> {
+  const { key, get, set, client, request, optimistic, onSuccess, invalidates = [] } = config;
+
+  const mutationId = `mutation:${key}`;
+
+  function isMutationAction(
+    action: Action | MutationAction<Data, Variables> | QueryAction<never>
+  ): action is MutationAction<Data, Variables> {
+    const candidate = action as Partial<MutationAction<Data, Variables>>;
+    return (
+      typeof candidate?.type === 'string' &&
+      candidate.type.startsWith('mutation/') &&
+      candidate.key === key
+    );
+  }
+
+  const mutationReducer: Reducer<
+    State,
+    Action | MutationAction<Data, Variables> | QueryAction<never>,
+    Dependencies
+  > = (state, action, deps) => {
+    if (!isMutationAction(action)) {
+      if (!requestReducers.has(reducer) && (action as { type?: unknown }).type === 'query/invalidate') {
+        return [state, Effect.none()];
+      }
+      return reducer(state, action as Action, deps);
+    }
+
+    const mutation = get(state);
+
+    switch (action.type) {
+      case 'mutation/mutate': {
+        const { variables } = action;
+        const rollback =
+          mutation.rollback ?? (optimistic ? { snapshot: optimistic.select(state) } : null);
+        const updated = optimistic ? optimistic.update(state, variables) : state;
+        const api = client(deps);
+        const req = request(variables, deps);
+        const requestId = mutation.requestId + 1;
+
+        return [
+          set(updated, { status: 'loading', data: null, error: null, variables, rollback, requestId }),
+          Effect.cancellable<MutationAction<Data, Variables>>(mutationId, async (dispatch) => {
+            try {
+              const response = await api.request<Data>(req);
+              dispatch({ type: 'mutation/succeeded', key, requestId, data: response.data });
+            } catch (error) {
+              dispatch({ type: 'mutation/failed', key, requestId, error: toAPIError(error) });
+            }
+          })
+        ];
+      }
+
+      case 'mutation/succeeded': {
+        if (action.requestId !== mutation.requestId) {
+          return [state, Effect.none()];
+        }
+        const applied =
+          onSuccess && mutation.variables !== null
+            ? onSuccess(state, action.data, mutation.variables)
+            : state;
+        const next = set(applied, { ...get(applied), status: 'success', data: action.data, rollback: null });
+
+        if (invalidates.length === 0) {
+          return [next, Effect.none()];
+        }
+        return [
+          next,
+          Effect.run<QueryAction<never>>(async (dispatch) => {
+            dispatch(invalidateQueries(invalidates));
+          })
+        ];
+      }
+
+      case 'mutation/failed': {
+        if (action.requestId !== mutation.requestId) {
+          return [state, Effect.none()];
+        }
+        const restored =
+          optimistic && mutation.rollback
+            ? optimistic.restore(state, mutation.rollback.snapshot)
+            : state;
+        return [
+          set(restored, { ...get(restored), status: 'error', error: action.error, rollback: null }),
+          Effect.none()
+        ];
+      }
+
+      case 'mutation/reset': {
+        // Resetting a pending mutation drops its optimistic update too
+        const restored =
+          optimistic && mutation.rollback
+            ? optimistic.restore(state, mutation.rollback.snapshot)
+            : state;
+        return [
+          // A new request id drops the result of the pending mutation
+          set(restored, { ...createMutationState<Data, Variables, Snapshot>(), requestId: mutation.requestId + 1 }),
+          Effect.cancel<MutationAction<Data, Variables>>(mutationId)
+        ];
+      }
+    }
+  };
+
+  requestReducers.add(mutationReducer);
+  return mutationReducer;
+}
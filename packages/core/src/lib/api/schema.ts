@@ -0,0 +1,67 @@
+// ============================================================================
+// Request/Response Schema Validation
+// ============================================================================
+
+import type { ZodType } from 'zod';
+import { SchemaMismatchError, type ValidationErrorField } from './errors.js';
+import type { APIResponse, RequestConfig } from './types.js';
+
+/**
+ * Run a Zod schema, converting issues to ValidationErrorFields.
+ */
+function parseWithSchema(
+  schema: ZodType,
+  value: unknown
+): { success: true; data: unknown } | { success: false; errors: ValidationErrorField[] } {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      field: issue.path.map(String).join('.'),
+      message: issue.message,
+      code: issue.code
+    }))
+  };
+}
+
+/**
+ * Validate the request body against `config.requestSchema`.
+ * Returns the config with the parsed body (Zod transforms and defaults applied).
+ *
+ * @throws SchemaMismatchError before the request is sent
+ */
+export function parseRequestBody<C extends RequestConfig<any>>(config: C): C {
+  if (!config.requestSchema) {
+    return config;
+  }
+
+  const result = parseWithSchema(config.requestSchema, config.body);
+  if (!result.success) {
+    throw new SchemaMismatchError('request', result.errors, null, config.body);
+  }
+
+  return { ...config, body: result.data };
+}
+
+/**
+ * Validate response data against `config.responseSchema`.
+ * Returns a copy of the response with the parsed data.
+ *
+ * @throws SchemaMismatchError with the response status, data and headers
+ */
+export function parseResponse<T>(response: APIResponse<T>, config: RequestConfig<any>): APIResponse<T> {
+  if (!config.responseSchema) {
+    return response;
+  }
+
+  const result = parseWithSchema(config.responseSchema, response.data);
+  if (!result.success) {
+    throw new SchemaMismatchError('response', result.errors, response.status, response.data, response.headers);
+  }
+
+  return { ...response, data: result.data as T };
+}
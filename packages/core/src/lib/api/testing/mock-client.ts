@@ -3,6 +3,7 @@
 // ============================================================================
 
 import { APIError } from '../errors.js';
+import { parseRequestBody, parseResponse } from '../schema.js';
 import type { APIClient, APIRequest, APIResponse, RequestConfig } from '../types.js';
 
 // ============================================================================
@@ -85,13 +86,27 @@ function matchPattern(
 // ============================================================================
 
 /**
- * Resolve a mock response value into an actual response.
- * Handles static values, promises, functions, delays, and errors.
+ * Resolve a mock response, validating the request body and response
+ * against `requestSchema` / `responseSchema` like the real client.
  */
 async function resolveMockResponse<T>(
   mockResponse: MockResponse<T>,
   config: RequestConfig,
   params: Record<string, string> = {}
+): Promise<APIResponse<T>> {
+  const parsedConfig = parseRequestBody(config);
+  const response = await resolveMockValue(mockResponse, parsedConfig, params);
+  return parseResponse(response, parsedConfig);
+}
+
+/**
+ * Resolve a mock response value into an actual response.
+ * Handles static values, promises, functions, delays, and errors.
+ */
+async function resolveMockValue<T>(
+  mockResponse: MockResponse<T>,
+  config: RequestConfig,
+  params: Record<string, string>
 ): Promise<APIResponse<T>> {
   // Handle error simulation
   if (typeof mockResponse === 'object' && mockResponse !== null && 'error' in mockResponse) {
@@ -196,7 +211,7 @@ export function createMockAPI(routes: MockRoutes = {}): APIClient {
   };
 
   return {
-    get: async <T = unknown>(url: string, config?: RequestConfig) => {
+    get: async <T = unknown>(url: string, config?: RequestConfig<T>) => {
       const route = findRoute('GET', url);
       if (!route) {
         throw new APIError(`No mock for: GET ${url}`, 404, null, {}, false);
@@ -204,7 +219,7 @@ export function createMockAPI(routes: MockRoutes = {}): APIClient {
       return resolveMockResponse<T>(route.response, config || {}, route.params);
     },
 
-    post: async <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    post: async <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       const route = findRoute('POST', url);
       if (!route) {
         throw new APIError(`No mock for: POST ${url}`, 404, null, {}, false);
@@ -212,7 +227,7 @@ export function createMockAPI(routes: MockRoutes = {}): APIClient {
       return resolveMockResponse<T>(route.response, { ...config, body }, route.params);
     },
 
-    put: async <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    put: async <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       const route = findRoute('PUT', url);
       if (!route) {
         throw new APIError(`No mock for: PUT ${url}`, 404, null, {}, false);
@@ -220,7 +235,7 @@ export function createMockAPI(routes: MockRoutes = {}): APIClient {
       return resolveMockResponse<T>(route.response, { ...config, body }, route.params);
     },
 
-    patch: async <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    patch: async <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       const route = findRoute('PATCH', url);
       if (!route) {
         throw new APIError(`No mock for: PATCH ${url}`, 404, null, {}, false);
@@ -228,7 +243,7 @@ export function createMockAPI(routes: MockRoutes = {}): APIClient {
       return resolveMockResponse<T>(route.response, { ...config, body }, route.params);
     },
 
-    delete: async <T = unknown>(url: string, config?: RequestConfig) => {
+    delete: async <T = unknown>(url: string, config?: RequestConfig<T>) => {
       const route = findRoute('DELETE', url);
       if (!route) {
         throw new APIError(`No mock for: DELETE ${url}`, 404, null, {}, false);
@@ -273,6 +288,10 @@ export function createMockAPI(routes: MockRoutes = {}): APIClient {
 
     invalidateCache: () => {
       // No-op for mock
+    },
+
+    invalidateTags: () => {
+      // No-op for mock
     }
   };
 }
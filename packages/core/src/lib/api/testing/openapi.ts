@@ -0,0 +1,689 @@
+// ============================================================================
+// Contract-Driven Mocks from OpenAPI Documents
+// ============================================================================
+
+import { createMockAPI, type MockResponse, type MockRoutes } from './mock-client.js';
+import { createRESTEndpoints, type RESTEndpoints } from '../endpoints.js';
+import type { APIClient, HTTPMethod, RequestConfig } from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Schema object (OpenAPI 3.0 and 3.1 subset used for validation).
+ */
+export interface OpenAPISchema {
+  readonly $ref?: string;
+  readonly type?: string | readonly string[];
+  readonly nullable?: boolean;
+  readonly enum?: readonly unknown[];
+  readonly const?: unknown;
+  readonly format?: string;
+  readonly example?: unknown;
+  readonly default?: unknown;
+  readonly readOnly?: boolean;
+  readonly writeOnly?: boolean;
+  readonly properties?: Record<string, OpenAPISchema>;
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean | OpenAPISchema;
+  readonly items?: OpenAPISchema;
+  readonly allOf?: readonly OpenAPISchema[];
+  readonly anyOf?: readonly OpenAPISchema[];
+  readonly oneOf?: readonly OpenAPISchema[];
+  readonly minLength?: number;
+  readonly maxLength?: number;
+  readonly pattern?: string;
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly exclusiveMinimum?: boolean | number;
+  readonly exclusiveMaximum?: boolean | number;
+  readonly multipleOf?: number;
+  readonly minItems?: number;
+  readonly maxItems?: number;
+  readonly uniqueItems?: boolean;
+}
+
+export interface OpenAPIReference {
+  readonly $ref: string;
+}
+
+export interface OpenAPIMediaType {
+  readonly schema?: OpenAPISchema;
+  readonly example?: unknown;
+  readonly examples?: Record<string, { readonly value?: unknown } | OpenAPIReference>;
+}
+
+export interface OpenAPIRequestBody {
+  readonly required?: boolean;
+  readonly content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIResponseObject {
+  readonly description?: string;
+  readonly content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+  readonly operationId?: string;
+  readonly requestBody?: OpenAPIRequestBody | OpenAPIReference;
+  readonly responses?: Record<string, OpenAPIResponseObject | OpenAPIReference>;
+}
+
+export type OpenAPIPathItem = {
+  readonly [M in Lowercase<HTTPMethod>]?: OpenAPIOperation;
+};
+
+/**
+ * OpenAPI 3 document (the parts used for mocking).
+ */
+export interface OpenAPIDocument {
+  readonly openapi: string;
+  readonly paths: Record<string, OpenAPIPathItem>;
+  readonly components?: {
+    readonly schemas?: Record<string, OpenAPISchema>;
+    readonly [section: string]: unknown;
+  };
+}
+
+/**
+ * A value that does not match its schema.
+ */
+export interface SchemaViolation {
+  /**
+   * Location in the value (e.g. `$.items[0].price`).
+   */
+  readonly path: string;
+  readonly message: string;
+}
+
+export interface OpenAPIMockOptions {
+  /**
+   * Prefix for all paths of the document (e.g. '/api').
+   * @default ''
+   */
+  readonly basePath?: string;
+
+  /**
+   * Responses replacing the examples of the document.
+   * Keyed by route ("GET /api/users/:id") or operationId ("getUser").
+   */
+  readonly overrides?: MockRoutes;
+
+  /**
+   * Validate request bodies against the request schemas.
+   * @default true
+   */
+  readonly validateRequests?: boolean;
+
+  /**
+   * Validate responses (examples and overrides) against the response schemas.
+   * @default true
+   */
+  readonly validateResponses?: boolean;
+}
+
+const METHODS: readonly HTTPMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'];
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown when a request or response does not match the OpenAPI document.
+ * Not an APIError, so reducers mapping API failures to actions don't
+ * swallow contract drift in tests.
+ */
+export class ContractError extends Error {
+  /**
+   * Operation that was called (e.g. "POST /api/users").
+   */
+  readonly operation: string;
+
+  /**
+   * Schema violations (empty when the operation itself is missing).
+   */
+  readonly violations: readonly SchemaViolation[];
+
+  constructor(message: string, operation: string, violations: readonly SchemaViolation[] = []) {
+    super(
+      violations.length > 0
+        ? `${message}\n${violations.map((v) => `  ${v.path}: ${v.message}`).join('\n')}`
+        : message
+    );
+    this.name = 'ContractError';
+    this.operation = operation;
+    this.violations = violations;
+  }
+}
+
+// ============================================================================
+// Document Loading
+// ============================================================================
+
+/**
+ * Check an OpenAPI 3 document given as JSON source or as an already parsed
+ * object. Parse YAML documents with a YAML library (e.g. `yaml`) first.
+ *
+ * @example
+ * ```typescript
+ * import { readFileSync } from 'node:fs';
+ * import { parse } from 'yaml';
+ *
+ * const spec = parseOpenAPI(parse(readFileSync('openapi.yaml', 'utf8')));
+ * ```
+ */
+export function parseOpenAPI(source: string | object): OpenAPIDocument {
+  let document: Partial<OpenAPIDocument> | null;
+  if (typeof source === 'string') {
+    try {
+      document = JSON.parse(source) as Partial<OpenAPIDocument> | null;
+    } catch {
+      throw new TypeError('Expected OpenAPI JSON source; parse YAML documents first and pass the result');
+    }
+  } else {
+    document = source as Partial<OpenAPIDocument> | null;
+  }
+
+  if (
+    !document ||
+    typeof document !== 'object' ||
+    !String(document.openapi ?? '').startsWith('3') ||
+    typeof document.paths !== 'object' ||
+    document.paths === null
+  ) {
+    throw new TypeError('Expected an OpenAPI 3 document with "openapi" and "paths"');
+  }
+
+  return document as OpenAPIDocument;
+}
+
+function resolveDocument(document: OpenAPIDocument | string): OpenAPIDocument {
+  return typeof document === 'string' ? parseOpenAPI(document) : document;
+}
+
+/**
+ * Resolve a local `$ref` ("#/components/schemas/User").
+ */
+function resolveRef<T>(document: OpenAPIDocument, value: T | OpenAPIReference): T {
+  let current: unknown = value;
+  const seen = new Set<string>();
+
+  while (current && typeof current === 'object' && '$ref' in current) {
+    const ref = (current as OpenAPIReference).$ref;
+    if (!ref.startsWith('#/')) {
+      throw new TypeError(`Only local $refs are supported, got "${ref}"`);
+    }
+    if (seen.has(ref)) {
+      throw new TypeError(`Circular $ref "${ref}"`);
+    }
+    seen.add(ref);
+
+    current = ref
+      .slice(2)
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>((node, segment) => (node as Record<string, unknown> | undefined)?.[segment], document);
+
+    if (current === undefined) {
+      throw new TypeError(`Unresolved $ref "${ref}"`);
+    }
+  }
+
+  return current as T;
+}
+
+// ============================================================================
+// Schema Validation
+// ============================================================================
+
+type Direction = 'request' | 'response';
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i,
+  uri: /^[a-z][a-z\d+.-]*:/i
+};
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a schema.
+ * `readOnly` properties aren't required in requests, `writeOnly` ones not in responses.
+ */
+export function validateSchema(
+  document: OpenAPIDocument,
+  schema: OpenAPISchema | OpenAPIReference,
+  value: unknown,
+  direction: Direction = 'response'
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validate(document, schema, value, '$', direction, violations);
+  return violations;
+}
+
+function validate(
+  document: OpenAPIDocument,
+  schemaOrRef: OpenAPISchema | OpenAPIReference,
+  value: unknown,
+  path: string,
+  direction: Direction,
+  violations: SchemaViolation[]
+): void {
+  const schema = resolveRef<OpenAPISchema>(document, schemaOrRef);
+  const report = (message: string) => violations.push({ path, message });
+
+  // Composition
+  for (const part of schema.allOf ?? []) {
+    validate(document, part, value, path, direction, violations);
+  }
+  if (schema.anyOf || schema.oneOf) {
+    const options = (schema.anyOf ?? schema.oneOf)!;
+    const matches = options.filter(
+      (option) => validateSchema(document, option, value, direction).length === 0
+    ).length;
+    if (schema.anyOf && matches === 0) report('must match at least one schema of anyOf');
+    if (schema.oneOf && matches !== 1) report(`must match exactly one schema of oneOf (matched ${matches})`);
+  }
+
+  // Type
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type as string];
+  if (value === null) {
+    if (types.length > 0 && !schema.nullable && !types.includes('null')) {
+      report(`must be ${types.join(' | ')}, got null`);
+    }
+    return;
+  }
+  if (value === undefined) {
+    report('is required');
+    return;
+  }
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    report(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    return;
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    report(`must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    report(`must be ${types.join(' | ')}, got ${typeOf(value)}`);
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) report(`must have at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) report(`must have at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) report(`must match pattern ${schema.pattern}`);
+    const format = schema.format !== undefined ? FORMATS[schema.format] : undefined;
+    if (format && !format.test(value)) report(`must be a valid ${schema.format}`);
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+    if (minimum !== undefined && (exclusiveMinimum === true ? value <= minimum : value < minimum)) {
+      report(`must be ${exclusiveMinimum === true ? '>' : '>='} ${minimum}`);
+    }
+    if (maximum !== undefined && (exclusiveMaximum === true ? value >= maximum : value > maximum)) {
+      report(`must be ${exclusiveMaximum === true ? '<' : '<='} ${maximum}`);
+    }
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) report(`must be > ${exclusiveMinimum}`);
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) report(`must be < ${exclusiveMaximum}`);
+    if (schema.multipleOf !== undefined && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      report(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) report(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) report(`must have at most ${schema.maxItems} items`);
+    if (schema.uniqueItems && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) {
+      report('must not contain duplicate items');
+    }
+    if (schema.items) {
+      value.forEach((item, i) => validate(document, schema.items!, item, `${path}[${i}]`, direction, violations));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      const property = properties[name] ? resolveRef<OpenAPISchema>(document, properties[name]!) : undefined;
+      const skip = direction === 'request' ? property?.readOnly : property?.writeOnly;
+      if (object[name] === undefined && !skip) {
+        violations.push({ path: `${path}.${name}`, message: 'is required' });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const property = properties[name];
+      if (property) {
+        if (propertyValue !== undefined) {
+          validate(document, property, propertyValue, `${path}.${name}`, direction, violations);
+        }
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${name}`, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(document, schema.additionalProperties, propertyValue, `${path}.${name}`, direction, violations);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Examples
+// ============================================================================
+
+const FORMAT_EXAMPLES: Record<string, string> = {
+  'date-time': '1970-01-01T00:00:00.000Z',
+  date: '1970-01-01',
+  email: 'user@example.com',
+  uuid: '00000000-0000-4000-8000-000000000000',
+  uri: 'https://example.com'
+};
+
+/**
+ * Build an example value from a schema (used when the document has no example).
+ */
+function exampleFromSchema(document: OpenAPIDocument, schemaOrRef: OpenAPISchema | OpenAPIReference, depth = 0): unknown {
+  const schema = resolveRef<OpenAPISchema>(document, schemaOrRef);
+  if (depth > 8) return null;
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  if (schema.allOf) {
+    return Object.assign({}, ...schema.allOf.map((part) => exampleFromSchema(document, part, depth + 1)));
+  }
+  const option = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+  if (option) return exampleFromSchema(document, option, depth + 1);
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : (schema.type as string | undefined);
+  switch (type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined)) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        if (!resolveRef<OpenAPISchema>(document, property).writeOnly) {
+          result[name] = exampleFromSchema(document, property, depth + 1);
+        }
+      }
+      return result;
+    }
+    case 'array':
+      return schema.items ? [exampleFromSchema(document, schema.items, depth + 1)] : [];
+    case 'string':
+      return (schema.format !== undefined && FORMAT_EXAMPLES[schema.format]) || 'string';
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+function pickMediaType(
+  document: OpenAPIDocument,
+  content: Record<string, OpenAPIMediaType> | undefined
+): OpenAPIMediaType | undefined {
+  if (!content) return undefined;
+  const type = Object.keys(content).find((key) => key.includes('json')) ?? Object.keys(content)[0];
+  return type !== undefined ? resolveRef(document, content[type]!) : undefined;
+}
+
+function exampleFromMedia(document: OpenAPIDocument, media: OpenAPIMediaType): unknown {
+  if (media.example !== undefined) return media.example;
+  const named = Object.values(media.examples ?? {})[0];
+  if (named) {
+    const example = resolveRef<{ value?: unknown }>(document, named);
+    if (example.value !== undefined) return example.value;
+  }
+  return media.schema ? exampleFromSchema(document, media.schema) : undefined;
+}
+
+/**
+ * Success response of an operation: the lowest 2xx, else 'default'.
+ */
+function successResponse(document: OpenAPIDocument, operation: OpenAPIOperation): OpenAPIResponseObject | undefined {
+  const responses = operation.responses ?? {};
+  const status = Object.keys(responses)
+    .filter((code) => /^2(\d\d|XX)$/i.test(code))
+    .sort()[0] ?? ('default' in responses ? 'default' : undefined);
+  return status !== undefined ? resolveRef(document, responses[status]!) : undefined;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * Convert an OpenAPI path ("/users/{user-id}") to a mock route pattern ("/users/:user_id").
+ */
+function toRoutePath(path: string): string {
+  return path.replace(/\{([^}]+)\}/g, (_, name: string) => `:${name.replace(/\W/g, '_')}`);
+}
+
+async function resolveOverride(
+  override: MockResponse<unknown>,
+  config: RequestConfig,
+  params: Record<string, string>
+): Promise<unknown> {
+  if (typeof override === 'function') {
+    return (override as (config: RequestConfig, params: Record<string, string>) => unknown)(config, params);
+  }
+  if (typeof override === 'object' && override !== null && 'error' in override) {
+    throw (override as { error: Error }).error;
+  }
+  if (typeof override === 'object' && override !== null && 'delay' in override) {
+    const { delay, data } = override as { delay: number; data: unknown };
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return data;
+  }
+  return override;
+}
+
+/**
+ * Generate mock routes from an OpenAPI document.
+ *
+ * Every operation answers with the example of its success response (or one
+ * built from the schema). Request bodies and responses are validated against
+ * the schemas, throwing a ContractError on drift.
+ *
+ * @example
+ * ```typescript
+ * const routes = createOpenAPIRoutes(spec, {
+ *   basePath: '/api',
+ *   overrides: {
+ *     getUser: (config, params) => ({ id: params.id, name: 'Ann' }),
+ *     'DELETE /api/users/:id': { error: new APIError('Forbidden', 403) }
+ *   }
+ * });
+ *
+ * const api = createMockAPI(routes);
+ * ```
+ */
+export function createOpenAPIRoutes(
+  document: OpenAPIDocument | string,
+  options: OpenAPIMockOptions = {}
+): MockRoutes {
+  const spec = resolveDocument(document);
+  const { basePath = '', overrides = {}, validateRequests = true, validateResponses = true } = options;
+  const routes: MockRoutes = {};
+  const usedOverrides = new Set<string>();
+
+  for (const [path, pathItem] of Object.entries(spec.paths)) {
+    for (const method of METHODS) {
+      const operation = pathItem[method.toLowerCase() as Lowercase<HTTPMethod>];
+      if (!operation) continue;
+
+      const routeKey = `${method} ${basePath}${toRoutePath(path)}`;
+      const overrideKey = routeKey in overrides
+        ? routeKey
+        : operation.operationId !== undefined && operation.operationId in overrides
+          ? operation.operationId
+          : undefined;
+      if (overrideKey !== undefined) usedOverrides.add(overrideKey);
+
+      const requestBody = operation.requestBody ? resolveRef(spec, operation.requestBody) : undefined;
+      const requestMedia = pickMediaType(spec, requestBody?.content);
+      const responseMedia = pickMediaType(spec, successResponse(spec, operation)?.content);
+      const example = responseMedia ? exampleFromMedia(spec, responseMedia) : undefined;
+
+      routes[routeKey] = async (config: RequestConfig, params: Record<string, string>) => {
+        if (validateRequests && requestBody) {
+          if (config.body === undefined) {
+            if (requestBody.required) {
+              throw new ContractError(`Request body of ${routeKey} is required`, routeKey);
+            }
+          } else if (requestMedia?.schema) {
+            const violations = validateSchema(spec, requestMedia.schema, config.body, 'request');
+            if (violations.length > 0) {
+              throw new ContractError(`Request body of ${routeKey} violates the contract:`, routeKey, violations);
+            }
+          }
+        }
+
+        const data = overrideKey !== undefined
+          ? await resolveOverride(overrides[overrideKey], config, params)
+          : example === undefined ? undefined : JSON.parse(JSON.stringify(example));
+
+        if (validateResponses && responseMedia?.schema) {
+          const violations = validateSchema(spec, responseMedia.schema, data, 'response');
+          if (violations.length > 0) {
+            throw new ContractError(`Response of ${routeKey} violates the contract:`, routeKey, violations);
+          }
+        }
+
+        return data;
+      };
+    }
+  }
+
+  const unknown = Object.keys(overrides).filter((key) => !usedOverrides.has(key));
+  if (unknown.length > 0) {
+    throw new ContractError(`Overrides do not match any operation: ${unknown.join(', ')}`, unknown[0]!);
+  }
+
+  return routes;
+}
+
+/**
+ * Create a mock API client from an OpenAPI document.
+ * Shorthand for `createMockAPI(createOpenAPIRoutes(document, options))`.
+ *
+ * @example
+ * ```typescript
+ * const api = createOpenAPIMock(parseOpenAPI(source), {
+ *   overrides: { listUsers: [] }
+ * });
+ *
+ * await api.post('/users', { name: '' }); // throws ContractError if name has minLength: 1
+ * ```
+ */
+export function createOpenAPIMock(
+  document: OpenAPIDocument | string,
+  options?: OpenAPIMockOptions
+): APIClient {
+  return createMockAPI(createOpenAPIRoutes(document, options));
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+/**
+ * Create REST endpoints for a resource of an OpenAPI document.
+ *
+ * Methods throw a ContractError when the document does not define the
+ * operation (e.g. PATCH on an item) or when a body doesn't match its schema.
+ *
+ * @param document - OpenAPI document
+ * @param resourcePath - Collection path in the document ("/users")
+ * @param options - basePath prefix for request URLs
+ *
+ * @example
+ * ```typescript
+ * const users = createOpenAPIEndpoints<User, NewUser>(spec, '/users', { basePath: '/api' });
+ *
+ * users.get('1');                  // GET /api/users/1
+ * users.create({ name: 'Ann' });   // validated against POST /users
+ * ```
+ */
+export function createOpenAPIEndpoints<T, CreateDTO = Partial<T>, UpdateDTO = Partial<T>>(
+  document: OpenAPIDocument | string,
+  resourcePath: string,
+  options: Pick<OpenAPIMockOptions, 'basePath' | 'validateRequests'> = {}
+): RESTEndpoints<T, CreateDTO, UpdateDTO> {
+  const spec = resolveDocument(document);
+  const { basePath = '', validateRequests = true } = options;
+  const endpoints = createRESTEndpoints<T, CreateDTO, UpdateDTO>(`${basePath}${resourcePath}`);
+
+  const itemPath = Object.keys(spec.paths).find(
+    (path) => path.startsWith(`${resourcePath}/{`) && /^\/\{[^}]+\}$/.test(path.slice(resourcePath.length))
+  );
+
+  function check(method: HTTPMethod, path: string | undefined, body?: unknown): void {
+    const operationName = `${method} ${basePath}${path ?? `${resourcePath}/{id}`}`;
+    const operation = path !== undefined
+      ? spec.paths[path]?.[method.toLowerCase() as Lowercase<HTTPMethod>]
+      : undefined;
+    if (!operation) {
+      throw new ContractError(`${operationName} is not defined in the OpenAPI document`, operationName);
+    }
+
+    if (validateRequests && body !== undefined && operation.requestBody) {
+      const schema = pickMediaType(spec, resolveRef(spec, operation.requestBody).content)?.schema;
+      const violations = schema ? validateSchema(spec, schema, body, 'request') : [];
+      if (violations.length > 0) {
+        throw new ContractError(`Request body of ${operationName} violates the contract:`, operationName, violations);
+      }
+    }
+  }
+
+  return {
+    list(config) {
+      check('GET', resourcePath);
+      return endpoints.list(config);
+    },
+    get(id, config) {
+      check('GET', itemPath);
+      return endpoints.get(id, config);
+    },
+    create(data, config) {
+      check('POST', resourcePath, data);
+      return endpoints.create(data, config);
+    },
+    update(id, data, config) {
+      check('PUT', itemPath, data);
+      return endpoints.update(id, data, config);
+    },
+    patch(id, data, config) {
+      check('PATCH', itemPath, data);
+      return endpoints.patch(id, data, config);
+    },
+    delete(id, config) {
+      check('DELETE', itemPath);
+      return endpoints.delete(id, config);
+    }
+  };
+}
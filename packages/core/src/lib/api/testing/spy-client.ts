@@ -171,29 +171,29 @@ export function createSpyAPI(
       return errors[errors.length - 1];
     },
 
-    get: <T = unknown>(url: string, config?: RequestConfig) => {
+    get: <T = unknown>(url: string, config?: RequestConfig<T>) => {
       return executeAndTrack('GET', url, config, () => baseClient.get<T>(url, config));
     },
 
-    post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       return executeAndTrack('POST', url, { ...config, body }, () =>
         baseClient.post<T>(url, body, config)
       );
     },
 
-    put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       return executeAndTrack('PUT', url, { ...config, body }, () =>
         baseClient.put<T>(url, body, config)
       );
     },
 
-    patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => {
+    patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => {
       return executeAndTrack('PATCH', url, { ...config, body }, () =>
         baseClient.patch<T>(url, body, config)
       );
     },
 
-    delete: <T = unknown>(url: string, config?: RequestConfig) => {
+    delete: <T = unknown>(url: string, config?: RequestConfig<T>) => {
       return executeAndTrack('DELETE', url, config, () => baseClient.delete<T>(url, config));
     },
 
@@ -217,6 +217,10 @@ export function createSpyAPI(
 
     invalidateCache: (pattern: string) => {
       baseClient.invalidateCache(pattern);
+    },
+
+    invalidateTags: (tags: string[]) => {
+      baseClient.invalidateTags(tags);
     }
   };
 }
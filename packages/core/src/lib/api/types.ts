@@ -2,6 +2,8 @@
 // Core API Types
 // ============================================================================
 
+import type { ZodType } from 'zod';
+
 /**
  * HTTP methods supported by the API client.
  */
@@ -14,8 +16,9 @@ export type SafeHTTPMethod = 'GET' | 'HEAD' | 'OPTIONS' | 'PUT' | 'DELETE';
 
 /**
  * Request configuration for API calls.
+ * `T` is the response type, inferred from `responseSchema`.
  */
-export interface RequestConfig {
+export interface RequestConfig<T = unknown> {
   /**
    * Request timeout in milliseconds.
    * @default 30000 (30 seconds)
@@ -62,6 +65,19 @@ export interface RequestConfig {
    * @default false
    */
   cache?: boolean | CacheConfig;
+
+  /**
+   * Zod schema for the request body.
+   * The parsed body is sent; a mismatch throws SchemaMismatchError
+   * before the request is made.
+   */
+  requestSchema?: ZodType;
+
+  /**
+   * Zod schema for the response data. Narrows the response type.
+   * A mismatch throws SchemaMismatchError and the response is not cached.
+   */
+  responseSchema?: ZodType<T>;
 }
 
 /**
@@ -132,6 +148,152 @@ export interface CacheConfig {
    * Supports exact matches and prefix matching (ending with *).
    */
   invalidates?: string[];
+
+  /**
+   * Tags attached to the cached response, for invalidateTags().
+   */
+  tags?: string[];
+
+  /**
+   * Tags to invalidate when this mutation completes.
+   */
+  invalidatesTags?: string[];
+
+  /**
+   * Serve expired responses while refetching them in the background.
+   * A number limits how long (ms) after the TTL a response may be served stale;
+   * `true` serves it until it is replaced.
+   * The stale response has `stale: true` and a `revalidation` promise.
+   * @default false
+   */
+  staleWhileRevalidate?: boolean | number;
+}
+
+/**
+ * Cached response with its bookkeeping.
+ */
+export interface CacheEntry<T = unknown> {
+  /**
+   * Response as received from the server.
+   */
+  response: APIResponse<T>;
+
+  /**
+   * Request URL, used for pattern invalidation.
+   */
+  url: string;
+
+  /**
+   * Time the response was stored (ms since epoch).
+   */
+  timestamp: number;
+
+  /**
+   * Time-to-live (ms).
+   */
+  ttl: number;
+
+  /**
+   * How long after the TTL the response may be served stale (ms).
+   */
+  staleTime: number;
+
+  /**
+   * Tags for invalidateTags().
+   */
+  tags: string[];
+
+  /**
+   * Approximate size of the response (bytes).
+   */
+  size: number;
+}
+
+/**
+ * Key-value backend of a CacheStore.
+ * Use createMemoryCacheBackend() or createStorageCacheBackend().
+ */
+export interface CacheBackend {
+  get(key: string): CacheEntry | null;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  keys(): string[];
+  clear(): void;
+}
+
+/**
+ * CacheStore configuration.
+ */
+export interface CacheStoreConfig {
+  /**
+   * Where entries are kept.
+   * @default createMemoryCacheBackend()
+   */
+  backend?: CacheBackend;
+
+  /**
+   * Maximum number of entries; least recently used entries are evicted.
+   * @default 1000
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total size of cached responses (bytes).
+   * @default Infinity
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Response cache of an APIClient.
+ */
+export interface CacheStore {
+  /**
+   * Get a cached GET response. Expired responses within their
+   * stale-while-revalidate window are returned with `stale: true`.
+   */
+  get: <T>(
+    method: HTTPMethod,
+    url: string,
+    config?: RequestConfig,
+    cacheConfig?: boolean | CacheConfig
+  ) => APIResponse<T> | null;
+
+  /**
+   * Store a GET response.
+   */
+  set: <T>(
+    method: HTTPMethod,
+    url: string,
+    response: APIResponse<T>,
+    config?: RequestConfig,
+    cacheConfig?: boolean | CacheConfig
+  ) => void;
+
+  /**
+   * Invalidate entries whose URL matches a pattern (exact or prefix ending with *).
+   */
+  invalidate: (pattern: string) => void;
+
+  /**
+   * Invalidate entries with any of the given tags.
+   */
+  invalidateTags: (tags: string[]) => void;
+
+  /**
+   * Invalidate entries affected by a POST/PUT/PATCH/DELETE request.
+   */
+  invalidateOnMutation: (method: HTTPMethod, url: string, cacheConfig?: boolean | CacheConfig) => void;
+
+  /**
+   * Remove all entries.
+   */
+  clear: () => void;
+
+  /**
+   * Number of entries.
+   */
+  size: () => number;
 }
 
 /**
@@ -183,6 +345,23 @@ export interface APIResponse<T = unknown> {
    * Whether response was served from cache.
    */
   cached?: boolean;
+
+  /**
+   * Whether the cached response is past its TTL (stale-while-revalidate).
+   */
+  stale?: boolean;
+
+  /**
+   * Background refetch of a stale response.
+   * Resolves with the fresh response once it has been cached.
+   */
+  revalidation?: Promise<APIResponse<T>>;
+
+  /**
+   * Idempotency key of a mutation queued by an offline client.
+   * Set on `202` responses whose `data` is undefined until replayed.
+   */
+  queuedId?: string;
 }
 
 /**
@@ -245,27 +424,27 @@ export interface APIClient {
   /**
    * Perform a GET request.
    */
-  get: <T = unknown>(url: string, config?: RequestConfig) => Promise<APIResponse<T>>;
+  get: <T = unknown>(url: string, config?: RequestConfig<T>) => Promise<APIResponse<T>>;
 
   /**
    * Perform a POST request.
    */
-  post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => Promise<APIResponse<T>>;
+  post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => Promise<APIResponse<T>>;
 
   /**
    * Perform a PUT request.
    */
-  put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => Promise<APIResponse<T>>;
+  put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => Promise<APIResponse<T>>;
 
   /**
    * Perform a PATCH request.
    */
-  patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig) => Promise<APIResponse<T>>;
+  patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>) => Promise<APIResponse<T>>;
 
   /**
    * Perform a DELETE request.
    */
-  delete: <T = unknown>(url: string, config?: RequestConfig) => Promise<APIResponse<T>>;
+  delete: <T = unknown>(url: string, config?: RequestConfig<T>) => Promise<APIResponse<T>>;
 
   /**
    * Perform a HEAD request.
@@ -293,6 +472,11 @@ export interface APIClient {
    * Supports exact matches and prefix matching (ending with *).
    */
   invalidateCache: (pattern: string) => void;
+
+  /**
+   * Invalidate cache entries with any of the given tags.
+   */
+  invalidateTags: (tags: string[]) => void;
 }
 
 /**
@@ -326,6 +510,12 @@ export interface APIClientConfig {
    */
   cache?: boolean | CacheConfig;
 
+  /**
+   * Response cache owned by this client.
+   * @default createCacheStore()
+   */
+  cacheStore?: CacheStore;
+
   /**
    * Enable request deduplication by default.
    * @default true
@@ -354,7 +544,7 @@ export const Request = {
   /**
    * Create a GET request.
    */
-  get: <T = unknown>(url: string, config?: RequestConfig): APIRequest<T> => ({
+  get: <T = unknown>(url: string, config?: RequestConfig<T>): APIRequest<T> => ({
     method: 'GET',
     url,
     ...(config !== undefined && { config })
@@ -363,7 +553,7 @@ export const Request = {
   /**
    * Create a POST request.
    */
-  post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig): APIRequest<T> => ({
+  post: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>): APIRequest<T> => ({
     method: 'POST',
     url,
     config: { ...config, body }
@@ -372,7 +562,7 @@ export const Request = {
   /**
    * Create a PUT request.
    */
-  put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig): APIRequest<T> => ({
+  put: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>): APIRequest<T> => ({
     method: 'PUT',
     url,
     config: { ...config, body }
@@ -381,7 +571,7 @@ export const Request = {
   /**
    * Create a PATCH request.
    */
-  patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig): APIRequest<T> => ({
+  patch: <T = unknown>(url: string, body?: unknown, config?: RequestConfig<T>): APIRequest<T> => ({
     method: 'PATCH',
     url,
     config: { ...config, body }
@@ -390,7 +580,7 @@ export const Request = {
   /**
    * Create a DELETE request.
    */
-  delete: <T = unknown>(url: string, config?: RequestConfig): APIRequest<T> => ({
+  delete: <T = unknown>(url: string, config?: RequestConfig<T>): APIRequest<T> => ({
     method: 'DELETE',
     url,
     ...(config !== undefined && { config })
@@ -14,6 +14,7 @@ export type {
 	Pagination,
 	SortDirection
 } from './table.types.js';
+export { getVirtualRange, type VirtualRowsConfig, type VirtualRange } from './virtual-rows.js';
 
 // Components
 export { default as DataTable } from './DataTable.svelte';
@@ -6,6 +6,7 @@
 
 import type { Reducer } from '../../types.js';
 import { Effect } from '../../effect.js';
+import { appendPage } from '../../api/infinite.js';
 import type {
 	TableState,
 	TableAction,
@@ -21,8 +22,8 @@ export function createInitialState<T>(config: TableConfig<T>): TableState<T> {
 	const initialData = config.initialData || [];
 	const pageSize = config.pageSize || 10;
 
-	// Apply initial pagination
-	const paginatedData = initialData.slice(0, pageSize);
+	// Apply initial pagination (infinite tables show all loaded rows)
+	const paginatedData = config.fetchPage ? initialData : initialData.slice(0, pageSize);
 
 	return {
 		data: paginatedData,
@@ -36,7 +37,11 @@ export function createInitialState<T>(config: TableConfig<T>): TableState<T> {
 		},
 		selectedRows: new Set(),
 		isLoading: false,
-		error: null
+		error: null,
+		nextCursor: null,
+		hasNextPage: config.fetchPage !== undefined,
+		isLoadingMore: false,
+		pageRequestId: 0
 	};
 }
 
@@ -134,7 +139,7 @@ function applyPagination<T>(data: T[], page: number, pageSize: number): T[] {
 /**
  * Processes data through filters, sorting, and pagination (client-side).
  */
-function processData<T>(state: TableState<T>): T[] {
+function processData<T>(state: TableState<T>, paginate = true): T[] {
 	let processed = state.originalData;
 
 	// Apply filters
@@ -147,7 +152,9 @@ function processData<T>(state: TableState<T>): T[] {
 	const total = processed.length;
 
 	// Apply pagination
-	processed = applyPagination(processed, state.pagination.page, state.pagination.pageSize);
+	if (paginate) {
+		processed = applyPagination(processed, state.pagination.page, state.pagination.pageSize);
+	}
 
 	return processed;
 }
@@ -158,6 +165,21 @@ function processData<T>(state: TableState<T>): T[] {
 export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<TableState<T>, TableAction<T>, {}> {
 	const getRowId = config.getRowId || ((row: T) => String((row as any).id));
 	const serverSide = config.serverSide || false;
+	const infinite = config.fetchPage !== undefined;
+
+	// Drop the page in flight: it was fetched for the previous data or filters
+	function dropPendingPage(state: TableState<T>): TableState<T> {
+		return {
+			...state,
+			pageRequestId: state.pageRequestId + 1,
+			// A pending first page shows as isLoading
+			isLoading: state.isLoading && state.originalData.length > 0,
+			isLoadingMore: false
+		};
+	}
+
+	// Server-side infinite tables fetch pages for the current sorting and filters
+	const dropsPageOnQueryChange = infinite && serverSide;
 
 	return (state, action, deps) => {
 		switch (action.type) {
@@ -165,7 +187,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 			case 'dataLoaded': {
 				const newData = action.data;
 				const updatedState: TableState<T> = {
-					...state,
+					...dropPendingPage(state),
 					originalData: newData,
 					isLoading: false,
 					error: null,
@@ -177,7 +199,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 
 				// Process data if client-side
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
 					updatedState.pagination.total = updatedState.data.length;
 				} else {
 					updatedState.data = newData;
@@ -203,7 +225,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 				}
 
 				const loadingState: TableState<T> = {
-					...state,
+					...dropPendingPage(state),
 					isLoading: true,
 					error: null
 				};
@@ -243,7 +265,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 				}
 
 				const updatedState: TableState<T> = {
-					...state,
+					...(dropsPageOnQueryChange ? dropPendingPage(state) : state),
 					sorting: newSorting,
 					pagination: {
 						...state.pagination,
@@ -253,7 +275,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 
 				// Reprocess data if client-side
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
 				}
 
 				return [updatedState, Effect.none()];
@@ -261,12 +283,12 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 
 			case 'sortCleared': {
 				const updatedState: TableState<T> = {
-					...state,
+					...(dropsPageOnQueryChange ? dropPendingPage(state) : state),
 					sorting: []
 				};
 
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
 				}
 
 				return [updatedState, Effect.none()];
@@ -279,7 +301,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 				newFilters.push(action.filter);
 
 				const updatedState: TableState<T> = {
-					...state,
+					...(dropsPageOnQueryChange ? dropPendingPage(state) : state),
 					filters: newFilters,
 					pagination: {
 						...state.pagination,
@@ -288,7 +310,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 				};
 
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
 					// Update total based on filtered data
 					const filteredData = applyFilters(state.originalData, newFilters);
 					updatedState.pagination.total = filteredData.length;
@@ -301,12 +323,12 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 				const newFilters = state.filters.filter((f) => f.column !== action.column);
 
 				const updatedState: TableState<T> = {
-					...state,
+					...(dropsPageOnQueryChange ? dropPendingPage(state) : state),
 					filters: newFilters
 				};
 
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
 					const filteredData = applyFilters(state.originalData, newFilters);
 					updatedState.pagination.total = filteredData.length;
 				}
@@ -316,12 +338,12 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 
 			case 'filtersCleared': {
 				const updatedState: TableState<T> = {
-					...state,
+					...(dropsPageOnQueryChange ? dropPendingPage(state) : state),
 					filters: []
 				};
 
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
 					updatedState.pagination.total = state.originalData.length;
 				}
 
@@ -342,7 +364,7 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 				};
 
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
 				}
 
 				return [updatedState, Effect.none()];
@@ -359,12 +381,87 @@ export function createTableReducer<T>(config: TableConfig<T> = {}): Reducer<Tabl
 				};
 
 				if (!serverSide) {
-					updatedState.data = processData(updatedState);
+					updatedState.data = processData(updatedState, !infinite);
+				}
+
+				return [updatedState, Effect.none()];
+			}
+
+			// Infinite loading actions
+			case 'nextPageRequested': {
+				if (!config.fetchPage || state.isLoading || state.isLoadingMore || !state.hasNextPage) {
+					return [state, Effect.none()];
+				}
+
+				const requestId = state.pageRequestId + 1;
+				const loadingState: TableState<T> = {
+					...state,
+					isLoading: state.originalData.length === 0,
+					isLoadingMore: state.originalData.length > 0,
+					error: null,
+					pageRequestId: requestId
+				};
+
+				const effect = Effect.run<TableAction<T>>(async (dispatch) => {
+					try {
+						const page = await config.fetchPage!(state.nextCursor, loadingState);
+						dispatch({ type: 'nextPageLoaded', requestId, page });
+					} catch (error) {
+						dispatch({
+							type: 'nextPageLoadFailed',
+							requestId,
+							error: error instanceof Error ? error.message : 'Unknown error'
+						});
+					}
+				});
+
+				return [loadingState, effect];
+			}
+
+			case 'nextPageLoaded': {
+				if (action.requestId !== state.pageRequestId) {
+					return [state, Effect.none()];
+				}
+				const originalData = appendPage(state.originalData, action.page.items, getRowId);
+				const updatedState: TableState<T> = {
+					...state,
+					originalData,
+					isLoading: false,
+					isLoadingMore: false,
+					error: null,
+					nextCursor: action.page.nextCursor,
+					hasNextPage: action.page.nextCursor !== null,
+					pagination: {
+						...state.pagination,
+						total: originalData.length
+					}
+				};
+
+				if (!serverSide) {
+					updatedState.data = processData(updatedState, false);
+					updatedState.pagination.total = updatedState.data.length;
+				} else {
+					updatedState.data = originalData;
 				}
 
 				return [updatedState, Effect.none()];
 			}
 
+			case 'nextPageLoadFailed': {
+				if (action.requestId !== state.pageRequestId) {
+					return [state, Effect.none()];
+				}
+				return [
+					{
+						...state,
+						isLoading: false,
+						isLoadingMore: false,
+						error: action.error
+					},
+					Effect.none()
+				];
+			}
+
 			// Selection actions
 			case 'rowSelected': {
 				const newSelection = new Set(state.selectedRows);
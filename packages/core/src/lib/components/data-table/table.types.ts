@@ -4,6 +4,8 @@
  * Type definitions for the DataTable system following Composable Architecture patterns.
  */
 
+import type { Page } from '../../api/infinite.js';
+
 /**
  * Sort direction for columns.
  */
@@ -126,6 +128,27 @@ export interface TableState<T> {
 	 * Error state (if data loading failed).
 	 */
 	error: string | null;
+
+	/**
+	 * Cursor of the next page (infinite tables, see `TableConfig.fetchPage`).
+	 */
+	nextCursor: string | null;
+
+	/**
+	 * Whether there is a page after the loaded rows (infinite tables).
+	 */
+	hasNextPage: boolean;
+
+	/**
+	 * Whether the next page is loading (infinite tables).
+	 */
+	isLoadingMore: boolean;
+
+	/**
+	 * Id of the latest page request (infinite tables). Pages of requests
+	 * superseded by a data reload or filter change are ignored.
+	 */
+	pageRequestId: number;
 }
 
 /**
@@ -152,6 +175,11 @@ export type TableAction<T> =
 	| { type: 'pageChanged'; page: number }
 	| { type: 'pageSizeChanged'; pageSize: number }
 
+	// Infinite loading actions
+	| { type: 'nextPageRequested' }
+	| { type: 'nextPageLoaded'; requestId: number; page: Page<T> }
+	| { type: 'nextPageLoadFailed'; requestId: number; error: string }
+
 	// Selection actions
 	| { type: 'rowSelected'; rowId: string }
 	| { type: 'rowDeselected'; rowId: string }
@@ -193,4 +221,11 @@ export interface TableConfig<T> {
 	 * Data fetcher for server-side tables.
 	 */
 	fetchData?: (state: TableState<T>) => Promise<{ data: T[]; total: number }>;
+
+	/**
+	 * Page fetcher for infinite tables (cursor is null for the first page).
+	 * When set, loaded pages are appended and deduplicated by row ID instead of
+	 * being split into numbered pages.
+	 */
+	fetchPage?: (cursor: string | null, state: TableState<T>) => Promise<Page<T>>;
 }
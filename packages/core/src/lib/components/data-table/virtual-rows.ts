@@ -0,0 +1,74 @@
+/**
+ * DataTable Virtual Rows
+ *
+ * Window calculation for rendering only the visible rows of a long table.
+ */
+
+/**
+ * Virtual scrolling configuration.
+ */
+export interface VirtualRowsConfig {
+	/**
+	 * Fixed height of each row in pixels.
+	 */
+	rowHeight: number;
+
+	/**
+	 * Height of the scroll container in pixels.
+	 */
+	height: number;
+
+	/**
+	 * Rows rendered above and below the visible ones (default: 5).
+	 */
+	overscan?: number;
+}
+
+/**
+ * Range of rows to render and the space taken by the rows around it.
+ */
+export interface VirtualRange {
+	/**
+	 * Index of the first rendered row.
+	 */
+	start: number;
+
+	/**
+	 * Index after the last rendered row.
+	 */
+	end: number;
+
+	/**
+	 * Height of the skipped rows above, in pixels.
+	 */
+	paddingTop: number;
+
+	/**
+	 * Height of the skipped rows below, in pixels.
+	 */
+	paddingBottom: number;
+}
+
+/**
+ * Computes which rows are visible at the given scroll offset.
+ */
+export function getVirtualRange(
+	rowCount: number,
+	scrollTop: number,
+	config: VirtualRowsConfig
+): VirtualRange {
+	const { rowHeight, height, overscan = 5 } = config;
+
+	const firstVisible = Math.floor(Math.max(0, scrollTop) / rowHeight);
+	const visibleCount = Math.ceil(height / rowHeight) + 1;
+
+	const start = Math.max(0, Math.min(firstVisible - overscan, rowCount));
+	const end = Math.min(rowCount, firstVisible + visibleCount + overscan);
+
+	return {
+		start,
+		end,
+		paddingTop: start * rowHeight,
+		paddingBottom: Math.max(0, rowCount - end) * rowHeight
+	};
+}
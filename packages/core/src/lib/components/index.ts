@@ -30,6 +30,7 @@ export * from './form/index.js';
 export {
 	createTableReducer,
 	createInitialState,
+	getVirtualRange,
 	DataTable,
 	DataTableHeader,
 	DataTablePagination
@@ -43,7 +44,9 @@ export type {
 	ColumnFilter,
 	FilterOperator,
 	Pagination as TablePagination,
-	SortDirection
+	SortDirection,
+	VirtualRowsConfig,
+	VirtualRange
 } from './data-table/index.js';
 
 // Toast components (already re-exported from ui, but explicit for clarity)
@@ -7,6 +7,8 @@
  * - combineReducers(): Combine multiple slice reducers
  * - forEach(): Manage dynamic collections of child reducers
  * - forEachElement(): Simplified forEach for standard pattern
+ * - persist(): Persist and rehydrate a slice of state through Storage
+ * - undoable(): Add undo/redo history to a reducer
  */
 
 export { scope, scopeAction } from './scope.js';
@@ -29,3 +31,18 @@ export type {
   ElementAction,
   ForEachConfig
 } from './for-each.js';
+
+export { persist, rehydrate, purge } from './persist.js';
+export type {
+  PersistConfig,
+  PersistAction,
+  PersistEnvelope,
+  PersistMigration
+} from './persist.js';
+
+export { undoable, createUndoHistory, canUndo, canRedo } from './undoable.js';
+export type {
+  UndoHistory,
+  UndoableState,
+  UndoableConfig
+} from './undoable.js';
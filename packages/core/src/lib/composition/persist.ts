@@ -0,0 +1,287 @@
+/**
+ * persist - Declarative state persistence and rehydration
+ *
+ * Wraps a reducer so that a slice of its state is written to a `Storage<T>`
+ * backend (debounced) whenever it changes, and restored on demand via a
+ * `rehydrated` action. Storage access happens in effects; the reducer stays pure.
+ *
+ * @example
+ * ```typescript
+ * const reducer = persist(appReducer, {
+ *   key: 'app',
+ *   storage: createLocalStorage(),
+ *   select: (state) => ({ todos: state.todos }),
+ *   version: 2,
+ *   migrations: { 2: (old: any) => ({ todos: old.items }) },
+ *   validate: isTodosSlice
+ * });
+ *
+ * const store = createStore({ initialState, reducer });
+ * store.dispatch(rehydrate('app'));
+ * ```
+ */
+
+import type { Reducer, Effect as EffectType } from '../types.js';
+import type { Storage, SyncStorage, SchemaValidator } from '../dependencies/storage.js';
+import { Effect } from '../effect.js';
+import { shallowChanged } from './shallow.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Envelope written to storage.
+ * The version allows stored data to be migrated when the slice shape changes.
+ */
+export interface PersistEnvelope {
+  version: number;
+  data: unknown;
+}
+
+/**
+ * Migration from the previous version to the version it is keyed by.
+ */
+export type PersistMigration = (data: unknown) => unknown;
+
+/**
+ * Actions handled by a persisted reducer.
+ * Each action carries the persistence key so several persisted reducers
+ * can live in the same store.
+ */
+export type PersistAction<Slice> =
+  | { type: 'persist/rehydrate'; key: string }
+  | {
+      type: 'persist/rehydrated';
+      key: string;
+      /** Restored slice, or null if nothing valid was stored */
+      slice: Slice | null;
+      /** 'storage' for the initial read, 'sync' for changes from another tab */
+      source: 'storage' | 'sync';
+    }
+  | { type: 'persist/purge'; key: string };
+
+/**
+ * Configuration for persist().
+ */
+export interface PersistConfig<State, Slice> {
+  /**
+   * Storage key.
+   */
+  key: string;
+
+  /**
+   * Storage backend. When it is a `SyncStorage` (e.g. createLocalStorage()),
+   * changes made in other tabs are rehydrated automatically.
+   */
+  storage: Storage<PersistEnvelope> | SyncStorage<PersistEnvelope>;
+
+  /**
+   * Select the slice of state to persist.
+   * Default: the whole state.
+   */
+  select?: (state: State) => Slice;
+
+  /**
+   * Apply a restored slice to state.
+   * Default: shallow merge (`{ ...state, ...slice }`).
+   */
+  merge?: (state: State, slice: Slice) => State;
+
+  /**
+   * Current version of the persisted slice.
+   * Default: 0
+   */
+  version?: number;
+
+  /**
+   * Migrations keyed by the version they migrate TO.
+   * Stored data at version 1 with current version 3 runs migrations 2 and 3.
+   */
+  migrations?: Record<number, PersistMigration>;
+
+  /**
+   * Reject corrupt or outdated data after migration.
+   */
+  validate?: SchemaValidator<Slice>;
+
+  /**
+   * Debounce delay for writes in milliseconds.
+   * Default: 300
+   */
+  debounceMs?: number;
+}
+
+// ============================================================================
+// Action creators
+// ============================================================================
+
+/**
+ * Request rehydration of the persisted slice stored under `key`.
+ * Dispatch once after creating the store.
+ */
+export function rehydrate(key: string): PersistAction<never> {
+  return { type: 'persist/rehydrate', key };
+}
+
+/**
+ * Remove the persisted slice stored under `key`.
+ * State is left untouched.
+ */
+export function purge(key: string): PersistAction<never> {
+  return { type: 'persist/purge', key };
+}
+
+// ============================================================================
+// Core: persist
+// ============================================================================
+
+function isSyncStorage<T>(storage: Storage<T>): storage is SyncStorage<T> {
+  return typeof (storage as SyncStorage<T>).subscribe === 'function';
+}
+
+/**
+ * Creates a reducer that persists a slice of state and restores it on
+ * `persist/rehydrated`.
+ *
+ * - Writes are debounced and only happen when the selected slice changes
+ *   (compared shallowly).
+ * - `persist/rehydrate` reads storage, migrates and validates the data,
+ *   then dispatches `persist/rehydrated`. With a `SyncStorage` backend it
+ *   also subscribes to changes from other tabs.
+ * - `persist/rehydrated` merges the slice and cancels any pending write so
+ *   pre-rehydration defaults never overwrite stored data.
+ */
+export function persist<State, Action, Slice = State, Dependencies = any>(
+  reducer: Reducer<State, Action, Dependencies>,
+  config: PersistConfig<State, Slice>
+): Reducer<State, Action | PersistAction<Slice>, Dependencies> {
+  const {
+    key,
+    storage,
+    select = (state: State) => state as unknown as Slice,
+    merge = (state: State, slice: Slice) => ({ ...state, ...slice }) as State,
+    version = 0,
+    migrations = {},
+    validate,
+    debounceMs = 300
+  } = config;
+
+  if (debounceMs < 0) {
+    throw new TypeError(`persist: debounceMs must be non-negative, got ${debounceMs}`);
+  }
+
+  const writeId = `persist:${key}:write`;
+  const syncId = `persist:${key}:sync`;
+
+  /**
+   * Migrate and validate a stored envelope.
+   */
+  function decode(envelope: PersistEnvelope | null): Slice | null {
+    if (
+      envelope === null ||
+      typeof envelope !== 'object' ||
+      typeof envelope.version !== 'number' ||
+      envelope.version > version
+    ) {
+      return null;
+    }
+
+    try {
+      let data = envelope.data;
+      for (let v = envelope.version + 1; v <= version; v++) {
+        const migrate = migrations[v];
+        if (migrate) {
+          data = migrate(data);
+        }
+      }
+
+      if (validate && !validate(data)) {
+        return null;
+      }
+      return data as Slice;
+    } catch (error) {
+      console.error(`[Composable Svelte] persist "${key}": migration failed`, error);
+      return null;
+    }
+  }
+
+  function isPersistAction(action: Action | PersistAction<Slice>): action is PersistAction<Slice> {
+    const candidate = action as Partial<PersistAction<Slice>>;
+    return (
+      typeof candidate?.type === 'string' &&
+      candidate.type.startsWith('persist/') &&
+      candidate.key === key
+    );
+  }
+
+  return (state, action, deps) => {
+    if (isPersistAction(action)) {
+      switch (action.type) {
+        case 'persist/rehydrate': {
+          const read = Effect.run<PersistAction<Slice>>((dispatch) => {
+            dispatch({
+              type: 'persist/rehydrated',
+              key,
+              slice: decode(storage.getItem(key)),
+              source: 'storage'
+            });
+          });
+
+          if (!isSyncStorage(storage)) {
+            return [state, read];
+          }
+
+          const sync = Effect.subscription<PersistAction<Slice>>(syncId, (dispatch) =>
+            storage.subscribe((event) => {
+              if (event.key !== key) return;
+              const slice = decode(event.newValue);
+              if (slice !== null) {
+                dispatch({ type: 'persist/rehydrated', key, slice, source: 'sync' });
+              }
+            })
+          );
+
+          return [state, Effect.batch(read, sync)];
+        }
+
+        case 'persist/rehydrated': {
+          // Drop writes scheduled before the stored data arrived
+          const cancelWrite = Effect.cancel<PersistAction<Slice>>(writeId);
+          if (action.slice === null) {
+            return [state, cancelWrite];
+          }
+          return [merge(state, action.slice), cancelWrite];
+        }
+
+        case 'persist/purge':
+          return [
+            state,
+            Effect.batch<PersistAction<Slice>>(
+              Effect.cancel(writeId),
+              Effect.fireAndForget(() => {
+                storage.removeItem(key);
+              })
+            )
+          ];
+      }
+    }
+
+    const [newState, effect] = reducer(state, action as Action, deps);
+    const slice = select(newState);
+
+    if (!shallowChanged(select(state), slice)) {
+      return [newState, effect];
+    }
+
+    const write: EffectType<Action> = Effect.debounced(writeId, debounceMs, () => {
+      try {
+        storage.setItem(key, { version, data: slice });
+      } catch (error) {
+        console.error(`[Composable Svelte] persist "${key}": write failed`, error);
+      }
+    });
+
+    return [newState, Effect.batch(effect, write)];
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Shallow state comparison shared by the higher-order reducers.
+ */
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare values by reference, falling back to a shallow comparison of
+ * plain objects, so selectors that build a new object
+ * (`s => ({ todos: s.todos })`) only count as changed when a key did.
+ *
+ * @param previous - Value before the action
+ * @param next - Value after the action
+ * @returns Whether the value changed
+ */
+export function shallowChanged(previous: unknown, next: unknown): boolean {
+  if (Object.is(previous, next)) return false;
+  if (!isPlainRecord(previous) || !isPlainRecord(next)) return true;
+
+  const previousKeys = Object.keys(previous);
+  return (
+    previousKeys.length !== Object.keys(next).length ||
+    previousKeys.some(key => !Object.is(previous[key], next[key]))
+  );
+}
@@ -0,0 +1,368 @@
+/**
+ * undoable - Undo/Redo Higher-Order Reducer
+ *
+ * Adds past/future stacks to any reducer. History lives in the state itself
+ * (under `history`), so components keep reading the same state shape and
+ * undo/redo stay pure, serializable and testable.
+ *
+ * @example
+ * ```typescript
+ * interface EditorState {
+ *   text: string;
+ *   history: UndoHistory<{ text: string }>;
+ * }
+ *
+ * const reducer = undoable(editorReducer, {
+ *   snapshot: (state) => ({ text: state.text }),
+ *   groupBy: (action) => (action.type === 'typed' ? 'typing' : null),
+ *   maxDepth: 50
+ * });
+ *
+ * store.dispatch({ type: 'undo' });
+ * ```
+ */
+
+import type { Reducer } from '../types.js';
+import { Effect } from '../effect.js';
+import { createSystemClock, type Clock } from '../dependencies/clock.js';
+import { shallowChanged } from './shallow.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Undo history stored alongside the undoable state.
+ *
+ * @template Snapshot - The part of state that undo/redo restores
+ */
+export interface UndoHistory<Snapshot> {
+  /**
+   * Snapshots before each recorded step, oldest first.
+   */
+  readonly past: readonly Snapshot[];
+
+  /**
+   * Snapshots of undone steps, next redo first.
+   */
+  readonly future: readonly Snapshot[];
+
+  /**
+   * Coalescing key and time of the last recorded step.
+   * Consecutive actions with the same key are merged into that step.
+   */
+  readonly group: { readonly key: string; readonly at: number } | null;
+
+  /**
+   * Open transaction: snapshot taken when it began and nesting depth.
+   */
+  readonly transaction: { readonly snapshot: Snapshot; readonly depth: number } | null;
+}
+
+/**
+ * State that carries an undo history.
+ */
+export interface UndoableState<Snapshot> {
+  history: UndoHistory<Snapshot>;
+}
+
+/**
+ * Configuration for undoable().
+ */
+export interface UndoableConfig<State, Action, Snapshot, Dependencies = any> {
+  /**
+   * Capture the undoable part of state.
+   * Default: the whole state without `history`.
+   */
+  snapshot?: (state: State) => Snapshot;
+
+  /**
+   * Apply a snapshot back onto state.
+   * Default: shallow merge (`{ ...state, ...snapshot }`).
+   */
+  restore?: (state: State, snapshot: Snapshot) => State;
+
+  /**
+   * Whether an action's changes are recorded as an undo step.
+   * Actions that don't change the snapshot are never recorded.
+   * Default: record every action.
+   */
+  filter?: (action: Action) => boolean;
+
+  /**
+   * Coalescing key for an action (null = never coalesce).
+   * Consecutive recorded actions with the same key form a single undo step,
+   * e.g. every `moveNode` of one drag.
+   */
+  groupBy?: (action: Action) => string | null;
+
+  /**
+   * Maximum time between two actions of the same group, in milliseconds.
+   * Default: no limit (consecutive actions always coalesce).
+   */
+  groupWindowMs?: number;
+
+  /**
+   * Maximum number of undo steps kept. Oldest steps are dropped first.
+   * Default: 100
+   */
+  maxDepth?: number;
+
+  /**
+   * Action that undoes the last step. Default: `{ type: 'undo' }`
+   */
+  isUndo?: (action: Action) => boolean;
+
+  /**
+   * Action that redoes the last undone step. Default: `{ type: 'redo' }`
+   */
+  isRedo?: (action: Action) => boolean;
+
+  /**
+   * Action that opens a transaction. Everything until the matching end
+   * becomes one undo step. Default: `{ type: 'beginTransaction' }`
+   */
+  isTransactionStart?: (action: Action) => boolean;
+
+  /**
+   * Action that closes a transaction. Default: `{ type: 'endTransaction' }`
+   */
+  isTransactionEnd?: (action: Action) => boolean;
+
+  /**
+   * Action that clears the history. Default: `{ type: 'clearHistory' }`
+   */
+  isClearHistory?: (action: Action) => boolean;
+
+  /**
+   * Pick the clock used for `groupWindowMs` from the dependencies, so that
+   * grouping replays the same way in tests. Default: the system clock
+   *
+   * @example
+   * ```typescript
+   * clock: (deps) => deps.clock
+   * ```
+   */
+  clock?: (deps: Dependencies) => Clock;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Create an empty undo history.
+ */
+export function createUndoHistory<Snapshot>(): UndoHistory<Snapshot> {
+  return { past: [], future: [], group: null, transaction: null };
+}
+
+/**
+ * Whether there is a step to undo.
+ */
+export function canUndo(history: UndoHistory<unknown>): boolean {
+  return history.past.length > 0 || history.transaction !== null;
+}
+
+/**
+ * Whether there is a step to redo.
+ */
+export function canRedo(history: UndoHistory<unknown>): boolean {
+  return history.future.length > 0;
+}
+
+const systemClock = createSystemClock();
+
+function hasType(action: unknown, type: string): boolean {
+  return typeof action === 'object' && action !== null && (action as { type?: unknown }).type === type;
+}
+
+// ============================================================================
+// Core: undoable
+// ============================================================================
+
+/**
+ * Wraps a reducer with undo/redo support.
+ *
+ * - Undo/redo actions are handled here and never reach the wrapped reducer;
+ *   they produce no effects.
+ * - Any other action runs the wrapped reducer. If the snapshot changed and
+ *   the action passes `filter`, the previous snapshot is pushed onto `past`
+ *   (or merged into the current group) and `future` is cleared.
+ * - Inside a transaction nothing is recorded until it ends; the whole
+ *   transaction then becomes one step.
+ */
+export function undoable<
+  State extends UndoableState<Snapshot>,
+  Action,
+  Snapshot = Omit<State, 'history'>,
+  Dependencies = any
+>(
+  reducer: Reducer<State, Action, Dependencies>,
+  config: UndoableConfig<State, Action, Snapshot, Dependencies> = {}
+): Reducer<State, Action, Dependencies> {
+  const {
+    snapshot = (state: State) => {
+      const { history: _history, ...rest } = state;
+      return rest as unknown as Snapshot;
+    },
+    restore = (state: State, snap: Snapshot) => ({ ...state, ...snap }) as State,
+    filter = () => true,
+    groupBy = () => null,
+    groupWindowMs = Infinity,
+    maxDepth = 100,
+    isUndo = (action: Action) => hasType(action, 'undo'),
+    isRedo = (action: Action) => hasType(action, 'redo'),
+    isTransactionStart = (action: Action) => hasType(action, 'beginTransaction'),
+    isTransactionEnd = (action: Action) => hasType(action, 'endTransaction'),
+    isClearHistory = (action: Action) => hasType(action, 'clearHistory'),
+    clock = () => systemClock
+  } = config;
+
+  if (maxDepth < 1) {
+    throw new TypeError(`undoable: maxDepth must be at least 1, got ${maxDepth}`);
+  }
+
+  /**
+   * Push a snapshot onto past, dropping the oldest beyond maxDepth.
+   */
+  function pushPast(past: readonly Snapshot[], snap: Snapshot): Snapshot[] {
+    const next = [...past, snap];
+    return next.length > maxDepth ? next.slice(next.length - maxDepth) : next;
+  }
+
+  /**
+   * Close an open transaction, recording it as one step if anything changed.
+   */
+  function commitTransaction(state: State): State {
+    const { history } = state;
+    if (!history.transaction) return state;
+
+    const changed = shallowChanged(history.transaction.snapshot, snapshot(state));
+    return {
+      ...state,
+      history: {
+        past: changed ? pushPast(history.past, history.transaction.snapshot) : history.past,
+        future: changed ? [] : history.future,
+        group: null,
+        transaction: null
+      }
+    };
+  }
+
+  return (state, action, deps) => {
+    if (isUndo(action)) {
+      const committed = commitTransaction(state);
+      const { history } = committed;
+      const previous = history.past[history.past.length - 1];
+      if (previous === undefined) {
+        return [committed, Effect.none()];
+      }
+
+      const restored = restore(committed, previous);
+      return [
+        {
+          ...restored,
+          history: {
+            past: history.past.slice(0, -1),
+            future: [snapshot(committed), ...history.future],
+            group: null,
+            transaction: null
+          }
+        },
+        Effect.none()
+      ];
+    }
+
+    if (isRedo(action)) {
+      const { history } = state;
+      const [next, ...rest] = history.future;
+      if (next === undefined || history.transaction) {
+        return [state, Effect.none()];
+      }
+
+      const restored = restore(state, next);
+      return [
+        {
+          ...restored,
+          history: {
+            past: pushPast(history.past, snapshot(state)),
+            future: rest,
+            group: null,
+            transaction: null
+          }
+        },
+        Effect.none()
+      ];
+    }
+
+    if (isClearHistory(action)) {
+      return [{ ...state, history: createUndoHistory<Snapshot>() }, Effect.none()];
+    }
+
+    if (isTransactionStart(action)) {
+      const { history } = state;
+      return [
+        {
+          ...state,
+          history: {
+            ...history,
+            group: null,
+            transaction: history.transaction
+              ? { ...history.transaction, depth: history.transaction.depth + 1 }
+              : { snapshot: snapshot(state), depth: 1 }
+          }
+        },
+        Effect.none()
+      ];
+    }
+
+    if (isTransactionEnd(action)) {
+      const { transaction } = state.history;
+      if (!transaction) {
+        return [state, Effect.none()];
+      }
+      if (transaction.depth > 1) {
+        return [
+          { ...state, history: { ...state.history, transaction: { ...transaction, depth: transaction.depth - 1 } } },
+          Effect.none()
+        ];
+      }
+      return [commitTransaction(state), Effect.none()];
+    }
+
+    // Regular action: run the wrapped reducer
+    const [newState, effect] = reducer(state, action, deps);
+    const { history } = state;
+
+    if (history.transaction) {
+      return [{ ...newState, history }, effect];
+    }
+
+    const before = snapshot(state);
+    if (!filter(action) || !shallowChanged(before, snapshot(newState))) {
+      return [newState.history === history ? newState : { ...newState, history }, effect];
+    }
+
+    const key = groupBy(action);
+    const timestamp = key !== null ? clock(deps).now() : 0;
+    const coalesce =
+      key !== null &&
+      history.group !== null &&
+      history.group.key === key &&
+      timestamp - history.group.at <= groupWindowMs;
+
+    return [
+      {
+        ...newState,
+        history: {
+          past: coalesce ? history.past : pushPast(history.past, before),
+          future: [],
+          group: key !== null ? { key, at: timestamp } : null,
+          transaction: null
+        }
+      },
+      effect
+    ];
+  };
+}
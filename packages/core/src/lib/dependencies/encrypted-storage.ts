@@ -0,0 +1,294 @@
+/**
+ * Encrypted storage wrapper using WebCrypto AES-GCM.
+ *
+ * Wraps any Storage or AsyncStorage so that values are written as
+ * versioned, authenticated envelopes instead of plaintext JSON. Works in
+ * browsers and in Node via `globalThis.crypto.subtle`.
+ *
+ * @module
+ */
+
+import type {
+	AsyncStorage,
+	EncryptedEnvelope,
+	EncryptedStorage,
+	EncryptionKeyProvider,
+	StorageConfig,
+	Storage
+} from './storage.js';
+import { EnvironmentNotSupportedError, StorageIntegrityError } from './errors.js';
+
+/**
+ * AES-GCM initialization vector length (96 bits, as recommended).
+ */
+const IV_LENGTH = 12;
+
+// Internal helper: WebCrypto, if available
+function _subtle(): SubtleCrypto | undefined {
+	return typeof globalThis.crypto === 'undefined' ? undefined : globalThis.crypto.subtle;
+}
+
+function _toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function _fromBase64(value: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(value);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+function _isEnvelope(value: unknown): value is EncryptedEnvelope {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+	const envelope = value as Record<string, unknown>;
+	return (
+		envelope['v'] === 1 &&
+		typeof envelope['kid'] === 'string' &&
+		typeof envelope['iv'] === 'string' &&
+		typeof envelope['ct'] === 'string'
+	);
+}
+
+/**
+ * Create an encrypted storage wrapper.
+ *
+ * Values are JSON-serialized, encrypted with AES-GCM under the current key
+ * and written to `inner` as an EncryptedEnvelope. The storage key and key
+ * version are authenticated too, so a value copied to another key fails
+ * to decrypt.
+ *
+ * Values written with an older key are re-encrypted with the current key
+ * when read; `rotate()` re-encrypts everything at once.
+ *
+ * @template T - Type of values stored (must be JSON-serializable)
+ * @param inner - Storage receiving the envelopes (prefix it there)
+ * @param keyProvider - Keys by version
+ * @param config - Validation and debug options
+ * @returns EncryptedStorage instance
+ * @throws {EnvironmentNotSupportedError} When WebCrypto is unavailable
+ *
+ * @example
+ * ```typescript
+ * const keys = createKeyProvider({ v1: await generateEncryptionKey() }, 'v1');
+ * const secure = createEncryptedStorage<Session>(
+ *   createLocalStorage<EncryptedEnvelope>({ prefix: 'secure:' }),
+ *   keys
+ * );
+ *
+ * await secure.setItem('session', { token: 'abc', email: 'ann@example.com' });
+ * const session = await secure.getItem('session');
+ * ```
+ */
+export function createEncryptedStorage<T = unknown>(
+	inner: Storage<EncryptedEnvelope> | AsyncStorage<EncryptedEnvelope>,
+	keyProvider: EncryptionKeyProvider,
+	config: Omit<StorageConfig<T>, 'prefix'> = {}
+): EncryptedStorage<T> {
+	const subtle = _subtle();
+
+	// Check environment
+	if (!subtle) {
+		throw new EnvironmentNotSupportedError('WebCrypto', 'current');
+	}
+
+	const { validator, debug = false } = config;
+	const encoder = new TextEncoder();
+	const decoder = new TextDecoder();
+
+	// Internal helper: log debug message
+	function _log(message: string, ...args: unknown[]): void {
+		if (debug) {
+			console.log(`[EncryptedStorage] ${message}`, ...args);
+		}
+	}
+
+	// Internal helper: data authenticated alongside the ciphertext
+	function _additionalData(key: string, version: string): Uint8Array<ArrayBuffer> {
+		return encoder.encode(JSON.stringify([key, version]));
+	}
+
+	// Internal helper: encrypt a value with the current key
+	async function _encrypt(key: string, value: unknown): Promise<EncryptedEnvelope> {
+		const version = await keyProvider.currentVersion();
+		const cryptoKey = await keyProvider.getKey(version);
+		if (!cryptoKey) {
+			throw new Error(`Encryption key "${version}" is not available`);
+		}
+
+		const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+		const ciphertext = await subtle!.encrypt(
+			{ name: 'AES-GCM', iv, additionalData: _additionalData(key, version) },
+			cryptoKey,
+			encoder.encode(JSON.stringify(value))
+		);
+
+		return { v: 1, kid: version, iv: _toBase64(iv), ct: _toBase64(new Uint8Array(ciphertext)) };
+	}
+
+	// Internal helper: decrypt an envelope, surfacing integrity failures
+	async function _decrypt(key: string, envelope: unknown): Promise<unknown> {
+		if (!_isEnvelope(envelope)) {
+			throw new StorageIntegrityError(key, 'value is not an encrypted envelope');
+		}
+
+		const cryptoKey = await keyProvider.getKey(envelope.kid);
+		if (!cryptoKey) {
+			throw new StorageIntegrityError(key, `unknown key version "${envelope.kid}"`);
+		}
+
+		let plaintext: ArrayBuffer;
+		try {
+			plaintext = await subtle!.decrypt(
+				{
+					name: 'AES-GCM',
+					iv: _fromBase64(envelope.iv),
+					additionalData: _additionalData(key, envelope.kid)
+				},
+				cryptoKey,
+				_fromBase64(envelope.ct)
+			);
+		} catch (error) {
+			throw new StorageIntegrityError(
+				key,
+				'authentication failed',
+				error instanceof Error ? error : undefined
+			);
+		}
+
+		return JSON.parse(decoder.decode(plaintext));
+	}
+
+	// Internal helper: re-encrypt a value written with an older key
+	async function _rotateItem(key: string, envelope: EncryptedEnvelope, value: unknown): Promise<boolean> {
+		if (envelope.kid === (await keyProvider.currentVersion())) {
+			return false;
+		}
+		await inner.setItem(key, await _encrypt(key, value));
+		_log(`Rotated key "${key}" from "${envelope.kid}"`);
+		return true;
+	}
+
+	return {
+		async getItem(key: string): Promise<T | null> {
+			const envelope = await inner.getItem(key);
+			if (envelope === null) {
+				_log(`Get key "${key}": not found`);
+				return null;
+			}
+
+			const value = await _decrypt(key, envelope);
+			await _rotateItem(key, envelope, value);
+
+			// Validate if validator provided
+			if (validator && !validator(value)) {
+				_log(`Validation failed for key "${key}"`);
+				return null;
+			}
+
+			_log(`Get key "${key}"`);
+			return value as T;
+		},
+
+		async setItem(key: string, value: T): Promise<void> {
+			await inner.setItem(key, await _encrypt(key, value));
+			_log(`Set key "${key}"`);
+		},
+
+		async removeItem(key: string): Promise<void> {
+			await inner.removeItem(key);
+			_log(`Remove key "${key}"`);
+		},
+
+		async keys(): Promise<string[]> {
+			return inner.keys();
+		},
+
+		async has(key: string): Promise<boolean> {
+			return inner.has(key);
+		},
+
+		async clear(): Promise<void> {
+			await inner.clear();
+			_log(`Cleared`);
+		},
+
+		async size(): Promise<number> {
+			return inner.size();
+		},
+
+		async rotate(): Promise<number> {
+			let rotated = 0;
+			for (const key of await inner.keys()) {
+				const envelope = await inner.getItem(key);
+				if (envelope === null) {
+					continue;
+				}
+				if (await _rotateItem(key, envelope, await _decrypt(key, envelope))) {
+					rotated++;
+				}
+			}
+			_log(`Rotated ${rotated} keys`);
+			return rotated;
+		}
+	};
+}
+
+/**
+ * Create a key provider from a fixed set of versioned keys.
+ *
+ * @param keys - Keys by version (keep old versions until rotated)
+ * @param currentVersion - Version used for new writes
+ *
+ * @example
+ * ```typescript
+ * // Rotate: add v2, make it current, keep v1 for reading
+ * const keys = createKeyProvider({ v1: oldKey, v2: newKey }, 'v2');
+ * ```
+ */
+export function createKeyProvider(
+	keys: Record<string, CryptoKey>,
+	currentVersion: string
+): EncryptionKeyProvider {
+	if (!(currentVersion in keys)) {
+		throw new Error(`Current key version "${currentVersion}" is not in the key set`);
+	}
+
+	return {
+		currentVersion: () => currentVersion,
+		getKey: (version) => keys[version] ?? null
+	};
+}
+
+/**
+ * Generate a non-extractable AES-GCM key.
+ *
+ * @param length - Key length in bits (default: 256)
+ */
+export async function generateEncryptionKey(length: 128 | 256 = 256): Promise<CryptoKey> {
+	const subtle = _subtle();
+	if (!subtle) {
+		throw new EnvironmentNotSupportedError('WebCrypto', 'current');
+	}
+	return subtle.generateKey({ name: 'AES-GCM', length }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Import raw key bytes (16 or 32 bytes, or their base64) as an AES-GCM key.
+ */
+export async function importEncryptionKey(raw: Uint8Array<ArrayBuffer> | string): Promise<CryptoKey> {
+	const subtle = _subtle();
+	if (!subtle) {
+		throw new EnvironmentNotSupportedError('WebCrypto', 'current');
+	}
+	const bytes = typeof raw === 'string' ? _fromBase64(raw) : raw;
+	return subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
@@ -99,3 +99,19 @@ export class EnvironmentNotSupportedError extends DependencyError {
 		this.name = 'EnvironmentNotSupportedError';
 	}
 }
+
+/**
+ * Storage integrity error.
+ * Thrown when an encrypted value is malformed, was encrypted with an
+ * unknown key, or fails authentication (tampered or moved to another key).
+ */
+export class StorageIntegrityError extends DependencyError {
+	constructor(
+		public readonly key: string,
+		public readonly reason: string,
+		public readonly cause?: Error
+	) {
+		super(`Integrity check failed for key "${key}": ${reason}`, 'INTEGRITY_CHECK_FAILED');
+		this.name = 'StorageIntegrityError';
+	}
+}
@@ -3,7 +3,7 @@
  *
  * Provides type-safe, testable dependencies for:
  * - Time operations (Clock)
- * - Storage (LocalStorage, SessionStorage, Cookies)
+ * - Storage (LocalStorage, SessionStorage, Cookies, IndexedDB, encryption)
  *
  * All dependencies support mocking for deterministic testing.
  *
@@ -17,7 +17,8 @@ export {
 	InvalidJSONError,
 	SchemaValidationError,
 	CookieSizeExceededError,
-	EnvironmentNotSupportedError
+	EnvironmentNotSupportedError,
+	StorageIntegrityError
 } from './errors.js';
 
 // Utilities
@@ -36,7 +37,14 @@ export { createSystemClock, createMockClock } from './clock.js';
 export type {
 	Storage,
 	SyncStorage,
+	AsyncStorage,
 	StorageConfig,
+	AsyncStorageConfig,
+	AsyncStorageSetOptions,
+	IndexedDBConfig,
+	EncryptedEnvelope,
+	EncryptedStorage,
+	EncryptionKeyProvider,
 	CookieConfig,
 	CookieOptions,
 	CookieStorage,
@@ -58,3 +66,17 @@ export {
 	createCookieStorage,
 	createMockCookieStorage
 } from './cookie-storage.js';
+
+// IndexedDB Storage
+export {
+	createIndexedDBStorage,
+	createMockIndexedDBStorage
+} from './indexeddb-storage.js';
+
+// Encrypted Storage
+export {
+	createEncryptedStorage,
+	createKeyProvider,
+	generateEncryptionKey,
+	importEncryptionKey
+} from './encrypted-storage.js';
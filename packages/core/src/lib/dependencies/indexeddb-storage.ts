@@ -0,0 +1,431 @@
+/**
+ * IndexedDB storage implementation with type safety and expiry.
+ *
+ * Provides injectable async storage for reducers with key prefixing,
+ * schema validation and per-item TTL. Values are stored as structured
+ * clones, so there is no ~5MB cap and no JSON round trip.
+ *
+ * @module
+ */
+
+import type { AsyncStorage, AsyncStorageSetOptions, IndexedDBConfig } from './storage.js';
+import { EnvironmentNotSupportedError, StorageQuotaExceededError } from './errors.js';
+import { createSystemClock } from './clock.js';
+import { getByteSize } from './utils.js';
+
+/**
+ * Stored record: value plus expiry time (ms since epoch, null = never).
+ */
+interface StoredRecord<T> {
+	value: T;
+	expiresAt: number | null;
+}
+
+/**
+ * Create IndexedDB storage wrapper with type safety.
+ *
+ * The database is opened on first use. Several storages can share a
+ * database and object store; prefixes keep their keys apart. A storage
+ * whose object store is missing from an existing database adds it by
+ * upgrading the database version.
+ *
+ * @template T - Type of values stored
+ * @param config - IndexedDB configuration
+ * @returns AsyncStorage instance
+ * @throws {EnvironmentNotSupportedError} When IndexedDB is unavailable
+ *
+ * @example
+ * ```typescript
+ * const cache = createIndexedDBStorage<Product[]>({
+ *   prefix: 'products:',
+ *   ttl: 60 * 60 * 1000, // 1 hour
+ *   validator: (v): v is Product[] => Array.isArray(v)
+ * });
+ *
+ * await cache.setItem('featured', products);
+ * const featured = await cache.getItem('featured');
+ * ```
+ */
+export function createIndexedDBStorage<T = unknown>(
+	config: IndexedDBConfig<T> = {}
+): AsyncStorage<T> {
+	const factory = config.indexedDB ?? (typeof indexedDB === 'undefined' ? undefined : indexedDB);
+
+	// Check environment
+	if (!factory) {
+		throw new EnvironmentNotSupportedError(
+			'IndexedDB',
+			typeof window === 'undefined' ? 'server-side' : 'current browser'
+		);
+	}
+
+	const {
+		prefix = '',
+		validator,
+		debug = false,
+		ttl,
+		clock = createSystemClock(),
+		databaseName = 'composable-svelte',
+		storeName = 'storage'
+	} = config;
+
+	let database: Promise<IDBDatabase> | null = null;
+
+	// Internal helper: add prefix to key
+	function _prefixKey(key: string): string {
+		return prefix + key;
+	}
+
+	// Internal helper: remove prefix from key
+	function _unprefixKey(key: string): string {
+		return prefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+	}
+
+	// Internal helper: log debug message
+	function _log(message: string, ...args: unknown[]): void {
+		if (debug) {
+			console.log(`[IndexedDB${prefix ? ` ${prefix}` : ''}] ${message}`, ...args);
+		}
+	}
+
+	// Internal helper: open the database, upgrading it when our object store
+	// is missing (another storage may have created the database without it)
+	function _openVersion(version?: number): Promise<IDBDatabase> {
+		return new Promise<IDBDatabase>((resolve, reject) => {
+			const request = version === undefined ? factory!.open(databaseName) : factory!.open(databaseName, version);
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(storeName)) {
+					request.result.createObjectStore(storeName);
+				}
+			};
+			request.onsuccess = () => {
+				const db = request.result;
+				if (db.objectStoreNames.contains(storeName)) {
+					// Let other storages upgrade the shared database
+					db.onversionchange = () => {
+						db.close();
+						database = null;
+					};
+					resolve(db);
+					return;
+				}
+				db.close();
+				resolve(_openVersion(db.version + 1));
+			};
+			request.onerror = () => {
+				// Another storage upgraded the database first: start over
+				if (version !== undefined && request.error?.name === 'VersionError') {
+					resolve(_openVersion());
+					return;
+				}
+				reject(request.error);
+			};
+		});
+	}
+
+	// Internal helper: open the database once
+	function _open(): Promise<IDBDatabase> {
+		if (!database) {
+			database = _openVersion().catch((error) => {
+				database = null; // Allow a retry on next use
+				throw error;
+			});
+		}
+		return database;
+	}
+
+	// Internal helper: run requests in one transaction, resolving on commit
+	async function _transaction<R>(
+		mode: IDBTransactionMode,
+		run: (store: IDBObjectStore) => () => R
+	): Promise<R> {
+		const db = await _open();
+		return new Promise<R>((resolve, reject) => {
+			const transaction = db.transaction(storeName, mode);
+			const result = run(transaction.objectStore(storeName));
+			transaction.oncomplete = () => resolve(result());
+			transaction.onerror = () => reject(transaction.error);
+			transaction.onabort = () => reject(transaction.error);
+		});
+	}
+
+	// Internal helper: prefixed keys with unexpired records
+	async function _liveKeys(): Promise<string[]> {
+		const now = clock.now();
+		const [allKeys, records] = await _transaction('readonly', (store) => {
+			const keysRequest = store.getAllKeys();
+			const recordsRequest = store.getAll();
+			return () => [keysRequest.result, recordsRequest.result as StoredRecord<unknown>[]] as const;
+		});
+
+		return allKeys.flatMap((key, i) => {
+			const record = records[i];
+			return typeof key === 'string' &&
+				key.startsWith(prefix) &&
+				record !== undefined &&
+				(record.expiresAt === null || record.expiresAt > now)
+				? [_unprefixKey(key)]
+				: [];
+		});
+	}
+
+	return {
+		async getItem(key: string): Promise<T | null> {
+			const prefixedKey = _prefixKey(key);
+			const record = await _transaction('readonly', (store) => {
+				const request = store.get(prefixedKey);
+				return () => request.result as StoredRecord<unknown> | undefined;
+			});
+
+			if (record === undefined) {
+				_log(`Get key "${key}": not found`);
+				return null;
+			}
+
+			if (record.expiresAt !== null && record.expiresAt <= clock.now()) {
+				_log(`Get key "${key}": expired`);
+				await this.removeItem(key);
+				return null;
+			}
+
+			// Validate if validator provided
+			if (validator && !validator(record.value)) {
+				_log(`Validation failed for key "${key}"`, record.value);
+				return null;
+			}
+
+			_log(`Get key "${key}":`, record.value);
+			return record.value as T;
+		},
+
+		async setItem(key: string, value: T, options: AsyncStorageSetOptions = {}): Promise<void> {
+			const prefixedKey = _prefixKey(key);
+			const itemTTL = options.ttl ?? ttl;
+			const record: StoredRecord<T> = {
+				value,
+				expiresAt: itemTTL === undefined ? null : clock.now() + itemTTL
+			};
+
+			try {
+				await _transaction('readwrite', (store) => {
+					store.put(record, prefixedKey);
+					return () => undefined;
+				});
+				_log(`Set key "${key}":`, value);
+			} catch (error) {
+				// Check if it's a quota error
+				if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+					throw new StorageQuotaExceededError(key, getByteSize(JSON.stringify(value) ?? ''), null);
+				}
+				throw error;
+			}
+		},
+
+		async removeItem(key: string): Promise<void> {
+			const prefixedKey = _prefixKey(key);
+			await _transaction('readwrite', (store) => {
+				store.delete(prefixedKey);
+				return () => undefined;
+			});
+			_log(`Remove key "${key}"`);
+		},
+
+		async keys(): Promise<string[]> {
+			const allKeys = await _liveKeys();
+			_log(`Get keys:`, allKeys);
+			return allKeys;
+		},
+
+		async has(key: string): Promise<boolean> {
+			const exists = (await this.getItem(key)) !== null;
+			_log(`Has key "${key}":`, exists);
+			return exists;
+		},
+
+		async clear(): Promise<void> {
+			// Only clear keys with our prefix (expired ones included)
+			const removed = await _transaction('readwrite', (store) => {
+				const keysRequest = store.getAllKeys();
+				let count = 0;
+				keysRequest.onsuccess = () => {
+					for (const key of keysRequest.result) {
+						if (typeof key === 'string' && key.startsWith(prefix)) {
+							store.delete(key);
+							count++;
+						}
+					}
+				};
+				return () => count;
+			});
+			_log(`Cleared ${removed} keys`);
+		},
+
+		async size(): Promise<number> {
+			const count = (await _liveKeys()).length;
+			_log(`Size:`, count);
+			return count;
+		}
+	};
+}
+
+/**
+ * Create mock IndexedDB storage for testing.
+ * Runs createIndexedDBStorage() against an in-memory IndexedDB, so expiry,
+ * prefixing and validation behave like the real storage.
+ *
+ * @template T - Type of values stored
+ * @param config - IndexedDB configuration (`indexedDB` is replaced)
+ * @returns AsyncStorage instance for testing
+ *
+ * @example
+ * ```typescript
+ * const clock = createMockClock();
+ * const storage = createMockIndexedDBStorage<string>({ ttl: 1000, clock });
+ * await storage.setItem('session', 'token123');
+ * clock.advance(1000);
+ * console.log(await storage.getItem('session')); // null
+ * ```
+ */
+export function createMockIndexedDBStorage<T = unknown>(
+	config: Omit<IndexedDBConfig<T>, 'indexedDB'> = {}
+): AsyncStorage<T> {
+	return createIndexedDBStorage({ ...config, indexedDB: createMemoryIndexedDB() });
+}
+
+// ============================================================================
+// In-memory IndexedDB
+// ============================================================================
+
+/**
+ * Minimal in-memory IDBFactory covering what createIndexedDBStorage() uses:
+ * versioned open/upgrade, transactions, and get/getAll/getAllKeys/put/delete
+ * on string keys. Requests succeed asynchronously, then the transaction
+ * completes. Pass one factory to several storages to share its databases.
+ */
+export function createMemoryIndexedDB(): IDBFactory {
+	type MemoryDatabase = {
+		version: number;
+		stores: Map<string, Map<string, unknown>>;
+		connections: Set<{ onversionchange: (() => void) | null }>;
+	};
+
+	const databases = new Map<string, MemoryDatabase>();
+
+	type FakeRequest = {
+		result: unknown;
+		error: DOMException | null;
+		onsuccess: (() => void) | null;
+		onerror: (() => void) | null;
+	};
+
+	function request(result: unknown): FakeRequest {
+		return { result, error: null, onsuccess: null, onerror: null };
+	}
+
+	function sortedKeys(store: Map<string, unknown>): string[] {
+		return [...store.keys()].sort();
+	}
+
+	function createDatabase(memory: MemoryDatabase) {
+		const { stores } = memory;
+		const connection = {
+			get version() {
+				return memory.version;
+			},
+			onversionchange: null as (() => void) | null,
+			objectStoreNames: {
+				contains: (name: string) => stores.has(name)
+			},
+			createObjectStore(name: string) {
+				stores.set(name, new Map());
+			},
+			transaction(name: string) {
+				const store = stores.get(name);
+				if (!store) {
+					throw new DOMException(`No objectStore named ${name}`, 'NotFoundError');
+				}
+
+				const pending: FakeRequest[] = [];
+				const transaction = {
+					error: null,
+					oncomplete: null as (() => void) | null,
+					onerror: null as (() => void) | null,
+					onabort: null as (() => void) | null,
+					objectStore: () => objectStore
+				};
+
+				function track(req: FakeRequest): FakeRequest {
+					pending.push(req);
+					return req;
+				}
+
+				const objectStore = {
+					get: (key: string) => track(request(structuredClone(store.get(key)))),
+					getAll: () => track(request(sortedKeys(store).map((key) => structuredClone(store.get(key))))),
+					getAllKeys: () => track(request(sortedKeys(store))),
+					put(value: unknown, key: string) {
+						store.set(key, structuredClone(value));
+						return track(request(key));
+					},
+					delete(key: string) {
+						store.delete(key);
+						return track(request(undefined));
+					}
+				};
+
+				// Fire request callbacks (which may queue more requests), then complete
+				void Promise.resolve().then(() => {
+					for (let i = 0; i < pending.length; i++) {
+						pending[i]!.onsuccess?.();
+					}
+					transaction.oncomplete?.();
+				});
+
+				return transaction;
+			},
+			close() {
+				memory.connections.delete(connection);
+			}
+		};
+		memory.connections.add(connection);
+		return connection;
+	}
+
+	const factory = {
+		open(name: string, version?: number) {
+			const req = {
+				...request(undefined),
+				onupgradeneeded: null as (() => void) | null
+			};
+
+			void Promise.resolve().then(() => {
+				let memory = databases.get(name);
+				if (!memory) {
+					memory = { version: 0, stores: new Map(), connections: new Set() };
+					databases.set(name, memory);
+				}
+				const target = version ?? Math.max(memory.version, 1);
+				if (target < memory.version) {
+					req.error = new DOMException(`Version ${target} is less than ${memory.version}`, 'VersionError');
+					req.onerror?.();
+					return;
+				}
+
+				const upgrade = target > memory.version;
+				if (upgrade) {
+					memory.connections.forEach((connection) => connection.onversionchange?.());
+					memory.version = target;
+				}
+				req.result = createDatabase(memory);
+				if (upgrade) {
+					req.onupgradeneeded?.();
+				}
+				req.onsuccess?.();
+			});
+
+			return req;
+		}
+	};
+
+	return factory as unknown as IDBFactory;
+}
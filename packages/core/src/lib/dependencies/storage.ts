@@ -2,7 +2,7 @@
  * Storage dependency interfaces and base types.
  *
  * Provides type-safe, injectable storage for reducers.
- * Supports localStorage, sessionStorage, and cookies with optional schema validation.
+ * Supports localStorage, sessionStorage, cookies and IndexedDB with optional schema validation.
  *
  * @module
  */
@@ -12,6 +12,7 @@ import type {
 	InvalidJSONError,
 	SchemaValidationError
 } from './errors.js';
+import type { Clock } from './clock.js';
 
 /**
  * Base storage interface.
@@ -359,3 +360,167 @@ export interface SyncStorage<T = unknown> extends Storage<T> {
 	 */
 	subscribe(listener: StorageEventListener<T>): Unsubscribe;
 }
+
+/**
+ * Options for individual async set operations.
+ */
+export interface AsyncStorageSetOptions {
+	/**
+	 * Time to live in milliseconds.
+	 * Expired items read as missing.
+	 * @default config.ttl (no expiry)
+	 */
+	ttl?: number;
+}
+
+/**
+ * Asynchronous storage interface.
+ * Same operations as Storage, for backends without a synchronous API
+ * (e.g. IndexedDB) and without the ~5MB localStorage cap.
+ *
+ * @template T - Type of values stored (must be structured-cloneable)
+ *
+ * @example
+ * ```typescript
+ * const drafts = createIndexedDBStorage<Draft>({ prefix: 'drafts:' });
+ * await drafts.setItem('post-1', draft, { ttl: 86_400_000 });
+ * const saved = await drafts.getItem('post-1');
+ * ```
+ */
+export interface AsyncStorage<T = unknown> {
+	/**
+	 * Get item by key.
+	 * Resolves to null if key doesn't exist, has expired or is invalid.
+	 */
+	getItem(key: string): Promise<T | null>;
+
+	/**
+	 * Set item by key.
+	 *
+	 * @throws {StorageQuotaExceededError} When storage quota is exceeded
+	 */
+	setItem(key: string, value: T, options?: AsyncStorageSetOptions): Promise<void>;
+
+	/**
+	 * Remove item by key.
+	 */
+	removeItem(key: string): Promise<void>;
+
+	/**
+	 * Get all (unexpired) keys in storage.
+	 * Keys are filtered by prefix if configured.
+	 */
+	keys(): Promise<string[]>;
+
+	/**
+	 * Check if an unexpired key exists in storage.
+	 */
+	has(key: string): Promise<boolean>;
+
+	/**
+	 * Clear all items from storage.
+	 * Only clears items with configured prefix if set.
+	 */
+	clear(): Promise<void>;
+
+	/**
+	 * Get number of unexpired items in storage.
+	 */
+	size(): Promise<number>;
+}
+
+/**
+ * Async storage configuration options.
+ * Extends StorageConfig with expiry settings.
+ */
+export interface AsyncStorageConfig<T = unknown> extends StorageConfig<T> {
+	/**
+	 * Default time to live in milliseconds.
+	 * @default undefined (no expiry)
+	 */
+	ttl?: number;
+
+	/**
+	 * Clock used for expiry.
+	 * @default createSystemClock()
+	 */
+	clock?: Clock;
+}
+
+/**
+ * IndexedDB configuration options.
+ */
+export interface IndexedDBConfig<T = unknown> extends AsyncStorageConfig<T> {
+	/**
+	 * Database name.
+	 * @default 'composable-svelte'
+	 */
+	databaseName?: string;
+
+	/**
+	 * Object store name.
+	 * @default 'storage'
+	 */
+	storeName?: string;
+
+	/**
+	 * IndexedDB factory.
+	 * @default globalThis.indexedDB
+	 */
+	indexedDB?: IDBFactory;
+}
+
+/**
+ * Encrypted value as written to the inner storage.
+ * Versioned so the format and the key can change without losing data.
+ */
+export interface EncryptedEnvelope {
+	/**
+	 * Envelope format version.
+	 */
+	v: 1;
+
+	/**
+	 * Version of the key the value was encrypted with.
+	 */
+	kid: string;
+
+	/**
+	 * AES-GCM initialization vector (base64).
+	 */
+	iv: string;
+
+	/**
+	 * Ciphertext with authentication tag (base64).
+	 */
+	ct: string;
+}
+
+/**
+ * Supplies AES-GCM keys by version.
+ * Keep old versions available until their values have been rotated.
+ */
+export interface EncryptionKeyProvider {
+	/**
+	 * Version of the key used for new writes.
+	 */
+	currentVersion(): string | Promise<string>;
+
+	/**
+	 * Get the key for a version (null if unknown).
+	 */
+	getKey(version: string): CryptoKey | null | Promise<CryptoKey | null>;
+}
+
+/**
+ * Async storage that encrypts values before writing them.
+ */
+export interface EncryptedStorage<T = unknown> extends AsyncStorage<T> {
+	/**
+	 * Re-encrypt every value not written with the current key.
+	 *
+	 * @returns Number of values re-encrypted
+	 * @throws {StorageIntegrityError} When a value cannot be decrypted
+	 */
+	rotate(): Promise<number>;
+}
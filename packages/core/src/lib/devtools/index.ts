@@ -0,0 +1,37 @@
+/**
+ * Debugging tools for Composable Svelte: the Redux DevTools integration and
+ * the in-app StoreInspector component.
+ *
+ * Enable Redux DevTools per store with the `devTools` option:
+ *
+ * @example
+ * ```typescript
+ * const store = createStore({
+ *   initialState,
+ *   reducer,
+ *   devTools: { name: 'Todos', maxAge: 100 }
+ * });
+ * ```
+ */
+
+export type {
+  DevToolsConfig,
+  DevToolsConnection,
+  DevToolsTarget,
+  DevToolsExtension,
+  DevToolsExtensionOptions,
+  DevToolsExtensionConnection,
+  DevToolsMessage,
+  DevToolsDispatchPayload,
+  LiftedAction,
+  LiftedState,
+  StateChange,
+  InspectableStore,
+  InspectorEntry,
+  InspectorSession
+} from './types.js';
+
+export { connectDevTools, getDevToolsExtension } from './redux-devtools.js';
+export { diffState } from './state-diff.js';
+export { serializeInspectorSession } from './inspector.js';
+export { default as StoreInspector } from './StoreInspector.svelte';
@@ -0,0 +1,69 @@
+/**
+ * Session recording helpers for StoreInspector.
+ */
+
+import type { InspectorEntry, InspectorSession } from './types.js';
+
+/**
+ * Serialize an inspector session to JSON for bug reports.
+ *
+ * Sets and Maps are written as arrays and objects; functions are dropped.
+ *
+ * @param initialState - State when recording started
+ * @param entries - Recorded actions, oldest first
+ * @param finalState - Current state
+ * @returns Pretty-printed JSON of an {@link InspectorSession}
+ */
+export function serializeInspectorSession<State, Action>(
+  initialState: State,
+  entries: ReadonlyArray<InspectorEntry<State, Action>>,
+  finalState: State
+): string {
+  const session: InspectorSession<State, Action> = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    initialState,
+    entries: entries.map(({ action, changes, timestamp }) => ({ action, changes, timestamp })),
+    finalState
+  };
+  return JSON.stringify(session, replacer, 2);
+}
+
+/**
+ * Format a state value for display: short values inline, objects as JSON.
+ *
+ * @param value - Any state value
+ * @param maxLength - Maximum length of the result
+ * @returns A single-line representation, truncated to `maxLength`
+ */
+export function formatInspectorValue(value: unknown, maxLength = 80): string {
+  let text: string;
+  if (value === undefined) {
+    text = 'undefined';
+  } else if (typeof value === 'function') {
+    text = `ƒ ${value.name || 'anonymous'}()`;
+  } else {
+    try {
+      text = JSON.stringify(value, replacer) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Get the type of an action, or its string form for non-object actions.
+ */
+export function getActionType(action: unknown): string {
+  if (typeof action === 'object' && action !== null && 'type' in action) {
+    return String((action as { type: unknown }).type);
+  }
+  return String(action);
+}
+
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Set) return [...value];
+  if (value instanceof Map) return Object.fromEntries(value);
+  return value;
+}
@@ -0,0 +1,314 @@
+/**
+ * Redux DevTools bridge for Composable Svelte.
+ *
+ * Streams every action and resulting state to the Redux DevTools browser
+ * extension and handles time-travel commands from the monitor by replaying
+ * the recorded actions through the reducer (effects are never re-run).
+ */
+
+import type {
+  DevToolsConfig,
+  DevToolsConnection,
+  DevToolsDispatchPayload,
+  DevToolsExtension,
+  DevToolsExtensionConnection,
+  DevToolsMessage,
+  DevToolsTarget,
+  LiftedState
+} from './types.js';
+
+const DEFAULT_NAME = 'Composable Svelte';
+const DEFAULT_MAX_AGE = 50;
+
+interface RecordedEntry<Action> {
+  id: number;
+  action: Action;
+  timestamp: number;
+}
+
+/**
+ * Get the Redux DevTools extension, if installed.
+ *
+ * @returns The extension global, or null when unavailable (e.g. on the server)
+ */
+export function getDevToolsExtension(): DevToolsExtension | null {
+  const extension = (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: DevToolsExtension })
+    .__REDUX_DEVTOOLS_EXTENSION__;
+  return extension && typeof extension.connect === 'function' ? extension : null;
+}
+
+/**
+ * Connect a store to the Redux DevTools extension.
+ *
+ * Used internally by `createStore` when `devTools` is enabled.
+ *
+ * @param target - Store internals used for time-travel
+ * @param config - DevTools configuration
+ * @param onResume - Called when the store returns to its live state
+ * @returns The connection, or null if the extension is not installed
+ */
+export function connectDevTools<State, Action>(
+  target: DevToolsTarget<State, Action>,
+  config: DevToolsConfig = {},
+  onResume: () => void = () => {}
+): DevToolsConnection<Action> | null {
+  const extension = getDevToolsExtension();
+  if (!extension) {
+    return null;
+  }
+
+  const maxAge = config.maxAge ?? DEFAULT_MAX_AGE;
+  if (maxAge < 1) {
+    throw new TypeError(`devTools: maxAge must be at least 1, got ${maxAge}`);
+  }
+
+  const connection: DevToolsExtensionConnection = extension.connect({
+    name: config.name ?? DEFAULT_NAME,
+    maxAge,
+    features: {
+      jump: true,
+      skip: true,
+      import: 'custom',
+      export: true,
+      dispatch: true,
+      persist: false,
+      lock: false,
+      pause: false,
+      reorder: false
+    }
+  });
+
+  const initialState = target.getState();
+  let committedState = initialState;
+  let entries: RecordedEntry<Action>[] = [];
+  let skipped = new Set<number>();
+  let nextActionId = 1;
+  // Index into [committedState, ...entries]; entries.length means "live"
+  let currentIndex = 0;
+
+  function isTimeTravelling(): boolean {
+    return currentIndex !== entries.length;
+  }
+
+  /**
+   * Replay recorded actions through the reducer, skipping toggled ones.
+   */
+  function computeStates(): State[] {
+    const states: State[] = [committedState];
+    let state = committedState;
+    for (const entry of entries) {
+      if (!skipped.has(entry.id)) {
+        state = target.reduce(state, entry.action);
+      }
+      states.push(state);
+    }
+    return states;
+  }
+
+  function liftedState(): LiftedState {
+    const actionsById: LiftedState['actionsById'] = {
+      0: { type: 'PERFORM_ACTION', action: { type: '@@INIT' }, timestamp: 0 }
+    };
+    for (const entry of entries) {
+      actionsById[entry.id] = {
+        type: 'PERFORM_ACTION',
+        action: entry.action,
+        timestamp: entry.timestamp
+      };
+    }
+
+    return {
+      actionsById,
+      nextActionId,
+      stagedActionIds: [0, ...entries.map(entry => entry.id)],
+      skippedActionIds: [...skipped],
+      committedState,
+      currentStateIndex: currentIndex,
+      computedStates: computeStates().map(state => ({ state }))
+    };
+  }
+
+  /**
+   * Show the state at the given index and resume effects if it is the live state.
+   */
+  function travelTo(index: number): void {
+    const wasTimeTravelling = isTimeTravelling();
+    currentIndex = Math.max(0, Math.min(index, entries.length));
+    target.replaceState(computeStates()[currentIndex]!);
+    if (wasTimeTravelling && !isTimeTravelling()) {
+      onResume();
+    }
+  }
+
+  /**
+   * Drop all recorded actions, keeping the given state as the new base.
+   */
+  function restart(state: State): void {
+    const wasTimeTravelling = isTimeTravelling();
+    committedState = state;
+    entries = [];
+    skipped = new Set();
+    currentIndex = 0;
+    target.replaceState(state);
+    connection.init(state);
+    if (wasTimeTravelling) {
+      onResume();
+    }
+  }
+
+  function indexOfAction(actionId: number): number {
+    if (actionId === 0) return 0;
+    const position = entries.findIndex(entry => entry.id === actionId);
+    return position === -1 ? -1 : position + 1;
+  }
+
+  function handleDispatch(payload: DevToolsDispatchPayload): void {
+    switch (payload.type) {
+      case 'JUMP_TO_ACTION':
+      case 'JUMP_TO_STATE': {
+        const { actionId, index } = payload as { actionId?: number; index?: number };
+        const destination = actionId !== undefined ? indexOfAction(actionId) : index ?? -1;
+        if (destination !== -1) {
+          travelTo(destination);
+        }
+        break;
+      }
+
+      case 'TOGGLE_ACTION': {
+        const { id } = payload as { id: number };
+        if (indexOfAction(id) <= 0) break;
+        if (skipped.has(id)) {
+          skipped.delete(id);
+        } else {
+          skipped.add(id);
+        }
+        target.replaceState(computeStates()[currentIndex]!);
+        connection.send(null, liftedState());
+        break;
+      }
+
+      case 'IMPORT_STATE': {
+        const { nextLiftedState } = payload as { nextLiftedState: LiftedState };
+        importSession(nextLiftedState);
+        break;
+      }
+
+      case 'COMMIT':
+        restart(computeStates()[currentIndex]!);
+        break;
+
+      case 'ROLLBACK':
+        restart(committedState);
+        break;
+
+      case 'RESET':
+        restart(initialState);
+        break;
+
+      default:
+        // Unsupported monitor command (pause, lock, reorder, ...)
+        break;
+    }
+  }
+
+  function importSession(session: LiftedState): void {
+    const wasTimeTravelling = isTimeTravelling();
+    const stagedIds = session.stagedActionIds.filter(id => id !== 0);
+
+    committedState = (session.committedState ?? session.computedStates[0]?.state ?? initialState) as State;
+    entries = stagedIds
+      .filter(id => session.actionsById[id] !== undefined)
+      .map(id => ({
+        id,
+        action: session.actionsById[id]!.action as Action,
+        timestamp: session.actionsById[id]!.timestamp
+      }));
+    skipped = new Set(session.skippedActionIds.filter(id => id !== 0));
+    nextActionId = Math.max(session.nextActionId, ...entries.map(entry => entry.id + 1), 1);
+    currentIndex = Math.max(0, Math.min(session.currentStateIndex, entries.length));
+
+    target.replaceState(computeStates()[currentIndex]!);
+    connection.send(null, liftedState());
+
+    if (wasTimeTravelling && !isTimeTravelling()) {
+      onResume();
+    }
+  }
+
+  function handleMessage(message: DevToolsMessage): void {
+    switch (message.type) {
+      case 'DISPATCH':
+        handleDispatch((message as { payload: DevToolsDispatchPayload }).payload);
+        break;
+
+      case 'ACTION': {
+        // Action typed into the monitor's dispatcher
+        const { payload } = message as { payload: string | Record<string, unknown> };
+        try {
+          const action = typeof payload === 'string' ? JSON.parse(payload) : payload;
+          target.dispatch(action as Action);
+        } catch (error) {
+          connection.error?.(`Invalid action: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  const unsubscribe = connection.subscribe(message => {
+    try {
+      handleMessage(message);
+    } catch (error) {
+      console.error('[Composable Svelte] DevTools message error:', error);
+    }
+  });
+
+  connection.init(initialState);
+
+  return {
+    record(action: Action): void {
+      const branched = isTimeTravelling();
+      if (branched) {
+        // Dispatching from a past state discards the "future"
+        const keep = entries.slice(0, currentIndex);
+        skipped = new Set([...skipped].filter(id => keep.some(entry => entry.id === id)));
+        entries = keep;
+      }
+
+      entries.push({ id: nextActionId++, action, timestamp: Date.now() });
+
+      // Commit the oldest actions into the base state
+      while (entries.length > maxAge) {
+        const oldest = entries.shift()!;
+        if (!skipped.has(oldest.id)) {
+          committedState = target.reduce(committedState, oldest.action);
+        }
+        skipped.delete(oldest.id);
+      }
+
+      currentIndex = entries.length;
+
+      if (branched) {
+        connection.send(null, liftedState());
+        onResume();
+      } else {
+        connection.send(action, target.getState());
+      }
+    },
+
+    isTimeTravelling,
+
+    exportSession: liftedState,
+
+    disconnect(): void {
+      if (typeof unsubscribe === 'function') {
+        unsubscribe();
+      } else {
+        connection.unsubscribe?.();
+      }
+    }
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Structural state diffing for the store inspector.
+ */
+
+import type { StateChange } from './types.js';
+
+/**
+ * List the paths that differ between two states.
+ *
+ * Plain objects and arrays are compared key by key, so unchanged branches
+ * (including ones shared by reference) produce no entries. Other values,
+ * such as Sets, Maps and Dates, are compared as a whole.
+ *
+ * @param before - The previous state
+ * @param after - The next state
+ * @returns Added, removed and changed paths, in key order
+ *
+ * @example
+ * ```typescript
+ * diffState({ count: 1, tags: ['a'] }, { count: 2, tags: ['a', 'b'] });
+ * // [
+ * //   { kind: 'changed', path: 'count', before: 1, after: 2 },
+ * //   { kind: 'added', path: 'tags[1]', after: 'b' }
+ * // ]
+ * ```
+ */
+export function diffState(before: unknown, after: unknown): StateChange[] {
+  const changes: StateChange[] = [];
+  collectChanges(before, after, '', changes);
+  return changes;
+}
+
+function collectChanges(before: unknown, after: unknown, path: string, changes: StateChange[]): void {
+  if (Object.is(before, after)) return;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      const childPath = `${path}[${index}]`;
+      if (index >= after.length) {
+        changes.push({ kind: 'removed', path: childPath, before: before[index] });
+      } else if (index >= before.length) {
+        changes.push({ kind: 'added', path: childPath, after: after[index] });
+      } else {
+        collectChanges(before[index], after[index], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) {
+        changes.push({ kind: 'removed', path: childPath, before: before[key] });
+      } else {
+        collectChanges(before[key], after[key], childPath, changes);
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        changes.push({ kind: 'added', path: path ? `${path}.${key}` : key, after: after[key] });
+      }
+    }
+    return;
+  }
+
+  if (isEqualLeaf(before, after)) return;
+
+  changes.push({ kind: 'changed', path, before, after });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Compare non-plain values (Sets, Maps, Dates) by content.
+ */
+function isEqualLeaf(before: unknown, after: unknown): boolean {
+  if (before instanceof Date && after instanceof Date) {
+    return before.getTime() === after.getTime();
+  }
+  if (before instanceof Set && after instanceof Set) {
+    return before.size === after.size && [...before].every(item => after.has(item));
+  }
+  if (before instanceof Map && after instanceof Map) {
+    return (
+      before.size === after.size &&
+      [...before].every(([key, value]) => after.has(key) && Object.is(after.get(key), value))
+    );
+  }
+  return false;
+}
@@ -0,0 +1,256 @@
+/**
+ * Type definitions for the Redux DevTools bridge.
+ *
+ * Only the subset of the Redux DevTools extension protocol used by the
+ * store is modelled here. See
+ * https://github.com/reduxjs/redux-devtools/blob/main/extension/docs/API/Methods.md
+ */
+
+/**
+ * DevTools configuration for a store.
+ */
+export interface DevToolsConfig {
+  /**
+   * Instance name shown in the DevTools instance selector.
+   * Default: 'Composable Svelte'
+   */
+  name?: string;
+
+  /**
+   * Maximum number of actions kept for time-travel.
+   * When the limit is reached, the oldest action is committed into
+   * the base state and can no longer be skipped or replayed.
+   * Default: 50
+   */
+  maxAge?: number;
+}
+
+/**
+ * The Redux DevTools browser extension global
+ * (`window.__REDUX_DEVTOOLS_EXTENSION__`).
+ */
+export interface DevToolsExtension {
+  connect(options?: DevToolsExtensionOptions): DevToolsExtensionConnection;
+}
+
+/**
+ * Options passed to the extension's `connect()`.
+ */
+export interface DevToolsExtensionOptions {
+  name?: string;
+  maxAge?: number;
+  features?: Partial<Record<
+    'pause' | 'lock' | 'persist' | 'export' | 'import' | 'jump' | 'skip' | 'reorder' | 'dispatch' | 'test',
+    boolean | string
+  >>;
+}
+
+/**
+ * Connection returned by the extension's `connect()`.
+ */
+export interface DevToolsExtensionConnection {
+  /**
+   * Set the initial state (and optionally the full lifted state).
+   */
+  init(state: unknown, liftedState?: LiftedState): void;
+
+  /**
+   * Report an action and the state it produced.
+   * Passing `null` as the action replaces the extension's lifted state.
+   */
+  send(action: unknown, state: unknown): void;
+
+  /**
+   * Listen for messages from the DevTools monitor.
+   */
+  subscribe(listener: (message: DevToolsMessage) => void): (() => void) | void;
+
+  /**
+   * Remove all listeners.
+   */
+  unsubscribe?(): void;
+
+  /**
+   * Report an error to the monitor.
+   */
+  error?(message: string): void;
+}
+
+/**
+ * Action recorded in the lifted state.
+ */
+export interface LiftedAction {
+  type: 'PERFORM_ACTION';
+  action: unknown;
+  timestamp: number;
+}
+
+/**
+ * The Redux DevTools "lifted state": the full instrumented history.
+ * This is also the format of exported/imported sessions.
+ */
+export interface LiftedState {
+  actionsById: Record<number, LiftedAction>;
+  nextActionId: number;
+  stagedActionIds: number[];
+  skippedActionIds: number[];
+  committedState: unknown;
+  currentStateIndex: number;
+  computedStates: Array<{ state: unknown; error?: string }>;
+  isLocked?: boolean;
+  isPaused?: boolean;
+}
+
+/**
+ * Monitor commands sent with a `DISPATCH` message.
+ */
+export type DevToolsDispatchPayload =
+  | { type: 'JUMP_TO_ACTION'; actionId: number }
+  | { type: 'JUMP_TO_STATE'; actionId: number; index?: number }
+  | { type: 'TOGGLE_ACTION'; id: number }
+  | { type: 'IMPORT_STATE'; nextLiftedState: LiftedState }
+  | { type: 'COMMIT' }
+  | { type: 'RESET' }
+  | { type: 'ROLLBACK' }
+  | { type: string; [key: string]: unknown };
+
+/**
+ * Messages received from the DevTools monitor.
+ */
+export type DevToolsMessage =
+  | { type: 'DISPATCH'; payload: DevToolsDispatchPayload; state?: string }
+  | { type: 'ACTION'; payload: string | Record<string, unknown> }
+  | { type: 'START' | 'STOP' }
+  | { type: string; payload?: unknown; state?: string };
+
+/**
+ * Store internals the DevTools bridge needs for time-travel.
+ *
+ * @template State - The state type
+ * @template Action - The action type
+ */
+export interface DevToolsTarget<State, Action> {
+  /**
+   * Get the current state.
+   */
+  getState(): State;
+
+  /**
+   * Replace the current state without running the reducer
+   * and without recording an action.
+   */
+  replaceState(state: State): void;
+
+  /**
+   * Reduce an action without executing its effect.
+   */
+  reduce(state: State, action: Action): State;
+
+  /**
+   * Dispatch an action sent from the DevTools monitor.
+   */
+  dispatch(action: Action): void;
+}
+
+/**
+ * Active connection between a store and the DevTools extension.
+ *
+ * @template Action - The action type
+ */
+export interface DevToolsConnection<Action> {
+  /**
+   * Record an action and the state it produced.
+   * Dispatching while time-travelling discards the actions after the
+   * displayed state and resumes from there.
+   */
+  record(action: Action): void;
+
+  /**
+   * Whether the store is showing a past state.
+   * Effects are paused while this is true.
+   */
+  isTimeTravelling(): boolean;
+
+  /**
+   * Export the instrumented session (Redux DevTools lifted state format).
+   */
+  exportSession(): LiftedState;
+
+  /**
+   * Stop listening to the monitor.
+   */
+  disconnect(): void;
+}
+
+/**
+ * A single difference between two states.
+ */
+export interface StateChange {
+  /**
+   * - added: the path exists only in the new state
+   * - removed: the path exists only in the old state
+   * - changed: the value at the path differs
+   */
+  kind: 'added' | 'removed' | 'changed';
+
+  /**
+   * Location of the change, e.g. `todos[2].done`. Empty for the root.
+   */
+  path: string;
+
+  /**
+   * Value in the old state (absent for added paths).
+   */
+  before?: unknown;
+
+  /**
+   * Value in the new state (absent for removed paths).
+   */
+  after?: unknown;
+}
+
+/**
+ * The part of a store StoreInspector needs.
+ * Satisfied by stores from `createStore()` and scoped stores from `scopeTo()`.
+ *
+ * @template State - The state type
+ * @template Action - The action type
+ */
+export interface InspectableStore<State, Action> {
+  readonly state: State;
+  subscribeToActions?(listener: (action: Action, state: State) => void): () => void;
+}
+
+/**
+ * One action recorded by StoreInspector.
+ *
+ * @template State - The state type
+ * @template Action - The action type
+ */
+export interface InspectorEntry<State, Action> {
+  id: number;
+  action: Action;
+  /**
+   * State after the action.
+   */
+  state: State;
+  /**
+   * Differences from the previous entry's state.
+   */
+  changes: StateChange[];
+  timestamp: number;
+}
+
+/**
+ * Session exported by StoreInspector for bug reports.
+ *
+ * @template State - The state type
+ * @template Action - The action type
+ */
+export interface InspectorSession<State, Action> {
+  version: 1;
+  exportedAt: string;
+  initialState: State;
+  entries: Array<Pick<InspectorEntry<State, Action>, 'action' | 'changes' | 'timestamp'>>;
+  finalState: State;
+}
@@ -7,7 +7,13 @@
  * Key principle: Effects describe WHAT to do, not HOW or WHEN.
  */
 
-import type { Effect as EffectType, EffectExecutor, Dispatch } from './types.js';
+import type {
+  Effect as EffectType,
+  EffectExecutor,
+  Dispatch,
+  RetryPolicy,
+  StreamOptions
+} from './types.js';
 
 /**
  * Effect namespace containing all effect constructors.
@@ -265,6 +271,55 @@ export const Effect = {
     return { _tag: 'Subscription', id, setup };
   },
 
+  /**
+   * Consume an async iterable or ReadableStream, dispatching one action per item.
+   *
+   * Items are read one at a time; the next item is requested after the action
+   * for the previous one has been dispatched. `Effect.cancel(id)` (or starting
+   * another stream with the same id) stops reading and calls `return()` on the
+   * iterator, so generators run their `finally` blocks and ReadableStreams are
+   * cancelled. Cancelled streams dispatch nothing further.
+   *
+   * @param id - Unique identifier used for cancellation
+   * @param source - Async iterable or ReadableStream to consume
+   * @param toAction - Maps each item to the action to dispatch
+   * @param options - Actions to dispatch when the source completes or fails
+   *
+   * @example
+   * ```typescript
+   * case 'sendMessage':
+   *   return [
+   *     { ...state, isStreaming: true },
+   *     Effect.stream(
+   *       'chat-response',
+   *       deps.streamMessage(action.message),
+   *       (chunk) => ({ type: 'chunkReceived', chunk }),
+   *       {
+   *         onComplete: () => ({ type: 'streamComplete' }),
+   *         onError: (error) => ({ type: 'streamError', error: String(error) })
+   *       }
+   *     )
+   *   ];
+   *
+   * case 'stopTapped':
+   *   return [{ ...state, isStreaming: false }, Effect.cancel('chat-response')];
+   * ```
+   */
+  stream<A, T>(
+    id: string,
+    source: AsyncIterable<T> | ReadableStream<T>,
+    toAction: (item: T) => A,
+    options: StreamOptions<A> = {}
+  ): EffectType<A> {
+    return {
+      _tag: 'Stream',
+      id,
+      source: isReadableStream(source) ? readableStreamIterable(source) : source,
+      toAction: toAction as (item: unknown) => A,
+      ...options
+    };
+  },
+
   /**
    * Cancel all in-flight effects with the given ID.
    *
@@ -273,8 +328,10 @@ export const Effect = {
    * - Effect.subscription()
    * - Effect.debounced()
    * - Effect.throttled()
+   * - Effect.stream()
    *
    * For subscriptions, this triggers the cleanup function returned by setup().
+   * For streams, this calls `return()` on the iterator.
    *
    * @param id - The ID of the effect(s) to cancel
    *
@@ -294,6 +351,185 @@ export const Effect = {
     return { _tag: 'Cancellable', id, execute: () => {} };
   },
 
+  /**
+   * Re-run an effect when it fails.
+   *
+   * An attempt fails when the effect's work throws or rejects. Failed
+   * attempts are retried after `backoff` until `maxAttempts` is reached or
+   * `shouldRetry` returns false; the last error is then reported like any
+   * other effect error. Backoff delays use setTimeout, so TestStore's
+   * `advanceTime()` drives them.
+   *
+   * Failures are observed for `run`, `fireAndForget`, `afterDelay`,
+   * `cancellable`, `batch`, `retry` and `timeout` effects. Debounced,
+   * throttled and subscription effects are started once and are not retried.
+   *
+   * @param effect - The effect to retry
+   * @param policy - Attempts, backoff and retry predicate
+   * @throws {TypeError} If maxAttempts is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * Effect.retry(
+   *   Effect.run(async (dispatch) => {
+   *     await deps.storage.setItem('draft', state.draft);
+   *     dispatch({ type: 'draftSaved' });
+   *   }),
+   *   { maxAttempts: 3, backoff: (attempt) => 100 * 2 ** (attempt - 1) }
+   * )
+   * ```
+   */
+  retry<A>(effect: EffectType<A>, policy: RetryPolicy): EffectType<A> {
+    if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+      throw new TypeError(`retry: maxAttempts must be a positive integer, got ${policy.maxAttempts}`);
+    }
+    if (typeof policy.backoff === 'number' && policy.backoff < 0) {
+      throw new TypeError(`retry: backoff must be non-negative, got ${policy.backoff}`);
+    }
+    return { _tag: 'Retry', effect, policy };
+  },
+
+  /**
+   * Give up on an effect that doesn't finish within `ms`.
+   *
+   * When the time runs out, actions the effect dispatches afterwards are
+   * dropped and `onTimeout` runs instead. Without `onTimeout` the effect
+   * fails with a `TimeoutError` DOMException, so `Effect.retry(Effect.timeout(...))`
+   * retries slow attempts.
+   *
+   * The underlying work is not aborted; it is only ignored.
+   *
+   * @param effect - The effect to time out
+   * @param ms - Time limit in milliseconds (must be non-negative)
+   * @param onTimeout - Optional executor run when the time limit is reached
+   * @throws {TypeError} If ms is negative
+   *
+   * @example
+   * ```typescript
+   * Effect.timeout(
+   *   Effect.run(async (dispatch) => {
+   *     const user = await deps.api.fetchUser(id);
+   *     dispatch({ type: 'userLoaded', user });
+   *   }),
+   *   5000,
+   *   (dispatch) => dispatch({ type: 'userLoadTimedOut' })
+   * )
+   * ```
+   */
+  timeout<A>(effect: EffectType<A>, ms: number, onTimeout?: EffectExecutor<A>): EffectType<A> {
+    if (ms < 0) {
+      throw new TypeError(`timeout: ms must be non-negative, got ${ms}`);
+    }
+    return onTimeout
+      ? { _tag: 'Timeout', effect, ms, onTimeout }
+      : { _tag: 'Timeout', effect, ms };
+  },
+
+  /**
+   * Execute effects one after another.
+   *
+   * Each effect starts when the previous one's work has finished.
+   * A failing effect stops the sequence.
+   *
+   * Like `Effect.batch()`, None effects are dropped, an empty sequence
+   * becomes `Effect.none()` and a single effect is returned as is.
+   *
+   * @param effects - Effects to execute in order
+   *
+   * @example
+   * ```typescript
+   * Effect.sequence(
+   *   Effect.run(async () => { await deps.api.saveDraft(draft); }),
+   *   Effect.run(async (dispatch) => {
+   *     await deps.api.publish(draft.id);
+   *     dispatch({ type: 'published' });
+   *   })
+   * )
+   * ```
+   */
+  sequence<A>(...effects: EffectType<A>[]): EffectType<A> {
+    const nonNoneEffects = effects.filter(e => e._tag !== 'None');
+    if (nonNoneEffects.length === 0) {
+      return Effect.none();
+    }
+    if (nonNoneEffects.length === 1) {
+      return nonNoneEffects[0]!;
+    }
+    return { _tag: 'Sequence', effects: nonNoneEffects };
+  },
+
+  /**
+   * Execute effects concurrently; the first to finish wins.
+   *
+   * As soon as one effect's work finishes, the others are cancelled:
+   * actions they dispatch afterwards are dropped, and id-based effects
+   * (cancellable, subscription, debounced, throttled) are cancelled by id.
+   * A failing effect doesn't win; the race fails only if all effects fail.
+   *
+   * None effects are dropped, an empty race becomes `Effect.none()` and a
+   * single effect is returned as is.
+   *
+   * @param effects - Effects to race
+   *
+   * @example
+   * ```typescript
+   * // Use whichever mirror answers first
+   * Effect.race(
+   *   Effect.run(async (dispatch) => {
+   *     dispatch({ type: 'loaded', data: await deps.primary.fetch() });
+   *   }),
+   *   Effect.run(async (dispatch) => {
+   *     dispatch({ type: 'loaded', data: await deps.mirror.fetch() });
+   *   })
+   * )
+   * ```
+   */
+  race<A>(...effects: EffectType<A>[]): EffectType<A> {
+    const nonNoneEffects = effects.filter(e => e._tag !== 'None');
+    if (nonNoneEffects.length === 0) {
+      return Effect.none();
+    }
+    if (nonNoneEffects.length === 1) {
+      return nonNoneEffects[0]!;
+    }
+    return { _tag: 'Race', effects: nonNoneEffects };
+  },
+
+  /**
+   * Execute effects with at most `concurrency` running at the same time.
+   *
+   * Effects start in order as earlier ones finish. A failing effect does not
+   * stop the others; the pool fails with the first error once all are done.
+   *
+   * @param concurrency - Maximum number of effects running at once (positive integer)
+   * @param effects - Effects to execute
+   * @throws {TypeError} If concurrency is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * // Upload files, three at a time
+   * Effect.pool(3, files.map(file =>
+   *   Effect.run(async (dispatch) => {
+   *     await deps.api.upload(file);
+   *     dispatch({ type: 'fileUploaded', name: file.name });
+   *   })
+   * ))
+   * ```
+   */
+  pool<A>(concurrency: number, effects: EffectType<A>[]): EffectType<A> {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new TypeError(`pool: concurrency must be a positive integer, got ${concurrency}`);
+    }
+    const nonNoneEffects = effects.filter(e => e._tag !== 'None');
+    if (nonNoneEffects.length === 0) {
+      return Effect.none();
+    }
+    if (nonNoneEffects.length === 1) {
+      return nonNoneEffects[0]!;
+    }
+    return { _tag: 'Pool', concurrency, effects: nonNoneEffects };
+  },
+
   /**
    * Create an effect that coordinates with animation lifecycle.
    * Automatically dispatches completion events after the specified duration.
@@ -539,6 +775,35 @@ export const Effect = {
           return cleanup;
         });
 
+      case 'Retry':
+        return Effect.retry(Effect.map(effect.effect, f), effect.policy);
+
+      case 'Timeout': {
+        const { onTimeout } = effect;
+        return Effect.timeout(
+          Effect.map(effect.effect, f),
+          effect.ms,
+          onTimeout && ((dispatch) => onTimeout((a) => dispatch(f(a))))
+        );
+      }
+
+      case 'Sequence':
+        return Effect.sequence(...effect.effects.map(e => Effect.map(e, f)));
+
+      case 'Race':
+        return Effect.race(...effect.effects.map(e => Effect.map(e, f)));
+
+      case 'Pool':
+        return Effect.pool(effect.concurrency, effect.effects.map(e => Effect.map(e, f)));
+
+      case 'Stream': {
+        const { toAction, onComplete, onError } = effect;
+        return Effect.stream(effect.id, effect.source, (item) => f(toAction(item)), {
+          ...(onComplete && { onComplete: () => f(onComplete()) }),
+          ...(onError && { onError: (error: unknown) => f(onError(error)) })
+        });
+      }
+
       default:
         // Exhaustiveness check
         const _exhaustive: never = effect;
@@ -546,3 +811,53 @@ export const Effect = {
     }
   }
 };
+
+function isReadableStream<T>(source: AsyncIterable<T> | ReadableStream<T>): source is ReadableStream<T> {
+  return typeof (source as ReadableStream<T>).getReader === 'function';
+}
+
+/**
+ * Adapt a ReadableStream to an async iterable. Not every runtime implements
+ * async iteration on ReadableStream, so read through a reader instead.
+ * `return()` cancels the stream.
+ */
+function readableStreamIterable<T>(stream: ReadableStream<T>): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+      const reader = stream.getReader();
+      return {
+        async next() {
+          const result = await reader.read();
+          if (result.done) {
+            reader.releaseLock();
+            return { done: true, value: undefined };
+          }
+          return { done: false, value: result.value };
+        },
+        async return() {
+          await reader.cancel();
+          reader.releaseLock();
+          return { done: true, value: undefined };
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Resolve with the first promise that fulfills.
+ * Rejects with the first error if all of them reject.
+ * Shared by the store and TestStore to run Effect.race().
+ */
+export function firstFulfilled<T>(promises: Promise<T>[]): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let rejected = 0;
+    let firstError: unknown;
+    promises.forEach(promise => {
+      promise.then(resolve, error => {
+        if (rejected++ === 0) firstError = error;
+        if (rejected === promises.length) reject(firstError);
+      });
+    });
+  });
+}
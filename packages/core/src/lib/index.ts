@@ -23,11 +23,17 @@ export type {
   Dispatch,
   Selector,
   EffectExecutor,
+  RetryPolicy,
+  StreamOptions,
   Store,
-  StoreConfig
-  // Middleware and MiddlewareAPI deferred to Phase 5
-  // Middleware,
-  // MiddlewareAPI
+  StoreConfig,
+  Middleware,
+  MiddlewareAPI,
+  MiddlewareHooks,
+  ActionMiddleware,
+  EffectMiddleware,
+  EffectRunner,
+  ServerEffectTracker
 } from './types.js';
 
 // Export Effect type with alias to avoid name conflict with Effect namespace
@@ -44,6 +50,23 @@ export type { Effect as EffectType } from './types.js';
 
 export { createStore } from './store.svelte.js';
 
+// ============================================================================
+// DevTools
+// ============================================================================
+
+export type {
+  DevToolsConfig,
+  DevToolsExtension,
+  DevToolsMessage,
+  LiftedState,
+  StateChange,
+  InspectableStore,
+  InspectorEntry,
+  InspectorSession
+} from './devtools/index.js';
+
+export { StoreInspector, diffState } from './devtools/index.js';
+
 // ============================================================================
 // Effects
 // ============================================================================
@@ -60,7 +83,14 @@ export {
   combineReducers,
   forEach,
   forEachElement,
-  elementAction
+  elementAction,
+  persist,
+  rehydrate,
+  purge,
+  undoable,
+  createUndoHistory,
+  canUndo,
+  canRedo
 } from './composition/index.js';
 
 export type {
@@ -70,7 +100,14 @@ export type {
   ActionEmbedder,
   IdentifiedItem,
   ElementAction,
-  ForEachConfig
+  ForEachConfig,
+  PersistConfig,
+  PersistAction,
+  PersistEnvelope,
+  PersistMigration,
+  UndoHistory,
+  UndoableState,
+  UndoableConfig
 } from './composition/index.js';
 
 // ============================================================================
@@ -134,8 +171,15 @@ export type {
   MockClock,
   Storage,
   SyncStorage,
+  AsyncStorage,
   CookieStorage,
   StorageConfig,
+  AsyncStorageConfig,
+  AsyncStorageSetOptions,
+  IndexedDBConfig,
+  EncryptedEnvelope,
+  EncryptedStorage,
+  EncryptionKeyProvider,
   CookieConfig,
   CookieOptions,
   SchemaValidator,
@@ -152,6 +196,12 @@ export {
   createNoopStorage,
   createCookieStorage,
   createMockCookieStorage,
+  createIndexedDBStorage,
+  createMockIndexedDBStorage,
+  createEncryptedStorage,
+  createKeyProvider,
+  generateEncryptionKey,
+  importEncryptionKey,
   isBrowser,
   getStorageQuota,
   getByteSize,
@@ -161,7 +211,8 @@ export {
   InvalidJSONError,
   SchemaValidationError,
   CookieSizeExceededError,
-  EnvironmentNotSupportedError
+  EnvironmentNotSupportedError,
+  StorageIntegrityError
 } from './dependencies/index.js';
 
 // ============================================================================
@@ -192,6 +243,10 @@ export type {
   RequestConfig,
   RetryConfig,
   CacheConfig,
+  CacheEntry,
+  CacheBackend,
+  CacheStore,
+  CacheStoreConfig,
   APIRequest,
   HTTPMethod,
   SafeHTTPMethod,
@@ -209,6 +264,13 @@ export { Request } from './api/index.js';
 // Client factory
 export { createAPIClient } from './api/index.js';
 
+// Response cache
+export {
+  createCacheStore,
+  createMemoryCacheBackend,
+  createStorageCacheBackend
+} from './api/index.js';
+
 // Testing utilities
 export {
   createMockAPI,
@@ -219,18 +281,46 @@ export {
   type RecordedCall
 } from './api/index.js';
 
+// Contract-driven mocks
+export {
+  createOpenAPIRoutes,
+  createOpenAPIMock,
+  createOpenAPIEndpoints,
+  parseOpenAPI,
+  validateSchema,
+  ContractError,
+  type OpenAPIDocument,
+  type OpenAPIPathItem,
+  type OpenAPIOperation,
+  type OpenAPIRequestBody,
+  type OpenAPIResponseObject,
+  type OpenAPIMediaType,
+  type OpenAPISchema,
+  type OpenAPIReference,
+  type OpenAPIMockOptions,
+  type SchemaViolation
+} from './api/index.js';
+
 // Endpoint helpers
 export {
   createRESTEndpoints,
   createPaginatedEndpoints,
+  createCursorEndpoints,
+  createLinkEndpoints,
   createSearchEndpoints,
   createFullEndpoints,
+  parseLinkHeader,
   type RESTEndpoints,
   type PaginatedEndpoints,
+  type CursorEndpoints,
+  type CursorEndpointOptions,
+  type LinkEndpoints,
   type SearchEndpoints,
   type FullEndpoints,
   type PaginationParams,
   type PaginatedResponse,
+  type CursorParams,
+  type CursorPaginatedResponse,
   type SearchParams
 } from './api/index.js';
 
@@ -240,12 +330,85 @@ export {
   NetworkError,
   TimeoutError,
   ValidationError,
+  SchemaMismatchError,
   type ValidationErrorField
 } from './api/index.js';
 
+// GraphQL (side-effect: augments Effect namespace)
+export {
+  createGraphQLClient,
+  GraphQL,
+  graphql,
+  graphqlSubscription,
+  graphqlConnectionInit,
+  normalizeGraphQLErrors,
+  GRAPHQL_WS_PROTOCOL,
+  type GraphQLClient,
+  type GraphQLClientConfig,
+  type GraphQLOperation,
+  type GraphQLOperationKind,
+  type GraphQLRequestArgs,
+  type GraphQLResponse,
+  type GraphQLResult,
+  type GraphQLErrorItem,
+  type GraphQLWSMessage
+} from './api/index.js';
+
 // Effect integration
 export { api, apiFireAndForget, apiAll } from './api/index.js';
 
+// Queries & mutations
+export {
+  createQuery,
+  createMutation,
+  createQueryState,
+  createMutationState,
+  startQuery,
+  stopQuery,
+  fetchQuery,
+  refetchQuery,
+  invalidateQueries,
+  mutate,
+  resetMutation,
+  type RequestStatus,
+  type QueryState,
+  type MutationState,
+  type QueryAction,
+  type MutationAction,
+  type QueryConfig,
+  type MutationConfig,
+  type OptimisticUpdate
+} from './api/index.js';
+
+// Infinite lists
+export {
+  createInfiniteList,
+  createInfiniteListState,
+  loadFirstPage,
+  loadNextPage,
+  getCursorPage,
+  getLinkPage,
+  appendPage,
+  type Page,
+  type InfiniteListState,
+  type InfiniteListAction,
+  type InfiniteListConfig
+} from './api/index.js';
+
+// Offline mutation queue
+export {
+  createOfflineAPIClient,
+  createBrowserNetworkStatus,
+  offlineQueue,
+  type OfflineAPIClient,
+  type OfflineAPIClientConfig,
+  type OfflineQueueEvent,
+  type QueuedRequest,
+  type QueueableHTTPMethod,
+  type NetworkStatus
+} from './api/index.js';
+
+
 // ============================================================================
 // WebSocket Module
 // ============================================================================
@@ -317,6 +480,51 @@ export {
 // Effect integration (side effect: registers Effect.websocket namespace)
 import './websocket/effect-websocket.js';
 
+// ============================================================================
+// Server-Sent Events Module
+// ============================================================================
+
+// Core types
+export type {
+  SSEClient,
+  SSEConfig,
+  SSEConnectOptions,
+  SSEMessage,
+  SSEEvent,
+  SSEConnectedEvent,
+  SSEDisconnectedEvent,
+  SSEErrorEvent,
+  SSEReconnectingEvent,
+  SSEReconnectedEvent,
+  SSEConnectionState,
+  SSEConnectionStats,
+  SSEMessageListener,
+  SSEEventListener
+} from './sse/index.js';
+
+export { SSEError, SSE_ERROR_CODES } from './sse/index.js';
+
+// Stream parser
+export type { ParsedEvent, EventStreamHandlers, EventStreamParser } from './sse/index.js';
+export { createEventStreamParser } from './sse/index.js';
+
+// Production client
+export { createLiveSSE } from './sse/index.js';
+
+// Testing utilities
+export type {
+  MockSSEClient,
+  MockSSEConnection,
+  SpySSEClient,
+  RecordedSSEConnection,
+  RecordedSSEDisconnection
+} from './sse/index.js';
+
+export { createMockSSE, createSpySSE } from './sse/index.js';
+
+// Effect integration (side effect: registers Effect.sse namespace)
+import './sse/effect-sse.js';
+
 // ============================================================================
 // Server-Side Rendering (SSR) & Static Site Generation (SSG)
 // ============================================================================
@@ -58,6 +58,18 @@ export interface ScopedStore<State, Action> {
 	 * Convenience method that dispatches PresentationAction.dismiss().
 	 */
 	dismiss(): void;
+
+	/**
+	 * Subscribe to child actions dispatched through the parent store.
+	 *
+	 * The listener receives the unwrapped child action and the child state
+	 * after reduction. Only present when the parent store supports
+	 * `subscribeToActions`.
+	 *
+	 * @param listener - Function called with child action and resulting child state
+	 * @returns Unsubscribe function
+	 */
+	subscribeToActions?(listener: (action: Action, state: State) => void): () => void;
 }
 
 /**
@@ -331,8 +343,8 @@ class ScopeBuilder<State, Action, Current = State> {
 	 *
 	 * @returns The value at the current path, or null if any step is null
 	 */
-	private getValue(): Current {
-		let current: any = this.store.state;
+	private getValue(root: State = this.store.state): Current {
+		let current: any = root;
 
 		for (const key of this.path) {
 			if (current == null) {
@@ -418,10 +430,36 @@ class ScopeBuilder<State, Action, Current = State> {
 			this.store.dispatch(wrapped);
 		};
 
+		// Unwrap parent actions built by dispatch() back into child actions
+		const unwrap = (action: any): any => {
+			let current = action;
+			for (const type of [...this.path, 'presented', ...(caseType ? [caseType] : [])]) {
+				if (current?.type !== type) {
+					return undefined;
+				}
+				current = current.action;
+			}
+			return current;
+		};
+
+		const subscribeToParent = this.store.subscribeToActions?.bind(this.store);
+		const subscribeToActions = subscribeToParent
+			? (listener: (action: any, state: any) => void): (() => void) =>
+					subscribeToParent((action, rootState) => {
+						const childAction = unwrap(action);
+						if (childAction === undefined) {
+							return;
+						}
+						const value: any = this.getValue(rootState);
+						listener(childAction, caseType ? value?.state : value);
+					})
+			: undefined;
+
 		return {
 			state,
 			dispatch,
-			dismiss
+			dismiss,
+			...(subscribeToActions && { subscribeToActions })
 		};
 	}
 }
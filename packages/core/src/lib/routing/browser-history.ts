@@ -9,6 +9,19 @@
  */
 
 import type { Store } from '../types';
+import type { NavigationEvent, NavigationGuard } from './navigation-guard';
+import {
+	RESTORATION_STATE_KEY,
+	createHistoryRestoration,
+	getRestorationSnapshot,
+	type HistoryRestorationConfig,
+	type RestorationSnapshot
+} from './scroll-restoration';
+import {
+	createBrowserHistoryAdapter,
+	type HistoryAdapter,
+	type HistoryLocation
+} from './history-adapter';
 
 /**
  * Configuration for browser history synchronization.
@@ -16,8 +29,9 @@ import type { Store } from '../types';
  * @template State - Application state type
  * @template Action - Application action type
  * @template Dest - Destination state type
+ * @template Data - Navigation loader result type
  */
-export interface BrowserHistoryConfig<State, Action, Dest> {
+export interface BrowserHistoryConfig<State, Action, Dest, Data = unknown> {
 	/**
 	 * Parse URL path to destination state.
 	 */
@@ -55,9 +69,39 @@ export interface BrowserHistoryConfig<State, Action, Dest> {
 	 *
 	 * @param destination - Parsed destination state, or null for root
 	 * @param query - Parsed query parameters (if parseQuery provided)
+	 * @param data - Loader result (if guard provided)
 	 * @returns Action to dispatch, or null to skip
 	 */
-	destinationToAction: (destination: Dest | null, query?: any) => Action | null;
+	destinationToAction: (destination: Dest | null, query?: any, data?: Data) => Action | null;
+
+	/**
+	 * Optional: Resolve browser navigations through guards and loaders
+	 * before dispatching. Blocked and failed navigations restore the URL
+	 * of the current state; superseded navigations are dropped.
+	 */
+	guard?: NavigationGuard<State, Dest, Data>;
+
+	/**
+	 * Optional: Convert navigation events to actions, e.g. to keep the
+	 * pending navigation in state (see updatePendingNavigation).
+	 *
+	 * @param event - Navigation event from the guard
+	 * @returns Action to dispatch, or null to skip
+	 */
+	navigationToAction?: (event: NavigationEvent<Dest, Data>) => Action | null;
+
+	/**
+	 * Optional: Save scroll position and focus per history entry and
+	 * restore them on back/forward, after the destination is presented.
+	 */
+	restoration?: HistoryRestorationConfig<State, Dest>;
+
+	/**
+	 * Optional: History backend (default: browser URL).
+	 * Use createHashHistoryAdapter() or createMemoryHistoryAdapter()
+	 * for hash-based or in-memory routing.
+	 */
+	history?: HistoryAdapter;
 }
 
 /**
@@ -104,38 +148,68 @@ export interface BrowserHistoryConfig<State, Action, Dest> {
  * });
  * ```
  */
-export function syncBrowserHistory<State, Action, Dest>(
+export function syncBrowserHistory<State, Action, Dest, Data = unknown>(
 	store: Store<State, Action>,
-	config: BrowserHistoryConfig<State, Action, Dest>
+	config: BrowserHistoryConfig<State, Action, Dest, Data>
 ): () => void {
 	// Track the last pushState timestamp to detect programmatic navigation
 	let lastPushStateTime = 0;
 	const PUSHSTATE_DEBOUNCE_MS = 50; // Time window to ignore popstate after pushState
 
+	// Created before patching below, so it writes through the original methods
+	const adapter = config.history ?? createBrowserHistoryAdapter();
+	const patchWindowHistory = !config.history;
+
+	const restoration = config.restoration
+		? createHistoryRestoration(store, config.restoration, (snapshot) => {
+				const { pathname, search, state } = adapter.location;
+				adapter.replace(pathname + search, { ...state, [RESTORATION_STATE_KEY]: snapshot });
+			})
+		: null;
+
 	// Intercept history.pushState to track when we programmatically navigate
-	const originalPushState = history.pushState.bind(history);
-	const originalReplaceState = history.replaceState.bind(history);
+	const originalPushState = patchWindowHistory ? history.pushState.bind(history) : undefined;
+	const originalReplaceState = patchWindowHistory ? history.replaceState.bind(history) : undefined;
 
-	history.pushState = function (state: any, title: string, url?: string | URL | null) {
-		if (state?.composableSvelteSync) {
-			lastPushStateTime = Date.now();
-		}
-		return originalPushState(state, title, url);
-	};
+	if (originalPushState && originalReplaceState) {
+		history.pushState = function (state: any, title: string, url?: string | URL | null) {
+			if (state?.composableSvelteSync) {
+				lastPushStateTime = Date.now();
+				// Save where the user was on the entry being left
+				restoration?.capture();
+			}
+			return originalPushState(state, title, url);
+		};
 
-	history.replaceState = function (state: any, title: string, url?: string | URL | null) {
-		if (state?.composableSvelteSync) {
-			lastPushStateTime = Date.now();
-		}
-		return originalReplaceState(state, title, url);
-	};
+		history.replaceState = function (state: any, title: string, url?: string | URL | null) {
+			if (state?.composableSvelteSync) {
+				lastPushStateTime = Date.now();
+			}
+			return originalReplaceState(state, title, url);
+		};
+	}
+
+	// createURLSyncEffect pushes through a custom adapter instead of window.history,
+	// so save the entry being left in the adapter's push too. Our own pushes skip it.
+	const pushEntry = adapter.push.bind(adapter);
+	const originalAdapterPush = config.history?.push;
+
+	if (config.history) {
+		config.history.push = function (url: string, state?: any) {
+			// Adapters do not notify listeners of their own pushes, so there is no popstate to ignore
+			if (state?.composableSvelteSync) {
+				restoration?.capture();
+			}
+			return pushEntry(url, state);
+		};
+	}
 
-	// Listen to browser back/forward
-	const handlePopState = (event: PopStateEvent) => {
+	// Listen to back/forward
+	const handleNavigation = (location: HistoryLocation) => {
 		// Check if this popstate fired immediately after our pushState/replaceState
 		// If so, ignore it to prevent dispatching the same action twice
 		const timeSinceLastPush = Date.now() - lastPushStateTime;
-		if (event.state?.composableSvelteSync && timeSinceLastPush < PUSHSTATE_DEBOUNCE_MS) {
+		if (location.state?.composableSvelteSync && timeSinceLastPush < PUSHSTATE_DEBOUNCE_MS) {
 			// Popstate triggered by our own pushState - ignore it
 			// This prevents infinite loops where:
 			// 1. Action updates state
@@ -146,27 +220,100 @@ export function syncBrowserHistory<State, Action, Dest>(
 		}
 
 		// Navigation triggered by browser (back/forward button or manual URL change)
-		const path = window.location.pathname;
-		const destination = config.parse(path);
+		// Pending captures belong to the entry that was left
+		restoration?.cancel();
+		const snapshot = getRestorationSnapshot(location.state);
+		const destination = config.parse(location.pathname);
 
 		// Parse query parameters if provided
-		const query = config.parseQuery ? config.parseQuery(window.location.search) : undefined;
+		const query = config.parseQuery ? config.parseQuery(location.search) : undefined;
+
+		if (config.guard) {
+			void resolveNavigation(config.guard, destination, query, snapshot);
+			return;
+		}
 
 		// Convert destination to action
 		const action = config.destinationToAction(destination, query);
 		if (action) {
 			store.dispatch(action);
+			restoration?.restore(destination, snapshot);
 		}
 	};
 
-	// Register event listener
-	window.addEventListener('popstate', handlePopState);
+	// URL of the current state, used to restore or rewrite the address bar
+	const currentURL = () => {
+		const query = config.serializeQuery ? config.serializeQuery(store.state) : '';
+		return config.serialize(store.state) + (query ? `?${query}` : '');
+	};
+	let disposed = false;
+
+	const resolveNavigation = async (
+		guard: NavigationGuard<State, Dest, Data>,
+		destination: Dest | null,
+		query: any,
+		snapshot: RestorationSnapshot | null
+	) => {
+		const result = await guard.resolve(destination, store.state);
+		if (disposed) return;
+
+		switch (result.status) {
+			case 'resolved': {
+				// Query params belong to the original URL, not a redirect target
+				const action = config.destinationToAction(
+					result.destination,
+					result.redirected ? undefined : query,
+					result.data
+				);
+				if (action) {
+					store.dispatch(action);
+					restoration?.restore(result.destination, result.redirected ? null : snapshot);
+				}
+				if (result.redirected) {
+					adapter.replace(currentURL(), { composableSvelteSync: true });
+				}
+				break;
+			}
+			case 'cancelled':
+				if (!result.superseded) {
+					pushEntry(currentURL(), { composableSvelteSync: true });
+				}
+				break;
+			case 'blocked':
+			case 'failed':
+				pushEntry(currentURL(), { composableSvelteSync: true });
+				break;
+		}
+	};
+
+	// Forward navigation events to the store
+	const unsubscribeGuard =
+		config.guard && config.navigationToAction
+			? config.guard.subscribe((event) => {
+					const action = config.navigationToAction!(event);
+					if (action) {
+						store.dispatch(action);
+					}
+				})
+			: undefined;
+
+	// Register listener
+	const unlisten = adapter.listen(handleNavigation);
 
 	// Return cleanup function
 	return () => {
-		window.removeEventListener('popstate', handlePopState);
+		disposed = true;
+		unlisten();
+		unsubscribeGuard?.();
+		config.guard?.cancel();
+		restoration?.dispose();
 		// Restore original history methods
-		history.pushState = originalPushState;
-		history.replaceState = originalReplaceState;
+		if (originalPushState && originalReplaceState) {
+			history.pushState = originalPushState;
+			history.replaceState = originalReplaceState;
+		}
+		if (config.history && originalAdapterPush) {
+			config.history.push = originalAdapterPush;
+		}
 	};
 }
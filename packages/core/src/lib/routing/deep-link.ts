@@ -8,6 +8,8 @@
  * @module routing/deep-link
  */
 
+import type { HistoryAdapter } from './history-adapter';
+
 /**
  * Create initial state from current URL.
  *
@@ -22,6 +24,7 @@
  * @param setDestination - Function to set destination in state
  * @param parseQuery - Optional function to parse query parameters
  * @param setQuery - Optional function to set query params in state
+ * @param history - Optional history backend to read the URL from (default: browser URL)
  * @returns Initial state with destination and query from URL
  *
  * @example
@@ -81,10 +84,12 @@ export function createInitialStateFromURL<State, Dest>(
 	parse: (path: string) => Dest | null,
 	setDestination: (state: State, destination: Dest | null) => State,
 	parseQuery?: (search: string) => any,
-	setQuery?: (state: State, query: any) => State
+	setQuery?: (state: State, query: any) => State,
+	history?: HistoryAdapter
 ): State {
 	// Get current URL path
-	const path = window.location.pathname;
+	const location = history ? history.location : window.location;
+	const path = location.pathname;
 
 	// Parse URL to destination
 	const destination = parse(path);
@@ -93,8 +98,8 @@ export function createInitialStateFromURL<State, Dest>(
 	let state = destination !== null ? setDestination(defaultState, destination) : defaultState;
 
 	// Parse and set query parameters if provided
-	if (parseQuery && setQuery && window.location.search) {
-		const query = parseQuery(window.location.search);
+	if (parseQuery && setQuery && location.search) {
+		const query = parseQuery(location.search);
 		state = setQuery(state, query);
 	}
 
@@ -0,0 +1,289 @@
+/**
+ * History Adapters - Pluggable History Backends
+ *
+ * This module abstracts the history stack used by routing, so the same
+ * route config works with the browser URL, the URL hash (`#/path`), or an
+ * in-memory stack (embedded widgets, desktop shells, Node tests).
+ *
+ * @module routing/history-adapter
+ */
+
+/**
+ * Current history entry.
+ */
+export interface HistoryLocation {
+	/**
+	 * Path (e.g. '/inventory/item-123').
+	 */
+	pathname: string;
+
+	/**
+	 * Query string including '?', or '' (e.g. '?tab=info').
+	 */
+	search: string;
+
+	/**
+	 * State stored with the entry.
+	 */
+	state: any;
+}
+
+/**
+ * History backend used by syncBrowserHistory(), createURLSyncEffect()
+ * and createInitialStateFromURL().
+ */
+export interface HistoryAdapter {
+	/**
+	 * Current entry.
+	 */
+	readonly location: HistoryLocation;
+
+	/**
+	 * Add an entry (URL is path plus optional '?query').
+	 */
+	push(url: string, state?: unknown): void;
+
+	/**
+	 * Replace the current entry.
+	 */
+	replace(url: string, state?: unknown): void;
+
+	/**
+	 * Move through the stack (-1 = back, 1 = forward).
+	 */
+	go(delta: number): void;
+
+	/**
+	 * Listen to entry changes not made through push/replace
+	 * (back/forward, manual URL edits).
+	 *
+	 * @returns Unsubscribe function
+	 */
+	listen(listener: (location: HistoryLocation) => void): () => void;
+}
+
+/**
+ * Split a URL into pathname and search.
+ */
+function parseURL(url: string): Pick<HistoryLocation, 'pathname' | 'search'> {
+	const queryIndex = url.indexOf('?');
+	const pathname = queryIndex === -1 ? url : url.slice(0, queryIndex);
+	const search = queryIndex === -1 ? '' : url.slice(queryIndex);
+	return { pathname: pathname || '/', search: search === '?' ? '' : search };
+}
+
+/**
+ * Throw if there is no window (SSR, Node).
+ */
+function assertBrowser(name: string): void {
+	if (typeof window === 'undefined') {
+		throw new Error(`[Composable Svelte] ${name}() requires a browser environment. Use createMemoryHistoryAdapter() instead.`);
+	}
+}
+
+/**
+ * Create an adapter for the browser URL (History API + popstate).
+ *
+ * @returns HistoryAdapter backed by window.history
+ * @throws Error if called without a window
+ *
+ * @example
+ * ```typescript
+ * const history = createBrowserHistoryAdapter();
+ * history.push('/inventory/item-123');
+ * ```
+ */
+export function createBrowserHistoryAdapter(): HistoryAdapter {
+	assertBrowser('createBrowserHistoryAdapter');
+
+	// Bound now, so later patches of window.history are bypassed
+	const pushState = window.history.pushState.bind(window.history);
+	const replaceState = window.history.replaceState.bind(window.history);
+
+	return {
+		get location() {
+			return {
+				pathname: window.location.pathname,
+				search: window.location.search,
+				state: window.history.state
+			};
+		},
+
+		push(url, state = null) {
+			pushState(state, '', url);
+		},
+
+		replace(url, state = null) {
+			replaceState(state, '', url);
+		},
+
+		go(delta) {
+			window.history.go(delta);
+		},
+
+		listen(listener) {
+			const handlePopState = () => listener(this.location);
+			window.addEventListener('popstate', handlePopState);
+			return () => window.removeEventListener('popstate', handlePopState);
+		}
+	};
+}
+
+/**
+ * Create an adapter that keeps the route in the URL hash (`#/path?query`).
+ *
+ * Useful when the server cannot rewrite paths to the app, or when the
+ * app is embedded in a page that owns the path.
+ *
+ * @returns HistoryAdapter backed by window.location.hash
+ * @throws Error if called without a window
+ *
+ * @example
+ * ```typescript
+ * const history = createHashHistoryAdapter();
+ * history.push('/inventory/item-123');
+ * // → https://example.com/app#/inventory/item-123
+ * ```
+ */
+export function createHashHistoryAdapter(): HistoryAdapter {
+	assertBrowser('createHashHistoryAdapter');
+
+	const pushState = window.history.pushState.bind(window.history);
+	const replaceState = window.history.replaceState.bind(window.history);
+
+	const currentHash = () => window.location.hash.replace(/^#/, '');
+
+	// Last hash seen, to report each change once (popstate and hashchange can both fire)
+	let lastHash = currentHash();
+
+	return {
+		get location() {
+			return { ...parseURL(currentHash()), state: window.history.state };
+		},
+
+		push(url, state = null) {
+			pushState(state, '', `#${url}`);
+			lastHash = currentHash();
+		},
+
+		replace(url, state = null) {
+			replaceState(state, '', `#${url}`);
+			lastHash = currentHash();
+		},
+
+		go(delta) {
+			window.history.go(delta);
+		},
+
+		listen(listener) {
+			const handleChange = () => {
+				const hash = currentHash();
+				if (hash === lastHash) return;
+				lastHash = hash;
+				listener(this.location);
+			};
+			window.addEventListener('popstate', handleChange);
+			window.addEventListener('hashchange', handleChange);
+			return () => {
+				window.removeEventListener('popstate', handleChange);
+				window.removeEventListener('hashchange', handleChange);
+			};
+		}
+	};
+}
+
+/**
+ * Options for createMemoryHistoryAdapter().
+ */
+export interface MemoryHistoryOptions {
+	/**
+	 * Initial stack of URLs (default: ['/']).
+	 */
+	initialEntries?: string[];
+
+	/**
+	 * Index of the current entry (default: last entry).
+	 */
+	initialIndex?: number;
+}
+
+/**
+ * In-memory adapter with access to its stack.
+ */
+export interface MemoryHistoryAdapter extends HistoryAdapter {
+	/**
+	 * All entries, oldest first.
+	 */
+	readonly entries: readonly HistoryLocation[];
+
+	/**
+	 * Index of the current entry.
+	 */
+	readonly index: number;
+}
+
+/**
+ * Create an in-memory adapter. No DOM required.
+ *
+ * `go()` notifies listeners synchronously, like a back/forward press.
+ *
+ * @param options - Initial entries and index
+ * @returns MemoryHistoryAdapter
+ *
+ * @example
+ * ```typescript
+ * const history = createMemoryHistoryAdapter({ initialEntries: ['/inventory'] });
+ * history.push('/inventory/item-123');
+ * history.go(-1);
+ * history.location.pathname; // '/inventory'
+ * ```
+ */
+export function createMemoryHistoryAdapter(options: MemoryHistoryOptions = {}): MemoryHistoryAdapter {
+	const { initialEntries = ['/'] } = options;
+	const listeners = new Set<(location: HistoryLocation) => void>();
+
+	let entries: HistoryLocation[] = initialEntries.map((url) => ({ ...parseURL(url), state: null }));
+	if (entries.length === 0) {
+		entries = [{ pathname: '/', search: '', state: null }];
+	}
+	let index = Math.min(Math.max(options.initialIndex ?? entries.length - 1, 0), entries.length - 1);
+
+	return {
+		get location() {
+			return entries[index]!;
+		},
+
+		get entries() {
+			return entries;
+		},
+
+		get index() {
+			return index;
+		},
+
+		push(url, state = null) {
+			// Pushing drops any forward entries
+			entries = [...entries.slice(0, index + 1), { ...parseURL(url), state }];
+			index = entries.length - 1;
+		},
+
+		replace(url, state = null) {
+			entries = entries.map((entry, i) => (i === index ? { ...parseURL(url), state } : entry));
+		},
+
+		go(delta) {
+			const next = Math.min(Math.max(index + delta, 0), entries.length - 1);
+			if (next === index) return;
+			index = next;
+			const location = entries[index]!;
+			listeners.forEach((listener) => listener(location));
+		},
+
+		listen(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		}
+	};
+}
@@ -37,6 +37,36 @@ export type { URLSyncOptions } from './sync-effect';
 export { syncBrowserHistory } from './browser-history';
 export type { BrowserHistoryConfig } from './browser-history';
 
+// Navigation Guards
+export { createNavigationGuard, updatePendingNavigation } from './navigation-guard';
+export type {
+	NavigationGuard,
+	NavigationGuardConfig,
+	NavigationGuardFn,
+	NavigationGuardResult,
+	NavigationLoader,
+	NavigationContext,
+	NavigationEvent,
+	NavigationResult,
+	PendingNavigation
+} from './navigation-guard';
+
+// Scroll and Focus Restoration
+export type { HistoryRestorationConfig, RestorationSnapshot } from './scroll-restoration';
+
+// History Adapters
+export {
+	createBrowserHistoryAdapter,
+	createHashHistoryAdapter,
+	createMemoryHistoryAdapter
+} from './history-adapter';
+export type {
+	HistoryAdapter,
+	HistoryLocation,
+	MemoryHistoryAdapter,
+	MemoryHistoryOptions
+} from './history-adapter';
+
 // Deep Linking
 export { createInitialStateFromURL } from './deep-link';
 
@@ -60,3 +90,19 @@ export type {
 	StringOptions,
 	NumberOptions
 } from './schemas';
+
+// Route Table
+export { defineRoutes, route } from './routes';
+export type {
+	Route,
+	AnyRoute,
+	RouteOptions,
+	RouteTable,
+	RouteParams,
+	RouteQuery,
+	RouteDestinations,
+	InferDestination,
+	ParamSchemas,
+	PathParamNames,
+	PathSplatNames
+} from './routes';
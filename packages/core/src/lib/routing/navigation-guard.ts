@@ -0,0 +1,370 @@
+/**
+ * Navigation Guards - Async Navigation Resolution
+ *
+ * This module resolves a navigation before it is presented: "can leave"
+ * guards on the current destination, "can enter" guards on the target,
+ * redirects, and a data loader. Only the latest navigation can resolve;
+ * starting a new one cancels the one in flight.
+ *
+ * @module routing/navigation-guard
+ */
+
+/**
+ * Context passed to guards and loaders.
+ *
+ * @template State - Application state type
+ * @template Dest - Destination state type
+ */
+export interface NavigationContext<State, Dest> {
+	/**
+	 * Destination being left (null for root).
+	 */
+	from: Dest | null;
+
+	/**
+	 * Destination being entered (null for root).
+	 * After a redirect, this is the redirect target.
+	 */
+	to: Dest | null;
+
+	/**
+	 * Application state when the navigation started.
+	 */
+	state: State;
+
+	/**
+	 * Aborted when the navigation is cancelled or superseded.
+	 */
+	signal: AbortSignal;
+}
+
+/**
+ * Guard result: `true` to allow, `false` to block, or a redirect.
+ */
+export type NavigationGuardResult<Dest> = boolean | { redirect: Dest | null };
+
+/**
+ * Guard function. May be async (e.g. a confirmation dialog).
+ */
+export type NavigationGuardFn<State, Dest> = (
+	context: NavigationContext<State, Dest>
+) => NavigationGuardResult<Dest> | Promise<NavigationGuardResult<Dest>>;
+
+/**
+ * Loader function. The navigation resolves once it settles.
+ */
+export type NavigationLoader<State, Dest, Data> = (
+	context: NavigationContext<State, Dest>
+) => Data | Promise<Data>;
+
+/**
+ * Configuration for createNavigationGuard().
+ *
+ * @template State - Application state type
+ * @template Dest - Destination state type
+ * @template Data - Loader result type
+ */
+export interface NavigationGuardConfig<State, Dest, Data = unknown> {
+	/**
+	 * Read the current destination from state (the `from` of a navigation).
+	 */
+	getDestination: (state: State) => Dest | null;
+
+	/**
+	 * Guards run before leaving the current destination (e.g. unsaved form).
+	 * Run in order; the first non-`true` result wins.
+	 */
+	canLeave?: NavigationGuardFn<State, Dest>[];
+
+	/**
+	 * Guards run before entering the target (e.g. auth, feature flags).
+	 * Run in order, again for every redirect target.
+	 */
+	canEnter?: NavigationGuardFn<State, Dest>[];
+
+	/**
+	 * Load data for the target after all guards pass.
+	 */
+	load?: NavigationLoader<State, Dest, Data>;
+
+	/**
+	 * Maximum redirects per navigation before failing (default: 5).
+	 */
+	maxRedirects?: number;
+}
+
+/**
+ * A navigation that has started but not settled.
+ */
+export interface PendingNavigation<Dest> {
+	/**
+	 * Increasing navigation ID.
+	 */
+	id: number;
+
+	from: Dest | null;
+	to: Dest | null;
+
+	/**
+	 * Current phase: running guards or waiting for the loader.
+	 */
+	phase: 'guards' | 'loading';
+}
+
+/**
+ * Navigation lifecycle events.
+ * Map them to actions to keep the pending navigation in the store.
+ *
+ * @template Dest - Destination state type
+ * @template Data - Loader result type
+ */
+export type NavigationEvent<Dest, Data = unknown> =
+	| { type: 'started'; navigation: PendingNavigation<Dest> }
+	| { type: 'redirected'; navigation: PendingNavigation<Dest> }
+	| { type: 'loading'; navigation: PendingNavigation<Dest> }
+	| { type: 'resolved'; navigation: PendingNavigation<Dest>; data: Data | undefined }
+	| { type: 'blocked'; navigation: PendingNavigation<Dest>; guard: 'leave' | 'enter' }
+	| { type: 'cancelled'; navigation: PendingNavigation<Dest>; superseded: boolean }
+	| { type: 'failed'; navigation: PendingNavigation<Dest>; error: unknown };
+
+/**
+ * Outcome of NavigationGuard.resolve().
+ */
+export type NavigationResult<Dest, Data = unknown> =
+	| { status: 'resolved'; destination: Dest | null; data: Data | undefined; redirected: boolean }
+	| { status: 'blocked'; guard: 'leave' | 'enter' }
+	| { status: 'cancelled'; superseded: boolean }
+	| { status: 'failed'; error: unknown };
+
+/**
+ * Navigation guard created by createNavigationGuard().
+ */
+export interface NavigationGuard<State, Dest, Data = unknown> {
+	/**
+	 * Resolve a navigation from the current destination in `state` to `to`.
+	 * Cancels the navigation in flight, if any.
+	 */
+	resolve(to: Dest | null, state: State): Promise<NavigationResult<Dest, Data>>;
+
+	/**
+	 * Cancel the navigation in flight (no-op if none).
+	 */
+	cancel(): void;
+
+	/**
+	 * The navigation in flight, or null.
+	 */
+	readonly pending: PendingNavigation<Dest> | null;
+
+	/**
+	 * Listen to navigation events.
+	 *
+	 * @returns Unsubscribe function
+	 */
+	subscribe(listener: (event: NavigationEvent<Dest, Data>) => void): () => void;
+}
+
+/**
+ * Create a navigation guard.
+ *
+ * Resolution order:
+ * 1. `canLeave` guards on the current destination
+ * 2. `canEnter` guards on the target (repeated for each redirect)
+ * 3. `load` for the final target
+ *
+ * A guard returning `false` blocks the navigation; `{ redirect }` swaps
+ * the target. Errors thrown by guards or the loader fail the navigation.
+ *
+ * @param config - Guards, loader and destination accessor
+ * @returns NavigationGuard instance
+ *
+ * @example
+ * ```typescript
+ * const guard = createNavigationGuard<AppState, AppDestination, Item>({
+ *   getDestination: (state) => state.destination,
+ *   canLeave: [({ state }) => !state.form.isDirty || confirm('Discard changes?')],
+ *   canEnter: [
+ *     ({ to, state }) =>
+ *       to?.type === 'admin' && !state.user ? { redirect: { type: 'login', state: {} } } : true
+ *   ],
+ *   load: ({ to, signal }) =>
+ *     to?.type === 'detailItem' ? fetchItem(to.state.id, { signal }) : undefined
+ * });
+ *
+ * syncBrowserHistory(store, {
+ *   parse,
+ *   serialize,
+ *   guard,
+ *   navigationToAction: (event) => ({ type: 'navigationChanged', event }),
+ *   destinationToAction: (dest, query, item) => ...
+ * });
+ * ```
+ */
+export function createNavigationGuard<State, Dest, Data = unknown>(
+	config: NavigationGuardConfig<State, Dest, Data>
+): NavigationGuard<State, Dest, Data> {
+	const { getDestination, canLeave = [], canEnter = [], load, maxRedirects = 5 } = config;
+	const listeners = new Set<(event: NavigationEvent<Dest, Data>) => void>();
+
+	let nextId = 1;
+	let pending: PendingNavigation<Dest> | null = null;
+	let controller: AbortController | null = null;
+
+	function emit(event: NavigationEvent<Dest, Data>): void {
+		listeners.forEach((listener) => listener(event));
+	}
+
+	// Run guards in order; returns the first non-true result
+	async function runGuards(
+		guards: NavigationGuardFn<State, Dest>[],
+		context: NavigationContext<State, Dest>
+	): Promise<NavigationGuardResult<Dest>> {
+		for (const guard of guards) {
+			const result = await guard(context);
+			if (context.signal.aborted || result !== true) {
+				return result;
+			}
+		}
+		return true;
+	}
+
+	function abort(superseded: boolean): void {
+		if (!pending || !controller) return;
+		const navigation = pending;
+		controller.abort(superseded ? 'superseded' : 'cancelled');
+		pending = null;
+		controller = null;
+		emit({ type: 'cancelled', navigation, superseded });
+	}
+
+	return {
+		get pending() {
+			return pending;
+		},
+
+		async resolve(to: Dest | null, state: State): Promise<NavigationResult<Dest, Data>> {
+			abort(true);
+
+			const navigationController = new AbortController();
+			const { signal } = navigationController;
+			let navigation: PendingNavigation<Dest> = {
+				id: nextId++,
+				from: getDestination(state),
+				to,
+				phase: 'guards'
+			};
+
+			// Update the navigation and emit its event
+			const update = (next: PendingNavigation<Dest>, type: 'started' | 'redirected' | 'loading') => {
+				navigation = next;
+				pending = next;
+				emit({ type, navigation: next });
+			};
+
+			// Settle: clear pending and emit the final event
+			const settle = (event: NavigationEvent<Dest, Data>) => {
+				pending = null;
+				controller = null;
+				emit(event);
+			};
+
+			const context = (): NavigationContext<State, Dest> => ({
+				from: navigation.from,
+				to: navigation.to,
+				state,
+				signal
+			});
+
+			const cancelled = (): NavigationResult<Dest, Data> => ({
+				status: 'cancelled',
+				superseded: signal.reason === 'superseded'
+			});
+
+			controller = navigationController;
+			update(navigation, 'started');
+
+			try {
+				const leave = await runGuards(canLeave, context());
+				if (signal.aborted) return cancelled();
+				if (leave === false) {
+					settle({ type: 'blocked', navigation, guard: 'leave' });
+					return { status: 'blocked', guard: 'leave' };
+				}
+
+				let redirects = 0;
+				let result = leave === true ? await runGuards(canEnter, context()) : leave;
+				while (result !== true) {
+					if (signal.aborted) return cancelled();
+					if (result === false) {
+						settle({ type: 'blocked', navigation, guard: 'enter' });
+						return { status: 'blocked', guard: 'enter' };
+					}
+
+					if (++redirects > maxRedirects) {
+						throw new Error(`[Composable Svelte] Navigation exceeded ${maxRedirects} redirects`);
+					}
+					update({ ...navigation, to: result.redirect }, 'redirected');
+					result = await runGuards(canEnter, context());
+				}
+				if (signal.aborted) return cancelled();
+
+				let data: Data | undefined;
+				if (load) {
+					update({ ...navigation, phase: 'loading' }, 'loading');
+					data = await load(context());
+					if (signal.aborted) return cancelled();
+				}
+
+				settle({ type: 'resolved', navigation, data });
+				return { status: 'resolved', destination: navigation.to, data, redirected: redirects > 0 };
+			} catch (error) {
+				if (signal.aborted) return cancelled();
+				settle({ type: 'failed', navigation, error });
+				return { status: 'failed', error };
+			}
+		},
+
+		cancel(): void {
+			abort(false);
+		},
+
+		subscribe(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		}
+	};
+}
+
+/**
+ * Track the pending navigation from navigation events.
+ * Use in a reducer to keep it in state for progress UI.
+ *
+ * @param pending - Pending navigation in state
+ * @param event - Navigation event
+ * @returns Updated pending navigation (null once settled)
+ *
+ * @example
+ * ```typescript
+ * case 'navigationChanged':
+ *   return [
+ *     { ...state, pendingNavigation: updatePendingNavigation(state.pendingNavigation, action.event) },
+ *     Effect.none()
+ *   ];
+ * ```
+ */
+export function updatePendingNavigation<Dest>(
+	pending: PendingNavigation<Dest> | null,
+	event: NavigationEvent<Dest, unknown>
+): PendingNavigation<Dest> | null {
+	switch (event.type) {
+		case 'started':
+		case 'redirected':
+		case 'loading':
+			return event.navigation;
+		default:
+			// Ignore settled events from superseded navigations
+			return pending && pending.id !== event.navigation.id ? pending : null;
+	}
+}
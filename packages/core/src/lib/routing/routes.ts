@@ -0,0 +1,519 @@
+/**
+ * Declarative Route Table - one definition for parsing and serialization
+ *
+ * This module builds the URL parser and serializer from a single route
+ * table, so the two directions cannot drift apart. Each route declares a
+ * path pattern, optional schemas for its params and query, child routes,
+ * and the destination type it maps to.
+ *
+ * @module routing/routes
+ */
+
+import { compile, match } from 'path-to-regexp';
+import type { ParamData } from 'path-to-regexp';
+import type { ParserConfig } from './parser';
+import type { SerializerConfig } from './serializer';
+import type { Schema } from './schemas';
+import { parseQueryParams, serializeQueryParams } from './query-params';
+
+// ============================================================================
+// Type Inference
+// ============================================================================
+
+/**
+ * Characters that end a parameter name in a path pattern.
+ */
+type ParamTerminator =
+	| '/' | '-' | '.' | '{' | '}' | '(' | ')' | ',' | ';' | '+' | '~' | '!' | '@' | '&' | '=' | '*' | ':';
+
+/**
+ * Split a string into its leading parameter name and the rest.
+ */
+type TakeName<S extends string, Name extends string = ''> = S extends `${infer C}${infer Rest}`
+	? C extends ParamTerminator
+		? [Name, S]
+		: TakeName<Rest, `${Name}${C}`>
+	: [Name, ''];
+
+/**
+ * Names introduced by a marker (':' for params, '*' for splats).
+ */
+type MarkedNames<P extends string, Marker extends string> = P extends `${string}${Marker}${infer Rest}`
+	? TakeName<Rest> extends [infer Name extends string, infer Tail extends string]
+		? Name | MarkedNames<Tail, Marker>
+		: never
+	: never;
+
+/**
+ * Names of the `:param` segments of a pattern.
+ *
+ * @example
+ * ```typescript
+ * type Names = PathParamNames<'/users/:userId/posts/:postId'>;
+ * // Names = 'userId' | 'postId'
+ * ```
+ */
+export type PathParamNames<P extends string> = MarkedNames<P, ':'>;
+
+/**
+ * Names of the `*splat` segments of a pattern.
+ */
+export type PathSplatNames<P extends string> = MarkedNames<P, '*'>;
+
+/**
+ * Output type of a schema.
+ */
+type SchemaOutput<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Flatten an intersection for readable hover types.
+ */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Schemas allowed for the params of a pattern.
+ */
+export type ParamSchemas<P extends string> = {
+	[K in PathParamNames<P> | PathSplatNames<P>]?: Schema<unknown>;
+};
+
+/**
+ * Typed params of a pattern: schema output when a schema is given,
+ * otherwise `string` (params) or `string[]` (splats).
+ */
+export type RouteParams<P extends string, Params = {}> = {
+	[K in PathParamNames<P> | PathSplatNames<P>]: K extends keyof Params
+		? SchemaOutput<Params[K]>
+		: K extends PathSplatNames<P>
+			? string[]
+			: string;
+};
+
+/**
+ * Typed query of a route. Fields whose schema can produce `undefined`
+ * are optional.
+ */
+export type RouteQuery<Query> = {
+	[K in keyof Query as undefined extends SchemaOutput<Query[K]> ? never : K]: SchemaOutput<Query[K]>;
+} & {
+	[K in keyof Query as undefined extends SchemaOutput<Query[K]> ? K : never]?: SchemaOutput<Query[K]>;
+};
+
+/**
+ * A route in a route table. Create with route().
+ *
+ * @template Type - Destination type (never for layout-only routes)
+ * @template State - Params and query contributed by this route
+ * @template Children - Child routes
+ */
+export interface Route<Type extends string, State, Children extends readonly AnyRoute[]> {
+	readonly pattern: string;
+	readonly destination: Type | undefined;
+	readonly params: Record<string, Schema<unknown>>;
+	readonly query: Record<string, Schema<unknown>>;
+	readonly children: Children;
+
+	/**
+	 * Type-only marker for inference (never set at runtime).
+	 */
+	readonly __state?: State;
+}
+
+/**
+ * Any route, for constraints.
+ */
+export type AnyRoute = Route<string, any, readonly any[]>;
+
+/**
+ * Destination union of a set of routes. Children inherit the params and
+ * query of their ancestors.
+ */
+export type RouteDestinations<R, Inherited = {}> = 0 extends 1 & R
+	? { type: string; state: any }
+	: R extends Route<infer Type, infer State, infer Children>
+		?
+				| ([Type] extends [never] ? never : { type: Type; state: Simplify<Inherited & State> })
+				| RouteDestinations<Children[number], Inherited & State>
+		: never;
+
+/**
+ * Options of route().
+ */
+export interface RouteOptions<
+	Pattern extends string,
+	Type extends string,
+	Params,
+	Query,
+	Children extends readonly AnyRoute[]
+> {
+	/**
+	 * Destination type this route maps to.
+	 * Omit for layout routes that only group children.
+	 */
+	destination?: Type;
+
+	/**
+	 * Schemas for path params. Unlisted params stay strings.
+	 */
+	params?: Params & Record<Exclude<keyof Params, PathParamNames<Pattern> | PathSplatNames<Pattern>>, never>;
+
+	/**
+	 * Schemas for query parameters.
+	 * Inherited by child routes.
+	 */
+	query?: Query;
+
+	/**
+	 * Nested routes. Their patterns are relative to this route.
+	 */
+	children?: Children;
+}
+
+/**
+ * Parser and serializer generated from a route table.
+ *
+ * @template Dest - Destination union inferred from the routes
+ */
+export interface RouteTable<Dest extends { type: string; state: any }> {
+	/**
+	 * Base path prepended to every route.
+	 */
+	readonly basePath: string;
+
+	/**
+	 * Parse a URL path (optionally with '?query') to a destination.
+	 * Returns null when no route matches or a schema rejects a value.
+	 */
+	parse(url: string): Dest | null;
+
+	/**
+	 * Serialize a destination to a URL path with query string.
+	 * Null serializes to the base path.
+	 */
+	serialize(destination: Dest | null): string;
+
+	/**
+	 * Serialize a destination to a URL path without query string.
+	 */
+	serializePath(destination: Dest | null): string;
+
+	/**
+	 * Serialize the query fields of a destination (without leading '?').
+	 */
+	serializeQuery(destination: Dest | null): string;
+
+	/**
+	 * Config for parseDestination(). Parsers match paths only.
+	 */
+	readonly parser: ParserConfig<Dest>;
+
+	/**
+	 * Config for serializeDestination(). Serializers return paths only.
+	 */
+	readonly serializer: SerializerConfig<Dest>;
+}
+
+/**
+ * Destination union of a route table.
+ *
+ * @example
+ * ```typescript
+ * const routes = defineRoutes({ routes: [...] });
+ * type AppDestination = InferDestination<typeof routes>;
+ * ```
+ */
+export type InferDestination<T> = T extends RouteTable<infer Dest> ? Dest : never;
+
+// ============================================================================
+// Route Definition
+// ============================================================================
+
+/**
+ * Define a route.
+ *
+ * Patterns use path-to-regexp syntax: `:name` matches one segment and
+ * `*name` matches the rest of the path (as an array of segments).
+ *
+ * @param pattern - Path pattern, relative to the parent route
+ * @param options - Destination, param/query schemas and children
+ *
+ * @example
+ * ```typescript
+ * route('/item-:id', {
+ *   destination: 'detailItem',
+ *   params: { id: number({ integer: true }) },
+ *   query: { tab: optional(enumSchema(['info', 'history'] as const)) },
+ *   children: [route('/edit', { destination: 'editItem' })]
+ * });
+ * ```
+ */
+export function route<
+	const Pattern extends string,
+	const Type extends string = never,
+	Params extends ParamSchemas<Pattern> = {},
+	Query extends Record<string, Schema<unknown>> = {},
+	const Children extends readonly AnyRoute[] = []
+>(
+	pattern: Pattern,
+	options: RouteOptions<Pattern, Type, Params, Query, Children> = {}
+): Route<Type, Simplify<RouteParams<Pattern, Params> & RouteQuery<Query>>, Children> {
+	return {
+		pattern,
+		destination: options.destination,
+		params: (options.params ?? {}) as Record<string, Schema<unknown>>,
+		query: (options.query ?? {}) as Record<string, Schema<unknown>>,
+		children: (options.children ?? []) as unknown as Children
+	};
+}
+
+// ============================================================================
+// Route Table
+// ============================================================================
+
+/**
+ * A route flattened with its ancestors.
+ */
+interface CompiledRoute {
+	type: string;
+	pattern: string;
+	match: (path: string) => false | { params: ParamData };
+	toPath: (params: ParamData) => string;
+	params: Record<string, Schema<unknown>>;
+	query: Record<string, Schema<unknown>>;
+}
+
+/**
+ * Join a child pattern onto its parent's.
+ */
+function joinPattern(parent: string, child: string): string {
+	const base = parent.replace(/\/$/, '');
+	if (child === '' || child === '/') {
+		return base || '/';
+	}
+	return `${base}${child.startsWith('/') ? child : `/${child}`}`;
+}
+
+/**
+ * Flatten a route tree in declaration order (parents before children).
+ */
+function compileRoutes(
+	routes: readonly AnyRoute[],
+	parentPattern = '/',
+	inheritedParams: Record<string, Schema<unknown>> = {},
+	inheritedQuery: Record<string, Schema<unknown>> = {},
+	compiled: CompiledRoute[] = []
+): CompiledRoute[] {
+	for (const definition of routes) {
+		const pattern = joinPattern(parentPattern, definition.pattern);
+		const params = { ...inheritedParams, ...definition.params };
+		const query = { ...inheritedQuery, ...definition.query };
+
+		if (definition.destination !== undefined) {
+			if (compiled.some((existing) => existing.type === definition.destination)) {
+				throw new Error(`[Composable Svelte] Duplicate route destination: "${definition.destination}"`);
+			}
+			compiled.push({
+				type: definition.destination,
+				pattern,
+				match: match(pattern),
+				toPath: compile(pattern),
+				params,
+				query
+			});
+		}
+
+		compileRoutes(definition.children, pattern, params, query, compiled);
+	}
+	return compiled;
+}
+
+/**
+ * Parse matched params and query with their schemas.
+ * Returns null if a schema rejects a value.
+ */
+function parseState(
+	compiled: CompiledRoute,
+	params: ParamData,
+	search: string
+): Record<string, unknown> | null {
+	const state: Record<string, unknown> = {};
+
+	try {
+		for (const [name, raw] of Object.entries(params)) {
+			const schema = compiled.params[name];
+			state[name] = schema ? schema.parse(raw) : raw;
+		}
+
+		const rawQuery = parseQueryParams(search);
+		for (const [name, schema] of Object.entries(compiled.query)) {
+			const value = schema.parse(rawQuery[name]);
+			if (value !== undefined) {
+				state[name] = value;
+			}
+		}
+	} catch {
+		return null;
+	}
+
+	return state;
+}
+
+/**
+ * Define a route table and generate its parser and serializer.
+ *
+ * Routes are tried in declaration order, parents before children, so
+ * place static patterns (`/items/new`) before dynamic ones (`/items/:id`).
+ * Because both directions come from the same table,
+ * `parse(serialize(destination))` returns the destination for every
+ * value the schemas accept.
+ *
+ * @param config - Base path and routes
+ * @returns Route table with parse/serialize functions
+ * @throws Error if two routes map to the same destination type
+ *
+ * @example
+ * ```typescript
+ * const routes = defineRoutes({
+ *   basePath: '/inventory',
+ *   routes: [
+ *     route('/add', { destination: 'addItem' }),
+ *     route('/item-:id', {
+ *       destination: 'detailItem',
+ *       params: { id: number() },
+ *       children: [route('/edit', { destination: 'editItem' })]
+ *     }),
+ *     route('/files/*path', { destination: 'file' })
+ *   ]
+ * });
+ *
+ * type InventoryDestination = InferDestination<typeof routes>;
+ * // | { type: 'addItem'; state: {} }
+ * // | { type: 'detailItem'; state: { id: number } }
+ * // | { type: 'editItem'; state: { id: number } }
+ * // | { type: 'file'; state: { path: string[] } }
+ *
+ * routes.parse('/inventory/item-42/edit');
+ * // → { type: 'editItem', state: { id: 42 } }
+ *
+ * routes.serialize({ type: 'file', state: { path: ['docs', 'readme.md'] } });
+ * // → '/inventory/files/docs/readme.md'
+ * ```
+ */
+export function defineRoutes<const Routes extends readonly AnyRoute[]>(config: {
+	basePath?: string;
+	routes: Routes;
+}): RouteTable<RouteDestinations<Routes[number]>> {
+	type Dest = RouteDestinations<Routes[number]>;
+
+	const basePath = config.basePath ?? '/';
+	const prefix = basePath.replace(/\/$/, '');
+	const compiled = compileRoutes(config.routes);
+	const byType = new Map(compiled.map((entry) => [entry.type, entry]));
+
+	function matchRoute(compiledRoute: CompiledRoute, url: string): Dest | null {
+		const queryIndex = url.indexOf('?');
+		const path = queryIndex === -1 ? url : url.slice(0, queryIndex);
+		const search = queryIndex === -1 ? '' : url.slice(queryIndex);
+
+		const result = compiledRoute.match(path.startsWith('/') ? path : `/${path}`);
+		if (!result) {
+			return null;
+		}
+
+		const state = parseState(compiledRoute, result.params, search);
+		return state ? ({ type: compiledRoute.type, state } as Dest) : null;
+	}
+
+	function stripBasePath(url: string): string | null {
+		if (!prefix) {
+			return url;
+		}
+		if (url === prefix || url.startsWith(`${prefix}?`)) {
+			return `/${url.slice(prefix.length)}`;
+		}
+		return url.startsWith(`${prefix}/`) ? url.slice(prefix.length) : null;
+	}
+
+	function serializePath(destination: Dest | null): string {
+		if (!destination) {
+			return basePath;
+		}
+
+		const compiledRoute = byType.get(destination.type);
+		if (!compiledRoute) {
+			console.warn(
+				`[Composable Svelte] No route found for destination type: "${destination.type}". Falling back to base path.`
+			);
+			return basePath;
+		}
+
+		const params: ParamData = {};
+		for (const [name, value] of Object.entries(destination.state as Record<string, unknown>)) {
+			if (name in compiledRoute.query || value === undefined) continue;
+			params[name] = Array.isArray(value) ? value.map(String) : String(value);
+		}
+
+		const path = compiledRoute.toPath(params);
+		return prefix ? (path === '/' ? prefix : `${prefix}${path}`) : path;
+	}
+
+	function serializeQuery(destination: Dest | null): string {
+		if (!destination) {
+			return '';
+		}
+
+		const compiledRoute = byType.get(destination.type);
+		if (!compiledRoute) {
+			return '';
+		}
+
+		const query: Record<string, unknown> = {};
+		for (const name of Object.keys(compiledRoute.query)) {
+			query[name] = destination.state[name];
+		}
+		return serializeQueryParams(query);
+	}
+
+	return {
+		basePath,
+
+		parse(url: string): Dest | null {
+			const relative = stripBasePath(url);
+			if (relative === null) {
+				return null;
+			}
+
+			for (const compiledRoute of compiled) {
+				const destination = matchRoute(compiledRoute, relative);
+				if (destination) {
+					return destination;
+				}
+			}
+			return null;
+		},
+
+		serialize(destination: Dest | null): string {
+			const path = serializePath(destination);
+			const query = serializeQuery(destination);
+			return query ? `${path}?${query}` : path;
+		},
+
+		serializePath,
+		serializeQuery,
+
+		parser: {
+			basePath,
+			parsers: compiled.map((compiledRoute) => (path: string) => matchRoute(compiledRoute, path))
+		},
+
+		serializer: {
+			basePath,
+			serializers: Object.fromEntries(
+				compiled.map((compiledRoute) => [
+					compiledRoute.type,
+					(state: unknown) => serializePath({ type: compiledRoute.type, state } as Dest)
+				])
+			) as SerializerConfig<Dest>['serializers']
+		}
+	};
+}
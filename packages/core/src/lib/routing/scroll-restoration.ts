@@ -0,0 +1,239 @@
+/**
+ * Scroll and Focus Restoration - Per-Entry History Snapshots
+ *
+ * This module stores the scroll position and focused element of each
+ * history entry in `history.state`, and restores them when the user
+ * returns to the entry with back/forward. Restoration waits until the
+ * destination's presentation animation has finished.
+ *
+ * @module routing/scroll-restoration
+ */
+
+import type { Store } from '../types';
+import type { PresentationState } from '../navigation/types';
+
+/**
+ * Key of the snapshot in `history.state`.
+ */
+export const RESTORATION_STATE_KEY = 'composableSvelteRestoration';
+
+/**
+ * Scroll position and focus target of a history entry.
+ */
+export interface RestorationSnapshot {
+	x: number;
+	y: number;
+
+	/**
+	 * Selector of the focused element, or null.
+	 */
+	focus: string | null;
+}
+
+/**
+ * Configuration for scroll and focus restoration.
+ *
+ * @template State - Application state type
+ * @template Dest - Destination state type
+ */
+export interface HistoryRestorationConfig<State, Dest> {
+	/**
+	 * Presentation state of the destination.
+	 * Restoration waits while it is 'presenting' or 'dismissing'.
+	 */
+	getPresentation?: (state: State) => PresentationState<unknown>;
+
+	/**
+	 * Return false to skip restoration for a destination
+	 * (e.g. a feed that should always open at the top).
+	 */
+	shouldRestore?: (destination: Dest | null) => boolean;
+
+	/**
+	 * Scrolled element (default: the window).
+	 */
+	scrollContainer?: () => Element | null;
+
+	/**
+	 * Selector used to find a focused element again, or null to skip it.
+	 * Default: the element's id.
+	 */
+	focusTarget?: (element: Element) => string | null;
+
+	/**
+	 * Delay before saving scroll/focus changes (ms, default: 100).
+	 */
+	captureDelay?: number;
+}
+
+/**
+ * Restoration controller used by syncBrowserHistory().
+ */
+export interface HistoryRestoration<Dest> {
+	/**
+	 * Save the current snapshot into the current history entry.
+	 */
+	capture(): void;
+
+	/**
+	 * Restore a snapshot once the destination's presentation settles.
+	 */
+	restore(destination: Dest | null, snapshot: RestorationSnapshot | null): void;
+
+	/**
+	 * Drop scheduled captures and restorations (e.g. on popstate).
+	 */
+	cancel(): void;
+
+	/**
+	 * Remove listeners and restore the browser's scroll restoration mode.
+	 */
+	dispose(): void;
+}
+
+/**
+ * Read the snapshot stored in a history state object.
+ */
+export function getRestorationSnapshot(state: unknown): RestorationSnapshot | null {
+	const snapshot = (state as Record<string, unknown> | null)?.[RESTORATION_STATE_KEY];
+	return typeof snapshot === 'object' && snapshot !== null ? (snapshot as RestorationSnapshot) : null;
+}
+
+/**
+ * Default focus target: the element's id.
+ */
+function idSelector(element: Element): string | null {
+	return element.id ? `[id="${element.id.replace(/["\\]/g, '\\$&')}"]` : null;
+}
+
+/**
+ * Create scroll and focus restoration for a store.
+ *
+ * Takes over `history.scrollRestoration` while active, so the browser
+ * does not jump before the destination is presented.
+ *
+ * @param store - Store whose presentation state is observed
+ * @param config - Restoration configuration
+ * @param save - Write a snapshot into the current history entry
+ * @returns HistoryRestoration controller
+ */
+export function createHistoryRestoration<State, Action, Dest>(
+	store: Store<State, Action>,
+	config: HistoryRestorationConfig<State, Dest>,
+	save: (snapshot: RestorationSnapshot) => void
+): HistoryRestoration<Dest> {
+	const {
+		getPresentation,
+		shouldRestore = () => true,
+		scrollContainer = () => null,
+		focusTarget = idSelector,
+		captureDelay = 100
+	} = config;
+
+	let captureTimer: ReturnType<typeof setTimeout> | null = null;
+	let restoreTimer: ReturnType<typeof setTimeout> | null = null;
+	let unsubscribe: (() => void) | null = null;
+
+	const previousScrollRestoration = history.scrollRestoration;
+	history.scrollRestoration = 'manual';
+
+	function snapshot(): RestorationSnapshot {
+		const container = scrollContainer();
+		const active = document.activeElement;
+		return {
+			x: container ? container.scrollLeft : window.scrollX,
+			y: container ? container.scrollTop : window.scrollY,
+			focus: active && active !== document.body ? focusTarget(active) : null
+		};
+	}
+
+	function apply({ x, y, focus }: RestorationSnapshot): void {
+		const container = scrollContainer();
+		if (container) {
+			container.scrollLeft = x;
+			container.scrollTop = y;
+		} else {
+			window.scrollTo(x, y);
+		}
+
+		if (focus) {
+			document.querySelector<HTMLElement>(focus)?.focus({ preventScroll: true });
+		}
+	}
+
+	function capture(): void {
+		if (captureTimer) {
+			clearTimeout(captureTimer);
+			captureTimer = null;
+		}
+		save(snapshot());
+	}
+
+	function scheduleCapture(): void {
+		if (captureTimer) clearTimeout(captureTimer);
+		captureTimer = setTimeout(capture, captureDelay);
+	}
+
+	function cancel(): void {
+		if (captureTimer) clearTimeout(captureTimer);
+		if (restoreTimer) clearTimeout(restoreTimer);
+		unsubscribe?.();
+		captureTimer = null;
+		restoreTimer = null;
+		unsubscribe = null;
+	}
+
+	// Listen for changes to save (scroll events don't bubble from containers)
+	window.addEventListener('scroll', scheduleCapture, { capture: true, passive: true });
+	document.addEventListener('focusin', scheduleCapture);
+
+	return {
+		capture,
+
+		restore(destination: Dest | null, entry: RestorationSnapshot | null): void {
+			cancel();
+			if (!entry || !shouldRestore(destination)) {
+				return;
+			}
+
+			// Restore after the DOM for the destination has rendered
+			const schedule = () => {
+				restoreTimer = setTimeout(() => {
+					restoreTimer = null;
+					apply(entry);
+				}, 0);
+			};
+
+			if (!getPresentation) {
+				schedule();
+				return;
+			}
+
+			let settled = false;
+			const stop = store.subscribe((state) => {
+				const { status } = getPresentation(state);
+				if (settled || status === 'presenting' || status === 'dismissing') {
+					return;
+				}
+				settled = true;
+				unsubscribe?.();
+				unsubscribe = null;
+				schedule();
+			});
+			if (settled) {
+				stop();
+			} else {
+				unsubscribe = stop;
+			}
+		},
+
+		cancel,
+
+		dispose(): void {
+			cancel();
+			window.removeEventListener('scroll', scheduleCapture, { capture: true });
+			document.removeEventListener('focusin', scheduleCapture);
+			history.scrollRestoration = previousScrollRestoration;
+		}
+	};
+}
@@ -9,6 +9,7 @@
 
 import { Effect } from '../effect';
 import type { Effect as EffectType } from '../types';
+import type { HistoryAdapter } from './history-adapter';
 
 /**
  * Normalize query string for comparison.
@@ -58,6 +59,12 @@ export interface URLSyncOptions {
 	 * @returns Query string (without leading '?'), or empty string if no params
 	 */
 	serializeQuery?: <State>(state: State) => string;
+
+	/**
+	 * Optional: History backend to update (default: browser URL).
+	 * Pass the same adapter as syncBrowserHistory().
+	 */
+	history?: HistoryAdapter;
 }
 
 /**
@@ -104,17 +111,16 @@ export function createURLSyncEffect<State, Action>(
 	options: URLSyncOptions = {}
 ): (state: State) => EffectType<Action> {
 	// Shared timeout ID for debouncing
-	let pendingTimeout: number | undefined;
+	let pendingTimeout: ReturnType<typeof setTimeout> | undefined;
 
 	return (state: State): EffectType<Action> => {
 		const expectedPath = serialize(state);
-		const currentPath = window.location.pathname;
+		const location = options.history ? options.history.location : window.location;
+		const currentPath = location.pathname;
 
 		// Serialize query params if provided
 		const expectedQuery = options.serializeQuery ? options.serializeQuery(state) : '';
-		const currentQuery = window.location.search.startsWith('?')
-			? window.location.search.slice(1)
-			: window.location.search;
+		const currentQuery = location.search.startsWith('?') ? location.search.slice(1) : location.search;
 
 		// Normalize query strings for comparison (order-independent)
 		const expectedQueryNormalized = normalizeQueryString(expectedQuery);
@@ -140,20 +146,26 @@ export function createURLSyncEffect<State, Action>(
 			// Build URL to push (using original query order, not normalized)
 			const urlToPush = expectedQuery ? `${expectedPath}?${expectedQuery}` : expectedPath;
 
+			const update = () => {
+				if (options.history) {
+					options.history[options.replace ? 'replace' : 'push'](urlToPush, stateMetadata);
+				} else {
+					history[options.replace ? 'replaceState' : 'pushState'](stateMetadata, '', urlToPush);
+				}
+			};
+
 			if (options.debounceMs) {
 				// Debounced update
 				if (pendingTimeout !== undefined) {
 					clearTimeout(pendingTimeout);
 				}
-				pendingTimeout = window.setTimeout(() => {
-					const method = options.replace ? 'replaceState' : 'pushState';
-					history[method](stateMetadata, '', urlToPush);
+				pendingTimeout = setTimeout(() => {
+					update();
 					pendingTimeout = undefined;
 				}, options.debounceMs);
 			} else {
 				// Immediate update
-				const method = options.replace ? 'replaceState' : 'pushState';
-				history[method](stateMetadata, '', urlToPush);
+				update();
 			}
 		});
 	};
@@ -0,0 +1,199 @@
+/**
+ * Effect.sse() helper functions.
+ *
+ * This module provides declarative effect helpers for Server-Sent Events:
+ * - connect(): Open an event stream with event subscription
+ * - disconnect(): Close the event stream
+ * - subscribe(): Subscribe to incoming messages
+ * - subscribeToEvents(): Subscribe to connection events
+ */
+
+import type { Effect as EffectType } from '../types.js';
+import { Effect } from '../effect.js';
+import type {
+  SSEClient,
+  SSEConnectOptions,
+  SSEEvent,
+  SSEMessage
+} from './types.js';
+import type { Unsubscribe } from '../websocket/types.js';
+
+/**
+ * Open an event stream with automatic event subscription.
+ *
+ * **Cleanup**: Automatically disconnects when effect is cancelled.
+ *
+ * @param client - SSE client instance
+ * @param subscriptionId - Unique ID for subscription cleanup
+ * @param url - Stream URL
+ * @param options - Optional request options (method, headers, body)
+ * @param onEvent - Optional callback to transform events into actions
+ *
+ * @example
+ * ```typescript
+ * case 'connect':
+ *   return [
+ *     { ...state, status: 'connecting' },
+ *     Effect.sse.connect(
+ *       deps.sse,
+ *       'notifications',
+ *       '/api/notifications',
+ *       undefined,
+ *       (event) => ({ type: 'sseEvent', event })
+ *     )
+ *   ];
+ * ```
+ */
+export function connect<Action>(
+  client: SSEClient,
+  subscriptionId: string,
+  url: string,
+  options?: SSEConnectOptions,
+  onEvent?: (event: SSEEvent) => Action
+): EffectType<Action> {
+  return Effect.subscription(subscriptionId, (dispatch) => {
+    let unsubscribe: Unsubscribe | undefined;
+
+    // Subscribe to events if callback provided
+    if (onEvent) {
+      unsubscribe = client.subscribeToEvents((event) => {
+        dispatch(onEvent(event));
+      });
+    }
+
+    // Connect
+    client.connect(url, options).catch((error) => {
+      console.error('[SSE] Connection failed:', error);
+    });
+
+    // Return cleanup function
+    return async () => {
+      unsubscribe?.();
+      await client.disconnect();
+    };
+  });
+}
+
+/**
+ * Close an event stream.
+ *
+ * @param client - SSE client instance
+ *
+ * @example
+ * ```typescript
+ * case 'disconnect':
+ *   return [
+ *     state,
+ *     Effect.sse.disconnect(deps.sse)
+ *   ];
+ * ```
+ */
+export function disconnect<Action>(
+  client: SSEClient
+): EffectType<Action> {
+  return Effect.run(async () => {
+    await client.disconnect();
+  });
+}
+
+/**
+ * Subscribe to messages from an event stream.
+ *
+ * **Cleanup**: Automatically unsubscribes when effect is cancelled.
+ *
+ * @param client - SSE client instance
+ * @param subscriptionId - Unique ID for subscription cleanup
+ * @param onMessage - Callback to transform messages into actions
+ *   (return null to ignore a message, e.g. other event types)
+ *
+ * @example
+ * ```typescript
+ * case 'subscribeToMessages':
+ *   return [
+ *     state,
+ *     Effect.sse.subscribe(
+ *       deps.sse,
+ *       'sse-messages',
+ *       (message) => message.event === 'notification'
+ *         ? { type: 'notificationReceived', notification: message.data }
+ *         : null
+ *     )
+ *   ];
+ * ```
+ */
+export function subscribe<T, Action>(
+  client: SSEClient<T>,
+  subscriptionId: string,
+  onMessage: (message: SSEMessage<T>) => Action | null
+): EffectType<Action> {
+  return Effect.subscription(subscriptionId, (dispatch) => {
+    const unsubscribe = client.subscribe((message) => {
+      const action = onMessage(message);
+      if (action !== null) {
+        dispatch(action);
+      }
+    });
+
+    return unsubscribe;
+  });
+}
+
+/**
+ * Subscribe to connection events from an event stream.
+ *
+ * **Cleanup**: Automatically unsubscribes when effect is cancelled.
+ *
+ * @param client - SSE client instance
+ * @param subscriptionId - Unique ID for subscription cleanup
+ * @param onEvent - Callback to transform events into actions
+ *
+ * @example
+ * ```typescript
+ * case 'subscribeToEvents':
+ *   return [
+ *     state,
+ *     Effect.sse.subscribeToEvents(
+ *       deps.sse,
+ *       'sse-events',
+ *       (event) => ({ type: 'sseEvent', event })
+ *     )
+ *   ];
+ * ```
+ */
+export function subscribeToEvents<Action>(
+  client: SSEClient,
+  subscriptionId: string,
+  onEvent: (event: SSEEvent) => Action
+): EffectType<Action> {
+  return Effect.subscription(subscriptionId, (dispatch) => {
+    const unsubscribe = client.subscribeToEvents((event) => {
+      dispatch(onEvent(event));
+    });
+
+    return unsubscribe;
+  });
+}
+
+// ============================================================================
+// Module Augmentation
+// ============================================================================
+
+// Extend Effect namespace with SSE helpers
+declare module '../effect.js' {
+  interface EffectNamespace {
+    sse: {
+      connect: typeof connect;
+      disconnect: typeof disconnect;
+      subscribe: typeof subscribe;
+      subscribeToEvents: typeof subscribeToEvents;
+    };
+  }
+}
+
+// Add SSE helpers to Effect namespace
+(Effect as any).sse = {
+  connect,
+  disconnect,
+  subscribe,
+  subscribeToEvents
+};
@@ -0,0 +1,65 @@
+/**
+ * Server-Sent Events integration for Composable Svelte.
+ *
+ * This module provides:
+ * - fetch-based SSE client with POST bodies, headers and Last-Event-ID resumption
+ * - Effect system integration for declarative stream operations
+ * - Testing utilities (mock and spy clients)
+ *
+ * @example
+ * ```typescript
+ * import { createLiveSSE, Effect } from '@composable-svelte/core';
+ *
+ * // Create client
+ * const sse = createLiveSSE({
+ *   headers: { Authorization: `Bearer ${token}` }
+ * });
+ *
+ * // Use in reducer
+ * case 'connect':
+ *   return [
+ *     state,
+ *     Effect.sse.connect(deps.sse, 'notifications', '/api/notifications')
+ *   ];
+ * ```
+ */
+
+// Core types
+export type {
+  SSEClient,
+  SSEConfig,
+  SSEConnectOptions,
+  SSEMessage,
+  SSEEvent,
+  SSEConnectedEvent,
+  SSEDisconnectedEvent,
+  SSEErrorEvent,
+  SSEReconnectingEvent,
+  SSEReconnectedEvent,
+  SSEConnectionState,
+  SSEConnectionStats,
+  SSEMessageListener,
+  SSEEventListener
+} from './types.js';
+
+export { SSEError, SSE_ERROR_CODES } from './types.js';
+
+// Stream parser
+export type { ParsedEvent, EventStreamHandlers, EventStreamParser } from './parser.js';
+export { createEventStreamParser } from './parser.js';
+
+// Production client
+export { createLiveSSE } from './live-client.js';
+
+// Testing utilities
+export type {
+  MockSSEClient,
+  MockSSEConnection,
+  SpySSEClient,
+  RecordedSSEConnection,
+  RecordedSSEDisconnection
+} from './testing/index.js';
+export { createMockSSE, createSpySSE } from './testing/index.js';
+
+// Effect integration (imported to register Effect.sse namespace)
+import './effect-sse.js';
@@ -0,0 +1,545 @@
+/**
+ * Production Server-Sent Events client implementation.
+ *
+ * Built on fetch instead of EventSource so streams can be opened with
+ * POST bodies and custom headers (e.g. Authorization). Provides:
+ * - Last-Event-ID resumption
+ * - Automatic reconnection with the WebSocket client's backoff
+ * - Connection timeout handling
+ * - Statistics tracking
+ */
+
+import type {
+  SSEClient,
+  SSEConfig,
+  SSEConnectOptions,
+  SSEMessage,
+  SSEEvent,
+  SSEConnectionState,
+  SSEMessageListener,
+  SSEEventListener
+} from './types.js';
+import { SSEError, SSE_ERROR_CODES } from './types.js';
+import type { ReconnectConfig, Unsubscribe } from '../websocket/types.js';
+import { calculateReconnectDelay } from '../websocket/live-client.js';
+import { createEventStreamParser } from './parser.js';
+
+function defaultDeserialize(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Create a production SSE client.
+ *
+ * **Platform**: Browser and Node 18+ (requires fetch with streaming bodies)
+ *
+ * @param config - SSE configuration
+ * @returns SSE client instance
+ *
+ * @example
+ * ```typescript
+ * const client = createLiveSSE<Notification>({
+ *   headers: { Authorization: `Bearer ${token}` }
+ * });
+ *
+ * client.subscribe((message) => console.log(message.event, message.data));
+ * await client.connect('/api/notifications');
+ *
+ * // One-shot stream with a POST body (not reconnected once it ends)
+ * const completion = createLiveSSE<Token>();
+ * await completion.connect('/api/complete', { method: 'POST', body: { prompt } });
+ * ```
+ */
+export function createLiveSSE<T = unknown>(config?: SSEConfig): SSEClient<T> {
+  // State
+  let controller: AbortController | null = null;
+  let request: SSEConnectOptions = {};
+  let state: SSEConnectionState = {
+    status: 'disconnected',
+    url: null,
+    reconnectAttempts: 0,
+    lastEventId: null,
+    lastError: null,
+    connectedAt: null
+  };
+
+  const stats = {
+    messagesReceived: 0,
+    bytesReceived: 0,
+    reconnects: 0,
+    errors: 0,
+    uptime: 0
+  };
+
+  // Listeners
+  const messageListeners = new Set<SSEMessageListener<T>>();
+  const eventListeners = new Set<SSEEventListener>();
+
+  // Configuration with defaults
+  const deserialize = config?.deserialize || defaultDeserialize;
+  const connectionTimeout = config?.connectionTimeout || 10000;
+  const reconnectConfig: ReconnectConfig = {
+    enabled: config?.reconnect?.enabled ?? true,
+    maxAttempts: config?.reconnect?.maxAttempts ?? 5,
+    initialDelay: config?.reconnect?.initialDelay ?? 1000,
+    maxDelay: config?.reconnect?.maxDelay ?? 30000,
+    backoffMultiplier: config?.reconnect?.backoffMultiplier ?? 2,
+    jitter: config?.reconnect?.jitter ?? true
+  };
+
+  // Reconnection time sent by the server (`retry:` field)
+  let serverRetryDelay: number | null = null;
+
+  // Reconnection timer
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // ========================================
+  // Internal Helpers
+  // ========================================
+
+  function updateState(updates: Partial<SSEConnectionState>): void {
+    state = { ...state, ...updates };
+  }
+
+  function notifyEventListeners(event: SSEEvent): void {
+    eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[SSE] Error in event listener:', error);
+      }
+    });
+  }
+
+  function notifyMessageListeners(message: SSEMessage<T>): void {
+    messageListeners.forEach(listener => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('[SSE] Error in message listener:', error);
+      }
+    });
+  }
+
+  function fail(error: SSEError): SSEError {
+    updateState({ status: 'failed', lastError: error, connectedAt: null });
+    stats.errors++;
+    notifyEventListeners({
+      type: 'error',
+      error,
+      timestamp: Date.now()
+    });
+    return error;
+  }
+
+  function buildInit(signal: AbortSignal): RequestInit {
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...config?.headers,
+      ...request.headers
+    };
+    if (state.lastEventId !== null) {
+      headers['Last-Event-ID'] = state.lastEventId;
+    }
+
+    let body: string | undefined;
+    if (request.body !== undefined) {
+      if (typeof request.body === 'string') {
+        body = request.body;
+      } else {
+        body = JSON.stringify(request.body);
+        if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+          headers['Content-Type'] = 'application/json';
+        }
+      }
+    }
+
+    return {
+      method: request.method ?? 'GET',
+      headers,
+      signal,
+      ...(body !== undefined ? { body } : {})
+    };
+  }
+
+  // ========================================
+  // Connection Management
+  // ========================================
+
+  async function connect(url: string, options: SSEConnectOptions = {}): Promise<void> {
+    // Validate state
+    if (controller) {
+      throw new SSEError(
+        'Already connected or connecting',
+        SSE_ERROR_CODES.CONNECTION_FAILED,
+        false
+      );
+    }
+
+    // Clear any pending reconnect
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+
+    request = options;
+    serverRetryDelay = null;
+
+    updateState({
+      status: 'connecting',
+      url,
+      reconnectAttempts: 0,
+      lastEventId: options.lastEventId ?? null
+    });
+
+    return open(url);
+  }
+
+  /**
+   * Issue the request and start reading the stream.
+   * Resolves once the response headers have been validated.
+   */
+  async function open(url: string): Promise<void> {
+    const current = new AbortController();
+    controller = current;
+
+    let timedOut = false;
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      current.abort();
+    }, connectionTimeout);
+
+    let response: Response;
+    try {
+      const fetchImpl = config?.fetch ?? globalThis.fetch;
+      response = await fetchImpl(url, buildInit(current.signal));
+    } catch (error) {
+      if (controller !== current) {
+        // disconnect() was called while connecting
+        throw new SSEError('Connection aborted', SSE_ERROR_CODES.CONNECTION_FAILED, false, error);
+      }
+      controller = null;
+      throw fail(
+        timedOut
+          ? new SSEError(
+              `Connection timeout after ${connectionTimeout}ms`,
+              SSE_ERROR_CODES.CONNECTION_TIMEOUT,
+              true
+            )
+          : new SSEError(
+              `Failed to connect: ${error}`,
+              SSE_ERROR_CODES.CONNECTION_FAILED,
+              true,
+              error
+            )
+      );
+    } finally {
+      clearTimeout(timeoutTimer);
+    }
+
+    if (controller !== current) {
+      throw new SSEError('Connection aborted', SSE_ERROR_CODES.CONNECTION_FAILED, false);
+    }
+
+    // 204 No Content tells the client to stop reconnecting
+    if (response.status === 204) {
+      controller = null;
+      updateState({ status: 'disconnected', connectedAt: null });
+      notifyEventListeners({
+        type: 'disconnected',
+        reason: 'No content',
+        wasClean: true,
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (!response.ok) {
+      controller = null;
+      const status = response.status;
+      throw fail(
+        new SSEError(
+          `Request failed with status ${status}`,
+          SSE_ERROR_CODES.CONNECTION_FAILED,
+          status >= 500 || status === 408 || status === 429,
+          undefined,
+          status
+        )
+      );
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!contentType.includes('text/event-stream')) {
+      controller = null;
+      current.abort();
+      throw fail(
+        new SSEError(
+          `Expected text/event-stream, received "${contentType}"`,
+          SSE_ERROR_CODES.INVALID_CONTENT_TYPE,
+          false,
+          undefined,
+          response.status
+        )
+      );
+    }
+
+    if (!response.body) {
+      controller = null;
+      throw fail(
+        new SSEError('Response has no body', SSE_ERROR_CODES.STREAM_FAILED, true)
+      );
+    }
+
+    updateState({
+      status: 'connected',
+      connectedAt: new Date(),
+      lastError: null,
+      reconnectAttempts: 0
+    });
+
+    notifyEventListeners({
+      type: 'connected',
+      url,
+      timestamp: Date.now()
+    });
+
+    void read(response.body, current);
+  }
+
+  async function read(body: ReadableStream<Uint8Array>, current: AbortController): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parser = createEventStreamParser({
+      onEvent: (event) => {
+        if (controller !== current) return;
+        stats.messagesReceived++;
+
+        try {
+          const message: SSEMessage<T> = {
+            data: deserialize(event.data, event.event) as T,
+            event: event.event,
+            id: event.id,
+            timestamp: Date.now(),
+            raw: event.data
+          };
+
+          notifyMessageListeners(message);
+        } catch (error) {
+          const sseError = new SSEError(
+            `Failed to parse message: ${error}`,
+            SSE_ERROR_CODES.INVALID_MESSAGE,
+            true,
+            error
+          );
+          stats.errors++;
+          notifyEventListeners({
+            type: 'error',
+            error: sseError,
+            timestamp: Date.now()
+          });
+        }
+      },
+      onId: (id) => {
+        updateState({ lastEventId: id });
+      },
+      onRetry: (delay) => {
+        serverRetryDelay = delay;
+      }
+    });
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        stats.bytesReceived += value.byteLength;
+        parser.push(decoder.decode(value, { stream: true }));
+      }
+      parser.push(decoder.decode());
+    } catch (error) {
+      // Aborted by disconnect()
+      if (controller !== current) return;
+
+      controller = null;
+      const sseError = new SSEError(
+        `Stream failed: ${error}`,
+        SSE_ERROR_CODES.STREAM_FAILED,
+        true,
+        error
+      );
+      updateState({ status: 'disconnected', lastError: sseError, connectedAt: null });
+      stats.errors++;
+      notifyEventListeners({
+        type: 'error',
+        error: sseError,
+        timestamp: Date.now()
+      });
+      notifyEventListeners({
+        type: 'disconnected',
+        reason: sseError.message,
+        wasClean: false,
+        timestamp: Date.now()
+      });
+
+      if (reconnectConfig.enabled) {
+        scheduleReconnect();
+      }
+      return;
+    }
+
+    if (controller !== current) return;
+
+    // Stream ended by the server
+    controller = null;
+    updateState({ status: 'disconnected', connectedAt: null });
+    notifyEventListeners({
+      type: 'disconnected',
+      reason: 'Stream ended',
+      wasClean: true,
+      timestamp: Date.now()
+    });
+
+    // Only GET streams reconnect by default: re-sending a POST repeats its request
+    const reconnectOnEnd = config?.reconnectOnEnd ?? (request.method ?? 'GET').toUpperCase() === 'GET';
+    if (reconnectConfig.enabled && reconnectOnEnd) {
+      scheduleReconnect();
+    }
+  }
+
+  async function disconnect(): Promise<void> {
+    // Clear reconnect timer
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+
+    const wasConnected = state.status === 'connected';
+
+    // Abort request and stream
+    if (controller) {
+      const current = controller;
+      controller = null;
+      current.abort();
+    }
+
+    updateState({
+      status: 'disconnected',
+      url: null,
+      reconnectAttempts: 0,
+      connectedAt: null
+    });
+
+    if (wasConnected) {
+      notifyEventListeners({
+        type: 'disconnected',
+        reason: 'Client disconnected',
+        wasClean: true,
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  function scheduleReconnect(): void {
+    if (!state.url) return;
+
+    const attempt = state.reconnectAttempts + 1;
+
+    // Check max attempts
+    if (reconnectConfig.maxAttempts > 0 && attempt > reconnectConfig.maxAttempts) {
+      fail(
+        new SSEError(
+          `Max reconnection attempts (${reconnectConfig.maxAttempts}) exceeded`,
+          SSE_ERROR_CODES.MAX_RECONNECTS,
+          false
+        )
+      );
+      return;
+    }
+
+    const delay = calculateReconnectDelay(
+      serverRetryDelay !== null
+        ? { ...reconnectConfig, initialDelay: serverRetryDelay }
+        : reconnectConfig,
+      attempt
+    );
+
+    updateState({
+      status: 'reconnecting',
+      reconnectAttempts: attempt
+    });
+
+    notifyEventListeners({
+      type: 'reconnecting',
+      attempt,
+      delay,
+      maxAttempts: reconnectConfig.maxAttempts,
+      lastEventId: state.lastEventId,
+      timestamp: Date.now()
+    });
+
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      const url = state.url!;
+      try {
+        await open(url);
+        if (state.status !== 'connected') return;
+        stats.reconnects++;
+        notifyEventListeners({
+          type: 'reconnected',
+          attempts: attempt,
+          totalDelay: delay,
+          timestamp: Date.now()
+        });
+      } catch (error) {
+        console.warn(`[SSE] Reconnection attempt ${attempt} failed:`, error);
+        // Keep trying unless the server rejected the request for good
+        if (error instanceof SSEError && error.recoverable && state.url === url) {
+          scheduleReconnect();
+        }
+      }
+    }, delay);
+  }
+
+  // ========================================
+  // Subscriptions
+  // ========================================
+
+  function subscribe(listener: SSEMessageListener<T>): Unsubscribe {
+    messageListeners.add(listener);
+    return () => {
+      messageListeners.delete(listener);
+    };
+  }
+
+  function subscribeToEvents(listener: SSEEventListener): Unsubscribe {
+    eventListeners.add(listener);
+    return () => {
+      eventListeners.delete(listener);
+    };
+  }
+
+  // ========================================
+  // Public API
+  // ========================================
+
+  return {
+    connect,
+    disconnect,
+    subscribe,
+    subscribeToEvents,
+    get state() {
+      return state;
+    },
+    get stats() {
+      // Calculate uptime
+      const uptime = state.connectedAt
+        ? Date.now() - state.connectedAt.getTime()
+        : 0;
+      return { ...stats, uptime };
+    }
+  };
+}
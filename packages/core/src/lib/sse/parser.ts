@@ -0,0 +1,155 @@
+/**
+ * `text/event-stream` parser.
+ *
+ * Implements the event stream interpretation rules of the HTML spec:
+ * lines end with CRLF, LF or CR; a blank line dispatches the event; lines
+ * starting with ':' are comments; `data` lines are joined with '\n'.
+ */
+
+export interface ParsedEvent {
+  /**
+   * `event` field ('message' when not set).
+   */
+  readonly event: string;
+
+  /**
+   * `data` lines joined with '\n'.
+   */
+  readonly data: string;
+
+  /**
+   * `id` field of this event (null when not set).
+   */
+  readonly id: string | null;
+}
+
+export interface EventStreamHandlers {
+  /**
+   * Called for every event with data.
+   */
+  onEvent(event: ParsedEvent): void;
+
+  /**
+   * Called when an `id` field changes the last event id, even for events
+   * without data.
+   */
+  onId?(id: string): void;
+
+  /**
+   * Called with the reconnection time of a valid `retry` field (ms).
+   */
+  onRetry?(delay: number): void;
+}
+
+export interface EventStreamParser {
+  /**
+   * Feed decoded text. Chunks may split lines anywhere.
+   */
+  push(chunk: string): void;
+}
+
+/**
+ * Create an incremental event stream parser.
+ *
+ * @example
+ * ```typescript
+ * const parser = createEventStreamParser({
+ *   onEvent: (event) => console.log(event.event, event.data)
+ * });
+ * parser.push('event: token\ndata: Hel');
+ * parser.push('lo\n\n'); // logs "token Hello"
+ * ```
+ */
+export function createEventStreamParser(handlers: EventStreamHandlers): EventStreamParser {
+  let buffer = '';
+  let isFirstChunk = true;
+
+  // Fields of the event being read
+  let data: string[] = [];
+  let eventType = '';
+  let id: string | null = null;
+
+  function dispatch(): void {
+    if (data.length > 0) {
+      handlers.onEvent({ event: eventType || 'message', data: data.join('\n'), id });
+    }
+    data = [];
+    eventType = '';
+    id = null;
+  }
+
+  function processLine(line: string): void {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        // Ids containing NULL are ignored
+        if (!value.includes('\0')) {
+          id = value;
+          handlers.onId?.(value);
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          handlers.onRetry?.(Number(value));
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  function push(chunk: string): void {
+    if (isFirstChunk) {
+      isFirstChunk = false;
+      if (chunk.startsWith('﻿')) {
+        chunk = chunk.slice(1);
+      }
+    }
+
+    buffer += chunk;
+    let start = 0;
+
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char === '\n') {
+        processLine(buffer.slice(start, i));
+        start = i + 1;
+      } else if (char === '\r') {
+        // Wait for the next chunk to tell CR from CRLF
+        if (i + 1 === buffer.length) {
+          break;
+        }
+        processLine(buffer.slice(start, i));
+        if (buffer[i + 1] === '\n') {
+          i++;
+        }
+        start = i + 1;
+      }
+    }
+
+    buffer = buffer.slice(start);
+  }
+
+  return { push };
+}
@@ -0,0 +1,16 @@
+/**
+ * SSE testing utilities.
+ *
+ * This module provides mock and spy clients for testing Server-Sent Events
+ * without making real network connections.
+ */
+
+export type { MockSSEClient, MockSSEConnection } from './mock-client.js';
+export { createMockSSE } from './mock-client.js';
+
+export type {
+  SpySSEClient,
+  RecordedSSEConnection,
+  RecordedSSEDisconnection
+} from './spy-client.js';
+export { createSpySSE } from './spy-client.js';
@@ -0,0 +1,268 @@
+/**
+ * Mock SSE client for testing.
+ *
+ * This module provides a mock SSE client that simulates an event stream
+ * without making real network connections. Perfect for unit testing reducers.
+ */
+
+import type {
+  SSEClient,
+  SSEConfig,
+  SSEConnectOptions,
+  SSEMessage,
+  SSEEvent,
+  SSEConnectedEvent,
+  SSEDisconnectedEvent,
+  SSEErrorEvent,
+  SSEConnectionState,
+  SSEConnectionStats,
+  SSEMessageListener,
+  SSEEventListener
+} from '../types.js';
+import { SSEError, SSE_ERROR_CODES } from '../types.js';
+import type { Unsubscribe } from '../../websocket/types.js';
+
+export interface MockSSEConnection {
+  readonly url: string;
+  readonly options: SSEConnectOptions;
+}
+
+export interface MockSSEClient<T = unknown> extends SSEClient<T> {
+  /**
+   * Simulate receiving a message from the server.
+   * Updates `state.lastEventId` when an id is given.
+   */
+  simulateMessage(data: T, fields?: { event?: string; id?: string }): void;
+
+  /**
+   * Simulate a connection event.
+   */
+  simulateEvent(event: SSEEvent): void;
+
+  /**
+   * Simulate an error.
+   */
+  simulateError(error: SSEError): void;
+
+  /**
+   * Simulate the stream failing or being ended by the server.
+   */
+  simulateDisconnect(reason: string, wasClean?: boolean): void;
+
+  /**
+   * Streams opened by the client (url and request options).
+   */
+  readonly connections: MockSSEConnection[];
+
+  /**
+   * Reset all state and history.
+   */
+  reset(): void;
+}
+
+function initialState(): SSEConnectionState {
+  return {
+    status: 'disconnected',
+    url: null,
+    reconnectAttempts: 0,
+    lastEventId: null,
+    lastError: null,
+    connectedAt: null
+  };
+}
+
+/**
+ * Create a mock SSE client for testing.
+ *
+ * @param config - Optional configuration
+ * @returns Mock SSE client
+ *
+ * @example
+ * ```typescript
+ * const mockSSE = createMockSSE();
+ *
+ * await mockSSE.connect('/api/notifications', { headers: { Authorization: 'Bearer t' } });
+ *
+ * // Simulate incoming message
+ * mockSSE.simulateMessage({ text: 'Hello!' }, { event: 'notification', id: '1' });
+ *
+ * expect(mockSSE.connections[0].options.headers).toEqual({ Authorization: 'Bearer t' });
+ * ```
+ */
+export function createMockSSE<T = unknown>(
+  config?: SSEConfig
+): MockSSEClient<T> {
+  let state: SSEConnectionState = initialState();
+
+  const messageListeners = new Set<SSEMessageListener<T>>();
+  const eventListeners = new Set<SSEEventListener>();
+  const connections: MockSSEConnection[] = [];
+
+  const stats = {
+    messagesReceived: 0,
+    bytesReceived: 0,
+    reconnects: 0,
+    errors: 0
+  };
+
+  async function connect(url: string, options: SSEConnectOptions = {}): Promise<void> {
+    // Prevent connecting when already connected
+    if (state.status === 'connected') {
+      throw new SSEError(
+        'Already connected',
+        SSE_ERROR_CODES.CONNECTION_FAILED,
+        false
+      );
+    }
+
+    connections.push({ url, options });
+    state = {
+      ...state,
+      status: 'connecting',
+      url,
+      lastEventId: options.lastEventId ?? null
+    };
+
+    // Simulate async connection
+    await new Promise<void>(resolve => {
+      setTimeout(() => {
+        state = {
+          ...state,
+          status: 'connected',
+          connectedAt: new Date()
+        };
+
+        const event: SSEConnectedEvent = {
+          type: 'connected',
+          url,
+          timestamp: Date.now()
+        };
+        simulateEvent(event);
+
+        resolve();
+      }, config?.connectionTimeout || 10);
+    });
+  }
+
+  async function disconnect(): Promise<void> {
+    const wasConnected = state.status === 'connected';
+
+    state = { ...initialState(), lastEventId: state.lastEventId };
+
+    if (wasConnected) {
+      const event: SSEDisconnectedEvent = {
+        type: 'disconnected',
+        reason: 'Client disconnected',
+        wasClean: true,
+        timestamp: Date.now()
+      };
+      simulateEvent(event);
+    }
+  }
+
+  function subscribe(listener: SSEMessageListener<T>): Unsubscribe {
+    messageListeners.add(listener);
+    return () => {
+      messageListeners.delete(listener);
+    };
+  }
+
+  function subscribeToEvents(listener: SSEEventListener): Unsubscribe {
+    eventListeners.add(listener);
+    return () => {
+      eventListeners.delete(listener);
+    };
+  }
+
+  function simulateMessage(data: T, fields: { event?: string; id?: string } = {}): void {
+    const raw = typeof data === 'string' ? data : JSON.stringify(data);
+    const message: SSEMessage<T> = {
+      data,
+      event: fields.event ?? 'message',
+      id: fields.id ?? null,
+      timestamp: Date.now(),
+      raw
+    };
+
+    if (fields.id !== undefined) {
+      state = { ...state, lastEventId: fields.id };
+    }
+    stats.messagesReceived++;
+    stats.bytesReceived += raw.length;
+
+    messageListeners.forEach(listener => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('[MockSSE] Error in listener:', error);
+      }
+    });
+  }
+
+  function simulateEvent(event: SSEEvent): void {
+    eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[MockSSE] Error in listener:', error);
+      }
+    });
+  }
+
+  function simulateError(error: SSEError): void {
+    state = { ...state, lastError: error };
+    stats.errors++;
+
+    const event: SSEErrorEvent = {
+      type: 'error',
+      error,
+      timestamp: Date.now()
+    };
+    simulateEvent(event);
+  }
+
+  function simulateDisconnect(reason: string, wasClean = false): void {
+    state = { ...state, status: 'disconnected', connectedAt: null };
+
+    const event: SSEDisconnectedEvent = {
+      type: 'disconnected',
+      reason,
+      wasClean,
+      timestamp: Date.now()
+    };
+    simulateEvent(event);
+  }
+
+  function reset(): void {
+    state = initialState();
+    messageListeners.clear();
+    eventListeners.clear();
+    connections.length = 0;
+
+    // Reset stats
+    stats.messagesReceived = 0;
+    stats.bytesReceived = 0;
+    stats.reconnects = 0;
+    stats.errors = 0;
+  }
+
+  return {
+    connect,
+    disconnect,
+    subscribe,
+    subscribeToEvents,
+    get state() { return state; },
+    get stats(): SSEConnectionStats {
+      return {
+        ...stats,
+        uptime: state.connectedAt ? Date.now() - state.connectedAt.getTime() : 0
+      };
+    },
+    simulateMessage,
+    simulateEvent,
+    simulateError,
+    simulateDisconnect,
+    get connections() { return connections; },
+    reset
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Spy SSE client for testing.
+ *
+ * This module provides a spy SSE client that wraps a real client
+ * and records all calls. Perfect for integration testing and debugging.
+ */
+
+import type {
+  SSEClient,
+  SSEConnectOptions,
+  SSEMessage,
+  SSEConnectionState,
+  SSEConnectionStats,
+  SSEMessageListener,
+  SSEEventListener
+} from '../types.js';
+import type { Unsubscribe } from '../../websocket/types.js';
+
+export interface RecordedSSEConnection {
+  readonly url: string;
+  readonly options?: SSEConnectOptions;
+  readonly timestamp: number;
+}
+
+export interface RecordedSSEDisconnection {
+  readonly timestamp: number;
+}
+
+export interface SpySSEClient<T = unknown> extends SSEClient<T> {
+  /**
+   * All connection attempts.
+   */
+  readonly connections: RecordedSSEConnection[];
+
+  /**
+   * All disconnections.
+   */
+  readonly disconnections: RecordedSSEDisconnection[];
+
+  /**
+   * All received messages.
+   */
+  readonly receivedMessages: SSEMessage<T>[];
+
+  /**
+   * Count connections to a specific URL.
+   */
+  connectionsTo(url: string): number;
+
+  /**
+   * Reset all recorded data.
+   */
+  reset(): void;
+}
+
+/**
+ * Create a spy SSE client that wraps a real client and records all calls.
+ *
+ * @param realClient - The real SSE client to wrap
+ * @returns Spy SSE client
+ *
+ * @example
+ * ```typescript
+ * const spyClient = createSpySSE(createLiveSSE());
+ *
+ * await spyClient.connect('/api/notifications');
+ *
+ * expect(spyClient.connectionsTo('/api/notifications')).toBe(1);
+ * ```
+ */
+export function createSpySSE<T = unknown>(
+  realClient: SSEClient<T>
+): SpySSEClient<T> {
+  const connections: RecordedSSEConnection[] = [];
+  const disconnections: RecordedSSEDisconnection[] = [];
+  const receivedMessages: SSEMessage<T>[] = [];
+
+  async function connect(url: string, options?: SSEConnectOptions): Promise<void> {
+    connections.push({ url, timestamp: Date.now(), ...(options !== undefined ? { options } : {}) });
+    return realClient.connect(url, options);
+  }
+
+  async function disconnect(): Promise<void> {
+    disconnections.push({ timestamp: Date.now() });
+    return realClient.disconnect();
+  }
+
+  function subscribe(listener: SSEMessageListener<T>): Unsubscribe {
+    return realClient.subscribe((message) => {
+      receivedMessages.push(message);
+      listener(message);
+    });
+  }
+
+  function subscribeToEvents(listener: SSEEventListener): Unsubscribe {
+    return realClient.subscribeToEvents(listener);
+  }
+
+  function connectionsTo(url: string): number {
+    return connections.filter(c => c.url === url).length;
+  }
+
+  function reset(): void {
+    connections.length = 0;
+    disconnections.length = 0;
+    receivedMessages.length = 0;
+  }
+
+  return {
+    connect,
+    disconnect,
+    subscribe,
+    subscribeToEvents,
+    get state(): SSEConnectionState { return realClient.state; },
+    get stats(): SSEConnectionStats { return realClient.stats; },
+    connections,
+    disconnections,
+    receivedMessages,
+    connectionsTo,
+    reset
+  };
+}
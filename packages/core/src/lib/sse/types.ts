@@ -0,0 +1,249 @@
+/**
+ * Server-Sent Events types.
+ *
+ * Mirrors the WebSocket client types (`websocket/types.ts`) for
+ * `text/event-stream` responses, which only flow from server to client.
+ */
+
+import type { ConnectionStatus, ReconnectConfig, Unsubscribe } from '../websocket/types.js';
+
+// ============================================================================
+// SSE Client Interface
+// ============================================================================
+
+export interface SSEClient<T = unknown> {
+  /**
+   * Open the event stream.
+   * Resolves once the server has answered with `text/event-stream`.
+   */
+  connect(url: string, options?: SSEConnectOptions): Promise<void>;
+
+  /**
+   * Close the event stream and stop reconnecting.
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Subscribe to messages from the stream.
+   * Returns unsubscribe function.
+   */
+  subscribe(listener: SSEMessageListener<T>): Unsubscribe;
+
+  /**
+   * Subscribe to connection events.
+   * Returns unsubscribe function.
+   */
+  subscribeToEvents(listener: SSEEventListener): Unsubscribe;
+
+  /**
+   * Get current connection state (readonly).
+   */
+  readonly state: SSEConnectionState;
+
+  /**
+   * Get connection statistics (readonly).
+   */
+  readonly stats: SSEConnectionStats;
+}
+
+/**
+ * Request options for opening a stream.
+ */
+export interface SSEConnectOptions {
+  /**
+   * HTTP method.
+   * @default 'GET'
+   */
+  readonly method?: 'GET' | 'POST' | 'PUT' | 'PATCH';
+
+  /**
+   * Request headers (merged over the client's headers).
+   */
+  readonly headers?: Record<string, string>;
+
+  /**
+   * Request body. Objects are sent as JSON.
+   */
+  readonly body?: unknown;
+
+  /**
+   * Resume after this event id (sent as `Last-Event-ID`).
+   */
+  readonly lastEventId?: string;
+}
+
+// ============================================================================
+// Message Types
+// ============================================================================
+
+export interface SSEMessage<T = unknown> {
+  /**
+   * Parsed `data` field.
+   */
+  readonly data: T;
+
+  /**
+   * `event` field ('message' when not set).
+   */
+  readonly event: string;
+
+  /**
+   * `id` field (null when not set).
+   */
+  readonly id: string | null;
+
+  /**
+   * Timestamp when message was received (client-side).
+   */
+  readonly timestamp: number;
+
+  /**
+   * Unparsed `data` field.
+   */
+  readonly raw: string;
+}
+
+export type SSEMessageListener<T> = (message: SSEMessage<T>) => void;
+export type SSEEventListener = (event: SSEEvent) => void;
+
+// ============================================================================
+// Connection State
+// ============================================================================
+
+export interface SSEConnectionState {
+  readonly status: ConnectionStatus;
+  readonly url: string | null;
+  readonly reconnectAttempts: number;
+  readonly lastEventId: string | null;
+  readonly lastError: SSEError | null;
+  readonly connectedAt: Date | null;
+}
+
+export interface SSEConnectionStats {
+  readonly messagesReceived: number;
+  readonly bytesReceived: number;
+  readonly reconnects: number;
+  readonly errors: number;
+  readonly uptime: number; // milliseconds
+}
+
+// ============================================================================
+// SSE Events
+// ============================================================================
+
+export type SSEEvent =
+  | SSEConnectedEvent
+  | SSEDisconnectedEvent
+  | SSEErrorEvent
+  | SSEReconnectingEvent
+  | SSEReconnectedEvent;
+
+export interface SSEConnectedEvent {
+  readonly type: 'connected';
+  readonly url: string;
+  readonly timestamp: number;
+}
+
+export interface SSEDisconnectedEvent {
+  readonly type: 'disconnected';
+  readonly reason: string;
+  /**
+   * True when closed by disconnect() or ended by the server,
+   * false when the stream failed.
+   */
+  readonly wasClean: boolean;
+  readonly timestamp: number;
+}
+
+export interface SSEErrorEvent {
+  readonly type: 'error';
+  readonly error: SSEError;
+  readonly timestamp: number;
+}
+
+export interface SSEReconnectingEvent {
+  readonly type: 'reconnecting';
+  readonly attempt: number;
+  readonly delay: number;
+  readonly maxAttempts: number;
+  readonly lastEventId: string | null;
+  readonly timestamp: number;
+}
+
+export interface SSEReconnectedEvent {
+  readonly type: 'reconnected';
+  readonly attempts: number;
+  readonly totalDelay: number;
+  readonly timestamp: number;
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class SSEError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+    public readonly recoverable: boolean,
+    public readonly cause?: unknown,
+    public readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = 'SSEError';
+  }
+}
+
+// Error codes
+export const SSE_ERROR_CODES = {
+  CONNECTION_FAILED: 'SSE_CONNECTION_FAILED',
+  CONNECTION_TIMEOUT: 'SSE_CONNECTION_TIMEOUT',
+  INVALID_CONTENT_TYPE: 'SSE_INVALID_CONTENT_TYPE',
+  INVALID_MESSAGE: 'SSE_INVALID_MESSAGE',
+  STREAM_FAILED: 'SSE_STREAM_FAILED',
+  MAX_RECONNECTS: 'SSE_MAX_RECONNECTS'
+} as const;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface SSEConfig {
+  /**
+   * Reconnection strategy (same backoff as the WebSocket client).
+   * A `retry:` field sent by the server replaces `initialDelay`.
+   */
+  readonly reconnect?: ReconnectConfig;
+
+  /**
+   * Reconnect when the server ends the stream, like EventSource.
+   * Set to false for one-shot GET streams. Streams opened with another
+   * method (e.g. POST for LLM responses) are one-shot unless set to true.
+   * A 204 response always stops reconnection.
+   * @default true for GET, false for other methods
+   */
+  readonly reconnectOnEnd?: boolean;
+
+  /**
+   * Headers sent with every request.
+   */
+  readonly headers?: Record<string, string>;
+
+  /**
+   * Parse the `data` field of a message.
+   * @default JSON when possible, otherwise the raw string
+   */
+  readonly deserialize?: (data: string, event: string) => unknown;
+
+  /**
+   * Time to wait for the response headers (ms).
+   * @default 10000
+   */
+  readonly connectionTimeout?: number;
+
+  /**
+   * fetch implementation.
+   * @default globalThis.fetch
+   */
+  readonly fetch?: typeof fetch;
+}
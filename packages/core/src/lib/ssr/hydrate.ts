@@ -7,14 +7,70 @@
 import { createStore } from '../store.svelte.js';
 import type { Store, StoreConfig } from '../types.js';
 
+/**
+ * Global array that streamed chunks are pushed to (see renderToStream()).
+ */
+export const STREAM_CHUNKS_KEY = '__COMPOSABLE_SVELTE_CHUNKS__';
+
+/**
+ * Chunk streamed after the shell by renderToStream().
+ *
+ * - `patch`: top-level state keys that changed (`set`) or were removed (`unset`)
+ * - `replace`: new state, for non-object state
+ * - `deferred`: actions whose effects missed the render deadline
+ */
+export type StreamChunk<Action = unknown> =
+  | { type: 'patch'; set: Record<string, unknown>; unset: string[] }
+  | { type: 'replace'; state: unknown }
+  | { type: 'deferred'; actions: Action[] };
+
+/**
+ * Applies streamed state patches to server-rendered state.
+ * `deferred` chunks are ignored.
+ *
+ * @template State - The state type
+ *
+ * @param state - State from the state script
+ * @param chunks - Streamed chunks, in arrival order
+ * @returns State with all patches applied
+ */
+export function applyStreamChunks<State>(
+  state: State,
+  chunks: readonly StreamChunk[]
+): State {
+  return chunks.reduce<State>((current, chunk) => {
+    switch (chunk.type) {
+      case 'patch': {
+        const next: Record<string, unknown> = { ...(current as Record<string, unknown>), ...chunk.set };
+        chunk.unset.forEach(key => delete next[key]);
+        return next as State;
+      }
+      case 'replace':
+        return chunk.state as State;
+      default:
+        return current;
+    }
+  }, state);
+}
+
+/**
+ * Reads the chunks streamed into the page, if any.
+ */
+function readStreamChunks(): readonly StreamChunk[] {
+  const chunks = (globalThis as Record<string, unknown>)[STREAM_CHUNKS_KEY];
+  return Array.isArray(chunks) ? chunks : [];
+}
+
 /**
  * Hydrates a store from serialized state JSON.
  *
  * This function:
  * 1. Parses the JSON state from the server
  * 2. Creates a store with that state as initialState
- * 3. Injects client-side dependencies (API, storage, etc.)
- * 4. Effects execute normally on client (not deferred)
+ * 3. Merges state patches streamed by renderToStream()
+ * 4. Injects client-side dependencies (API, storage, etc.)
+ * 5. Effects execute normally on client (not deferred), and actions whose
+ *    server effects missed the render deadline are dispatched again
  *
  * @template State - The state type
  * @template Action - The action type
@@ -59,6 +115,12 @@ export function hydrateStore<State, Action, Dependencies = any>(
   data: string,
   config: Omit<StoreConfig<State, Action, Dependencies>, 'initialState'> & {
     initialState?: State;
+
+    /**
+     * Chunks streamed by renderToStream().
+     * Default: read from `window.__COMPOSABLE_SVELTE_CHUNKS__`.
+     */
+    chunks?: readonly StreamChunk<Action>[];
   }
 ): Store<State, Action> {
   if (!data) {
@@ -84,16 +146,27 @@ export function hydrateStore<State, Action, Dependencies = any>(
     );
   }
 
+  const { chunks = readStreamChunks() as readonly StreamChunk<Action>[], ...storeConfig } = config;
+
   // Create store with hydrated state
   // The initialState from config is ignored - we use the hydrated state
-  return createStore<State, Action, Dependencies>({
-    ...config,
-    initialState: hydratedState,
+  const store = createStore<State, Action, Dependencies>({
+    ...storeConfig,
+    initialState: applyStreamChunks(hydratedState, chunks),
     // Ensure SSR is disabled for client hydration (effects should run)
     ssr: {
       deferEffects: false
     }
   });
+
+  // Re-run effects that did not finish before the server's render deadline
+  chunks.forEach(chunk => {
+    if (chunk.type === 'deferred') {
+      chunk.actions.forEach(action => store.dispatch(action));
+    }
+  });
+
+  return store;
 }
 
 /**
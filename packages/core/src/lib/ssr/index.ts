@@ -5,6 +5,7 @@
  * - State serialization (server → JSON)
  * - State hydration (JSON → client store)
  * - Rendering helpers (component → HTML)
+ * - Streaming rendering (shell first, state patches as effects finish)
  * - Static site generation (build-time HTML generation)
  * - Environment detection (server vs browser)
  *
@@ -94,7 +95,13 @@
 export { serializeStore, serializeState } from './serialize.js';
 
 // Hydration
-export { hydrateStore, parseState } from './hydrate.js';
+export {
+  hydrateStore,
+  parseState,
+  applyStreamChunks,
+  STREAM_CHUNKS_KEY,
+  type StreamChunk
+} from './hydrate.js';
 
 // Rendering
 export {
@@ -104,6 +111,15 @@ export {
   type RenderOptions
 } from './render.js';
 
+// Streaming
+export {
+  renderToStream,
+  createServerEffects,
+  type StreamRenderOptions,
+  type ServerEffects,
+  type ServerEffectsConfig
+} from './stream.js';
+
 // Utilities
 export { isServer, isBrowser } from './utils.js';
 
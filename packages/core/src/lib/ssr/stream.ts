@@ -0,0 +1,360 @@
+/**
+ * Streaming server-side rendering.
+ *
+ * Flushes the HTML shell right away, lets server-safe effects finish while
+ * the response is open, and streams the resulting state changes as inline
+ * script chunks that hydrateStore() merges on the client.
+ */
+
+// @ts-ignore - svelte/server is available at runtime but not in types during dev
+import { render as svelteRender } from 'svelte/server';
+import { STREAM_CHUNKS_KEY, type StreamChunk } from './hydrate.js';
+import type { RenderOptions } from './render.js';
+import type { Dispatch, ServerEffectTracker, Store } from '../types.js';
+
+/**
+ * Svelte component type (compatible with Svelte 5).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SvelteComponent = any;
+
+/**
+ * Configuration for createServerEffects().
+ *
+ * @template Action - The action type
+ */
+export interface ServerEffectsConfig<Action> {
+  /**
+   * Whether the effect produced by an action may run on the server.
+   * Only allow effects that are safe to run twice (e.g. data loading):
+   * effects that miss the deadline run again on the client.
+   */
+  allow: (action: Action) => boolean;
+}
+
+/**
+ * Server-safe effects of one request, shared by the store and renderToStream().
+ *
+ * @template Action - The action type
+ */
+export interface ServerEffects<Action> extends ServerEffectTracker<Action> {
+  /**
+   * Number of effects still running.
+   */
+  readonly pending: number;
+
+  /**
+   * Resolves once no effects are running (including effects started
+   * by actions that running effects dispatch).
+   */
+  settled(): Promise<void>;
+
+  /**
+   * Stop tracking. Actions from effects still running are dropped.
+   *
+   * @returns Actions whose effects were still running
+   */
+  close(): Action[];
+}
+
+/**
+ * Options for renderToStream.
+ */
+export interface StreamRenderOptions<Action = unknown> extends RenderOptions {
+  /**
+   * Server effects the store was created with (`ssr.serverEffects`).
+   * Without it, the document is closed right after the shell.
+   */
+  serverEffects?: ServerEffects<Action>;
+
+  /**
+   * Time in ms after which running effects are deferred to the client.
+   * Default: 3000
+   */
+  deadline?: number;
+}
+
+/**
+ * Creates the server effects of one request.
+ *
+ * @template Action - The action type
+ *
+ * @param config - Which actions' effects may run on the server
+ * @returns ServerEffects to pass to createStore() and renderToStream()
+ *
+ * @example
+ * ```typescript
+ * const serverEffects = createServerEffects<AppAction>({
+ *   allow: (action) => action.type === 'loadProducts'
+ * });
+ *
+ * const store = createStore({
+ *   initialState,
+ *   reducer: appReducer,
+ *   dependencies: { api: serverAPI },
+ *   ssr: { serverEffects }
+ * });
+ * ```
+ */
+export function createServerEffects<Action>(config: ServerEffectsConfig<Action>): ServerEffects<Action> {
+  if (!config?.allow) {
+    throw new TypeError('createServerEffects: config.allow is required');
+  }
+
+  const running = new Map<number, Action>();
+  const waiters = new Set<() => void>();
+  let nextId = 0;
+  let closed = false;
+
+  function notifySettled(): void {
+    if (running.size > 0) return;
+    waiters.forEach(resolve => resolve());
+    waiters.clear();
+  }
+
+  return {
+    get pending() {
+      return running.size;
+    },
+
+    allows(action) {
+      return !closed && config.allow(action);
+    },
+
+    run(action, perform, dispatch) {
+      const id = nextId++;
+      running.set(id, action);
+
+      // After close() the state has been sent, so later actions are dropped
+      const trackedDispatch: Dispatch<Action> = (next) => {
+        if (!closed) dispatch(next);
+      };
+
+      perform(trackedDispatch)
+        .catch(error => {
+          console.error('[Composable Svelte] Server effect error:', error);
+        })
+        .finally(() => {
+          running.delete(id);
+          notifySettled();
+        });
+    },
+
+    settled() {
+      if (running.size === 0) return Promise.resolve();
+      return new Promise(resolve => waiters.add(resolve));
+    },
+
+    close() {
+      closed = true;
+      const actions = [...running.values()];
+      running.clear();
+      notifySettled();
+      return actions;
+    }
+  };
+}
+
+/**
+ * Renders a Svelte component to a streamed HTML document.
+ *
+ * This function:
+ * 1. Flushes the shell (head, rendered body and current state) immediately
+ * 2. Streams each state change from server effects as a patch chunk
+ * 3. At the deadline, defers effects still running to the client
+ * 4. Closes the document with the client script
+ *
+ * @template Props - Component props type
+ *
+ * @param Component - Svelte component to render
+ * @param props - Props to pass to the component (should include store)
+ * @param options - Rendering options (deadline, server effects, scripts, etc.)
+ * @returns Stream of the UTF-8 encoded HTML document
+ *
+ * @example
+ * ```typescript
+ * app.get('/products', async (req, reply) => {
+ *   const serverEffects = createServerEffects<AppAction>({
+ *     allow: (action) => action.type === 'loadProducts'
+ *   });
+ *   const store = createStore({
+ *     initialState,
+ *     reducer: appReducer,
+ *     dependencies: { api: serverAPI },
+ *     ssr: { serverEffects }
+ *   });
+ *   store.dispatch({ type: 'loadProducts' });
+ *
+ *   const stream = renderToStream(App, { store }, { serverEffects, deadline: 1500 });
+ *   reply.type('text/html').send(Readable.fromWeb(stream));
+ * });
+ * ```
+ */
+export function renderToStream<Props extends Record<string, unknown>, Action = unknown>(
+  Component: SvelteComponent,
+  props: Props,
+  options: StreamRenderOptions<Action> = {}
+): ReadableStream<Uint8Array> {
+  if (!Component) {
+    throw new TypeError('renderToStream: Component is required');
+  }
+
+  const { serverEffects, deadline = 3000 } = options;
+  const store = props.store as Store<unknown, Action> | undefined;
+  const encoder = new TextEncoder();
+
+  let unsubscribe: (() => void) | null = null;
+  let deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+  let finished = false;
+
+  function stop(): void {
+    finished = true;
+    unsubscribe?.();
+    unsubscribe = null;
+    if (deadlineTimer) clearTimeout(deadlineTimer);
+    deadlineTimer = null;
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (html: string) => controller.enqueue(encoder.encode(html));
+      const writeChunk = (chunk: StreamChunk<Action>) => {
+        try {
+          write(`  <script>(self.${STREAM_CHUNKS_KEY} ||= []).push(${serializeForScript(chunk)})</script>\n`);
+        } catch (error) {
+          console.error('[Composable Svelte] Failed to serialize stream chunk:', error);
+        }
+      };
+
+      const result = svelteRender(Component, { props });
+
+      let sentState: unknown = store?.state ?? {};
+      let stateJSON = '{}';
+      try {
+        stateJSON = serializeForScript(sentState);
+      } catch (error) {
+        console.error('[Composable Svelte] Failed to serialize store:', error);
+        sentState = {};
+      }
+
+      const title = options.title ?? 'Composable Svelte App';
+      const clientScript = options.clientScript ?? '/app.js';
+
+      write(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  ${result.head}
+  ${options.head ?? ''}
+</head>
+<body>
+  ${result.body}
+  <script id="__COMPOSABLE_SVELTE_STATE__" type="application/json">
+${stateJSON}
+  </script>
+`);
+
+      // Send what changed since the last chunk
+      const flush = () => {
+        if (!store) return;
+        const chunk = diffState(sentState, store.state);
+        sentState = store.state;
+        if (chunk) writeChunk(chunk);
+      };
+
+      // Coalesce the state changes of one tick into a single chunk
+      let flushScheduled = false;
+      unsubscribe = store?.subscribe(() => {
+        if (flushScheduled) return;
+        flushScheduled = true;
+        queueMicrotask(() => {
+          flushScheduled = false;
+          if (!finished) flush();
+        });
+      }) ?? null;
+
+      const finish = () => {
+        if (finished) return;
+        flush();
+        stop();
+
+        const deferred = serverEffects?.close() ?? [];
+        if (deferred.length > 0) {
+          writeChunk({ type: 'deferred', actions: deferred });
+        }
+
+        write(`  <script type="module" src="${escapeHtml(clientScript)}"></script>
+  ${options.bodyScripts ?? ''}
+</body>
+</html>`);
+        controller.close();
+      };
+
+      if (!serverEffects) {
+        finish();
+        return;
+      }
+
+      deadlineTimer = setTimeout(finish, deadline);
+      serverEffects.settled().then(finish);
+    },
+
+    cancel() {
+      stop();
+      serverEffects?.close();
+    }
+  });
+}
+
+/**
+ * Describes how state changed between two chunks, or null if it did not.
+ */
+function diffState(previous: unknown, next: unknown): Exclude<StreamChunk, { type: 'deferred' }> | null {
+  if (Object.is(previous, next)) return null;
+  if (!isPlainObject(previous) || !isPlainObject(next)) {
+    return { type: 'replace', state: next };
+  }
+
+  const set: Record<string, unknown> = {};
+  Object.keys(next).forEach(key => {
+    if (!Object.is(previous[key], next[key])) set[key] = next[key];
+  });
+  const unset = Object.keys(previous).filter(key => !(key in next));
+
+  if (Object.keys(set).length === 0 && unset.length === 0) return null;
+  return { type: 'patch', set, unset };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Serializes a value to JSON that is safe inside a <script> element.
+ *
+ * @param value - Value to serialize
+ * @returns JSON with `<` and line separators escaped
+ */
+function serializeForScript(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Escapes HTML special characters to prevent XSS.
+ *
+ * @param str - String to escape
+ * @returns Escaped string safe for HTML
+ */
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
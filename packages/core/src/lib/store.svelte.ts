@@ -12,9 +12,14 @@ import type {
   Dispatch,
   Selector,
   MiddlewareAPI,
+  ActionMiddleware,
+  EffectMiddleware,
+  EffectRunner,
   Effect
 } from './types.js';
 import { isServer } from './ssr/utils.js';
+import { connectDevTools } from './devtools/redux-devtools.js';
+import { firstFulfilled } from './effect.js';
 
 /**
  * Create a Store for a feature.
@@ -49,12 +54,39 @@ export function createStore<State, Action, Dependencies = any>(
   // Throttle state
   const throttleState = new Map<string, { lastRun: number; timeout?: ReturnType<typeof setTimeout> }>();
 
+  // Retry backoff and timeout timers
+  const effectTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  // Counter for cancellation ids of Effect.race() entries
+  let nextRaceId = 0;
+
   // Subscribers
   const subscribers = new Set<(state: State) => void>();
 
   // Action subscribers (for Destination.on() in Phase 3)
   const actionSubscribers = new Set<(action: Action, state: State) => void>();
 
+  // Actions dispatched by effects while DevTools shows a past state
+  const pausedEffectActions: Action[] = [];
+
+  /**
+   * Replace state and notify subscribers.
+   */
+  function setState(newState: State): void {
+    if (Object.is(state, newState)) {
+      return;
+    }
+    state = newState;
+
+    subscribers.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('[Composable Svelte] Subscriber error:', error);
+      }
+    });
+  }
+
   /**
    * Core dispatch logic (before middleware).
    */
@@ -76,20 +108,11 @@ export function createStore<State, Action, Dependencies = any>(
       config.dependencies as Dependencies
     );
 
-    // Update state (Svelte reactivity kicks in)
-    const stateChanged = !Object.is(state, newState);
-    if (stateChanged) {
-      state = newState;
+    // Update state (Svelte reactivity kicks in) and notify subscribers
+    setState(newState);
 
-      // Notify subscribers
-      subscribers.forEach(listener => {
-        try {
-          listener(state);
-        } catch (error) {
-          console.error('[Composable Svelte] Subscriber error:', error);
-        }
-      });
-    }
+    // Report to Redux DevTools
+    devTools?.record(action);
 
     // Notify action subscribers
     actionSubscribers.forEach(listener => {
@@ -100,19 +123,82 @@ export function createStore<State, Action, Dependencies = any>(
       }
     });
 
-    // Execute effect asynchronously
+    // Execute effect asynchronously (through effect middleware)
     if (effect._tag !== 'None') {
-      executeEffect(effect);
+      runEffect(effect, action);
+    }
+  }
+
+  // Middleware API - dispatch goes through the full middleware chain
+  const middlewareAPI: MiddlewareAPI<State, Action> = {
+    getState: () => state,
+    dispatch: (action: Action) => dispatch(action)
+  };
+
+  const actionMiddleware: ActionMiddleware<State, Action>[] = [];
+  const effectMiddleware: EffectMiddleware<State, Action>[] = [];
+  for (const middleware of config.middleware ?? []) {
+    if (typeof middleware === 'function') {
+      actionMiddleware.push(middleware);
+    } else {
+      if (middleware.action) actionMiddleware.push(middleware.action);
+      if (middleware.effect) effectMiddleware.push(middleware.effect);
     }
   }
 
-  // TODO: Middleware support deferred to Phase 5
-  const dispatch: Dispatch<Action> = dispatchCore;
+  // Compose middleware chains (first middleware is the outermost layer)
+  const dispatch: Dispatch<Action> = actionMiddleware.reduceRight<Dispatch<Action>>(
+    (next, middleware) => middleware(middlewareAPI)(next),
+    dispatchCore
+  );
+
+  const runEffect: EffectRunner<Action> = effectMiddleware.reduceRight<EffectRunner<Action>>(
+    (next, middleware) => middleware(middlewareAPI)(next),
+    (effect, action) => {
+      // Server-safe effects of a streaming render run despite deferral
+      const serverEffects = config.ssr?.serverEffects;
+      if (serverEffects && isServer() && serverEffects.allows(action)) {
+        serverEffects.run(action, (dispatch) => performEffect(effect, dispatch), effectDispatch);
+        return;
+      }
+      executeEffect(effect);
+    }
+  );
+
+  // Redux DevTools bridge (null when disabled or extension not installed)
+  const devTools = config.devTools
+    ? connectDevTools<State, Action>(
+        {
+          getState: () => state,
+          replaceState: setState,
+          reduce: (current, action) =>
+            config.reducer(current, action, config.dependencies as Dependencies)[0],
+          dispatch: (action) => dispatch(action)
+        },
+        config.devTools === true ? {} : config.devTools,
+        () => {
+          // Back on the live state: deliver actions effects dispatched while paused
+          pausedEffectActions.splice(0).forEach(action => dispatch(action));
+        }
+      )
+    : null;
+
+  /**
+   * Dispatch used by effects.
+   * Holds actions back while DevTools is showing a past state.
+   */
+  const effectDispatch: Dispatch<Action> = (action: Action) => {
+    if (devTools?.isTimeTravelling()) {
+      pausedEffectActions.push(action);
+      return;
+    }
+    dispatch(action);
+  };
 
   /**
    * Execute an effect based on its type.
    */
-  function executeEffect(effect: Effect<Action>): void {
+  function executeEffect(effect: Effect<Action>, dispatch: Dispatch<Action> = effectDispatch): void {
     // Check if we should defer effects (SSR)
     const deferEffects = config.ssr?.deferEffects ?? true; // Default to true
     if (isServer() && deferEffects) {
@@ -131,60 +217,16 @@ export function createStore<State, Action, Dependencies = any>(
         break;
 
       case 'Batch':
-        effect.effects.forEach(executeEffect);
+        effect.effects.forEach(child => executeEffect(child, dispatch));
         break;
 
-      case 'Cancellable': {
-        // Cancel existing effect with same id
-        const existing = inFlightEffects.get(effect.id);
-        if (existing) {
-          existing.abort();
-        }
-
-        // Cancel existing subscription with same id
-        const existingSubscription = subscriptionCleanups.get(effect.id);
-        if (existingSubscription) {
-          Promise.resolve(existingSubscription()).catch(error => {
-            console.error('[Composable Svelte] Subscription cleanup error:', error);
-          });
-          subscriptionCleanups.delete(effect.id);
-        }
-
-        // Clear debounce timer with same id
-        const existingTimer = debounceTimers.get(effect.id);
-        if (existingTimer) {
-          clearTimeout(existingTimer);
-          debounceTimers.delete(effect.id);
-        }
-
-        // Clear throttle with same id
-        const existingThrottle = throttleState.get(effect.id);
-        if (existingThrottle?.timeout) {
-          clearTimeout(existingThrottle.timeout);
-        }
-        throttleState.delete(effect.id);
-
-        // If execute is a no-op, this is Effect.cancel() - just cancel and return
-        const executeString = effect.execute.toString();
-        if (executeString.includes('{}') || executeString.includes('{ }')) {
-          break;
-        }
-
-        // Otherwise, set up new cancellable effect
-        const controller = new AbortController();
-        inFlightEffects.set(effect.id, controller);
-
-        Promise.resolve(effect.execute(dispatch))
-          .catch(error => {
-            if (error.name !== 'AbortError') {
-              console.error('[Composable Svelte] Effect error:', error);
-            }
-          })
-          .finally(() => {
-            inFlightEffects.delete(effect.id);
-          });
+      case 'Cancellable':
+        performEffect(effect, dispatch).catch(error => {
+          if (error.name !== 'AbortError') {
+            console.error('[Composable Svelte] Effect error:', error);
+          }
+        });
         break;
-      }
 
       case 'Debounced': {
         // Clear existing timer
@@ -268,6 +310,17 @@ export function createStore<State, Action, Dependencies = any>(
         break;
       }
 
+      case 'Retry':
+      case 'Timeout':
+      case 'Sequence':
+      case 'Race':
+      case 'Pool':
+      case 'Stream':
+        performEffect(effect, dispatch).catch(error => {
+          console.error('[Composable Svelte] Effect error:', error);
+        });
+        break;
+
       default:
         // Exhaustiveness check
         const _exhaustive: never = effect;
@@ -275,6 +328,251 @@ export function createStore<State, Action, Dependencies = any>(
     }
   }
 
+  /**
+   * Cancel everything running under an id: in-flight cancellable effects,
+   * subscriptions, debounce timers and throttle state.
+   */
+  function cancelById(id: string): void {
+    // Cancel existing effect with same id
+    const existing = inFlightEffects.get(id);
+    if (existing) {
+      existing.abort();
+      inFlightEffects.delete(id);
+    }
+
+    // Cancel existing subscription with same id
+    const existingSubscription = subscriptionCleanups.get(id);
+    if (existingSubscription) {
+      Promise.resolve(existingSubscription()).catch(error => {
+        console.error('[Composable Svelte] Subscription cleanup error:', error);
+      });
+      subscriptionCleanups.delete(id);
+    }
+
+    // Clear debounce timer with same id
+    const existingTimer = debounceTimers.get(id);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+      debounceTimers.delete(id);
+    }
+
+    // Clear throttle with same id
+    const existingThrottle = throttleState.get(id);
+    if (existingThrottle?.timeout) {
+      clearTimeout(existingThrottle.timeout);
+    }
+    throttleState.delete(id);
+  }
+
+  /**
+   * Wait for `ms` on a timer that is cleared when the store is destroyed.
+   */
+  function delay(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        effectTimers.delete(timer);
+        resolve();
+      }, ms);
+      effectTimers.add(timer);
+    });
+  }
+
+  /**
+   * Execute an effect and wait for its work to finish.
+   * Rejects when the work fails. Debounced, throttled and subscription effects
+   * go through executeEffect() and resolve as soon as they are started.
+   */
+  async function performEffect(effect: Effect<Action>, dispatch: Dispatch<Action>): Promise<void> {
+    switch (effect._tag) {
+      case 'None':
+        return;
+
+      case 'Cancellable': {
+        cancelById(effect.id);
+
+        // If execute is a no-op, this is Effect.cancel() - just cancel and return
+        const executeString = effect.execute.toString();
+        if (executeString.includes('{}') || executeString.includes('{ }')) {
+          return;
+        }
+
+        // Otherwise, set up new cancellable effect
+        const controller = new AbortController();
+        inFlightEffects.set(effect.id, controller);
+        try {
+          await effect.execute(dispatch);
+        } finally {
+          if (inFlightEffects.get(effect.id) === controller) {
+            inFlightEffects.delete(effect.id);
+          }
+        }
+        return;
+      }
+
+      case 'Run':
+        await effect.execute(dispatch);
+        return;
+
+      case 'FireAndForget':
+        await effect.execute();
+        return;
+
+      case 'AfterDelay':
+        await delay(effect.ms);
+        await effect.execute(dispatch);
+        return;
+
+      case 'Batch':
+        await Promise.all(effect.effects.map(child => performEffect(child, dispatch)));
+        return;
+
+      case 'Retry': {
+        const { maxAttempts, backoff = 0, shouldRetry = () => true } = effect.policy;
+        for (let attempt = 1; ; attempt++) {
+          try {
+            await performEffect(effect.effect, dispatch);
+            return;
+          } catch (error) {
+            if (attempt >= maxAttempts || !shouldRetry(error, attempt)) {
+              throw error;
+            }
+          }
+          await delay(typeof backoff === 'function' ? backoff(attempt) : backoff);
+        }
+      }
+
+      case 'Timeout': {
+        // Drop actions from work that finishes after the deadline
+        let timedOut = false;
+        const guardedDispatch: Dispatch<Action> = (action) => {
+          if (!timedOut) dispatch(action);
+        };
+
+        // Cleared when the effect finishes first
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<'timedOut'>(resolve => {
+          timer = setTimeout(() => resolve('timedOut'), effect.ms);
+          effectTimers.add(timer);
+        });
+
+        let outcome: 'completed' | 'timedOut';
+        try {
+          outcome = await Promise.race([
+            performEffect(effect.effect, guardedDispatch).then(() => 'completed' as const),
+            deadline
+          ]);
+        } finally {
+          clearTimeout(timer);
+          effectTimers.delete(timer!);
+        }
+        if (outcome === 'completed') {
+          return;
+        }
+
+        timedOut = true;
+        if (!effect.onTimeout) {
+          throw new DOMException(`Effect timed out after ${effect.ms}ms`, 'TimeoutError');
+        }
+        await effect.onTimeout(dispatch);
+        return;
+      }
+
+      case 'Sequence':
+        for (const child of effect.effects) {
+          await performEffect(child, dispatch);
+        }
+        return;
+
+      case 'Race': {
+        // Register racers in the cancellation map so losers (and destroy()) cancel them
+        const raceId = `race:${nextRaceId++}`;
+        const racers = effect.effects.map((child, index) => {
+          const id = `${raceId}:${index}`;
+          const controller = new AbortController();
+          inFlightEffects.set(id, controller);
+          const racerDispatch: Dispatch<Action> = (action) => {
+            if (!controller.signal.aborted) dispatch(action);
+          };
+          return { id, child, done: performEffect(child, racerDispatch) };
+        });
+
+        try {
+          const winner = await firstFulfilled(racers.map(racer => racer.done.then(() => racer)));
+          for (const racer of racers) {
+            if (racer === winner) continue;
+            cancelById(racer.id);
+            if ('id' in racer.child) cancelById(racer.child.id);
+          }
+        } finally {
+          racers.forEach(racer => inFlightEffects.delete(racer.id));
+        }
+        return;
+      }
+
+      case 'Pool': {
+        const { concurrency, effects } = effect;
+        const errors: unknown[] = [];
+        let next = 0;
+
+        const worker = async (): Promise<void> => {
+          while (next < effects.length) {
+            const child = effects[next++]!;
+            try {
+              await performEffect(child, dispatch);
+            } catch (error) {
+              errors.push(error);
+            }
+          }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(concurrency, effects.length) }, worker));
+        if (errors.length > 0) {
+          throw errors[0];
+        }
+        return;
+      }
+
+      case 'Stream': {
+        cancelById(effect.id);
+
+        const controller = new AbortController();
+        inFlightEffects.set(effect.id, controller);
+
+        try {
+          // Cancelling aborts the controller, which closes the iterator
+          const iterator = effect.source[Symbol.asyncIterator]();
+          controller.signal.addEventListener('abort', () => {
+            Promise.resolve(iterator.return?.()).catch(error => {
+              console.error('[Composable Svelte] Stream cleanup error:', error);
+            });
+          });
+
+          while (true) {
+            const result = await iterator.next();
+            if (controller.signal.aborted) return;
+            if (result.done) break;
+            dispatch(effect.toAction(result.value));
+          }
+          if (effect.onComplete) {
+            dispatch(effect.onComplete());
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          if (!effect.onError) throw error;
+          dispatch(effect.onError(error));
+        } finally {
+          if (inFlightEffects.get(effect.id) === controller) {
+            inFlightEffects.delete(effect.id);
+          }
+        }
+        return;
+      }
+
+      default:
+        executeEffect(effect, dispatch);
+    }
+  }
+
   /**
    * Select a derived value from state (non-reactive).
    */
@@ -335,9 +633,16 @@ export function createStore<State, Action, Dependencies = any>(
     });
     throttleState.clear();
 
+    effectTimers.forEach(timer => clearTimeout(timer));
+    effectTimers.clear();
+
     // Clear subscribers
     subscribers.clear();
     actionSubscribers.clear();
+
+    // Disconnect from Redux DevTools
+    devTools?.disconnect();
+    pausedEffectActions.length = 0;
   }
 
   return {
@@ -9,8 +9,22 @@ export {
 	createTestStore
 } from './test-store.js';
 
+export {
+	recordSession,
+	serializeSession,
+	parseSession,
+	replaySession
+} from './session.js';
+
 export type {
 	TestStoreConfig,
 	StateAssertion,
-	PartialAction
+	PartialState,
+	PartialAction,
+	PartialEffect
 } from './test-store.js';
+
+export type {
+	SessionRecording,
+	ReplayConfig
+} from './session.js';
@@ -0,0 +1,199 @@
+/**
+ * Recorded sessions as test fixtures.
+ *
+ * A session is the initial state of a store plus the actions from
+ * `store.history`. Record one while reproducing a bug, save it as JSON and
+ * replay it in a test:
+ *
+ * ```typescript
+ * // In the app (e.g. behind a debug button)
+ * const json = serializeSession(recordSession(store, initialState));
+ *
+ * // In Vitest
+ * import fixture from './fixtures/checkout-bug.json';
+ *
+ * it('replays the checkout session', async () => {
+ *   const store = await replaySession(fixture, { reducer: checkoutReducer });
+ *   expect(store.getState()).toMatchSnapshot();
+ * });
+ * ```
+ *
+ * `store.history` contains the actions dispatched by effects as well, so the
+ * replay doesn't run effects: their results are the recorded actions that
+ * follow. The store must keep its full history (no `maxHistorySize`).
+ *
+ * ## Serialization
+ *
+ * `Date`, `Set`, `Map` and `Uint8Array` values are written as
+ * `{ "$type": "Date", "value": "2024-01-01T00:00:00.000Z" }` and restored
+ * by `parseSession()`. Plain objects must not use a `$type` key themselves.
+ */
+
+import { Effect } from '../effect.js';
+import { createTestStore, type TestStore, type TestStoreConfig } from './test-store.js';
+
+/**
+ * A recorded store session.
+ */
+export interface SessionRecording<State, Action> {
+  version: 1;
+  recordedAt: string;
+  initialState: State;
+  actions: Action[];
+}
+
+/**
+ * Configuration for replaySession(). The initial state comes from the recording.
+ */
+export type ReplayConfig<State, Action, Dependencies = any> = Omit<
+  TestStoreConfig<State, Action, Dependencies>,
+  'initialState'
+>;
+
+type EncodedValue =
+  | { $type: 'Date'; value: string }
+  | { $type: 'Set'; value: unknown[] }
+  | { $type: 'Map'; value: [unknown, unknown][] }
+  | { $type: 'Uint8Array'; value: string };
+
+/**
+ * Record the session of a store.
+ *
+ * @param store - Store whose `history` holds every action since `initialState`
+ * @param initialState - The state the store was created with
+ */
+export function recordSession<State, Action>(
+  store: { readonly history: ReadonlyArray<Action> },
+  initialState: State
+): SessionRecording<State, Action> {
+  return {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    initialState,
+    actions: [...store.history]
+  };
+}
+
+/**
+ * Serialize a recording to JSON, keeping Date, Set, Map and Uint8Array values.
+ */
+export function serializeSession<State, Action>(recording: SessionRecording<State, Action>): string {
+  return JSON.stringify(encodeValue(recording), null, 2);
+}
+
+/**
+ * Restore a recording from its JSON text or from an imported JSON fixture.
+ *
+ * @throws {Error} If the fixture is not a version 1 session recording
+ */
+export function parseSession<State, Action>(
+  fixture: string | object
+): SessionRecording<State, Action> {
+  const data = typeof fixture === 'string' ? JSON.parse(fixture) : fixture;
+
+  if (data === null || typeof data !== 'object' || data.version !== 1 || !Array.isArray(data.actions)) {
+    throw new Error('Invalid session recording: expected { version: 1, initialState, actions }');
+  }
+
+  return decodeValue(data) as SessionRecording<State, Action>;
+}
+
+/**
+ * Replay a recorded session through a TestStore.
+ *
+ * Every recorded action is sent in order. Effects returned by the reducer are
+ * not run; the actions they dispatched during the recording are replayed
+ * instead.
+ *
+ * @param fixture - Recording, its JSON text or an imported JSON fixture
+ * @param config - Reducer and dependencies to replay with
+ * @returns The TestStore after the last action
+ *
+ * @example
+ * ```typescript
+ * const store = await replaySession(fixture, { reducer: nodeCanvasReducer });
+ * expect(store.getState().selectedNodes).toEqual(new Set(['node-2']));
+ * ```
+ */
+export async function replaySession<State, Action, Dependencies = any>(
+  fixture: SessionRecording<State, Action> | string | object,
+  config: ReplayConfig<State, Action, Dependencies>
+): Promise<TestStore<State, Action, Dependencies>> {
+  const recording = parseSession<State, Action>(fixture);
+  const { reducer } = config;
+
+  const store = createTestStore<State, Action, Dependencies>({
+    ...config,
+    initialState: recording.initialState,
+    reducer: (state, action, deps) => {
+      const [newState] = reducer(state, action, deps);
+      return [newState, Effect.none<Action>()];
+    }
+  });
+
+  for (const action of recording.actions) {
+    await store.send(action);
+  }
+
+  return store;
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return { $type: 'Date', value: value.toISOString() } satisfies EncodedValue;
+  }
+  if (value instanceof Set) {
+    return { $type: 'Set', value: [...value].map(encodeValue) } satisfies EncodedValue;
+  }
+  if (value instanceof Map) {
+    return {
+      $type: 'Map',
+      value: [...value].map(([key, item]) => [encodeValue(key), encodeValue(item)])
+    } satisfies EncodedValue;
+  }
+  if (value instanceof Uint8Array) {
+    return { $type: 'Uint8Array', value: toBase64(value) } satisfies EncodedValue;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeValue(item)]));
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const encoded = value as EncodedValue;
+  switch (encoded.$type) {
+    case 'Date':
+      return new Date(encoded.value);
+    case 'Set':
+      return new Set(encoded.value.map(decodeValue));
+    case 'Map':
+      return new Map(encoded.value.map(([key, item]) => [decodeValue(key), decodeValue(item)]));
+    case 'Uint8Array':
+      return fromBase64(encoded.value);
+    default:
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeValue(item)]));
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
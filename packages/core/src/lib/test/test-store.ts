@@ -60,7 +60,7 @@
  *
  * ### How Fake Timers Work
  *
- * - `advanceTime(ms)` calls `vi.advanceTimersByTime(ms)` to fire setTimeout/setInterval
+ * - `advanceTime(ms)` calls `vi.advanceTimersByTimeAsync(ms)` to fire setTimeout/setInterval
  * - After advancing timers, flushes microtask queue for async effects
  * - `receive()` uses `vi.waitFor()` to poll for actions (effects execute asynchronously)
  *
@@ -142,7 +142,8 @@
  *    });
  *    ```
  *
- * 3. **`finish()` convenience method**: Equivalent to `await advanceTime(0); assertNoPendingActions()`
+ * 3. **`finish()` convenience method**: Runs `await advanceTime(0)`, asserts no pending actions
+ *    and, with exhaustivity on, fails if subscriptions are still running.
  *
  * ## Partial Action Matching
  *
@@ -174,9 +175,45 @@
  * store.exhaustivity = 'off';
  * store.assertNoPendingActions(); // ✅ Passes even with unasserted actions
  * ```
+ *
+ * `finish()` also fails while `Effect.subscription()` effects are still running,
+ * so tests have to cancel them (usually by sending the action that returns
+ * `Effect.cancel(id)`).
+ *
+ * ## Asserting Effects
+ *
+ * `expectEffect()` asserts on the effects returned by the last `send()` (batches are
+ * flattened). Fields are matched like `receive()` matches actions; functions such as
+ * `execute` can be left out. `expectNoEffects()` fails if any effect of the last send
+ * hasn't been asserted:
+ *
+ * ```typescript
+ * await store.send({ type: 'queryChanged', query: 'svelte' });
+ * store.expectEffect({ _tag: 'Cancellable', id: 'search' });
+ * store.expectEffect({ _tag: 'Debounced', ms: 300 });
+ * store.expectNoEffects();
+ * ```
+ *
+ * ## State Assertions
+ *
+ * Instead of a callback, `send()` and `receive()` accept the expected (partial) state.
+ * Mismatches are reported per path:
+ *
+ * ```typescript
+ * await store.send({ type: 'incrementTapped' }, { count: 2 });
+ * // State mismatch after send({"type":"incrementTapped"}):
+ * //
+ * //   state.count
+ * //     - expected: 2
+ * //     + received: 1
+ * ```
+ *
+ * When an assertion callback throws, the error names the action and, for `send()`,
+ * lists the state changes it made.
  */
 
 import type { Reducer, Effect, Dispatch } from '../types.js';
+import { firstFulfilled } from '../effect.js';
 
 /**
  * Configuration for TestStore.
@@ -192,11 +229,27 @@ export interface TestStoreConfig<State, Action, Dependencies = any> {
  */
 export type StateAssertion<State> = (state: State) => void | Promise<void>;
 
+/**
+ * Expected state for send/receive assertions. Only the given fields are compared.
+ */
+export type PartialState<State> = State extends readonly unknown[]
+  ? State
+  : State extends object
+    ? { [K in keyof State]?: PartialState<State[K]> }
+    : State;
+
 /**
  * Partial action matcher for receive assertions.
  */
 export type PartialAction<Action> = Partial<Action> & { type: string };
 
+/**
+ * Partial effect matcher for expectEffect assertions.
+ */
+export type PartialEffect<Action, E = Effect<Action>> = E extends { readonly _tag: string }
+  ? Partial<E> & Pick<E, '_tag'>
+  : never;
+
 /**
  * TestStore for testing reducers and effects.
  *
@@ -224,6 +277,9 @@ export class TestStore<State, Action, Dependencies = any> {
   private pendingEffects: Promise<void>[] = [];
   private pendingTimers: number = 0; // Track number of scheduled timers
   private _subscriptionCleanups = new Map<string, () => void | Promise<void>>();
+  private _streamIterators = new Map<string, AsyncIterator<unknown>>();
+  private _unassertedEffects: Effect<Action>[] = []; // Effects of the last send
+  private _effectErrors: unknown[] = []; // Rethrown by receive() and finish()
 
   /**
    * Control exhaustiveness checking for received actions.
@@ -245,19 +301,21 @@ export class TestStore<State, Action, Dependencies = any> {
    */
   async send(
     action: Action,
-    assert?: StateAssertion<State>
+    assert?: StateAssertion<State> | PartialState<State>
   ): Promise<void> {
     this.actionHistory.push(action);
 
+    const previousState = this.state;
     const [newState, effect] = this.reducer(this.state, action, this.dependencies);
     this.state = newState;
+    this._unassertedEffects = flattenEffect(effect);
 
     if (effect._tag !== 'None') {
-      this.pendingEffects.push(this._executeEffect(effect));
+      this.pendingEffects.push(this._runEffect(effect));
     }
 
     if (assert) {
-      await assert(this.state);
+      await this._assertState(assert, `send(${JSON.stringify(action)})`, previousState);
     }
   }
 
@@ -279,13 +337,14 @@ export class TestStore<State, Action, Dependencies = any> {
    * ```
    *
    * @param partialAction - Partial action to match (must have type field)
-   * @param assert - Optional state assertion
+   * @param assert - Optional state assertion or expected partial state
    * @param timeout - Timeout in milliseconds (default: 1000)
    * @throws {Error} If action not received within timeout
+   * @throws The error of an effect that failed
    */
   async receive(
     partialAction: PartialAction<Action>,
-    assert?: StateAssertion<State>,
+    assert?: StateAssertion<State> | PartialState<State>,
     timeout: number = 1000
   ): Promise<void> {
     const { vi } = await import('vitest');
@@ -299,9 +358,12 @@ export class TestStore<State, Action, Dependencies = any> {
         Promise.all(pending); // Fire and forget
       }
 
+      // Stop waiting: the failed effect is reported below
+      if (this._effectErrors.length > 0) return;
+
       // Find matching action
       const index = this.receivedActions.findIndex(action =>
-        this._matchesPartialAction(action, partialAction)
+        this._matchesPartial(action, partialAction)
       );
 
       if (index === -1) {
@@ -317,8 +379,10 @@ export class TestStore<State, Action, Dependencies = any> {
       this.receivedActions.splice(index, 1);
     }, { timeout });
 
+    this._throwEffectError();
+
     if (assert) {
-      await assert(this.state);
+      await this._assertState(assert, `receive(${JSON.stringify(partialAction)})`);
     }
   }
 
@@ -337,10 +401,55 @@ export class TestStore<State, Action, Dependencies = any> {
     }
   }
 
+  /**
+   * Assert that the last send() produced an effect matching `partialEffect`.
+   * Batches are flattened; the matched effect is removed so that it's only
+   * asserted once.
+   *
+   * @param partialEffect - Partial effect to match (must have _tag field)
+   * @throws {Error} If no unasserted effect of the last send matches
+   *
+   * @example
+   * ```typescript
+   * await store.send({ type: 'queryChanged', query: 'svelte' });
+   * store.expectEffect({ _tag: 'Debounced', id: 'search', ms: 300 });
+   * ```
+   */
+  expectEffect(partialEffect: PartialEffect<Action>): void {
+    const index = this._unassertedEffects.findIndex(effect =>
+      this._matchesPartial(effect, partialEffect)
+    );
+
+    if (index === -1) {
+      throw new Error(
+        `Expected the last send to produce an effect matching ${describeEffect(partialEffect)}\n` +
+        `Unasserted effects: ${formatEffectList(this._unassertedEffects)}`
+      );
+    }
+
+    this._unassertedEffects.splice(index, 1);
+  }
+
+  /**
+   * Assert that the last send() produced no effects besides the ones
+   * already matched with expectEffect().
+   *
+   * @throws {Error} If unasserted effects remain
+   */
+  expectNoEffects(): void {
+    if (this._unassertedEffects.length > 0) {
+      throw new Error(
+        `Expected no effects from the last send, but found ${this._unassertedEffects.length} unasserted effect(s): ` +
+        formatEffectList(this._unassertedEffects)
+      );
+    }
+  }
+
   /**
    * Convenience method to complete the test.
-   * Waits for any pending effects and asserts no actions remain.
-   * Equivalent to: await advanceTime(0); assertNoPendingActions();
+   * Waits for any pending effects, rethrows the error of an effect that
+   * failed, asserts no actions remain and, when exhaustivity is on, asserts
+   * that no subscriptions are still running.
    *
    * @example
    * ```typescript
@@ -351,7 +460,16 @@ export class TestStore<State, Action, Dependencies = any> {
    */
   async finish(): Promise<void> {
     await this.advanceTime(0);
+    this._throwEffectError();
     this.assertNoPendingActions();
+
+    if (this.exhaustivity === 'on' && this._subscriptionCleanups.size > 0) {
+      const ids = [...this._subscriptionCleanups.keys()];
+      throw new Error(
+        `Expected all subscriptions to be cancelled, but ${ids.length} still running: ${JSON.stringify(ids)}\n` +
+        `Cancel them with Effect.cancel(id) before finishing the test.`
+      );
+    }
   }
 
   /**
@@ -401,8 +519,11 @@ export class TestStore<State, Action, Dependencies = any> {
     const { vi } = await import('vitest');
 
     // Check if vi is available (jsdom mode has it, browser mode doesn't)
-    if (typeof vi !== 'undefined' && vi.advanceTimersByTime) {
-      // Use synchronous timer advancement (this fires all timers up to ms)
+    if (typeof vi !== 'undefined' && vi.advanceTimersByTimeAsync) {
+      // Fires all timers up to ms, flushing microtasks between them so timers
+      // scheduled by async work (e.g. retry backoff after a rejection) also fire
+      await vi.advanceTimersByTimeAsync(ms);
+    } else if (typeof vi !== 'undefined' && vi.advanceTimersByTime) {
       vi.advanceTimersByTime(ms);
     }
 
@@ -412,25 +533,58 @@ export class TestStore<State, Action, Dependencies = any> {
   }
 
   /**
-   * Execute an effect and track dispatched actions.
+   * Dispatch used by effects: records the action as received and reduces it.
    */
-  private async _executeEffect(effect: Effect<Action>): Promise<void> {
-    const dispatch: Dispatch<Action> = (action: Action) => {
-      this.receivedActions.push(action);
-      const [newState, newEffect] = this.reducer(this.state, action, this.dependencies);
-      this.state = newState;
-
-      if (newEffect._tag !== 'None') {
-        this.pendingEffects.push(this._executeEffect(newEffect));
-      }
-    };
+  private _dispatchFromEffect = (action: Action): void => {
+    this.receivedActions.push(action);
+    const [newState, newEffect] = this.reducer(this.state, action, this.dependencies);
+    this.state = newState;
+
+    if (newEffect._tag !== 'None') {
+      this.pendingEffects.push(this._runEffect(newEffect));
+    }
+  };
+
+  /**
+   * Execute an effect returned by the reducer.
+   * Failures (e.g. exhausted retries) are recorded and rethrown by
+   * receive() or finish(), so a throwing effect fails the test.
+   */
+  private _runEffect(effect: Effect<Action>): Promise<void> {
+    return this._executeEffect(effect).catch(error => {
+      this._effectErrors.push(error);
+    });
+  }
 
+  /**
+   * Rethrow the first recorded effect error, if any.
+   */
+  private _throwEffectError(): void {
+    if (this._effectErrors.length === 0) return;
+    const [error] = this._effectErrors;
+    this._effectErrors = [];
+    throw error;
+  }
+
+  /**
+   * Execute an effect and track dispatched actions.
+   */
+  private async _executeEffect(
+    effect: Effect<Action>,
+    dispatch: Dispatch<Action> = this._dispatchFromEffect
+  ): Promise<void> {
     switch (effect._tag) {
       case 'None':
         break;
 
       case 'Run':
+        await effect.execute(dispatch);
+        break;
+
       case 'Cancellable':
+        // Effect.cancel(id) also ends subscriptions and streams with the same id
+        this._closeStream(effect.id);
+        await this._cancelSubscription(effect.id);
         await effect.execute(dispatch);
         break;
 
@@ -454,18 +608,145 @@ export class TestStore<State, Action, Dependencies = any> {
         break;
 
       case 'Batch':
-        await Promise.all(effect.effects.map(e => this._executeEffect(e)));
+        await Promise.all(effect.effects.map(e => this._executeEffect(e, dispatch)));
         break;
 
       case 'FireAndForget':
         await effect.execute();
         break;
 
-      case 'Subscription':
-        // Set up subscription and store cleanup
+      case 'Subscription': {
+        // Replace a running subscription with the same id, then store cleanup
+        await this._cancelSubscription(effect.id);
         const cleanup = effect.setup(dispatch);
         this._subscriptionCleanups.set(effect.id, cleanup);
         break;
+      }
+
+      case 'Retry': {
+        // Backoff uses setTimeout so advanceTime() drives the next attempt
+        const { maxAttempts, backoff = 0, shouldRetry = () => true } = effect.policy;
+        for (let attempt = 1; ; attempt++) {
+          try {
+            await this._executeEffect(effect.effect, dispatch);
+            return;
+          } catch (error) {
+            if (attempt >= maxAttempts || !shouldRetry(error, attempt)) {
+              throw error;
+            }
+          }
+          const ms = typeof backoff === 'function' ? backoff(attempt) : backoff;
+          await new Promise<void>(resolve => setTimeout(resolve, ms));
+        }
+      }
+
+      case 'Timeout': {
+        let timedOut = false;
+        const guardedDispatch: Dispatch<Action> = (action: Action) => {
+          if (!timedOut) dispatch(action);
+        };
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const outcome = await Promise.race([
+          this._executeEffect(effect.effect, guardedDispatch).then(() => 'completed' as const),
+          new Promise<'timedOut'>(resolve => {
+            timer = setTimeout(() => resolve('timedOut'), effect.ms);
+          })
+        ]);
+        clearTimeout(timer);
+        if (outcome === 'completed') {
+          break;
+        }
+
+        timedOut = true;
+        if (!effect.onTimeout) {
+          throw new DOMException(`Effect timed out after ${effect.ms}ms`, 'TimeoutError');
+        }
+        await effect.onTimeout(dispatch);
+        break;
+      }
+
+      case 'Sequence':
+        for (const child of effect.effects) {
+          await this._executeEffect(child, dispatch);
+        }
+        break;
+
+      case 'Race': {
+        // Losers' actions are dropped and their id-based effects cancelled, like the store
+        const racers = effect.effects.map(child => {
+          const racer = { child, cancelled: false, done: Promise.resolve() };
+          racer.done = this._executeEffect(child, (action: Action) => {
+            if (!racer.cancelled) dispatch(action);
+          });
+          return racer;
+        });
+
+        const winner = await firstFulfilled(racers.map(racer => racer.done.then(() => racer)));
+        for (const racer of racers) {
+          if (racer === winner) continue;
+          racer.cancelled = true;
+          if ('id' in racer.child) {
+            this._closeStream(racer.child.id);
+            await this._cancelSubscription(racer.child.id);
+          }
+        }
+        break;
+      }
+
+      case 'Pool': {
+        const { concurrency, effects } = effect;
+        const errors: unknown[] = [];
+        let next = 0;
+
+        const worker = async (): Promise<void> => {
+          while (next < effects.length) {
+            const child = effects[next++]!;
+            try {
+              await this._executeEffect(child, dispatch);
+            } catch (error) {
+              errors.push(error);
+            }
+          }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(concurrency, effects.length) }, worker));
+        if (errors.length > 0) {
+          throw errors[0];
+        }
+        break;
+      }
+
+      case 'Stream': {
+        // Items are dispatched as the source yields them; sources that wait on
+        // timers are driven by advanceTime()
+        this._closeStream(effect.id);
+        let iterator: AsyncIterator<unknown> | undefined;
+        const isOpen = () => this._streamIterators.get(effect.id) === iterator;
+
+        try {
+          iterator = effect.source[Symbol.asyncIterator]();
+          this._streamIterators.set(effect.id, iterator);
+          while (true) {
+            const result = await iterator.next();
+            if (!isOpen()) return;
+            if (result.done) break;
+            dispatch(effect.toAction(result.value));
+          }
+          if (effect.onComplete) {
+            dispatch(effect.onComplete());
+          }
+        } catch (error) {
+          if (!isOpen()) return;
+          if (!effect.onError) throw error;
+          dispatch(effect.onError(error));
+        } finally {
+          if (isOpen()) {
+            this._streamIterators.delete(effect.id);
+          }
+        }
+        break;
+      }
 
       default:
         // Exhaustiveness check
@@ -475,15 +756,87 @@ export class TestStore<State, Action, Dependencies = any> {
   }
 
   /**
-   * Check if action matches partial action.
+   * Run the cleanup of a subscription, if one is running.
+   */
+  private async _cancelSubscription(id: string): Promise<void> {
+    const cleanup = this._subscriptionCleanups.get(id);
+    if (!cleanup) return;
+    this._subscriptionCleanups.delete(id);
+    await cleanup();
+  }
+
+  /**
+   * Stop reading a stream and call `return()` on its iterator.
+   */
+  private _closeStream(id: string): void {
+    const iterator = this._streamIterators.get(id);
+    if (!iterator) return;
+    this._streamIterators.delete(id);
+    Promise.resolve(iterator.return?.()).catch(error => {
+      console.error('[TestStore] Stream cleanup error:', error);
+    });
+  }
+
+  /**
+   * Run a state assertion. Callback failures are rethrown with the action and
+   * the state changes it made; expected states are compared path by path.
+   */
+  private async _assertState(
+    assert: StateAssertion<State> | PartialState<State>,
+    context: string,
+    previousState?: State
+  ): Promise<void> {
+    if (typeof assert !== 'function') {
+      const mismatches: StateDifference[] = [];
+      diffValues(assert, this.state, 'state', true, mismatches);
+      if (mismatches.length > 0) {
+        throw new Error(
+          `State mismatch after ${context}:\n\n` +
+          mismatches
+            .map(({ path, expected, received }) =>
+              `  ${path}\n    - expected: ${formatValue(expected)}\n    + received: ${formatValue(received)}`
+            )
+            .join('\n')
+        );
+      }
+      return;
+    }
+
+    try {
+      await (assert as StateAssertion<State>)(this.state);
+    } catch (error) {
+      let message = `State assertion failed after ${context}:\n\n${error instanceof Error ? error.message : String(error)}`;
+      if (previousState !== undefined) {
+        const changes: StateDifference[] = [];
+        diffValues(previousState, this.state, 'state', false, changes);
+        message += changes.length > 0
+          ? `\n\nState changes:\n` +
+            changes
+              .map(({ path, expected, received }) => `  ${path}: ${formatValue(expected)} → ${formatValue(received)}`)
+              .join('\n')
+          : `\n\nState was not changed.`;
+      }
+
+      // Keep the fields test runners use to render expected/actual diffs
+      const wrapped = new Error(message, { cause: error });
+      if (error !== null && typeof error === 'object') {
+        const { actual, expected, showDiff } = error as Record<string, unknown>;
+        Object.assign(wrapped, { actual, expected, showDiff });
+      }
+      throw wrapped;
+    }
+  }
+
+  /**
+   * Check if an action or effect matches a partial one.
    * Supports nested object matching via deep equality.
    */
-  private _matchesPartialAction(
-    action: Action,
-    partial: PartialAction<Action>
+  private _matchesPartial(
+    target: Action | Effect<Action>,
+    partial: PartialAction<Action> | PartialEffect<Action>
   ): boolean {
     return Object.entries(partial).every(([key, value]) => {
-      const actionValue = (action as any)[key];
+      const actionValue = (target as any)[key];
 
       // Deep equality for objects
       if (typeof value === 'object' && value !== null && typeof actionValue === 'object' && actionValue !== null) {
@@ -496,6 +849,99 @@ export class TestStore<State, Action, Dependencies = any> {
   }
 }
 
+/**
+ * Flatten batches into the list of effects they contain, dropping None.
+ */
+function flattenEffect<Action>(effect: Effect<Action>): Effect<Action>[] {
+  switch (effect._tag) {
+    case 'None':
+      return [];
+    case 'Batch':
+      return effect.effects.flatMap(flattenEffect);
+    default:
+      return [effect];
+  }
+}
+
+/**
+ * Describe an effect by its tag and non-function fields, e.g.
+ * `Debounced({"id":"search","ms":300})`.
+ */
+function describeEffect(effect: { _tag: string }): string {
+  const { _tag, ...fields } = effect;
+  const data = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => typeof value !== 'function')
+  );
+  return Object.keys(data).length > 0 ? `${_tag}(${JSON.stringify(data)})` : _tag;
+}
+
+function formatEffectList(effects: { _tag: string }[]): string {
+  return effects.length > 0 ? effects.map(describeEffect).join(', ') : '(none)';
+}
+
+interface StateDifference {
+  path: string;
+  expected: unknown;
+  received: unknown;
+}
+
+/**
+ * Collect the paths at which `received` differs from `expected`.
+ * With `partial`, only keys present in `expected` objects are compared.
+ */
+function diffValues(
+  expected: unknown,
+  received: unknown,
+  path: string,
+  partial: boolean,
+  out: StateDifference[]
+): void {
+  if (Object.is(expected, received)) return;
+
+  if (Array.isArray(expected) && Array.isArray(received) && expected.length === received.length) {
+    expected.forEach((item, index) => diffValues(item, received[index], `${path}[${index}]`, partial, out));
+    return;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(received)) {
+    const keys = partial
+      ? Object.keys(expected)
+      : [...new Set([...Object.keys(expected), ...Object.keys(received)])];
+    keys.forEach(key => diffValues(expected[key], received[key], `${path}.${key}`, partial, out));
+    return;
+  }
+
+  // Sets, Maps, Dates etc. are equal when they print the same
+  if (
+    typeof expected === 'object' && expected !== null &&
+    typeof received === 'object' && received !== null &&
+    formatValue(expected) === formatValue(received)
+  ) {
+    return;
+  }
+
+  out.push({ path, expected, received });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (value instanceof Set) return `Set ${formatValue([...value])}`;
+  if (value instanceof Map) return `Map ${formatValue([...value])}`;
+  try {
+    if (value instanceof Date) return `Date(${value.toISOString()})`;
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
 /**
  * Create a TestStore (convenience function).
  *
@@ -8,6 +8,8 @@
  * - Dependencies: External services injected into reducers
  */
 
+import type { DevToolsConfig } from './devtools/types.js';
+
 /**
  * A function that dispatches an action to the store.
  *
@@ -62,7 +64,67 @@ export type Effect<Action> =
   | { readonly _tag: 'Debounced'; readonly id: string; readonly ms: number; readonly execute: EffectExecutor<Action> }
   | { readonly _tag: 'Throttled'; readonly id: string; readonly ms: number; readonly execute: EffectExecutor<Action> }
   | { readonly _tag: 'AfterDelay'; readonly ms: number; readonly execute: EffectExecutor<Action> }
-  | { readonly _tag: 'Subscription'; readonly id: string; readonly setup: SubscriptionSetup<Action> };
+  | { readonly _tag: 'Subscription'; readonly id: string; readonly setup: SubscriptionSetup<Action> }
+  | { readonly _tag: 'Retry'; readonly effect: Effect<Action>; readonly policy: RetryPolicy }
+  | { readonly _tag: 'Timeout'; readonly effect: Effect<Action>; readonly ms: number; readonly onTimeout?: EffectExecutor<Action> }
+  | { readonly _tag: 'Sequence'; readonly effects: readonly Effect<Action>[] }
+  | { readonly _tag: 'Race'; readonly effects: readonly Effect<Action>[] }
+  | { readonly _tag: 'Pool'; readonly concurrency: number; readonly effects: readonly Effect<Action>[] }
+  | {
+      readonly _tag: 'Stream';
+      readonly id: string;
+      readonly source: AsyncIterable<unknown>;
+      readonly toAction: (item: unknown) => Action;
+      readonly onComplete?: () => Action;
+      readonly onError?: (error: unknown) => Action;
+    };
+
+/**
+ * How Effect.retry() re-runs a failed effect.
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first one.
+   */
+  readonly maxAttempts: number;
+
+  /**
+   * Delay before the next attempt in milliseconds, either fixed or computed
+   * from the number of the attempt that just failed (1-based).
+   * Default: 0
+   *
+   * @example
+   * ```typescript
+   * backoff: (attempt) => Math.min(100 * 2 ** (attempt - 1), 5000)
+   * ```
+   */
+  readonly backoff?: number | ((attempt: number) => number);
+
+  /**
+   * Whether a failure should be retried.
+   * Default: retry every error
+   */
+  readonly shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Actions Effect.stream() dispatches when the source ends.
+ * Neither is dispatched when the stream is cancelled.
+ *
+ * @template Action - The action type
+ */
+export interface StreamOptions<Action> {
+  /**
+   * Action to dispatch after the last item.
+   */
+  readonly onComplete?: () => Action;
+
+  /**
+   * Action to dispatch when the source throws.
+   * Without it the error is reported like any other effect failure.
+   */
+  readonly onError?: (error: unknown) => Action;
+}
 
 /**
  * A pure function that transforms state based on an action.
@@ -147,13 +209,46 @@ export interface StoreConfig<State, Action, Dependencies = any> {
      * Default: true
      */
     deferEffects?: boolean;
+
+    /**
+     * Effects allowed to run on the server even when deferEffects is true.
+     * Used by streaming renders; see createServerEffects() in
+     * '@composable-svelte/core/ssr'.
+     */
+    serverEffects?: ServerEffectTracker<Action>;
   };
 
-  // TODO: Middleware support deferred to Phase 5
-  // middleware?: Middleware<State, Action>[];
+  /**
+   * Middleware applied to every dispatched action and every effect
+   * returned by the reducer.
+   *
+   * Middleware is composed left-to-right: the first entry is the outermost
+   * layer and sees each action first. Action middleware can observe,
+   * transform or block actions before they reach the reducer; effect
+   * middleware sees effects before the store executes them.
+   *
+   * @example
+   * ```typescript
+   * const store = createStore({
+   *   initialState,
+   *   reducer,
+   *   middleware: [loggerMiddleware, { effect: effectAuditMiddleware }]
+   * });
+   * ```
+   */
+  middleware?: Middleware<State, Action>[];
 
-  // TODO: Redux DevTools integration deferred to Phase 5
-  // devTools?: boolean;
+  /**
+   * Connect the store to the Redux DevTools browser extension.
+   *
+   * Every action and resulting state is streamed to the extension.
+   * Jump, skip and import replay the recorded actions through the reducer;
+   * effects are paused while a past state is shown.
+   * Ignored when the extension is not installed.
+   *
+   * Default: false
+   */
+  devTools?: boolean | DevToolsConfig;
 }
 
 /**
@@ -276,20 +371,115 @@ export interface MiddlewareAPI<State, Action> {
  * - Persist state
  * - Block or transform actions
  *
+ * Not calling `next` blocks the action: it never reaches the reducer
+ * and is not recorded in history.
+ *
  * @template State - The state type
  * @template Action - The action type
  *
  * @example
  * ```typescript
- * const loggerMiddleware: Middleware<State, Action> = (store) => (next) => (action) => {
+ * const loggerMiddleware: ActionMiddleware<State, Action> = (store) => (next) => (action) => {
  *   console.log('Dispatching:', action);
  *   next(action);
  *   console.log('New state:', store.getState());
  * };
  * ```
  */
-export type Middleware<State, Action> = (
+export type ActionMiddleware<State, Action> = (
   store: MiddlewareAPI<State, Action>
 ) => (
   next: Dispatch<Action>
 ) => Dispatch<Action>;
+
+/**
+ * Runs server-safe effects during a streaming server render.
+ *
+ * @template Action - The action type
+ */
+export interface ServerEffectTracker<Action> {
+  /**
+   * Whether the effect produced by this action may run on the server.
+   */
+  allows(action: Action): boolean;
+
+  /**
+   * Run an allowed effect and track it until its work is done.
+   *
+   * @param action - Action that produced the effect
+   * @param perform - Runs the effect with the given dispatch
+   * @param dispatch - Store dispatch for actions from the effect
+   */
+  run(action: Action, perform: (dispatch: Dispatch<Action>) => Promise<void>, dispatch: Dispatch<Action>): void;
+}
+
+/**
+ * Function that hands an effect to the store for execution.
+ *
+ * @template Action - The action type
+ *
+ * @param effect - The effect returned by the reducer
+ * @param action - The action whose reduction produced the effect
+ */
+export type EffectRunner<Action> = (effect: Effect<Action>, action: Action) => void;
+
+/**
+ * Middleware function for intercepting effects.
+ * Runs after the reducer, before the store executes the effect.
+ *
+ * Effect middleware can:
+ * - Audit which effects an action produced
+ * - Replace an effect (call `next` with a different effect)
+ * - Block an effect (don't call `next`)
+ *
+ * Only effects returned by the reducer pass through effect middleware;
+ * children of `Effect.batch()` are executed as part of their parent.
+ *
+ * @template State - The state type
+ * @template Action - The action type
+ *
+ * @example
+ * ```typescript
+ * const blockNetworkInDemo: EffectMiddleware<State, Action> = (store) => (next) => (effect, action) => {
+ *   if (store.getState().demoMode) return;
+ *   next(effect, action);
+ * };
+ * ```
+ */
+export type EffectMiddleware<State, Action> = (
+  store: MiddlewareAPI<State, Action>
+) => (
+  next: EffectRunner<Action>
+) => EffectRunner<Action>;
+
+/**
+ * Middleware that hooks into actions, effects, or both.
+ *
+ * @template State - The state type
+ * @template Action - The action type
+ */
+export interface MiddlewareHooks<State, Action> {
+  /**
+   * Intercept actions before they reach the reducer.
+   */
+  action?: ActionMiddleware<State, Action>;
+
+  /**
+   * Intercept effects before the store executes them.
+   */
+  effect?: EffectMiddleware<State, Action>;
+}
+
+/**
+ * Store middleware.
+ *
+ * Either a plain action middleware (Redux-style `store => next => action`)
+ * or a {@link MiddlewareHooks} object for middleware that also needs to
+ * see effects.
+ *
+ * @template State - The state type
+ * @template Action - The action type
+ */
+export type Middleware<State, Action> =
+  | ActionMiddleware<State, Action>
+  | MiddlewareHooks<State, Action>;
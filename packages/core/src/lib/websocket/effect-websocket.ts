@@ -163,6 +163,7 @@ export function send<T, Action>(
  * @param client - WebSocket client instance
  * @param subscriptionId - Unique ID for subscription cleanup
  * @param onMessage - Callback to transform messages into actions
+ *   (return null to ignore a message, e.g. on multiplexed connections)
  *
  * @example
  * ```typescript
@@ -180,11 +181,14 @@ export function send<T, Action>(
 export function subscribe<T, Action>(
   client: WebSocketClient<T>,
   subscriptionId: string,
-  onMessage: (message: WebSocketMessage<T>) => Action
+  onMessage: (message: WebSocketMessage<T>) => Action | null
 ): EffectType<Action> {
   return Effect.subscription(subscriptionId, (dispatch) => {
     const unsubscribe = client.subscribe((message) => {
-      dispatch(onMessage(message));
+      const action = onMessage(message);
+      if (action !== null) {
+        dispatch(action);
+      }
     });
 
     return unsubscribe;
@@ -24,6 +24,20 @@ import type {
 } from './types.js';
 import { WebSocketError, WS_ERROR_CODES, JSONSerializer } from './types.js';
 
+/**
+ * Exponential backoff delay for a reconnection attempt (1-based), capped at
+ * maxDelay, plus up to 30% jitter. Shared with the SSE client.
+ */
+export function calculateReconnectDelay(config: ReconnectConfig, attempt: number): number {
+  const baseDelay = config.initialDelay * Math.pow(
+    config.backoffMultiplier,
+    attempt - 1
+  );
+  const delay = Math.min(baseDelay, config.maxDelay);
+  const jitter = config.jitter ? delay * Math.random() * 0.3 : 0;
+  return delay + jitter;
+}
+
 /**
  * Create a production WebSocket client.
  *
@@ -128,16 +142,6 @@ export function createLiveWebSocket<T = unknown>(
     });
   }
 
-  function calculateReconnectDelay(attempt: number): number {
-    const baseDelay = reconnectConfig.initialDelay * Math.pow(
-      reconnectConfig.backoffMultiplier,
-      attempt - 1
-    );
-    const delay = Math.min(baseDelay, reconnectConfig.maxDelay);
-    const jitter = reconnectConfig.jitter ? delay * Math.random() * 0.3 : 0;
-    return delay + jitter;
-  }
-
   // ========================================
   // Connection Management
   // ========================================
@@ -364,7 +368,7 @@ export function createLiveWebSocket<T = unknown>(
       return;
     }
 
-    const delay = calculateReconnectDelay(attempt);
+    const delay = calculateReconnectDelay(reconnectConfig, attempt);
 
     updateState({
       status: 'reconnecting',
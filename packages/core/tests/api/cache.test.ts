@@ -0,0 +1,214 @@
+// ============================================================================
+// Response Cache Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createCacheStore,
+  createMemoryCacheBackend,
+  createStorageCacheBackend
+} from '../../src/lib/api/cache.js';
+import { createAPIClient } from '../../src/lib/api/client.js';
+import { api } from '../../src/lib/api/effect-api.js';
+import { createLocalStorage } from '../../src/lib/dependencies/local-storage.js';
+import type { APIResponse, CacheEntry } from '../../src/lib/api/types.js';
+
+function response<T>(data: T): APIResponse<T> {
+  return { status: 200, headers: {}, data };
+}
+
+describe('createCacheStore()', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves responses until their TTL expires', () => {
+    const cache = createCacheStore();
+    cache.set('GET', '/users', response(['ann']), {}, { ttl: 1000 });
+
+    expect(cache.get('GET', '/users', {}, { ttl: 1000 })).toEqual({ ...response(['ann']), cached: true });
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('GET', '/users', {}, { ttl: 1000 })).toBeNull();
+    expect(cache.size()).toBe(0);
+  });
+
+  it('serves expired responses as stale within the stale-while-revalidate window', () => {
+    const cache = createCacheStore();
+    const config = { ttl: 1000, staleWhileRevalidate: 5000 };
+    cache.set('GET', '/users', response(['ann']), {}, config);
+
+    vi.advanceTimersByTime(2000);
+    expect(cache.get('GET', '/users', {}, config)).toMatchObject({ data: ['ann'], cached: true, stale: true });
+
+    vi.advanceTimersByTime(4000);
+    expect(cache.get('GET', '/users', {}, config)).toBeNull();
+  });
+
+  it('invalidates entries by tag', () => {
+    const cache = createCacheStore();
+    cache.set('GET', '/users', response([]), {}, { tags: ['users'] });
+    cache.set('GET', '/teams', response([]), {}, { tags: ['teams'] });
+    cache.set('GET', '/users/1/teams', response([]), {}, { tags: ['users', 'teams'] });
+
+    cache.invalidateTags(['users']);
+
+    expect(cache.get('GET', '/users')).toBeNull();
+    expect(cache.get('GET', '/users/1/teams')).toBeNull();
+    expect(cache.get('GET', '/teams')).not.toBeNull();
+  });
+
+  it('invalidates tags and URL patterns after mutations', () => {
+    const cache = createCacheStore();
+    cache.set('GET', '/users', response([]));
+    cache.set('GET', '/stats', response({}), {}, { tags: ['stats'] });
+
+    cache.invalidateOnMutation('POST', '/users', { invalidatesTags: ['stats'] });
+
+    expect(cache.size()).toBe(0);
+  });
+
+  it('matches URL patterns for entries with custom keys', () => {
+    const cache = createCacheStore();
+    const config = { key: () => 'all-products' };
+    cache.set('GET', '/products', response([]), {}, config);
+
+    cache.invalidate('/products*');
+
+    expect(cache.get('GET', '/products', {}, config)).toBeNull();
+  });
+
+  it('evicts the least recently used entry beyond maxEntries', () => {
+    const cache = createCacheStore({ maxEntries: 2 });
+    cache.set('GET', '/a', response('a'));
+    cache.set('GET', '/b', response('b'));
+    cache.get('GET', '/a');
+    cache.set('GET', '/c', response('c'));
+
+    expect(cache.get('GET', '/a')).not.toBeNull();
+    expect(cache.get('GET', '/b')).toBeNull();
+    expect(cache.get('GET', '/c')).not.toBeNull();
+  });
+
+  it('evicts entries beyond maxBytes', () => {
+    const cache = createCacheStore({ maxBytes: 200 });
+    cache.set('GET', '/a', response('x'.repeat(100)));
+    cache.set('GET', '/b', response('y'.repeat(100)));
+
+    expect(cache.size()).toBe(1);
+    expect(cache.get('GET', '/b')).not.toBeNull();
+  });
+
+  it('keeps entries in a Storage backend across cache stores', () => {
+    const storage = createLocalStorage<CacheEntry>({ prefix: 'api-cache-test:' });
+    storage.clear();
+
+    createCacheStore({ backend: createStorageCacheBackend(storage) })
+      .set('GET', '/users', response(['ann']));
+    const reloaded = createCacheStore({ backend: createStorageCacheBackend(storage) });
+
+    expect(reloaded.size()).toBe(1);
+    expect(reloaded.get('GET', '/users')?.data).toEqual(['ann']);
+
+    reloaded.clear();
+    expect(storage.size()).toBe(0);
+  });
+
+  it('gives each store its own memory backend', () => {
+    const first = createCacheStore({ backend: createMemoryCacheBackend() });
+    const second = createCacheStore();
+    first.set('GET', '/users', response([]));
+
+    expect(second.get('GET', '/users')).toBeNull();
+  });
+});
+
+describe('APIClient caching', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let version: number;
+
+  beforeEach(() => {
+    version = 0;
+    fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ version: ++version }), {
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('does not share cached responses between clients', async () => {
+    const first = createAPIClient({ cache: true });
+    const second = createAPIClient({ cache: true });
+
+    await first.get('/settings');
+    const cached = await first.get('/settings');
+    const other = await second.get('/settings');
+
+    expect(cached.cached).toBe(true);
+    expect(other.cached).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses an injected cache store', async () => {
+    const cacheStore = createCacheStore();
+    const client = createAPIClient({ cache: true, cacheStore });
+
+    await client.get('/settings');
+
+    expect(cacheStore.size()).toBe(1);
+    client.clearCache();
+    expect(cacheStore.size()).toBe(0);
+  });
+
+  it('returns stale data and revalidates in the background', async () => {
+    vi.useFakeTimers();
+    const client = createAPIClient({ cache: { ttl: 1000, staleWhileRevalidate: true } });
+
+    await client.get('/settings');
+    vi.advanceTimersByTime(1500);
+
+    const stale = await client.get<{ version: number }>('/settings');
+    expect(stale.data).toEqual({ version: 1 });
+    expect(stale.stale).toBe(true);
+
+    const fresh = await stale.revalidation!;
+    expect(fresh.data).toEqual({ version: 2 });
+
+    const cached = await client.get<{ version: number }>('/settings');
+    expect(cached).toMatchObject({ data: { version: 2 }, cached: true });
+    expect(cached.stale).toBeUndefined();
+  });
+
+  it('dispatches the stale and then the refreshed response from Effect.api', async () => {
+    vi.useFakeTimers();
+    const client = createAPIClient({ cache: { ttl: 1000, staleWhileRevalidate: true } });
+    await client.get('/settings');
+    vi.advanceTimersByTime(1500);
+
+    const effect = api(
+      client,
+      { method: 'GET', url: '/settings' },
+      (res) => ({ type: 'loaded', data: res.data, stale: res.stale ?? false }),
+      (error) => ({ type: 'failed', error: error.message })
+    );
+    const dispatched: unknown[] = [];
+    if (effect._tag === 'Run') {
+      await effect.execute((action) => dispatched.push(action));
+    }
+
+    expect(dispatched).toEqual([
+      { type: 'loaded', data: { version: 1 }, stale: true },
+      { type: 'loaded', data: { version: 2 }, stale: false }
+    ]);
+  });
+});
@@ -6,8 +6,11 @@ import { describe, it, expect } from 'vitest';
 import {
   createRESTEndpoints,
   createPaginatedEndpoints,
+  createCursorEndpoints,
+  createLinkEndpoints,
   createSearchEndpoints,
-  createFullEndpoints
+  createFullEndpoints,
+  parseLinkHeader
 } from '../../src/lib/api/endpoints.js';
 
 describe('createRESTEndpoints', () => {
@@ -181,6 +184,69 @@ describe('createPaginatedEndpoints', () => {
   });
 });
 
+describe('createCursorEndpoints', () => {
+  interface Event {
+    id: string;
+  }
+
+  it('creates GET request with cursor parameters', () => {
+    const endpoints = createCursorEndpoints<Event>('/api/events');
+    const request = endpoints.listCursor({ cursor: 'abc', limit: 50 });
+
+    expect(request.method).toBe('GET');
+    expect(request.url).toBe('/api/events');
+    expect(request.config?.params).toEqual({ cursor: 'abc', limit: 50 });
+  });
+
+  it('uses custom parameter names', () => {
+    const endpoints = createCursorEndpoints<Event>('/api/events', { cursorParam: 'after', limitParam: 'first' });
+    const request = endpoints.listCursor({ cursor: 'abc', limit: 50 }, { params: { type: 'login' } });
+
+    expect(request.config?.params).toEqual({ type: 'login', after: 'abc', first: 50 });
+  });
+});
+
+describe('createLinkEndpoints', () => {
+  interface Issue {
+    id: string;
+  }
+
+  it('requests the base path, then the given next URL', () => {
+    const endpoints = createLinkEndpoints<Issue>('/repos/acme/app/issues');
+
+    expect(endpoints.listPage().url).toBe('/repos/acme/app/issues');
+    expect(endpoints.listPage('https://api.example.com/issues?page=2').url).toBe(
+      'https://api.example.com/issues?page=2'
+    );
+  });
+});
+
+describe('parseLinkHeader', () => {
+  it('maps rel values to URLs', () => {
+    const header =
+      '<https://api.example.com/issues?page=2>; rel="next", <https://api.example.com/issues?page=5>; rel="last"';
+
+    expect(parseLinkHeader(header)).toEqual({
+      next: 'https://api.example.com/issues?page=2',
+      last: 'https://api.example.com/issues?page=5'
+    });
+  });
+
+  it('handles unquoted, multiple and extra parameters', () => {
+    const header = '</items?after=9>; title="More"; rel=next, </items>; rel="first prev"';
+
+    expect(parseLinkHeader(header)).toEqual({
+      next: '/items?after=9',
+      first: '/items',
+      prev: '/items'
+    });
+  });
+
+  it('returns an empty map without a header', () => {
+    expect(parseLinkHeader(undefined)).toEqual({});
+  });
+});
+
 describe('createSearchEndpoints', () => {
   interface Product {
     id: string;
@@ -0,0 +1,239 @@
+// ============================================================================
+// GraphQL Client Tests
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createGraphQLClient,
+  GraphQL,
+  graphql,
+  graphqlSubscription,
+  type GraphQLWSMessage
+} from '../../src/lib/api/graphql.js';
+import { createMockAPI } from '../../src/lib/api/testing/mock-client.js';
+import { APIError, ValidationError } from '../../src/lib/api/errors.js';
+import { createMockWebSocket } from '../../src/lib/websocket/testing/mock-client.js';
+import type { RequestConfig } from '../../src/lib/api/types.js';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const GetUser = GraphQL.query<{ user: User }, { id: string }>(`
+  query GetUser($id: ID!) { user(id: $id) { id name } }
+`);
+
+const RenameUser = GraphQL.mutation<{ renameUser: User }, { id: string; name: string }>(`
+  mutation RenameUser($id: ID!, $name: String!) { renameUser(id: $id, name: $name) { id name } }
+`);
+
+const OnUserRenamed = GraphQL.subscription<{ userRenamed: User }>(`
+  subscription OnUserRenamed { userRenamed { id name } }
+`);
+
+function respond(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('GraphQL operations', () => {
+  it('reads the operation name from the document', () => {
+    expect(GetUser).toMatchObject({ kind: 'query', operationName: 'GetUser' });
+    expect(GraphQL.query('{ viewer { id } }').operationName).toBeUndefined();
+  });
+});
+
+describe('createGraphQLClient()', () => {
+  it('posts the operation and returns typed data', async () => {
+    const route = vi.fn((config: RequestConfig) => ({
+      data: { user: { id: (config.body as { variables: { id: string } }).variables.id, name: 'Ann' } }
+    }));
+    const client = createGraphQLClient({ client: createMockAPI({ 'POST /graphql': route }) });
+
+    const response = await client.request(GetUser, { id: '7' });
+
+    expect(response.data.user).toEqual({ id: '7', name: 'Ann' });
+    expect(response.errors).toEqual([]);
+    expect(route.mock.calls[0]?.[0].body).toEqual({
+      query: GetUser.document,
+      variables: { id: '7' },
+      operationName: 'GetUser'
+    });
+  });
+
+  it('turns BAD_USER_INPUT errors into a ValidationError', async () => {
+    const client = createGraphQLClient({
+      client: createMockAPI({
+        'POST /graphql': {
+          data: null,
+          errors: [
+            { message: 'Name is too short', path: ['renameUser'], extensions: { code: 'BAD_USER_INPUT', field: 'name' } }
+          ]
+        }
+      })
+    });
+
+    const error = await client.request(RenameUser, { id: '1', name: 'A' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).status).toBe(422);
+    expect((error as ValidationError).getErrorsForField('name')).toEqual([
+      { field: 'name', message: 'Name is too short', code: 'BAD_USER_INPUT' }
+    ]);
+  });
+
+  it('maps error codes to statuses and keeps the response body', async () => {
+    const body = { data: null, errors: [{ message: 'Sign in first', extensions: { code: 'UNAUTHENTICATED' } }] };
+    const client = createGraphQLClient({ client: createMockAPI({ 'POST /graphql': body }) });
+
+    const error = await client.request(GetUser, { id: '1' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error).toMatchObject({ message: 'Sign in first', status: 401, body });
+  });
+
+  it('returns partial data with errorPolicy "all"', async () => {
+    const errors = [{ message: 'Avatar service down', path: ['user', 'avatar'] }];
+    const client = createGraphQLClient({
+      errorPolicy: 'all',
+      client: createMockAPI({ 'POST /graphql': { data: { user: { id: '1', name: 'Ann' } }, errors } })
+    });
+
+    const response = await client.request(GetUser, { id: '1' });
+
+    expect(response.data.user.name).toBe('Ann');
+    expect(response.errors).toEqual(errors);
+  });
+
+  it('rejects subscriptions', async () => {
+    const client = createGraphQLClient({ client: createMockAPI({}) });
+
+    await expect(client.request(OnUserRenamed)).rejects.toThrow(TypeError);
+  });
+});
+
+describe('createGraphQLClient() transport', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => respond({ data: { renameUser: { id: '1', name: 'Bo' } } }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('runs interceptors of the API client', async () => {
+    const client = createGraphQLClient({ baseURL: 'https://api.example.com' });
+    client.addInterceptor({
+      onRequest: (_url, config) => ({ ...config, headers: { ...config.headers, Authorization: 'Bearer t' } })
+    });
+
+    await client.request(RenameUser, { id: '1', name: 'Bo' });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://api.example.com/graphql');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer t');
+  });
+
+  it('deduplicates identical queries but not mutations', async () => {
+    const client = createGraphQLClient();
+
+    await Promise.all([client.request(GetUser, { id: '1' }), client.request(GetUser, { id: '1' })]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await Promise.all([
+      client.request(RenameUser, { id: '1', name: 'Bo' }),
+      client.request(RenameUser, { id: '1', name: 'Bo' })
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('normalizes errors of 400 responses', async () => {
+    fetchMock.mockResolvedValue(
+      respond({ errors: [{ message: 'Cannot query field "email"', extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } }] }, 400)
+    );
+    const client = createGraphQLClient();
+
+    await expect(client.request(GetUser, { id: '1' })).rejects.toMatchObject({
+      message: 'Cannot query field "email"',
+      status: 400
+    });
+  });
+});
+
+describe('Effect.graphql()', () => {
+  it('dispatches the data or the normalized error', async () => {
+    const client = createGraphQLClient({
+      client: createMockAPI({
+        'POST /graphql': (config: RequestConfig) => {
+          const { id } = (config.body as { variables: { id: string } }).variables;
+          return id === '1'
+            ? { data: { user: { id, name: 'Ann' } } }
+            : { data: null, errors: [{ message: 'No such user', extensions: { code: 'NOT_FOUND' } }] };
+        }
+      })
+    });
+    const dispatched: unknown[] = [];
+    const run = async (id: string) => {
+      const effect = graphql(
+        client,
+        GetUser,
+        { id },
+        (data) => ({ type: 'loaded', name: data.user.name }),
+        (error) => ({ type: 'failed', status: error.status })
+      );
+      if (effect._tag === 'Run') await effect.execute((action) => dispatched.push(action));
+    };
+
+    await run('1');
+    await run('2');
+
+    expect(dispatched).toEqual([
+      { type: 'loaded', name: 'Ann' },
+      { type: 'failed', status: 404 }
+    ]);
+  });
+});
+
+describe('Effect.graphqlSubscription()', () => {
+  it('subscribes over the socket, dispatches results and completes on cleanup', async () => {
+    const socket = createMockWebSocket<GraphQLWSMessage>();
+    await socket.connect('wss://api.example.com/graphql');
+
+    const effect = graphqlSubscription(
+      socket,
+      'renames',
+      OnUserRenamed,
+      {},
+      (data) => ({ type: 'renamed', name: data.userRenamed.name }),
+      (error) => ({ type: 'failed', message: error.message })
+    );
+    const dispatched: unknown[] = [];
+    if (effect._tag !== 'Subscription') throw new Error('Expected a subscription effect');
+    const cleanup = effect.setup((action) => dispatched.push(action));
+    await vi.waitFor(() => expect(socket.sentMessages).toHaveLength(1));
+
+    expect(socket.sentMessages[0]).toEqual({
+      id: 'renames',
+      type: 'subscribe',
+      payload: { query: OnUserRenamed.document, variables: {}, operationName: 'OnUserRenamed' }
+    });
+
+    socket.simulateMessage({ id: 'renames', type: 'next', payload: { data: { userRenamed: { id: '1', name: 'Bo' } } } });
+    socket.simulateMessage({ id: 'other', type: 'next', payload: { data: {} } });
+    socket.simulateMessage({ id: 'renames', type: 'error', payload: [{ message: 'Subscription closed' }] });
+
+    expect(dispatched).toEqual([
+      { type: 'renamed', name: 'Bo' },
+      { type: 'failed', message: 'Subscription closed' }
+    ]);
+
+    await cleanup();
+    expect(socket.sentMessages[1]).toEqual({ id: 'renames', type: 'complete' });
+
+    socket.simulateMessage({ id: 'renames', type: 'next', payload: { data: { userRenamed: { id: '1', name: 'Cy' } } } });
+    expect(dispatched).toHaveLength(2);
+  });
+});
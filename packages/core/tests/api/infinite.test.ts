@@ -0,0 +1,215 @@
+// ============================================================================
+// createInfiniteList() Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Effect } from '../../src/lib/effect.js';
+import { createTestStore } from '../../src/lib/test/test-store.js';
+import { createMockAPI } from '../../src/lib/api/testing/mock-client.js';
+import { createAPIClient } from '../../src/lib/api/client.js';
+import { createCursorEndpoints, createLinkEndpoints } from '../../src/lib/api/endpoints.js';
+import { invalidateQueries } from '../../src/lib/api/query.js';
+import {
+  createInfiniteList,
+  createInfiniteListState,
+  loadFirstPage,
+  loadNextPage,
+  getCursorPage,
+  getLinkPage,
+  appendPage,
+  type InfiniteListState
+} from '../../src/lib/api/infinite.js';
+import type { APIClient, MockRoutes, RequestConfig } from '../../src/lib/api/index.js';
+import type { Reducer } from '../../src/lib/types.js';
+
+interface Event {
+  id: string;
+  name: string;
+}
+
+interface State {
+  events: InfiniteListState<Event>;
+}
+
+interface Deps {
+  api: APIClient;
+}
+
+const events = createCursorEndpoints<Event>('/events');
+
+const featureReducer: Reducer<State, never, Deps> = (state) => [state, Effect.none()];
+
+const eventsReducer = createInfiniteList(featureReducer, {
+  key: 'events',
+  get: (state: State) => state.events,
+  set: (state: State, list) => ({ ...state, events: list }),
+  client: (deps: Deps) => deps.api,
+  request: (cursor) => events.listCursor({ cursor, limit: 2 }),
+  getPage: getCursorPage
+});
+
+/**
+ * Three pages; the second repeats an event that moved while paginating.
+ */
+const pages: Record<string, { data: Event[]; nextCursor: string | null }> = {
+  first: { data: [{ id: '1', name: 'a' }, { id: '2', name: 'b' }], nextCursor: 'c2' },
+  c2: { data: [{ id: '2', name: 'b (edited)' }, { id: '3', name: 'c' }], nextCursor: 'c3' },
+  c3: { data: [{ id: '4', name: 'd' }], nextCursor: null }
+};
+
+function createEventsStore(routes: MockRoutes = {
+  'GET /events': (config: RequestConfig) => pages[String(config.params?.['cursor'] ?? 'first')]
+}) {
+  return createTestStore({
+    initialState: { events: createInfiniteListState<Event>() } as State,
+    reducer: eventsReducer,
+    dependencies: { api: createMockAPI(routes) }
+  });
+}
+
+describe('createInfiniteList()', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('appends pages, dedupes by id and tracks hasNextPage', async () => {
+    const store = createEventsStore();
+
+    await store.send(loadNextPage('events'), { events: { status: 'loading' } });
+    await store.receive({ type: 'infinite/pageLoaded' }, {
+      events: { status: 'success', nextCursor: 'c2', hasNextPage: true }
+    });
+
+    await store.send(loadNextPage('events'), { events: { isFetchingNextPage: true } });
+    await store.receive({ type: 'infinite/pageLoaded' });
+
+    await store.send(loadNextPage('events'));
+    await store.receive({ type: 'infinite/pageLoaded' }, (state) => {
+      expect(state.events.items).toEqual([
+        { id: '1', name: 'a' },
+        { id: '2', name: 'b (edited)' },
+        { id: '3', name: 'c' },
+        { id: '4', name: 'd' }
+      ]);
+      expect(state.events.hasNextPage).toBe(false);
+      expect(state.events.isFetchingNextPage).toBe(false);
+    });
+
+    await store.send(loadNextPage('events'));
+    store.expectNoEffects();
+  });
+
+  it('ignores loadNext while a page is loading', async () => {
+    const store = createEventsStore();
+
+    await store.send(loadFirstPage('events'));
+    await store.send(loadNextPage('events'));
+    store.expectNoEffects();
+    await store.receive({ type: 'infinite/pageLoaded' });
+  });
+
+  it('replaces the items when the first page is reloaded', async () => {
+    const store = createEventsStore();
+
+    await store.send(loadFirstPage('events'));
+    await store.receive({ type: 'infinite/pageLoaded' });
+    await store.send(loadNextPage('events'));
+    await store.receive({ type: 'infinite/pageLoaded' });
+
+    await store.send(invalidateQueries(['events']), { events: { status: 'success' } });
+    await store.receive({ type: 'infinite/pageLoaded' }, (state) => {
+      expect(state.events.items.map((event) => event.id)).toEqual(['1', '2']);
+      expect(state.events.nextCursor).toBe('c2');
+    });
+  });
+
+  it('drops a next page that arrives after the first page was reloaded', async () => {
+    vi.useFakeTimers();
+    const store = createEventsStore({
+      'GET /events': (config: RequestConfig) =>
+        config.params?.['cursor'] === 'c2'
+          ? new Promise((resolve) => setTimeout(() => resolve(pages['c2']), 1000))
+          : pages['first']
+    });
+
+    await store.send(loadFirstPage('events'));
+    await store.receive({ type: 'infinite/pageLoaded' });
+    await store.send(loadNextPage('events'), { events: { isFetchingNextPage: true } });
+
+    await store.send(loadFirstPage('events'), { events: { isFetchingNextPage: false } });
+    await store.receive({ type: 'infinite/pageLoaded' });
+
+    await store.advanceTime(1000);
+    await store.receive({ type: 'infinite/pageLoaded' }, (state) => {
+      expect(state.events.items.map((event) => event.id)).toEqual(['1', '2']);
+      expect(state.events.nextCursor).toBe('c2');
+    });
+  });
+
+  it('keeps loaded items when a later page fails', async () => {
+    let fail = false;
+    const store = createEventsStore({
+      'GET /events': () => {
+        if (fail) throw new Error('Gateway timeout');
+        return pages['first'];
+      }
+    });
+
+    await store.send(loadFirstPage('events'));
+    await store.receive({ type: 'infinite/pageLoaded' });
+
+    fail = true;
+    await store.send(loadNextPage('events'));
+    await store.receive({ type: 'infinite/pageFailed' }, (state) => {
+      expect(state.events.status).toBe('success');
+      expect(state.events.error?.message).toBe('Gateway timeout');
+      expect(state.events.items).toHaveLength(2);
+      expect(state.events.hasNextPage).toBe(true);
+    });
+  });
+});
+
+describe('appendPage()', () => {
+  it('updates existing items in place and drops duplicates within a page', () => {
+    const items = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }];
+    const page = [{ id: 'b', v: 2 }, { id: 'c', v: 1 }, { id: 'c', v: 2 }];
+
+    expect(appendPage(items, page, (item) => item.id)).toEqual([
+      { id: 'a', v: 1 },
+      { id: 'b', v: 2 },
+      { id: 'c', v: 2 }
+    ]);
+  });
+});
+
+describe('Link header pagination', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('follows rel="next" URLs through the client', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const last = url.includes('page=2');
+      return new Response(JSON.stringify(last ? [{ id: '3' }] : [{ id: '1' }, { id: '2' }]), {
+        headers: {
+          'content-type': 'application/json',
+          ...(!last && { link: '<https://cdn.example.com/issues?page=2>; rel="next"' })
+        }
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createAPIClient({ baseURL: 'https://api.example.com' });
+    const issues = createLinkEndpoints<{ id: string }>('/issues');
+
+    const first = getLinkPage(await client.request(issues.listPage()));
+    expect(first.nextCursor).toBe('https://cdn.example.com/issues?page=2');
+
+    const second = getLinkPage(await client.request(issues.listPage(first.nextCursor)));
+    expect(second).toEqual({ items: [{ id: '3' }], nextCursor: null });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.example.com/issues',
+      'https://cdn.example.com/issues?page=2'
+    ]);
+  });
+});
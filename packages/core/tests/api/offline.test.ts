@@ -0,0 +1,215 @@
+// ============================================================================
+// Offline Mutation Queue Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createOfflineAPIClient, offlineQueue } from '../../src/lib/api/offline.js';
+import type { NetworkStatus, OfflineQueueEvent, QueuedRequest } from '../../src/lib/api/offline.js';
+import { createMockAPI } from '../../src/lib/api/testing/mock-client.js';
+import { APIError, NetworkError, SchemaMismatchError } from '../../src/lib/api/errors.js';
+import { createLocalStorage } from '../../src/lib/dependencies/local-storage.js';
+import type { MockRoutes } from '../../src/lib/api/testing/mock-client.js';
+import type { RequestConfig } from '../../src/lib/api/types.js';
+
+function createNetwork(online: boolean) {
+  const listeners = new Set<(online: boolean) => void>();
+  const network: NetworkStatus & { set(value: boolean): void } = {
+    isOnline: () => online,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    set(value) {
+      online = value;
+      listeners.forEach((listener) => listener(value));
+    }
+  };
+  return network;
+}
+
+function setup(routes: MockRoutes, online = false) {
+  const api = createMockAPI(routes);
+  const network = createNetwork(online);
+  const storage = createLocalStorage<QueuedRequest[]>({ prefix: 'test:' });
+  const client = createOfflineAPIClient(api, { storage, network });
+  const events: OfflineQueueEvent[] = [];
+  client.subscribeToEvents((event) => events.push(event));
+  return { client, network, storage, events };
+}
+
+describe('createOfflineAPIClient()', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('queues mutations while offline and persists them', async () => {
+    const { client, storage, events } = setup({});
+
+    const response = await client.post('/todos', { title: 'Buy milk' });
+
+    expect(response.status).toBe(202);
+    expect(response.queuedId).toEqual(expect.any(String));
+    expect(storage.getItem('offline-queue')).toEqual([
+      {
+        id: response.queuedId,
+        method: 'POST',
+        url: '/todos',
+        config: { headers: { 'Idempotency-Key': response.queuedId }, body: { title: 'Buy milk' } },
+        queuedAt: expect.any(Number)
+      }
+    ]);
+    expect(events).toEqual([{ type: 'queued', request: client.queue[0] }]);
+  });
+
+  it('passes safe methods through while offline', async () => {
+    const { client } = setup({ 'GET /todos': [] });
+
+    await expect(client.get('/todos')).resolves.toMatchObject({ status: 200, data: [] });
+    expect(client.queue).toEqual([]);
+  });
+
+  it('replays queued requests in order when the network comes back', async () => {
+    const received: string[] = [];
+    const record = (config: RequestConfig) => {
+      received.push((config.body as { title: string }).title);
+      return { ok: true };
+    };
+    const { client, network, events } = setup({ 'POST /todos': record, 'PATCH /todos/1': record });
+
+    await client.post('/todos', { title: 'first' });
+    await client.patch('/todos/1', { title: 'second' });
+    await client.post('/todos', { title: 'third' });
+
+    network.set(true);
+    await client.replay();
+
+    expect(received).toEqual(['first', 'second', 'third']);
+    expect(client.queue).toEqual([]);
+    expect(events.filter((event) => event.type === 'replayed')).toHaveLength(3);
+    expect(events.at(-1)).toMatchObject({
+      type: 'replayed',
+      request: { method: 'POST', url: '/todos' },
+      response: { data: { ok: true } }
+    });
+  });
+
+  it('deduplicates requests by idempotency key', async () => {
+    const { client, events } = setup({});
+    const headers = { 'idempotency-key': 'order-42' };
+
+    const first = await client.post('/orders', { total: 10 }, { headers });
+    const second = await client.post('/orders', { total: 10 }, { headers });
+
+    expect(first.queuedId).toBe('order-42');
+    expect(second.queuedId).toBe('order-42');
+    expect(client.queue).toHaveLength(1);
+    expect(client.queue[0]?.config.headers).toEqual(headers);
+    expect(events).toHaveLength(1);
+  });
+
+  it('keeps the queue when a replay hits a network error', async () => {
+    let down = true;
+    const { client, network, events } = setup({
+      'DELETE /todos/1': () => {
+        if (down) throw new NetworkError('Network request failed');
+        return null;
+      }
+    });
+
+    await client.delete('/todos/1');
+    network.set(true);
+    await client.replay();
+
+    expect(client.queue).toHaveLength(1);
+    expect(events.map((event) => event.type)).toEqual(['queued']);
+
+    down = false;
+    await client.replay();
+    expect(client.queue).toEqual([]);
+  });
+
+  it('drops requests rejected by the server and reports them as failed', async () => {
+    const { client, network, events } = setup({
+      'POST /todos': { error: new APIError('Conflict', 409, null, {}, false) },
+      'PUT /todos/2': { title: 'ok' }
+    });
+
+    await client.post('/todos', { title: 'dup' });
+    await client.put('/todos/2', { title: 'ok' });
+    network.set(true);
+    await client.replay();
+
+    expect(client.queue).toEqual([]);
+    expect(events.map((event) => event.type)).toEqual(['queued', 'queued', 'failed', 'replayed']);
+    expect(events[2]).toMatchObject({ type: 'failed', error: { status: 409 } });
+  });
+
+  it('queues mutations that fail with a network error while online', async () => {
+    const { client } = setup({ 'POST /todos': { error: new NetworkError('Network request failed') } }, true);
+
+    const response = await client.post('/todos', { title: 'Buy milk' });
+
+    expect(response.status).toBe(202);
+    expect(client.queue).toHaveLength(1);
+  });
+
+  it('sends mutations directly while online', async () => {
+    const handler = vi.fn((config: RequestConfig) => config.headers);
+    const { client } = setup({ 'POST /todos': handler }, true);
+
+    const response = await client.post('/todos', { title: 'Buy milk' });
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ 'Idempotency-Key': expect.any(String) });
+    expect(client.queue).toEqual([]);
+  });
+
+  it('validates request bodies before queueing', async () => {
+    const { client } = setup({});
+
+    await expect(
+      client.post('/todos', { title: '' }, { requestSchema: z.object({ title: z.string().min(1) }) })
+    ).rejects.toBeInstanceOf(SchemaMismatchError);
+    expect(client.queue).toEqual([]);
+  });
+
+  it('replays requests left over from a previous session', async () => {
+    const handler = vi.fn(() => ({ ok: true }));
+    const offline = setup({});
+    await offline.client.post('/todos', { title: 'Buy milk' });
+    offline.client.dispose();
+
+    const api = createMockAPI({ 'POST /todos': handler });
+    const client = createOfflineAPIClient(api, {
+      storage: offline.storage,
+      network: createNetwork(true)
+    });
+
+    await vi.waitFor(() => expect(client.queue).toEqual([]));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Effect.offlineQueue()', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('dispatches actions for queue events until cleaned up', async () => {
+    const { client } = setup({});
+    const effect = offlineQueue(client, 'offline', (event) =>
+      event.type === 'queued' ? { type: 'todoPending', id: event.request.id } : null
+    );
+    const dispatched: unknown[] = [];
+    if (effect._tag !== 'Subscription') throw new Error('Expected a subscription effect');
+    const cleanup = effect.setup((action) => dispatched.push(action));
+
+    const response = await client.post('/todos', { title: 'Buy milk' });
+    expect(dispatched).toEqual([{ type: 'todoPending', id: response.queuedId }]);
+
+    await cleanup();
+    await client.post('/todos', { title: 'Buy eggs' });
+    expect(dispatched).toHaveLength(1);
+  });
+});
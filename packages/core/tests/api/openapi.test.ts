@@ -0,0 +1,233 @@
+// ============================================================================
+// OpenAPI Mock Tests
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  createOpenAPIRoutes,
+  createOpenAPIMock,
+  createOpenAPIEndpoints,
+  parseOpenAPI,
+  validateSchema,
+  ContractError,
+  type OpenAPIDocument
+} from '../../src/lib/api/testing/openapi.js';
+import { createMockAPI } from '../../src/lib/api/testing/mock-client.js';
+import { APIError } from '../../src/lib/api/errors.js';
+
+const SPEC: OpenAPIDocument = {
+  openapi: '3.0.3',
+  paths: {
+    '/users': {
+      get: {
+        operationId: 'listUsers',
+        responses: {
+          '200': {
+            description: 'All users',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+                example: [{ id: '1', name: 'Ann', email: 'ann@example.com' }]
+              }
+            }
+          }
+        }
+      },
+      post: {
+        operationId: 'createUser',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': { schema: { $ref: '#/components/schemas/User' } }
+          }
+        },
+        responses: {
+          '201': {
+            description: 'Created',
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/User' } }
+            }
+          }
+        }
+      }
+    },
+    '/users/{id}': {
+      get: {
+        operationId: 'getUser',
+        responses: {
+          '200': {
+            description: 'One user',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/User' },
+                examples: {
+                  ann: { value: { id: '1', name: 'Ann', email: 'ann@example.com', role: 'admin' } }
+                }
+              }
+            }
+          }
+        }
+      },
+      delete: {
+        operationId: 'deleteUser',
+        responses: {
+          '204': { description: 'Deleted' }
+        }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        required: ['id', 'name', 'email'],
+        properties: {
+          id: { type: 'string', readOnly: true },
+          name: { type: 'string', minLength: 1 },
+          email: { type: 'string', format: 'email' },
+          role: { type: 'string', enum: ['admin', 'member'], nullable: true },
+          bio: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+describe('parseOpenAPI', () => {
+  it('accepts JSON source and parsed documents', () => {
+    const fromJSON = parseOpenAPI(JSON.stringify(SPEC));
+
+    expect(fromJSON.openapi).toBe('3.0.3');
+    expect(Object.keys(fromJSON.paths)).toEqual(['/users', '/users/{id}']);
+    expect(parseOpenAPI(fromJSON)).toBe(fromJSON);
+  });
+
+  it('asks for YAML source to be parsed first', () => {
+    expect(() => parseOpenAPI('openapi: 3.0.3\npaths: {}')).toThrow(/parse YAML documents first/);
+  });
+
+  it('rejects documents that are not OpenAPI 3', () => {
+    expect(() => parseOpenAPI({ swagger: '2.0', paths: {} })).toThrow(TypeError);
+  });
+});
+
+describe('createOpenAPIRoutes', () => {
+  it('generates routes answering with the examples of the document', async () => {
+    const routes = createOpenAPIRoutes(SPEC, { basePath: '/api' });
+    const api = createMockAPI(routes);
+
+    expect(Object.keys(routes)).toEqual([
+      'GET /api/users',
+      'POST /api/users',
+      'GET /api/users/:id',
+      'DELETE /api/users/:id'
+    ]);
+    expect((await api.get('/api/users')).data).toEqual([{ id: '1', name: 'Ann', email: 'ann@example.com' }]);
+    expect((await api.get('/api/users/1')).data).toMatchObject({ role: 'admin' });
+    expect((await api.delete('/api/users/1')).data).toBeUndefined();
+  });
+
+  it('builds responses from the schema when there is no example', async () => {
+    const api = createOpenAPIMock(SPEC);
+
+    const response = await api.post('/users', { name: 'Bo', email: 'bo@example.com' });
+
+    expect(response.data).toEqual({
+      id: 'string',
+      name: 'string',
+      email: 'user@example.com',
+      role: 'admin',
+      bio: 'string'
+    });
+  });
+
+  it('rejects request bodies that drift from the contract', async () => {
+    const api = createOpenAPIMock(SPEC);
+
+    const error = await api.post('/users', { name: '', email: 'nope', role: 'owner' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ContractError);
+    expect((error as ContractError).operation).toBe('POST /users');
+    expect((error as ContractError).violations).toEqual([
+      { path: '$.name', message: 'must have at least 1 characters' },
+      { path: '$.email', message: 'must be a valid email' },
+      { path: '$.role', message: 'must be one of "admin", "member"' }
+    ]);
+    await expect(api.post('/users')).rejects.toThrow('Request body of POST /users is required');
+  });
+
+  it('applies overrides by route or operationId and validates them', async () => {
+    const api = createOpenAPIMock(SPEC, {
+      overrides: {
+        getUser: (_config, params) => ({ id: params.id, name: 'Cy', email: 'cy@example.com', role: null }),
+        'GET /users': [{ id: '2', name: 'Di' }],
+        deleteUser: { error: new APIError('Forbidden', 403) }
+      }
+    });
+
+    expect((await api.get('/users/7')).data).toEqual({ id: '7', name: 'Cy', email: 'cy@example.com', role: null });
+    await expect(api.get('/users')).rejects.toMatchObject({
+      violations: [{ path: '$[0].email', message: 'is required' }]
+    });
+    await expect(api.delete('/users/7')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('can skip validation', async () => {
+    const api = createOpenAPIMock(SPEC, {
+      validateRequests: false,
+      validateResponses: false,
+      overrides: { listUsers: [{ id: 1 }] }
+    });
+
+    expect((await api.get('/users')).data).toEqual([{ id: 1 }]);
+    await expect(api.post('/users', { name: '' })).resolves.toBeDefined();
+  });
+
+  it('rejects overrides for operations missing from the document', () => {
+    expect(() => createOpenAPIRoutes(SPEC, { overrides: { updateUser: {} } })).toThrow(
+      'Overrides do not match any operation: updateUser'
+    );
+  });
+});
+
+describe('createOpenAPIEndpoints', () => {
+  it('builds requests for operations of the document', () => {
+    const users = createOpenAPIEndpoints<User>(SPEC, '/users', { basePath: '/api' });
+
+    expect(users.get('1')).toEqual({ method: 'GET', url: '/api/users/1' });
+    expect(users.create({ name: 'Ann', email: 'ann@example.com' })).toMatchObject({ method: 'POST', url: '/api/users' });
+  });
+
+  it('throws for missing operations and invalid bodies', () => {
+    const users = createOpenAPIEndpoints<User>(SPEC, '/users');
+
+    expect(() => users.patch('1', { name: 'Bo' })).toThrow('PATCH /users/{id} is not defined in the OpenAPI document');
+    expect(() => users.create({ name: 'Bo' })).toThrow(ContractError);
+  });
+});
+
+describe('validateSchema', () => {
+  it('supports composition, nullable types and additionalProperties', () => {
+    const document = parseOpenAPI({ openapi: '3.1.0', paths: {} });
+    const schema = {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        value: { oneOf: [{ type: 'integer' }, { type: 'string' }] },
+        note: { type: ['string', 'null'] }
+      }
+    } as const;
+
+    expect(validateSchema(document, schema, { value: 1, note: null })).toEqual([]);
+    expect(validateSchema(document, schema, { value: true, extra: 1 })).toEqual([
+      { path: '$.value', message: 'must match exactly one schema of oneOf (matched 0)' },
+      { path: '$.extra', message: 'is not allowed' }
+    ]);
+  });
+});
@@ -0,0 +1,358 @@
+// ============================================================================
+// createQuery() / createMutation() Tests
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Effect } from '../../src/lib/effect.js';
+import { createTestStore } from '../../src/lib/test/test-store.js';
+import { createMockAPI } from '../../src/lib/api/testing/mock-client.js';
+import { Request } from '../../src/lib/api/types.js';
+import {
+  createQuery,
+  createMutation,
+  createQueryState,
+  createMutationState,
+  startQuery,
+  stopQuery,
+  fetchQuery,
+  refetchQuery,
+  invalidateQueries,
+  mutate,
+  resetMutation,
+  type QueryState,
+  type MutationState
+} from '../../src/lib/api/query.js';
+import type { APIClient, MockRoutes } from '../../src/lib/api/index.js';
+import type { Reducer } from '../../src/lib/types.js';
+
+interface Todo {
+  id: string;
+  title: string;
+}
+
+interface State {
+  todos: QueryState<Todo[]>;
+  addTodo: MutationState<Todo, { title: string }, Todo[] | null>;
+  filter: string;
+}
+
+type FeatureAction = { type: 'filterChanged'; filter: string };
+
+interface Deps {
+  api: APIClient;
+}
+
+const featureReducer: Reducer<State, FeatureAction, Deps> = (state, action) => {
+  switch (action.type) {
+    case 'filterChanged':
+      return [{ ...state, filter: action.filter }, Effect.none()];
+  }
+};
+
+function createTodosReducer(options: { staleTime?: number; refetchInterval?: number; refetchOnFocus?: boolean } = {}) {
+  const withTodos = createQuery(featureReducer, {
+    key: 'todos',
+    get: (state: State) => state.todos,
+    set: (state: State, todos) => ({ ...state, todos }),
+    client: (deps: Deps) => deps.api,
+    request: () => Request.get<Todo[]>('/todos'),
+    ...options
+  });
+
+  return createMutation(withTodos, {
+    key: 'addTodo',
+    get: (state: State) => state.addTodo,
+    set: (state: State, addTodo) => ({ ...state, addTodo }),
+    client: (deps: Deps) => deps.api,
+    request: (variables: { title: string }) => Request.post<Todo>('/todos', variables),
+    optimistic: {
+      select: (state) => state.todos.data,
+      restore: (state, data) => ({ ...state, todos: { ...state.todos, data } }),
+      update: (state, variables) => ({
+        ...state,
+        todos: { ...state.todos, data: [...(state.todos.data ?? []), { id: 'pending', ...variables }] }
+      })
+    },
+    invalidates: ['todos']
+  });
+}
+
+function createTodosStore(routes: MockRoutes, options?: Parameters<typeof createTodosReducer>[0]) {
+  return createTestStore({
+    initialState: {
+      todos: createQueryState<Todo[]>(),
+      addTodo: createMutationState<Todo, { title: string }, Todo[] | null>(),
+      filter: 'all'
+    } as State,
+    reducer: createTodosReducer(options),
+    dependencies: { api: createMockAPI(routes) }
+  });
+}
+
+describe('createQuery()', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('moves from idle through loading to success', async () => {
+    const store = createTodosStore({ 'GET /todos': [{ id: '1', title: 'Write docs' }] });
+
+    await store.send(fetchQuery('todos'), {
+      todos: { status: 'loading', isFetching: true, data: null }
+    });
+    await store.receive({ type: 'query/succeeded' }, (state) => {
+      expect(state.todos).toMatchObject({
+        status: 'success',
+        data: [{ id: '1', title: 'Write docs' }],
+        error: null,
+        isStale: true,
+        isFetching: false
+      });
+      expect(state.todos.fetchedAt).toEqual(expect.any(Number));
+    });
+  });
+
+  it('stores the error and keeps previous data on failure', async () => {
+    let fail = false;
+    const store = createTodosStore({
+      'GET /todos': () => {
+        if (fail) throw new Error('Server down');
+        return [{ id: '1', title: 'Write docs' }];
+      }
+    });
+
+    await store.send(fetchQuery('todos'));
+    await store.receive({ type: 'query/succeeded' });
+
+    fail = true;
+    await store.send(refetchQuery('todos'), { todos: { status: 'success', isFetching: true } });
+    await store.receive({ type: 'query/failed' }, (state) => {
+      expect(state.todos.status).toBe('error');
+      expect(state.todos.error?.message).toBe('Server down');
+      expect(state.todos.data).toEqual([{ id: '1', title: 'Write docs' }]);
+    });
+  });
+
+  it('keeps stale data when the revalidation fails', async () => {
+    const mock = createMockAPI({ 'GET /todos': [{ id: '1', title: 'Write docs' }] });
+    const api: APIClient = {
+      ...mock,
+      request: async (config) => ({
+        ...(await mock.request(config)),
+        stale: true,
+        revalidation: Promise.reject(new Error('Server down'))
+      })
+    };
+    const store = createTestStore({
+      initialState: {
+        todos: createQueryState<Todo[]>(),
+        addTodo: createMutationState<Todo, { title: string }, Todo[] | null>(),
+        filter: 'all'
+      } as State,
+      reducer: createTodosReducer(),
+      dependencies: { api }
+    });
+
+    await store.send(fetchQuery('todos'));
+    await store.receive({ type: 'query/succeeded' }, { todos: { isStale: true } });
+    await store.receive({ type: 'query/failed' }, {
+      todos: { status: 'success', data: [{ id: '1', title: 'Write docs' }], error: null, isFetching: false }
+    });
+  });
+
+  it('ignores the result of a request stopped while in flight', async () => {
+    vi.useFakeTimers();
+    const store = createTodosStore({ 'GET /todos': { delay: 1000, data: [{ id: '1', title: 'Write docs' }] } });
+
+    await store.send(fetchQuery('todos'));
+    await store.send(stopQuery('todos'), { todos: { isFetching: false } });
+
+    await store.advanceTime(1000);
+    await store.receive({ type: 'query/succeeded' }, { todos: { status: 'loading', data: null, isFetching: false } });
+  });
+
+  it('skips fetching fresh data and marks it stale after staleTime', async () => {
+    vi.useFakeTimers();
+    const store = createTodosStore({ 'GET /todos': [] }, { staleTime: 1000 });
+
+    await store.send(fetchQuery('todos'));
+    await store.receive({ type: 'query/succeeded' }, { todos: { isStale: false } });
+
+    await store.send(fetchQuery('todos'));
+    store.expectNoEffects();
+
+    await store.advanceTime(1000);
+    await store.receive({ type: 'query/stale' }, { todos: { isStale: true } });
+
+    await store.send(fetchQuery('todos'), { todos: { isFetching: true } });
+    await store.receive({ type: 'query/succeeded' });
+  });
+
+  it('polls while started and stops polling on stop', async () => {
+    vi.useFakeTimers();
+    const load = vi.fn(() => []);
+    const store = createTodosStore({ 'GET /todos': load }, { refetchInterval: 5000 });
+
+    await store.send(startQuery('todos'));
+    store.expectEffect({ _tag: 'Subscription', id: 'query:todos:poll' });
+    await store.receive({ type: 'query/succeeded' });
+
+    await store.advanceTime(5000);
+    await store.receive({ type: 'query/refetch' });
+    await store.receive({ type: 'query/succeeded' });
+    expect(load).toHaveBeenCalledTimes(2);
+
+    await store.send(stopQuery('todos'));
+    await store.advanceTime(5000);
+    expect(load).toHaveBeenCalledTimes(2);
+    await store.finish();
+  });
+
+  it('refetches stale data when the window regains focus', async () => {
+    vi.useFakeTimers();
+    const load = vi.fn(() => []);
+    const store = createTodosStore({ 'GET /todos': load }, { refetchOnFocus: true });
+
+    await store.send(startQuery('todos'));
+    await store.receive({ type: 'query/succeeded' });
+
+    window.dispatchEvent(new Event('focus'));
+    await store.receive({ type: 'query/fetch' });
+    await store.receive({ type: 'query/succeeded' });
+    expect(load).toHaveBeenCalledTimes(2);
+
+    await store.send(stopQuery('todos'));
+    await store.finish();
+  });
+
+  it('refetches invalidated queries that have been fetched', async () => {
+    const store = createTodosStore({ 'GET /todos': [] });
+
+    await store.send(invalidateQueries(['todos']));
+    store.expectNoEffects();
+
+    await store.send(fetchQuery('todos'));
+    await store.receive({ type: 'query/succeeded' });
+
+    await store.send(invalidateQueries(['todo*']), { todos: { isStale: true, isFetching: true } });
+    await store.receive({ type: 'query/succeeded' });
+  });
+
+  it('passes other actions to the wrapped reducer', async () => {
+    const store = createTodosStore({});
+
+    await store.send({ type: 'filterChanged', filter: 'done' }, { filter: 'done' });
+  });
+});
+
+describe('createMutation()', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies the optimistic update and invalidates queries on success', async () => {
+    const todos: Todo[] = [];
+    const store = createTodosStore({
+      'GET /todos': () => [...todos],
+      'POST /todos': (config) => {
+        const todo = { id: String(todos.length + 1), ...(config.body as { title: string }) };
+        todos.push(todo);
+        return todo;
+      }
+    });
+
+    await store.send(fetchQuery('todos'));
+    await store.receive({ type: 'query/succeeded' });
+
+    await store.send(mutate('addTodo', { title: 'Ship it' }), (state) => {
+      expect(state.addTodo.status).toBe('loading');
+      expect(state.todos.data).toEqual([{ id: 'pending', title: 'Ship it' }]);
+    });
+    await store.receive({ type: 'mutation/succeeded' }, {
+      addTodo: { status: 'success', data: { id: '1', title: 'Ship it' }, rollback: null }
+    });
+    await store.receive({ type: 'query/invalidate' });
+    await store.receive({ type: 'query/succeeded' }, {
+      todos: { data: [{ id: '1', title: 'Ship it' }] }
+    });
+  });
+
+  it('rolls back the optimistic update on failure', async () => {
+    const store = createTodosStore({
+      'GET /todos': [{ id: '1', title: 'Existing' }],
+      'POST /todos': { error: new Error('Forbidden') }
+    });
+
+    await store.send(fetchQuery('todos'));
+    await store.receive({ type: 'query/succeeded' });
+
+    await store.send(mutate('addTodo', { title: 'Ship it' }));
+    await store.receive({ type: 'mutation/failed' }, (state) => {
+      expect(state.addTodo.status).toBe('error');
+      expect(state.addTodo.error?.message).toBe('Forbidden');
+      expect(state.addTodo.rollback).toBeNull();
+      expect(state.todos.data).toEqual([{ id: '1', title: 'Existing' }]);
+    });
+  });
+
+  it('restores the optimistic update on reset', async () => {
+    const store = createTodosStore({
+      'POST /todos': { delay: 1000, data: { id: '1', title: 'Ship it' } }
+    });
+
+    await store.send(mutate('addTodo', { title: 'Ship it' }));
+    await store.send(resetMutation('addTodo'), (state) => {
+      expect(state.addTodo).toEqual({ ...createMutationState(), requestId: 2 });
+      expect(state.todos.data).toBeNull();
+    });
+    store.expectEffect({ _tag: 'Cancellable', id: 'mutation:addTodo' });
+  });
+
+  it('ignores the result of a mutation reset while pending', async () => {
+    vi.useFakeTimers();
+    const store = createTodosStore({
+      'POST /todos': { delay: 1000, data: { id: '1', title: 'Ship it' } }
+    });
+
+    await store.send(mutate('addTodo', { title: 'Ship it' }));
+    await store.send(resetMutation('addTodo'));
+
+    await store.advanceTime(1000);
+    await store.receive({ type: 'mutation/succeeded' }, (state) => {
+      expect(state.addTodo.status).toBe('idle');
+      expect(state.addTodo.data).toBeNull();
+    });
+  });
+
+  it('ignores a late failure of a superseded mutation', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const store = createTodosStore({
+      'POST /todos': () => {
+        calls++;
+        return calls === 1
+          ? new Promise((_, reject) => setTimeout(() => reject(new Error('Timeout')), 1000))
+          : new Promise((resolve) => setTimeout(() => resolve({ id: '2', title: 'Second' }), 2000));
+      }
+    });
+
+    await store.send(mutate('addTodo', { title: 'First' }));
+    await store.send(mutate('addTodo', { title: 'Second' }));
+
+    await store.advanceTime(1000);
+    await store.receive({ type: 'mutation/failed' }, (state) => {
+      expect(state.addTodo.status).toBe('loading');
+      expect(state.addTodo.error).toBeNull();
+      expect(state.todos.data).toEqual([
+        { id: 'pending', title: 'First' },
+        { id: 'pending', title: 'Second' }
+      ]);
+    });
+
+    await store.advanceTime(1000);
+    await store.receive({ type: 'mutation/succeeded' }, {
+      addTodo: { status: 'success', data: { id: '2', title: 'Second' }, rollback: null }
+    });
+    await store.receive({ type: 'query/invalidate' });
+  });
+});
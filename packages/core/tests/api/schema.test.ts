@@ -0,0 +1,179 @@
+// ============================================================================
+// Request/Response Schema Validation Tests
+// ============================================================================
+
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createAPIClient } from '../../src/lib/api/client.js';
+import { createMockAPI } from '../../src/lib/api/testing/mock-client.js';
+import { APIError, SchemaMismatchError } from '../../src/lib/api/errors.js';
+
+const User = z.object({
+  id: z.number(),
+  name: z.string(),
+  tags: z.array(z.string()).default([])
+});
+
+const CreateUser = z.object({
+  name: z.string().trim().min(1),
+  email: z.email()
+});
+
+describe('SchemaMismatchError', () => {
+  it('is an APIError with path-level issues', () => {
+    const error = new SchemaMismatchError(
+      'response',
+      [{ field: 'items.0.id', message: 'Invalid input: expected number, received string', code: 'invalid_type' }],
+      200,
+      { items: [{ id: '1' }] }
+    );
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.name).toBe('SchemaMismatchError');
+    expect(error.source).toBe('response');
+    expect(error.status).toBe(200);
+    expect(error.isRetryable).toBe(false);
+    expect(error.message).toBe('Response does not match schema: items.0.id: Invalid input: expected number, received string');
+    expect(error.hasErrorForField('items.0.id')).toBe(true);
+    expect(error.getErrorsForField('items')).toEqual([]);
+    expect(error.toJSON()).toMatchObject({ name: 'SchemaMismatchError', source: 'response', errors: error.errors });
+  });
+});
+
+describe('APIClient schema validation', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let payload: unknown;
+
+  beforeEach(() => {
+    payload = { id: 1, name: 'Ann' };
+    fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify(payload), {
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('narrows and parses response data', async () => {
+    const client = createAPIClient();
+
+    const response = await client.get('/users/1', { responseSchema: User });
+
+    expectTypeOf(response.data).toEqualTypeOf<z.infer<typeof User>>();
+    expect(response.data).toEqual({ id: 1, name: 'Ann', tags: [] });
+  });
+
+  it('throws SchemaMismatchError for invalid responses', async () => {
+    payload = { id: '1', name: 'Ann', tags: ['admin', 2] };
+    const client = createAPIClient();
+
+    const error = await client.get('/users/1', { responseSchema: User }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(error.source).toBe('response');
+    expect(error.status).toBe(200);
+    expect(error.body).toEqual(payload);
+    expect(error.errors.map((e: { field: string }) => e.field)).toEqual(['id', 'tags.1']);
+  });
+
+  it('does not cache invalid responses', async () => {
+    payload = { id: '1', name: 'Ann' };
+    const client = createAPIClient({ cache: true });
+
+    await expect(client.get('/users/1', { responseSchema: User })).rejects.toBeInstanceOf(SchemaMismatchError);
+
+    payload = { id: 1, name: 'Ann' };
+    const response = await client.get('/users/1', { responseSchema: User });
+
+    expect(response.cached).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates the cache when a mutation response does not match its schema', async () => {
+    const client = createAPIClient({ cache: true });
+    await client.get('/users');
+
+    payload = { id: '1', name: 'Ann' };
+    await expect(client.post('/users', { name: 'Ann' }, { responseSchema: User })).rejects.toBeInstanceOf(
+      SchemaMismatchError
+    );
+
+    const response = await client.get('/users');
+    expect(response.cached).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('validates cached responses against the caller schema', async () => {
+    const client = createAPIClient({ cache: true });
+
+    await client.get('/users/1');
+    const error = await client
+      .get('/users/1', { responseSchema: z.object({ id: z.string() }) })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry schema mismatches', async () => {
+    payload = { id: '1' };
+    const client = createAPIClient({ retry: { maxRetries: 3, initialDelay: 0 } });
+
+    await expect(client.get('/users/1', { responseSchema: User })).rejects.toBeInstanceOf(SchemaMismatchError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects invalid request bodies before sending', async () => {
+    const client = createAPIClient();
+
+    const error = await client
+      .post('/users', { name: ' ', email: 'nope' }, { requestSchema: CreateUser })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(error.source).toBe('request');
+    expect(error.status).toBeNull();
+    expect(error.errors.map((e: { field: string }) => e.field)).toEqual(['name', 'email']);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('sends the parsed request body', async () => {
+    const client = createAPIClient();
+
+    await client.post('/users', { name: '  Ann ', email: 'ann@example.com' }, { requestSchema: CreateUser });
+
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual({ name: 'Ann', email: 'ann@example.com' });
+  });
+});
+
+describe('createMockAPI() schema validation', () => {
+  it('validates mock responses', async () => {
+    const mockAPI = createMockAPI({
+      'GET /users/1': { id: 1, name: 'Ann' },
+      'GET /users/2': { id: 2 }
+    });
+
+    await expect(mockAPI.get('/users/1', { responseSchema: User })).resolves.toMatchObject({
+      data: { id: 1, name: 'Ann', tags: [] }
+    });
+    await expect(mockAPI.get('/users/2', { responseSchema: User })).rejects.toBeInstanceOf(SchemaMismatchError);
+  });
+
+  it('passes parsed request bodies to route handlers', async () => {
+    const handler = vi.fn((config: { body?: unknown }) => config.body);
+    const mockAPI = createMockAPI({ 'POST /users': handler });
+
+    await mockAPI.post('/users', { name: ' Ann ', email: 'ann@example.com' }, { requestSchema: CreateUser });
+    await expect(
+      mockAPI.post('/users', { name: '', email: 'ann@example.com' }, { requestSchema: CreateUser })
+    ).rejects.toBeInstanceOf(SchemaMismatchError);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]?.[0].body).toEqual({ name: 'Ann', email: 'ann@example.com' });
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createStore } from '../../src/lib/store.svelte.js';
+import { Effect } from '../../src/lib/effect.js';
+import { persist, rehydrate, purge } from '../../src/lib/composition/persist.js';
+import type { PersistEnvelope } from '../../src/lib/composition/persist.js';
+import type { Reducer } from '../../src/lib/types.js';
+import type { SyncStorage, StorageEventListener } from '../../src/lib/dependencies/storage.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+interface TodoState {
+  todos: string[];
+  filter: 'all' | 'done';
+  draft: string;
+}
+
+type TodoAction =
+  | { type: 'added'; text: string }
+  | { type: 'draftChanged'; text: string }
+  | { type: 'filterChanged'; filter: 'all' | 'done' };
+
+const initialState: TodoState = { todos: [], filter: 'all', draft: '' };
+
+const todoReducer: Reducer<TodoState, TodoAction> = (state, action) => {
+  switch (action.type) {
+    case 'added':
+      return [{ ...state, todos: [...state.todos, action.text] }, Effect.none()];
+    case 'draftChanged':
+      return [{ ...state, draft: action.text }, Effect.none()];
+    case 'filterChanged':
+      return [{ ...state, filter: action.filter }, Effect.none()];
+    default:
+      return [state, Effect.none()];
+  }
+};
+
+interface PersistedSlice {
+  todos: string[];
+  filter: 'all' | 'done';
+}
+
+const isPersistedSlice = (value: unknown): value is PersistedSlice =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as PersistedSlice).todos) &&
+  ((value as PersistedSlice).filter === 'all' || (value as PersistedSlice).filter === 'done');
+
+// In-memory SyncStorage with a hook to simulate writes from another tab
+function createMemorySyncStorage() {
+  const items = new Map<string, PersistEnvelope>();
+  const listeners = new Set<StorageEventListener<PersistEnvelope>>();
+
+  const storage: SyncStorage<PersistEnvelope> = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: vi.fn((key: string, value: PersistEnvelope) => {
+      items.set(key, JSON.parse(JSON.stringify(value)));
+    }),
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    keys: () => [...items.keys()],
+    has: (key) => items.has(key),
+    clear: () => items.clear(),
+    size: () => items.size,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+
+  return {
+    storage,
+    items,
+    get listenerCount() {
+      return listeners.size;
+    },
+    emitFromOtherTab(key: string, newValue: PersistEnvelope | null) {
+      const oldValue = items.get(key) ?? null;
+      if (newValue) items.set(key, newValue);
+      listeners.forEach(listener => listener({ key, newValue, oldValue, url: '' }));
+    }
+  };
+}
+
+function createPersistedStore(
+  memory: ReturnType<typeof createMemorySyncStorage>,
+  overrides: Partial<Parameters<typeof persist<TodoState, TodoAction, PersistedSlice>>[1]> = {}
+) {
+  const reducer = persist<TodoState, TodoAction, PersistedSlice>(todoReducer, {
+    key: 'todos',
+    storage: memory.storage,
+    select: (state) => ({ todos: state.todos, filter: state.filter }),
+    validate: isPersistedSlice,
+    debounceMs: 100,
+    ...overrides
+  });
+  return createStore({ initialState, reducer });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('persist', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes the selected slice after the debounce delay', async () => {
+    const memory = createMemorySyncStorage();
+    const store = createPersistedStore(memory);
+
+    store.dispatch({ type: 'added', text: 'a' });
+    store.dispatch({ type: 'added', text: 'b' });
+    expect(memory.storage.setItem).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(memory.storage.setItem).toHaveBeenCalledTimes(1);
+    expect(memory.items.get('todos')).toEqual({
+      version: 0,
+      data: { todos: ['a', 'b'], filter: 'all' }
+    });
+  });
+
+  it('does not write when the slice is unchanged', async () => {
+    const memory = createMemorySyncStorage();
+    const store = createPersistedStore(memory);
+
+    store.dispatch({ type: 'draftChanged', text: 'not persisted' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(memory.storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it('rehydrates stored data and dispatches rehydrated', async () => {
+    const memory = createMemorySyncStorage();
+    memory.items.set('todos', { version: 0, data: { todos: ['saved'], filter: 'done' } });
+    const store = createPersistedStore(memory);
+    const actions: unknown[] = [];
+    store.subscribeToActions!((action) => actions.push(action));
+
+    store.dispatch(rehydrate('todos'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(store.state).toEqual({ todos: ['saved'], filter: 'done', draft: '' });
+    expect(actions).toContainEqual({
+      type: 'persist/rehydrated',
+      key: 'todos',
+      slice: { todos: ['saved'], filter: 'done' },
+      source: 'storage'
+    });
+    // Restoring does not write back
+    await vi.advanceTimersByTimeAsync(100);
+    expect(memory.storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it('drops writes scheduled before rehydration', async () => {
+    const memory = createMemorySyncStorage();
+    memory.items.set('todos', { version: 0, data: { todos: ['saved'], filter: 'all' } });
+    const store = createPersistedStore(memory);
+
+    store.dispatch({ type: 'filterChanged', filter: 'done' });
+    store.dispatch(rehydrate('todos'));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(memory.storage.setItem).not.toHaveBeenCalled();
+    expect(memory.items.get('todos')!.data).toEqual({ todos: ['saved'], filter: 'all' });
+  });
+
+  it('rejects corrupt data', async () => {
+    const memory = createMemorySyncStorage();
+    memory.items.set('todos', { version: 0, data: { todos: 'not-an-array' } });
+    const store = createPersistedStore(memory);
+
+    store.dispatch(rehydrate('todos'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(store.state).toEqual(initialState);
+  });
+
+  it('runs migrations from the stored version', async () => {
+    const memory = createMemorySyncStorage();
+    memory.items.set('todos', { version: 1, data: { items: ['old'] } });
+    const migrateTo2 = vi.fn((data: any) => ({ todos: data.items }));
+    const migrateTo3 = vi.fn((data: any) => ({ ...data, filter: 'all' }));
+    const store = createPersistedStore(memory, {
+      version: 3,
+      migrations: { 1: () => { throw new Error('should not run'); }, 2: migrateTo2, 3: migrateTo3 }
+    });
+
+    store.dispatch(rehydrate('todos'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(migrateTo2).toHaveBeenCalledTimes(1);
+    expect(migrateTo3).toHaveBeenCalledTimes(1);
+    expect(store.state.todos).toEqual(['old']);
+
+    store.dispatch({ type: 'added', text: 'new' });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(memory.items.get('todos')!.version).toBe(3);
+  });
+
+  it('ignores data from a newer version', async () => {
+    const memory = createMemorySyncStorage();
+    memory.items.set('todos', { version: 5, data: { todos: ['future'], filter: 'all' } });
+    const store = createPersistedStore(memory, { version: 2 });
+
+    store.dispatch(rehydrate('todos'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(store.state).toEqual(initialState);
+  });
+
+  it('keeps tabs in sync through SyncStorage events', async () => {
+    const memory = createMemorySyncStorage();
+    const store = createPersistedStore(memory);
+
+    store.dispatch(rehydrate('todos'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(memory.listenerCount).toBe(1);
+
+    memory.emitFromOtherTab('todos', { version: 0, data: { todos: ['from tab 2'], filter: 'all' } });
+    memory.emitFromOtherTab('other-key', { version: 0, data: { todos: ['ignored'], filter: 'all' } });
+
+    expect(store.state.todos).toEqual(['from tab 2']);
+
+    // Synced state is not echoed back to storage
+    await vi.advanceTimersByTimeAsync(100);
+    expect(memory.storage.setItem).not.toHaveBeenCalled();
+
+    store.destroy();
+    expect(memory.listenerCount).toBe(0);
+  });
+
+  it('purges stored data', async () => {
+    const memory = createMemorySyncStorage();
+    const store = createPersistedStore(memory);
+
+    store.dispatch({ type: 'added', text: 'a' });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(memory.items.has('todos')).toBe(true);
+
+    store.dispatch(purge('todos'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(memory.items.has('todos')).toBe(false);
+    expect(store.state.todos).toEqual(['a']);
+  });
+
+  it('ignores persist actions for other keys', () => {
+    const memory = createMemorySyncStorage();
+    const store = createPersistedStore(memory);
+
+    store.dispatch({ type: 'persist/rehydrated', key: 'settings', slice: { todos: ['x'], filter: 'all' }, source: 'storage' });
+
+    expect(store.state).toEqual(initialState);
+  });
+
+  it('rejects negative debounce delays', () => {
+    const memory = createMemorySyncStorage();
+    expect(() => createPersistedStore(memory, { debounceMs: -1 })).toThrow(TypeError);
+  });
+});
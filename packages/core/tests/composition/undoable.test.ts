@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { Effect } from '../../src/lib/effect.js';
+import {
+  undoable,
+  createUndoHistory,
+  canUndo,
+  canRedo
+} from '../../src/lib/composition/undoable.js';
+import { createMockClock, type Clock } from '../../src/lib/dependencies/clock.js';
+import type { UndoHistory } from '../../src/lib/composition/undoable.js';
+import type { Reducer } from '../../src/lib/types.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+interface ShapesState {
+  shapes: Record<string, { x: number; y: number }>;
+  selected: string | null;
+  history: UndoHistory<{ shapes: ShapesState['shapes'] }>;
+}
+
+type ShapesAction =
+  | { type: 'added'; id: string }
+  | { type: 'moved'; id: string; x: number; y: number }
+  | { type: 'selected'; id: string | null }
+  | { type: 'saved' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'beginTransaction' }
+  | { type: 'endTransaction' }
+  | { type: 'clearHistory' };
+
+const initialState: ShapesState = {
+  shapes: {},
+  selected: null,
+  history: createUndoHistory()
+};
+
+const shapesReducer: Reducer<ShapesState, ShapesAction> = (state, action) => {
+  switch (action.type) {
+    case 'added':
+      return [{ ...state, shapes: { ...state.shapes, [action.id]: { x: 0, y: 0 } } }, Effect.none()];
+    case 'moved':
+      return [
+        { ...state, shapes: { ...state.shapes, [action.id]: { x: action.x, y: action.y } } },
+        Effect.none()
+      ];
+    case 'selected':
+      return [{ ...state, selected: action.id }, Effect.none()];
+    case 'saved':
+      return [state, Effect.fireAndForget(() => {})];
+    default:
+      return [state, Effect.none()];
+  }
+};
+
+function createReducer(config: Parameters<typeof undoable<ShapesState, ShapesAction, { shapes: ShapesState['shapes'] }>>[1] = {}) {
+  return undoable<ShapesState, ShapesAction, { shapes: ShapesState['shapes'] }>(shapesReducer, {
+    snapshot: (state) => ({ shapes: state.shapes }),
+    ...config
+  });
+}
+
+function run(
+  reducer: Reducer<ShapesState, ShapesAction>,
+  actions: ShapesAction[],
+  state: ShapesState = initialState,
+  deps?: unknown
+): ShapesState {
+  return actions.reduce((current, action) => reducer(current, action, deps)[0], state);
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('undoable', () => {
+  it('undoes and redoes recorded steps', () => {
+    const reducer = createReducer();
+    const state = run(reducer, [{ type: 'added', id: 'a' }, { type: 'added', id: 'b' }]);
+
+    expect(state.history.past).toHaveLength(2);
+    expect(canUndo(state.history)).toBe(true);
+
+    const undone = run(reducer, [{ type: 'undo' }], state);
+    expect(Object.keys(undone.shapes)).toEqual(['a']);
+    expect(canRedo(undone.history)).toBe(true);
+
+    const redone = run(reducer, [{ type: 'redo' }], undone);
+    expect(Object.keys(redone.shapes)).toEqual(['a', 'b']);
+    expect(canRedo(redone.history)).toBe(false);
+  });
+
+  it('only restores the snapshot', () => {
+    const reducer = createReducer();
+    const state = run(reducer, [
+      { type: 'added', id: 'a' },
+      { type: 'selected', id: 'a' },
+      { type: 'undo' }
+    ]);
+
+    expect(state.shapes).toEqual({});
+    expect(state.selected).toBe('a');
+  });
+
+  it('does not record actions that leave the snapshot unchanged', () => {
+    const reducer = createReducer();
+    const state = run(reducer, [{ type: 'selected', id: 'a' }]);
+
+    expect(state.history.past).toHaveLength(0);
+  });
+
+  it('skips actions rejected by filter', () => {
+    const reducer = createReducer({ filter: (action) => action.type !== 'moved' });
+    const state = run(reducer, [
+      { type: 'added', id: 'a' },
+      { type: 'moved', id: 'a', x: 10, y: 10 }
+    ]);
+
+    expect(state.history.past).toHaveLength(1);
+  });
+
+  it('clears redo stack on a new step', () => {
+    const reducer = createReducer();
+    const state = run(reducer, [
+      { type: 'added', id: 'a' },
+      { type: 'undo' },
+      { type: 'added', id: 'b' }
+    ]);
+
+    expect(canRedo(state.history)).toBe(false);
+  });
+
+  it('coalesces consecutive actions of the same group', () => {
+    const reducer = createReducer({
+      groupBy: (action) => (action.type === 'moved' ? `move:${action.id}` : null)
+    });
+    const state = run(reducer, [
+      { type: 'added', id: 'a' },
+      { type: 'moved', id: 'a', x: 1, y: 1 },
+      { type: 'moved', id: 'a', x: 2, y: 2 },
+      { type: 'moved', id: 'a', x: 3, y: 3 }
+    ]);
+
+    expect(state.history.past).toHaveLength(2);
+    expect(run(reducer, [{ type: 'undo' }], state).shapes).toEqual({ a: { x: 0, y: 0 } });
+  });
+
+  it('starts a new group after a different action or an expired window', () => {
+    const clock = createMockClock();
+    const deps = { clock };
+    const reducer = createReducer({
+      groupBy: (action) => (action.type === 'moved' ? `move:${action.id}` : null),
+      groupWindowMs: 500,
+      clock: (deps: { clock: Clock }) => deps.clock
+    });
+
+    let state = run(
+      reducer,
+      [
+        { type: 'added', id: 'a' },
+        { type: 'added', id: 'b' },
+        { type: 'moved', id: 'a', x: 1, y: 1 },
+        { type: 'moved', id: 'b', x: 1, y: 1 },
+        { type: 'moved', id: 'a', x: 2, y: 2 }
+      ],
+      initialState,
+      deps
+    );
+    expect(state.history.past).toHaveLength(5);
+
+    clock.advance(1000);
+    state = run(reducer, [{ type: 'moved', id: 'a', x: 3, y: 3 }], state, deps);
+    expect(state.history.past).toHaveLength(6);
+  });
+
+  it('records a transaction as one step', () => {
+    const reducer = createReducer();
+    const state = run(reducer, [
+      { type: 'beginTransaction' },
+      { type: 'added', id: 'a' },
+      { type: 'beginTransaction' },
+      { type: 'added', id: 'b' },
+      { type: 'endTransaction' },
+      { type: 'added', id: 'c' },
+      { type: 'endTransaction' }
+    ]);
+
+    expect(state.history.past).toHaveLength(1);
+    expect(state.history.transaction).toBeNull();
+    expect(run(reducer, [{ type: 'undo' }], state).shapes).toEqual({});
+  });
+
+  it('commits an open transaction before undoing it', () => {
+    const reducer = createReducer();
+    const state = run(reducer, [
+      { type: 'beginTransaction' },
+      { type: 'added', id: 'a' },
+      { type: 'undo' }
+    ]);
+
+    expect(state.shapes).toEqual({});
+    expect(state.history.transaction).toBeNull();
+    expect(run(reducer, [{ type: 'redo' }], state).shapes).toEqual({ a: { x: 0, y: 0 } });
+  });
+
+  it('drops the oldest steps beyond maxDepth', () => {
+    const reducer = createReducer({ maxDepth: 2 });
+    const state = run(reducer, [
+      { type: 'added', id: 'a' },
+      { type: 'added', id: 'b' },
+      { type: 'added', id: 'c' },
+      { type: 'undo' },
+      { type: 'undo' },
+      { type: 'undo' }
+    ]);
+
+    expect(Object.keys(state.shapes)).toEqual(['a']);
+  });
+
+  it('clears history', () => {
+    const reducer = createReducer();
+    const state = run(reducer, [{ type: 'added', id: 'a' }, { type: 'clearHistory' }]);
+
+    expect(canUndo(state.history)).toBe(false);
+    expect(state.shapes).toEqual({ a: { x: 0, y: 0 } });
+  });
+
+  it('passes effects through and produces none for undo/redo', () => {
+    const reducer = createReducer();
+    const [, effect] = reducer(initialState, { type: 'saved' }, undefined);
+    const [, undoEffect] = reducer(initialState, { type: 'undo' }, undefined);
+
+    expect(effect._tag).toBe('FireAndForget');
+    expect(undoEffect._tag).toBe('None');
+  });
+
+  it('rejects maxDepth below 1', () => {
+    expect(() => createReducer({ maxDepth: 0 })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tests for encrypted storage wrapper
+ *
+ * Uses WebCrypto from globalThis.crypto.subtle (available in Node).
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+	createEncryptedStorage,
+	createKeyProvider,
+	generateEncryptionKey,
+	importEncryptionKey
+} from '../../src/lib/dependencies/encrypted-storage.js';
+import { createMockIndexedDBStorage } from '../../src/lib/dependencies/indexeddb-storage.js';
+import { createNoopStorage } from '../../src/lib/dependencies/local-storage.js';
+import { StorageIntegrityError } from '../../src/lib/dependencies/errors.js';
+import type { EncryptedEnvelope, Storage } from '../../src/lib/dependencies/storage.js';
+
+interface Session {
+	token: string;
+	email: string;
+}
+
+// In-memory sync Storage that keeps values as written
+function createMemoryStorage<T>(): Storage<T> & { raw: Map<string, T> } {
+	const raw = new Map<string, T>();
+	return {
+		raw,
+		getItem: (key) => raw.get(key) ?? null,
+		setItem: (key, value) => {
+			raw.set(key, JSON.parse(JSON.stringify(value)));
+		},
+		removeItem: (key) => {
+			raw.delete(key);
+		},
+		keys: () => [...raw.keys()],
+		has: (key) => raw.has(key),
+		clear: () => raw.clear(),
+		size: () => raw.size
+	};
+}
+
+const session: Session = { token: 'secret-token', email: 'ann@example.com' };
+
+describe('createEncryptedStorage', () => {
+	let v1: CryptoKey;
+	let v2: CryptoKey;
+
+	beforeAll(async () => {
+		v1 = await generateEncryptionKey();
+		v2 = await generateEncryptionKey();
+	});
+
+	describe('getItem / setItem', () => {
+		it('should round-trip values', async () => {
+			const storage = createEncryptedStorage<Session>(
+				createMemoryStorage<EncryptedEnvelope>(),
+				createKeyProvider({ v1 }, 'v1')
+			);
+
+			await storage.setItem('session', session);
+			expect(await storage.getItem('session')).toEqual(session);
+		});
+
+		it('should not write plaintext to the inner storage', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			const storage = createEncryptedStorage<Session>(inner, createKeyProvider({ v1 }, 'v1'));
+
+			await storage.setItem('session', session);
+
+			const envelope = inner.raw.get('session');
+			expect(envelope).toEqual({ v: 1, kid: 'v1', iv: expect.any(String), ct: expect.any(String) });
+			expect(JSON.stringify(envelope)).not.toContain('secret-token');
+		});
+
+		it('should use a fresh IV for every write', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			const storage = createEncryptedStorage<Session>(inner, createKeyProvider({ v1 }, 'v1'));
+
+			await storage.setItem('a', session);
+			await storage.setItem('b', session);
+
+			expect(inner.raw.get('a')?.iv).not.toBe(inner.raw.get('b')?.iv);
+		});
+
+		it('should return null for missing keys', async () => {
+			const storage = createEncryptedStorage(createNoopStorage<EncryptedEnvelope>(), createKeyProvider({ v1 }, 'v1'));
+			expect(await storage.getItem('missing')).toBeNull();
+		});
+
+		it('should wrap async storages', async () => {
+			const storage = createEncryptedStorage<Session>(
+				createMockIndexedDBStorage<EncryptedEnvelope>(),
+				createKeyProvider({ v1 }, 'v1')
+			);
+
+			await storage.setItem('session', session);
+			expect(await storage.getItem('session')).toEqual(session);
+			expect(await storage.keys()).toEqual(['session']);
+		});
+
+		it('should return null when validation fails', async () => {
+			const storage = createEncryptedStorage<Session>(
+				createMemoryStorage<EncryptedEnvelope>(),
+				createKeyProvider({ v1 }, 'v1'),
+				{ validator: (v): v is Session => typeof (v as Session).token === 'number' }
+			);
+
+			await storage.setItem('session', session);
+			expect(await storage.getItem('session')).toBeNull();
+		});
+	});
+
+	describe('integrity', () => {
+		it('should throw StorageIntegrityError for tampered ciphertext', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			const storage = createEncryptedStorage<Session>(inner, createKeyProvider({ v1 }, 'v1'));
+			await storage.setItem('session', session);
+
+			const envelope = inner.raw.get('session')!;
+			const flipped = envelope.ct[0] === 'A' ? 'B' : 'A';
+			inner.raw.set('session', { ...envelope, ct: flipped + envelope.ct.slice(1) });
+
+			const error = await storage.getItem('session').catch((e) => e);
+			expect(error).toBeInstanceOf(StorageIntegrityError);
+			expect(error.code).toBe('INTEGRITY_CHECK_FAILED');
+			expect(error.key).toBe('session');
+		});
+
+		it('should reject values moved to another key', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			const storage = createEncryptedStorage<Session>(inner, createKeyProvider({ v1 }, 'v1'));
+			await storage.setItem('session', session);
+
+			inner.raw.set('other', inner.raw.get('session')!);
+
+			await expect(storage.getItem('other')).rejects.toBeInstanceOf(StorageIntegrityError);
+		});
+
+		it('should reject plaintext and unknown key versions', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			const storage = createEncryptedStorage<Session>(inner, createKeyProvider({ v2 }, 'v2'));
+			const legacy = createEncryptedStorage<Session>(inner, createKeyProvider({ v1 }, 'v1'));
+
+			inner.raw.set('plain', session as unknown as EncryptedEnvelope);
+			await legacy.setItem('old', session);
+
+			await expect(storage.getItem('plain')).rejects.toThrow('not an encrypted envelope');
+			await expect(storage.getItem('old')).rejects.toThrow('unknown key version "v1"');
+		});
+
+		it('should reject values encrypted with a different key of the same version', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			await createEncryptedStorage(inner, createKeyProvider({ v1 }, 'v1')).setItem('session', session);
+
+			const storage = createEncryptedStorage(inner, createKeyProvider({ v1: v2 }, 'v1'));
+			await expect(storage.getItem('session')).rejects.toBeInstanceOf(StorageIntegrityError);
+		});
+	});
+
+	describe('key rotation', () => {
+		it('should re-encrypt old values with the current key on read', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			await createEncryptedStorage(inner, createKeyProvider({ v1 }, 'v1')).setItem('session', session);
+
+			const storage = createEncryptedStorage<Session>(inner, createKeyProvider({ v1, v2 }, 'v2'));
+
+			expect(await storage.getItem('session')).toEqual(session);
+			expect(inner.raw.get('session')?.kid).toBe('v2');
+		});
+
+		it('should rotate all values', async () => {
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+			const legacy = createEncryptedStorage(inner, createKeyProvider({ v1 }, 'v1'));
+			await legacy.setItem('a', session);
+			await legacy.setItem('b', session);
+
+			const storage = createEncryptedStorage<Session>(inner, createKeyProvider({ v1, v2 }, 'v2'));
+			await storage.setItem('c', session);
+
+			expect(await storage.rotate()).toBe(2);
+			expect([...inner.raw.values()].map((envelope) => envelope.kid)).toEqual(['v2', 'v2', 'v2']);
+
+			// Old key no longer needed
+			const rotated = createEncryptedStorage<Session>(inner, createKeyProvider({ v2 }, 'v2'));
+			expect(await rotated.getItem('a')).toEqual(session);
+		});
+	});
+
+	describe('createKeyProvider', () => {
+		it('should require the current version to be in the key set', () => {
+			expect(() => createKeyProvider({ v1 }, 'v2')).toThrow('"v2"');
+		});
+	});
+
+	describe('importEncryptionKey', () => {
+		it('should import raw and base64 keys', async () => {
+			const raw = new Uint8Array(32).fill(7);
+			const inner = createMemoryStorage<EncryptedEnvelope>();
+
+			await createEncryptedStorage(inner, createKeyProvider({ k: await importEncryptionKey(raw) }, 'k')).setItem(
+				'session',
+				session
+			);
+			const storage = createEncryptedStorage<Session>(
+				inner,
+				createKeyProvider({ k: await importEncryptionKey(btoa(String.fromCharCode(...raw))) }, 'k')
+			);
+
+			expect(await storage.getItem('session')).toEqual(session);
+		});
+	});
+});
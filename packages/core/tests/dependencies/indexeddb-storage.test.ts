@@ -0,0 +1,192 @@
+/**
+ * Tests for IndexedDB storage dependency
+ *
+ * Note: JSDOM has no IndexedDB. The storage runs against the in-memory
+ * IndexedDB behind createMockIndexedDBStorage.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	createIndexedDBStorage,
+	createMemoryIndexedDB,
+	createMockIndexedDBStorage
+} from '../../src/lib/dependencies/indexeddb-storage.js';
+import { createMockClock } from '../../src/lib/dependencies/clock.js';
+import {
+	EnvironmentNotSupportedError,
+	StorageQuotaExceededError
+} from '../../src/lib/dependencies/errors.js';
+
+interface User {
+	name: string;
+	id: number;
+}
+
+describe('createIndexedDBStorage', () => {
+	it('throws EnvironmentNotSupportedError without IndexedDB', () => {
+		expect(() => createIndexedDBStorage()).toThrow(EnvironmentNotSupportedError);
+	});
+
+	it('converts quota errors to StorageQuotaExceededError', async () => {
+		const quotaExceeded = new DOMException('Quota exceeded', 'QuotaExceededError');
+		const transaction = {
+			error: quotaExceeded,
+			onabort: null as (() => void) | null,
+			objectStore: () => ({ put: () => ({}) })
+		};
+		const db = {
+			objectStoreNames: { contains: () => true },
+			transaction: () => {
+				void Promise.resolve().then(() => transaction.onabort?.());
+				return transaction;
+			}
+		};
+		const factory = {
+			open: () => {
+				const request = { result: db, onsuccess: null as (() => void) | null };
+				void Promise.resolve().then(() => request.onsuccess?.());
+				return request;
+			}
+		} as unknown as IDBFactory;
+
+		const storage = createIndexedDBStorage<string>({ indexedDB: factory });
+
+		await expect(storage.setItem('big', 'x'.repeat(10))).rejects.toBeInstanceOf(
+			StorageQuotaExceededError
+		);
+	});
+
+	it('adds its object store to a database shared with another storage', async () => {
+		const factory = createMemoryIndexedDB();
+		const settings = createIndexedDBStorage<string>({ indexedDB: factory, storeName: 'settings' });
+		const drafts = createIndexedDBStorage<string>({ indexedDB: factory, storeName: 'drafts' });
+
+		await settings.setItem('theme', 'dark');
+		await drafts.setItem('post', 'Hello');
+		await settings.setItem('locale', 'en');
+
+		expect(await settings.keys()).toEqual(['locale', 'theme']);
+		expect(await drafts.keys()).toEqual(['post']);
+	});
+
+	it('adds object stores of storages opening a shared database together', async () => {
+		const factory = createMemoryIndexedDB();
+		const storages = ['a', 'b', 'c'].map((storeName) =>
+			createIndexedDBStorage<string>({ indexedDB: factory, storeName })
+		);
+
+		await Promise.all(storages.map((storage, i) => storage.setItem('key', String(i))));
+
+		expect(await Promise.all(storages.map((storage) => storage.getItem('key')))).toEqual(['0', '1', '2']);
+	});
+});
+
+describe('createMockIndexedDBStorage', () => {
+	describe('getItem / setItem', () => {
+		it('should store and retrieve values', async () => {
+			const storage = createMockIndexedDBStorage<User>();
+			await storage.setItem('user', { name: 'Alice', id: 123 });
+			expect(await storage.getItem('user')).toEqual({ name: 'Alice', id: 123 });
+		});
+
+		it('should return null for missing keys', async () => {
+			const storage = createMockIndexedDBStorage<User>();
+			expect(await storage.getItem('missing')).toBeNull();
+		});
+
+		it('should store structured clones', async () => {
+			const storage = createMockIndexedDBStorage<{ createdAt: Date }>();
+			const value = { createdAt: new Date(0) };
+			await storage.setItem('event', value);
+			value.createdAt.setTime(1000);
+
+			const stored = await storage.getItem('event');
+			expect(stored?.createdAt).toBeInstanceOf(Date);
+			expect(stored?.createdAt.getTime()).toBe(0);
+		});
+
+		it('should overwrite existing values', async () => {
+			const storage = createMockIndexedDBStorage<number>();
+			await storage.setItem('count', 1);
+			await storage.setItem('count', 2);
+			expect(await storage.getItem('count')).toBe(2);
+		});
+	});
+
+	describe('validation', () => {
+		it('should return null when validation fails', async () => {
+			const storage = createMockIndexedDBStorage<User>({
+				validator: (v): v is User =>
+					typeof v === 'object' && v !== null && typeof (v as User).name === 'string'
+			});
+			await storage.setItem('user', { id: 1 } as User);
+			expect(await storage.getItem('user')).toBeNull();
+		});
+	});
+
+	describe('ttl', () => {
+		it('should expire items after the default ttl', async () => {
+			const clock = createMockClock(0);
+			const storage = createMockIndexedDBStorage<string>({ ttl: 1000, clock });
+			await storage.setItem('token', 'abc');
+
+			clock.advance(999);
+			expect(await storage.getItem('token')).toBe('abc');
+
+			clock.advance(1);
+			expect(await storage.getItem('token')).toBeNull();
+		});
+
+		it('should let setItem override the ttl', async () => {
+			const clock = createMockClock(0);
+			const storage = createMockIndexedDBStorage<string>({ ttl: 1000, clock });
+			await storage.setItem('short', 'a', { ttl: 10 });
+			await storage.setItem('default', 'b');
+
+			clock.advance(10);
+			expect(await storage.keys()).toEqual(['default']);
+			expect(await storage.has('short')).toBe(false);
+			expect(await storage.size()).toBe(1);
+		});
+
+		it('should keep items without ttl forever', async () => {
+			const clock = createMockClock(0);
+			const storage = createMockIndexedDBStorage<string>({ clock });
+			await storage.setItem('forever', 'value');
+
+			clock.advance(365 * 24 * 60 * 60 * 1000);
+			expect(await storage.getItem('forever')).toBe('value');
+		});
+	});
+
+	describe('prefixing', () => {
+		it('should strip the prefix from keys', async () => {
+			const clock = createMockClock(0);
+			const storage = createMockIndexedDBStorage<string>({ prefix: 'a:', clock });
+			await storage.setItem('one', '1');
+			await storage.setItem('two', '2');
+
+			expect(await storage.keys()).toEqual(['one', 'two']);
+			expect(await storage.has('one')).toBe(true);
+			expect(await storage.size()).toBe(2);
+		});
+	});
+
+	describe('removeItem / clear', () => {
+		it('should remove items', async () => {
+			const storage = createMockIndexedDBStorage<string>();
+			await storage.setItem('key', 'value');
+			await storage.removeItem('key');
+			expect(await storage.has('key')).toBe(false);
+		});
+
+		it('should clear all items', async () => {
+			const storage = createMockIndexedDBStorage<string>();
+			await storage.setItem('a', '1');
+			await storage.setItem('b', '2');
+			await storage.clear();
+			expect(await storage.keys()).toEqual([]);
+			expect(await storage.size()).toBe(0);
+		});
+	});
+});
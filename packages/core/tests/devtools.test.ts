@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createStore } from '../src/lib/store.svelte';
+import { Effect } from '../src/lib/effect';
+import type { Reducer } from '../src/lib/types';
+import type {
+  DevToolsExtension,
+  DevToolsExtensionConnection,
+  DevToolsMessage,
+  LiftedState
+} from '../src/lib/devtools/types';
+
+interface TestState {
+  count: number;
+}
+
+type TestAction =
+  | { type: 'increment' }
+  | { type: 'add'; amount: number }
+  | { type: 'startTimer' }
+  | { type: 'timerFired' };
+
+const initialState: TestState = { count: 0 };
+
+const reducer: Reducer<TestState, TestAction> = (state, action) => {
+  switch (action.type) {
+    case 'increment':
+      return [{ count: state.count + 1 }, Effect.none()];
+    case 'add':
+      return [{ count: state.count + action.amount }, Effect.none()];
+    case 'startTimer':
+      return [
+        state,
+        Effect.afterDelay(100, (dispatch) => {
+          dispatch({ type: 'timerFired' });
+        })
+      ];
+    case 'timerFired':
+      return [{ count: state.count + 100 }, Effect.none()];
+    default:
+      return [state, Effect.none()];
+  }
+};
+
+/**
+ * Local stand-in for window.__REDUX_DEVTOOLS_EXTENSION__.
+ */
+function createFakeExtension() {
+  let listener: ((message: DevToolsMessage) => void) | null = null;
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    error: vi.fn(),
+    subscribe: vi.fn((l: (message: DevToolsMessage) => void) => {
+      listener = l;
+      return () => {
+        listener = null;
+      };
+    })
+  } satisfies DevToolsExtensionConnection;
+
+  const extension: DevToolsExtension = {
+    connect: vi.fn(() => connection)
+  };
+
+  return {
+    extension,
+    connection,
+    emit(message: DevToolsMessage) {
+      listener?.(message);
+    },
+    get subscribed() {
+      return listener !== null;
+    }
+  };
+}
+
+describe('Redux DevTools bridge', () => {
+  let fake: ReturnType<typeof createFakeExtension>;
+
+  beforeEach(() => {
+    fake = createFakeExtension();
+    (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__ = fake.extension;
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__;
+    vi.useRealTimers();
+  });
+
+  it('does not connect unless enabled', () => {
+    createStore({ initialState, reducer });
+
+    expect(fake.extension.connect).not.toHaveBeenCalled();
+  });
+
+  it('is a no-op when the extension is not installed', () => {
+    delete (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__;
+    const store = createStore({ initialState, reducer, devTools: true });
+
+    store.dispatch({ type: 'increment' });
+
+    expect(store.state.count).toBe(1);
+  });
+
+  it('connects with the configured name and initial state', () => {
+    createStore({ initialState, reducer, devTools: { name: 'Counter', maxAge: 10 } });
+
+    expect(fake.extension.connect).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Counter', maxAge: 10 })
+    );
+    expect(fake.connection.init).toHaveBeenCalledWith(initialState);
+  });
+
+  it('streams every action with the resulting state', () => {
+    const store = createStore({ initialState, reducer, devTools: true });
+
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'add', amount: 5 });
+
+    expect(fake.connection.send).toHaveBeenNthCalledWith(1, { type: 'increment' }, { count: 1 });
+    expect(fake.connection.send).toHaveBeenNthCalledWith(2, { type: 'add', amount: 5 }, { count: 6 });
+  });
+
+  it('jumps to a past action by replaying history', () => {
+    const store = createStore({ initialState, reducer, devTools: true });
+    const listener = vi.fn();
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'add', amount: 5 });
+    store.dispatch({ type: 'increment' });
+    store.subscribe(listener);
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'JUMP_TO_ACTION', actionId: 1 } });
+    expect(store.state).toEqual({ count: 1 });
+    expect(listener).toHaveBeenLastCalledWith({ count: 1 });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'JUMP_TO_STATE', actionId: 0 } });
+    expect(store.state).toEqual({ count: 0 });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'JUMP_TO_ACTION', actionId: 3 } });
+    expect(store.state).toEqual({ count: 7 });
+
+    // Time-travel does not record actions
+    expect(store.history).toHaveLength(3);
+  });
+
+  it('skips and restores actions', () => {
+    const store = createStore({ initialState, reducer, devTools: true });
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'add', amount: 5 });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'TOGGLE_ACTION', id: 2 } });
+    expect(store.state).toEqual({ count: 1 });
+
+    const lifted = fake.connection.send.mock.calls.at(-1)!;
+    expect(lifted[0]).toBeNull();
+    expect((lifted[1] as LiftedState).skippedActionIds).toEqual([2]);
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'TOGGLE_ACTION', id: 2 } });
+    expect(store.state).toEqual({ count: 6 });
+  });
+
+  it('imports a session exported by another store', () => {
+    const source = createStore({ initialState, reducer, devTools: true });
+    source.dispatch({ type: 'add', amount: 2 });
+    source.dispatch({ type: 'add', amount: 3 });
+    fake.emit({ type: 'DISPATCH', payload: { type: 'TOGGLE_ACTION', id: 1 } });
+    const exported = JSON.parse(JSON.stringify(fake.connection.send.mock.calls.at(-1)![1]));
+
+    fake = createFakeExtension();
+    (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__ = fake.extension;
+    const target = createStore({ initialState, reducer, devTools: true });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'IMPORT_STATE', nextLiftedState: exported } });
+
+    expect(target.state).toEqual({ count: 3 });
+
+    // New actions continue after the imported ones
+    target.dispatch({ type: 'increment' });
+    expect(target.state).toEqual({ count: 4 });
+    expect(fake.connection.send).toHaveBeenLastCalledWith({ type: 'increment' }, { count: 4 });
+  });
+
+  it('commits, rolls back and resets', () => {
+    const store = createStore({ initialState, reducer, devTools: true });
+    store.dispatch({ type: 'add', amount: 2 });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'COMMIT' } });
+    expect(fake.connection.init).toHaveBeenLastCalledWith({ count: 2 });
+
+    store.dispatch({ type: 'add', amount: 3 });
+    fake.emit({ type: 'DISPATCH', payload: { type: 'ROLLBACK' } });
+    expect(store.state).toEqual({ count: 2 });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'RESET' } });
+    expect(store.state).toEqual(initialState);
+  });
+
+  it('dispatches actions sent from the monitor', () => {
+    const store = createStore({ initialState, reducer, devTools: true });
+
+    fake.emit({ type: 'ACTION', payload: '{"type":"add","amount":4}' });
+    expect(store.state).toEqual({ count: 4 });
+
+    fake.emit({ type: 'ACTION', payload: 'not json' });
+    expect(fake.connection.error).toHaveBeenCalled();
+    expect(store.state).toEqual({ count: 4 });
+  });
+
+  it('discards the future when dispatching from a past state', () => {
+    const store = createStore({ initialState, reducer, devTools: true });
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'increment' });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'JUMP_TO_ACTION', actionId: 1 } });
+    store.dispatch({ type: 'add', amount: 10 });
+
+    expect(store.state).toEqual({ count: 11 });
+    const lifted = fake.connection.send.mock.calls.at(-1)![1] as LiftedState;
+    expect(lifted.stagedActionIds).toEqual([0, 1, 3]);
+    expect(lifted.currentStateIndex).toBe(2);
+  });
+
+  it('commits the oldest actions beyond maxAge', () => {
+    const store = createStore({ initialState, reducer, devTools: { maxAge: 2 } });
+    store.dispatch({ type: 'add', amount: 1 });
+    store.dispatch({ type: 'add', amount: 2 });
+    store.dispatch({ type: 'add', amount: 3 });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'JUMP_TO_STATE', actionId: 0 } });
+
+    expect(store.state).toEqual({ count: 1 });
+  });
+
+  it('pauses effects while time-travelling', async () => {
+    vi.useFakeTimers();
+    const store = createStore({ initialState, reducer, devTools: true });
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'startTimer' });
+
+    fake.emit({ type: 'DISPATCH', payload: { type: 'JUMP_TO_ACTION', actionId: 0 } });
+    await vi.advanceTimersByTimeAsync(100);
+
+    // Timer fired but its action is held back
+    expect(store.state).toEqual({ count: 0 });
+    expect(store.history).toHaveLength(2);
+
+    // Returning to the live state delivers it
+    fake.emit({ type: 'DISPATCH', payload: { type: 'JUMP_TO_ACTION', actionId: 2 } });
+    expect(store.history).toEqual([
+      { type: 'increment' },
+      { type: 'startTimer' },
+      { type: 'timerFired' }
+    ]);
+    expect(store.state).toEqual({ count: 101 });
+  });
+
+  it('disconnects on destroy', () => {
+    const store = createStore({ initialState, reducer, devTools: true });
+    expect(fake.subscribed).toBe(true);
+
+    store.destroy();
+
+    expect(fake.subscribed).toBe(false);
+  });
+});
@@ -106,6 +106,118 @@ describe('Effect', () => {
     });
   });
 
+  describe('retry()', () => {
+    it('creates a Retry effect with policy', () => {
+      const inner = Effect.run(async () => {});
+      const effect = Effect.retry(inner, { maxAttempts: 3, backoff: 100 });
+
+      expect(effect._tag).toBe('Retry');
+      expect(effect.effect).toBe(inner);
+      expect(effect.policy.maxAttempts).toBe(3);
+    });
+
+    it('rejects invalid maxAttempts and negative backoff', () => {
+      const inner = Effect.run(async () => {});
+
+      expect(() => Effect.retry(inner, { maxAttempts: 0 })).toThrow(TypeError);
+      expect(() => Effect.retry(inner, { maxAttempts: 1.5 })).toThrow(TypeError);
+      expect(() => Effect.retry(inner, { maxAttempts: 2, backoff: -1 })).toThrow(TypeError);
+    });
+  });
+
+  describe('timeout()', () => {
+    it('creates a Timeout effect', () => {
+      const inner = Effect.run(async () => {});
+      const onTimeout = vi.fn();
+      const effect = Effect.timeout(inner, 1000, onTimeout);
+
+      expect(effect._tag).toBe('Timeout');
+      expect(effect.ms).toBe(1000);
+      expect(effect.onTimeout).toBe(onTimeout);
+    });
+
+    it('throws on negative time limit', () => {
+      expect(() => Effect.timeout(Effect.none(), -1)).toThrow(TypeError);
+    });
+  });
+
+  describe('sequence()', () => {
+    it('creates a Sequence effect and drops None effects', () => {
+      const effect1 = Effect.run(async () => {});
+      const effect2 = Effect.run(async () => {});
+      const effect = Effect.sequence(effect1, Effect.none(), effect2);
+
+      expect(effect._tag).toBe('Sequence');
+      expect(effect.effects).toEqual([effect1, effect2]);
+    });
+
+    it('optimizes empty and single-effect sequences', () => {
+      const single = Effect.run(async () => {});
+
+      expect(Effect.sequence()._tag).toBe('None');
+      expect(Effect.sequence(single)).toBe(single);
+    });
+  });
+
+  describe('race()', () => {
+    it('creates a Race effect', () => {
+      const effect = Effect.race(Effect.run(async () => {}), Effect.run(async () => {}));
+
+      expect(effect._tag).toBe('Race');
+      expect(effect.effects).toHaveLength(2);
+    });
+  });
+
+  describe('pool()', () => {
+    it('creates a Pool effect with concurrency', () => {
+      const effects = [1, 2, 3].map(() => Effect.run(async () => {}));
+      const effect = Effect.pool(2, effects);
+
+      expect(effect._tag).toBe('Pool');
+      expect(effect.concurrency).toBe(2);
+      expect(effect.effects).toHaveLength(3);
+    });
+
+    it('throws on invalid concurrency', () => {
+      expect(() => Effect.pool(0, [])).toThrow(TypeError);
+      expect(() => Effect.pool(1.5, [])).toThrow(TypeError);
+    });
+  });
+
+  describe('stream()', () => {
+    it('creates a Stream effect', () => {
+      async function* source() {
+        yield 1;
+      }
+      const toAction = (n: number) => ({ type: 'item', n });
+      const onComplete = () => ({ type: 'done', n: 0 });
+      const effect = Effect.stream('numbers', source(), toAction, { onComplete });
+
+      expect(effect._tag).toBe('Stream');
+      expect(effect.id).toBe('numbers');
+      expect(effect.toAction).toBe(toAction);
+      expect(effect.onComplete).toBe(onComplete);
+      expect(effect.onError).toBeUndefined();
+    });
+
+    it('adapts a ReadableStream to an async iterable', async () => {
+      const readable = new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue('a');
+          controller.enqueue('b');
+          controller.close();
+        }
+      });
+      const effect = Effect.stream('letters', readable, (s) => s);
+
+      const items: string[] = [];
+      for await (const item of effect.source) {
+        items.push(item as string);
+      }
+      expect(items).toEqual(['a', 'b']);
+    });
+  });
+
   describe('map()', () => {
     it('maps None effect', () => {
       const effect = Effect.none<number>();
@@ -198,5 +310,63 @@ describe('Effect', () => {
       await mapped.execute((s) => actions.push(s));
       expect(actions).toEqual(['num:42']);
     });
+
+    it('maps Retry effect preserving policy', async () => {
+      const actions: string[] = [];
+      const policy = { maxAttempts: 2 };
+      const effect = Effect.retry(Effect.run<number>((d) => d(42)), policy);
+      const mapped = Effect.map(effect, (n) => `num:${n}`);
+
+      expect(mapped._tag).toBe('Retry');
+      expect(mapped.policy).toBe(policy);
+      expect(mapped.effect._tag).toBe('Run');
+
+      await mapped.effect.execute((s) => actions.push(s));
+      expect(actions).toEqual(['num:42']);
+    });
+
+    it('maps Timeout effect and its onTimeout executor', async () => {
+      const actions: string[] = [];
+      const effect = Effect.timeout(Effect.run<number>((d) => d(1)), 500, (d) => d(2));
+      const mapped = Effect.map(effect, (n) => `num:${n}`);
+
+      expect(mapped._tag).toBe('Timeout');
+      expect(mapped.ms).toBe(500);
+
+      await mapped.onTimeout!((s) => actions.push(s));
+      expect(actions).toEqual(['num:2']);
+    });
+
+    it('maps Sequence, Race and Pool children', () => {
+      const children = [Effect.run<number>((d) => d(1)), Effect.run<number>((d) => d(2))];
+
+      const sequence = Effect.map(Effect.sequence(...children), String);
+      const race = Effect.map(Effect.race(...children), String);
+      const pool = Effect.map(Effect.pool(1, children), String);
+
+      expect(sequence._tag).toBe('Sequence');
+      expect(race._tag).toBe('Race');
+      expect(pool._tag).toBe('Pool');
+      expect(pool.concurrency).toBe(1);
+      expect(pool.effects).toHaveLength(2);
+    });
+
+    it('maps Stream item, completion and error actions', () => {
+      async function* source() {
+        yield 1;
+      }
+      const effect = Effect.stream('numbers', source(), (n: number) => n * 2, {
+        onComplete: () => 0,
+        onError: () => -1
+      });
+      const mapped = Effect.map(effect, (n) => `num:${n}`);
+
+      expect(mapped._tag).toBe('Stream');
+      expect(mapped.id).toBe('numbers');
+      expect(mapped.source).toBe(effect.source);
+      expect(mapped.toAction(21)).toBe('num:42');
+      expect(mapped.onComplete?.()).toBe('num:0');
+      expect(mapped.onError?.(new Error('x'))).toBe('num:-1');
+    });
   });
 });
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStore } from '../src/lib/store.svelte';
+import { Effect } from '../src/lib/effect';
+import type { Reducer, Middleware, ActionMiddleware, EffectMiddleware, Effect as EffectType } from '../src/lib/types';
+
+interface TestState {
+  count: number;
+  isLoading: boolean;
+}
+
+type TestAction =
+  | { type: 'increment' }
+  | { type: 'setCount'; value: number }
+  | { type: 'startLoading' }
+  | { type: 'loadComplete'; value: number };
+
+const initialState: TestState = {
+  count: 0,
+  isLoading: false
+};
+
+const reducer: Reducer<TestState, TestAction> = (state, action) => {
+  switch (action.type) {
+    case 'increment':
+      return [{ ...state, count: state.count + 1 }, Effect.none()];
+    case 'setCount':
+      return [{ ...state, count: action.value }, Effect.none()];
+    case 'startLoading':
+      return [
+        { ...state, isLoading: true },
+        Effect.run(async (dispatch) => {
+          dispatch({ type: 'loadComplete', value: 42 });
+        })
+      ];
+    case 'loadComplete':
+      return [{ ...state, count: action.value, isLoading: false }, Effect.none()];
+    default:
+      return [state, Effect.none()];
+  }
+};
+
+describe('createStore middleware', () => {
+  it('observes actions and state around the reducer', () => {
+    const log: string[] = [];
+
+    const logger: ActionMiddleware<TestState, TestAction> = (store) => (next) => (action) => {
+      log.push(`before ${action.type}: ${store.getState().count}`);
+      next(action);
+      log.push(`after ${action.type}: ${store.getState().count}`);
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [logger] });
+
+    store.dispatch({ type: 'increment' });
+
+    expect(log).toEqual(['before increment: 0', 'after increment: 1']);
+  });
+
+  it('composes middleware with the first entry outermost', () => {
+    const order: string[] = [];
+
+    const tag = (name: string): ActionMiddleware<TestState, TestAction> => () => (next) => (action) => {
+      order.push(`${name}:in`);
+      next(action);
+      order.push(`${name}:out`);
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [tag('a'), tag('b')] });
+
+    store.dispatch({ type: 'increment' });
+
+    expect(order).toEqual(['a:in', 'b:in', 'b:out', 'a:out']);
+  });
+
+  it('transforms actions before they reach the reducer', () => {
+    const doubler: ActionMiddleware<TestState, TestAction> = () => (next) => (action) => {
+      next(action.type === 'setCount' ? { ...action, value: action.value * 2 } : action);
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [doubler] });
+
+    store.dispatch({ type: 'setCount', value: 5 });
+
+    expect(store.state.count).toBe(10);
+    expect(store.history).toEqual([{ type: 'setCount', value: 10 }]);
+  });
+
+  it('blocks actions by not calling next', () => {
+    const gate: ActionMiddleware<TestState, TestAction> = (store) => (next) => (action) => {
+      if (action.type === 'increment' && store.getState().count >= 2) return;
+      next(action);
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [gate] });
+    const listener = vi.fn();
+    store.subscribeToActions!(listener);
+
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'increment' });
+
+    expect(store.state.count).toBe(2);
+    expect(store.history).toHaveLength(2);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('routes effect-dispatched actions through the middleware chain', async () => {
+    const seen: TestAction[] = [];
+
+    const recorder: ActionMiddleware<TestState, TestAction> = () => (next) => (action) => {
+      seen.push(action);
+      next(action);
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [recorder] });
+
+    store.dispatch({ type: 'startLoading' });
+
+    await vi.waitFor(() => {
+      expect(seen).toEqual([{ type: 'startLoading' }, { type: 'loadComplete', value: 42 }]);
+    });
+  });
+
+  it('dispatches through the full chain from the middleware API', () => {
+    const seen: string[] = [];
+
+    const recorder: ActionMiddleware<TestState, TestAction> = () => (next) => (action) => {
+      seen.push(action.type);
+      next(action);
+    };
+
+    const redispatcher: ActionMiddleware<TestState, TestAction> = (store) => (next) => (action) => {
+      next(action);
+      if (action.type === 'setCount') {
+        store.dispatch({ type: 'increment' });
+      }
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [recorder, redispatcher] });
+
+    store.dispatch({ type: 'setCount', value: 3 });
+
+    expect(seen).toEqual(['setCount', 'increment']);
+    expect(store.state.count).toBe(4);
+  });
+
+  it('passes effects and the producing action to effect middleware', async () => {
+    const seen: Array<{ tag: EffectType<TestAction>['_tag']; action: TestAction }> = [];
+
+    const audit: EffectMiddleware<TestState, TestAction> = () => (next) => (effect, action) => {
+      seen.push({ tag: effect._tag, action });
+      next(effect, action);
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [{ effect: audit }] });
+
+    store.dispatch({ type: 'increment' });
+    store.dispatch({ type: 'startLoading' });
+
+    await vi.waitFor(() => {
+      expect(store.state.count).toBe(42);
+    });
+
+    // Effect.none() is never handed to effect middleware
+    expect(seen).toEqual([{ tag: 'Run', action: { type: 'startLoading' } }]);
+  });
+
+  it('blocks and replaces effects', async () => {
+    const blocking: EffectMiddleware<TestState, TestAction> = () => () => () => {};
+
+    const blocked = createStore({ initialState, reducer, middleware: [{ effect: blocking }] });
+    blocked.dispatch({ type: 'startLoading' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(blocked.state.isLoading).toBe(true);
+    expect(blocked.history).toEqual([{ type: 'startLoading' }]);
+
+    const replacing: EffectMiddleware<TestState, TestAction> = () => (next) => (_effect, action) => {
+      next(
+        Effect.run(async (dispatch) => {
+          dispatch({ type: 'loadComplete', value: 7 });
+        }),
+        action
+      );
+    };
+
+    const replaced = createStore({ initialState, reducer, middleware: [{ effect: replacing }] });
+    replaced.dispatch({ type: 'startLoading' });
+    await vi.waitFor(() => {
+      expect(replaced.state.count).toBe(7);
+    });
+  });
+
+  it('accepts hook objects with both action and effect middleware', async () => {
+    const events: string[] = [];
+
+    const analytics: Middleware<TestState, TestAction> = {
+      action: () => (next) => (action) => {
+        events.push(`action:${action.type}`);
+        next(action);
+      },
+      effect: () => (next) => (effect, action) => {
+        events.push(`effect:${effect._tag}:${action.type}`);
+        next(effect, action);
+      }
+    };
+
+    const store = createStore({ initialState, reducer, middleware: [analytics] });
+
+    store.dispatch({ type: 'startLoading' });
+
+    await vi.waitFor(() => {
+      expect(events).toEqual([
+        'action:startLoading',
+        'effect:Run:startLoading',
+        'action:loadComplete'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests: Browser and Hash History Adapters
+ *
+ * Tests for createBrowserHistoryAdapter and createHashHistoryAdapter.
+ * The memory adapter is covered in memory-history.test.ts.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+	createBrowserHistoryAdapter,
+	createHashHistoryAdapter,
+	type HistoryLocation
+} from '../../src/lib/routing/history-adapter';
+
+describe('createBrowserHistoryAdapter', () => {
+	const originalURL = window.location.pathname + window.location.search;
+
+	afterEach(() => {
+		window.history.replaceState(null, '', originalURL);
+	});
+
+	it('reads and writes the browser URL', () => {
+		const history = createBrowserHistoryAdapter();
+
+		history.push('/inventory/item-1?tab=info', { key: 1 });
+		expect(history.location).toEqual({ pathname: '/inventory/item-1', search: '?tab=info', state: { key: 1 } });
+
+		history.replace('/inventory');
+		expect(window.location.pathname).toBe('/inventory');
+	});
+
+	it('notifies listeners on popstate', () => {
+		const history = createBrowserHistoryAdapter();
+		const locations: HistoryLocation[] = [];
+		const unlisten = history.listen((location) => locations.push(location));
+
+		window.history.replaceState({ key: 2 }, '', '/inventory/item-2');
+		window.dispatchEvent(new PopStateEvent('popstate', { state: { key: 2 } }));
+		unlisten();
+		window.dispatchEvent(new PopStateEvent('popstate'));
+
+		expect(locations).toEqual([{ pathname: '/inventory/item-2', search: '', state: { key: 2 } }]);
+	});
+});
+
+describe('createHashHistoryAdapter', () => {
+	const originalURL = window.location.pathname + window.location.search;
+
+	afterEach(() => {
+		window.history.replaceState(null, '', originalURL);
+	});
+
+	it('keeps the route in the hash', () => {
+		window.history.replaceState(null, '', '/app');
+		const history = createHashHistoryAdapter();
+
+		expect(history.location).toEqual({ pathname: '/', search: '', state: null });
+
+		history.push('/item-1?tab=info');
+
+		expect(window.location.pathname).toBe('/app');
+		expect(window.location.hash).toBe('#/item-1?tab=info');
+		expect(history.location).toMatchObject({ pathname: '/item-1', search: '?tab=info' });
+	});
+
+	it('reports each hash change once', () => {
+		const history = createHashHistoryAdapter();
+		const paths: string[] = [];
+		const unlisten = history.listen((location) => paths.push(location.pathname));
+
+		// Manual hash edit: some browsers fire both popstate and hashchange
+		window.history.replaceState(null, '', '#/item-2');
+		window.dispatchEvent(new PopStateEvent('popstate'));
+		window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+		// Own updates are not reported
+		history.push('/item-3');
+		window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+		unlisten();
+		expect(paths).toEqual(['/item-2']);
+	});
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit Tests: Memory History Adapter
+ *
+ * Runs without a DOM to check that routing works in plain Node.
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMemoryHistoryAdapter } from '../../src/lib/routing/history-adapter';
+import { syncBrowserHistory } from '../../src/lib/routing/browser-history';
+import { createURLSyncEffect } from '../../src/lib/routing/sync-effect';
+import { createInitialStateFromURL } from '../../src/lib/routing/deep-link';
+import { createStore } from '../../src/lib/store.svelte';
+import type { Reducer } from '../../src/lib/types';
+
+// Test Types
+type Dest = { type: 'detail'; state: { id: string } };
+
+interface AppState {
+	destination: Dest | null;
+	tab: string | null;
+}
+
+type AppAction = { type: 'itemSelected'; id: string } | { type: 'closed' };
+
+const parse = (path: string): Dest | null => {
+	const match = path.match(/^\/item-(.+)$/);
+	return match ? { type: 'detail', state: { id: match[1]! } } : null;
+};
+
+const serialize = (state: AppState) => (state.destination ? `/item-${state.destination.state.id}` : '/');
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createMemoryHistoryAdapter', () => {
+	it('starts at the last initial entry', () => {
+		const history = createMemoryHistoryAdapter({ initialEntries: ['/', '/item-1?tab=info'] });
+
+		expect(history.location).toEqual({ pathname: '/item-1', search: '?tab=info', state: null });
+		expect(history.index).toBe(1);
+	});
+
+	it('pushes and replaces entries', () => {
+		const history = createMemoryHistoryAdapter();
+
+		history.push('/item-1', { key: 1 });
+		history.replace('/item-2');
+
+		expect(history.entries.map((entry) => entry.pathname)).toEqual(['/', '/item-2']);
+		expect(history.location.state).toBeNull();
+	});
+
+	it('notifies listeners on go() and clamps to the stack', () => {
+		const history = createMemoryHistoryAdapter({ initialEntries: ['/', '/item-1'] });
+		const paths: string[] = [];
+		const unlisten = history.listen((location) => paths.push(location.pathname));
+
+		history.go(-1);
+		history.go(-1);
+		history.go(1);
+		unlisten();
+		history.go(-1);
+
+		expect(paths).toEqual(['/', '/item-1']);
+	});
+
+	it('drops forward entries when pushing', () => {
+		const history = createMemoryHistoryAdapter({ initialEntries: ['/', '/item-1', '/item-2'], initialIndex: 0 });
+
+		history.push('/item-3');
+
+		expect(history.entries.map((entry) => entry.pathname)).toEqual(['/', '/item-3']);
+	});
+});
+
+describe('routing with a memory history', () => {
+	const reducerFor = (history: ReturnType<typeof createMemoryHistoryAdapter>) => {
+		const urlSync = createURLSyncEffect<AppState, AppAction>(serialize, { history });
+		const reducer: Reducer<AppState, AppAction, {}> = (state, action) => {
+			const next: AppState =
+				action.type === 'itemSelected'
+					? { ...state, destination: { type: 'detail', state: { id: action.id } } }
+					: { ...state, destination: null };
+			return [next, urlSync(next)];
+		};
+		return reducer;
+	};
+
+	it('initializes state from the adapter URL', () => {
+		const history = createMemoryHistoryAdapter({ initialEntries: ['/item-7?tab=specs'] });
+
+		const state = createInitialStateFromURL<AppState, Dest>(
+			{ destination: null, tab: null },
+			parse,
+			(s, destination) => ({ ...s, destination }),
+			(search) => new URLSearchParams(search),
+			(s, query: URLSearchParams) => ({ ...s, tab: query.get('tab') }),
+			history
+		);
+
+		expect(state).toEqual({ destination: { type: 'detail', state: { id: '7' } }, tab: 'specs' });
+	});
+
+	it('pushes state changes and dispatches back/forward', async () => {
+		const history = createMemoryHistoryAdapter();
+		const store = createStore({
+			initialState: { destination: null, tab: null } as AppState,
+			reducer: reducerFor(history),
+			dependencies: {},
+			// Node counts as server-side; run effects anyway
+			ssr: { deferEffects: false }
+		});
+
+		const cleanup = syncBrowserHistory(store, {
+			parse,
+			serialize,
+			history,
+			destinationToAction: (dest) => (dest ? { type: 'itemSelected', id: dest.state.id } : { type: 'closed' })
+		});
+
+		store.dispatch({ type: 'itemSelected', id: '1' });
+		await settle();
+		store.dispatch({ type: 'itemSelected', id: '2' });
+		await settle();
+		expect(history.entries.map((entry) => entry.pathname)).toEqual(['/', '/item-1', '/item-2']);
+
+		history.go(-1);
+		expect(store.state.destination).toEqual({ type: 'detail', state: { id: '1' } });
+
+		history.go(-1);
+		expect(store.state.destination).toBeNull();
+
+		await settle();
+		// URL already matches, so back/forward does not push new entries
+		expect(history.entries).toHaveLength(3);
+		expect(history.index).toBe(0);
+
+		cleanup();
+		history.go(1);
+		expect(store.state.destination).toBeNull();
+	});
+});
@@ -0,0 +1,389 @@
+/**
+ * Unit Tests: Navigation Guards
+ *
+ * Tests for createNavigationGuard, updatePendingNavigation, and guarded
+ * browser navigation in syncBrowserHistory.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	createNavigationGuard,
+	updatePendingNavigation,
+	type NavigationEvent,
+	type PendingNavigation
+} from '../../src/lib/routing/navigation-guard';
+import { syncBrowserHistory } from '../../src/lib/routing/browser-history';
+import { createStore } from '../../src/lib/store.svelte';
+import { Effect } from '../../src/lib/effect';
+import type { Reducer } from '../../src/lib/types';
+
+// Test Types
+type Dest =
+	| { type: 'detail'; state: { id: string } }
+	| { type: 'admin'; state: {} }
+	| { type: 'login'; state: {} };
+
+interface AppState {
+	destination: Dest | null;
+	dirty: boolean;
+	loggedIn: boolean;
+	item: string | null;
+	pendingNavigation: PendingNavigation<Dest> | null;
+}
+
+type AppAction =
+	| { type: 'presented'; destination: Dest | null; item: string | null }
+	| { type: 'navigationChanged'; event: NavigationEvent<Dest, string> };
+
+const initialState: AppState = {
+	destination: null,
+	dirty: false,
+	loggedIn: false,
+	item: null,
+	pendingNavigation: null
+};
+
+const detail = (id: string): Dest => ({ type: 'detail', state: { id } });
+
+// Deferred promise helper
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>((r) => (resolve = r));
+	return { promise, resolve };
+}
+
+describe('createNavigationGuard', () => {
+	it('resolves when there are no guards', async () => {
+		const guard = createNavigationGuard<AppState, Dest>({ getDestination: (s) => s.destination });
+
+		expect(await guard.resolve(detail('1'), initialState)).toEqual({
+			status: 'resolved',
+			destination: detail('1'),
+			data: undefined,
+			redirected: false
+		});
+	});
+
+	it('passes from, to and state to guards', async () => {
+		const canLeave = vi.fn(() => true);
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canLeave: [canLeave]
+		});
+		const state = { ...initialState, destination: detail('1') };
+
+		await guard.resolve(detail('2'), state);
+
+		expect(canLeave).toHaveBeenCalledWith(
+			expect.objectContaining({ from: detail('1'), to: detail('2'), state, signal: expect.any(AbortSignal) })
+		);
+	});
+
+	it('blocks when a canLeave guard returns false', async () => {
+		const canEnter = vi.fn(() => true);
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canLeave: [({ state }) => !state.dirty],
+			canEnter: [canEnter]
+		});
+
+		const result = await guard.resolve(detail('1'), { ...initialState, dirty: true });
+
+		expect(result).toEqual({ status: 'blocked', guard: 'leave' });
+		expect(canEnter).not.toHaveBeenCalled();
+	});
+
+	it('blocks when an async canEnter guard returns false', async () => {
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canEnter: [async ({ to }) => to?.type !== 'admin']
+		});
+
+		expect(await guard.resolve({ type: 'admin', state: {} }, initialState)).toEqual({
+			status: 'blocked',
+			guard: 'enter'
+		});
+	});
+
+	it('follows redirects and re-runs canEnter guards for the target', async () => {
+		const canEnter = vi.fn(({ to, state }: { to: Dest | null; state: AppState }) =>
+			to?.type === 'admin' && !state.loggedIn ? { redirect: { type: 'login', state: {} } as Dest } : true
+		);
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canEnter: [canEnter]
+		});
+
+		const result = await guard.resolve({ type: 'admin', state: {} }, initialState);
+
+		expect(result).toEqual({
+			status: 'resolved',
+			destination: { type: 'login', state: {} },
+			data: undefined,
+			redirected: true
+		});
+		expect(canEnter).toHaveBeenCalledTimes(2);
+	});
+
+	it('fails after too many redirects', async () => {
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canEnter: [({ to }) => ({ redirect: to })],
+			maxRedirects: 2
+		});
+
+		const result = await guard.resolve(detail('1'), initialState);
+
+		expect(result.status).toBe('failed');
+		expect(result.status === 'failed' && String(result.error)).toContain('exceeded 2 redirects');
+	});
+
+	it('runs the loader after guards and returns its data', async () => {
+		const guard = createNavigationGuard<AppState, Dest, string>({
+			getDestination: (s) => s.destination,
+			load: async ({ to }) => (to?.type === 'detail' ? `item ${to.state.id}` : '')
+		});
+
+		const result = await guard.resolve(detail('7'), initialState);
+
+		expect(result).toMatchObject({ status: 'resolved', data: 'item 7' });
+	});
+
+	it('fails when the loader throws', async () => {
+		const error = new Error('not found');
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			load: () => Promise.reject(error)
+		});
+
+		expect(await guard.resolve(detail('1'), initialState)).toEqual({ status: 'failed', error });
+		expect(guard.pending).toBeNull();
+	});
+
+	it('cancels a superseded navigation and aborts its loader', async () => {
+		const first = deferred<string>();
+		const signals: AbortSignal[] = [];
+		const guard = createNavigationGuard<AppState, Dest, string>({
+			getDestination: (s) => s.destination,
+			load: ({ to, signal }) => {
+				signals.push(signal);
+				return to?.type === 'detail' && to.state.id === '1' ? first.promise : 'second';
+			}
+		});
+
+		const firstResult = guard.resolve(detail('1'), initialState);
+		await vi.waitFor(() => expect(guard.pending?.phase).toBe('loading'));
+		const secondResult = guard.resolve(detail('2'), initialState);
+		first.resolve('first');
+
+		expect(await firstResult).toEqual({ status: 'cancelled', superseded: true });
+		expect(await secondResult).toMatchObject({ status: 'resolved', data: 'second' });
+		expect(signals[0]?.aborted).toBe(true);
+	});
+
+	it('cancels the pending navigation on cancel()', async () => {
+		const gate = deferred<boolean>();
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canEnter: [() => gate.promise]
+		});
+
+		const result = guard.resolve(detail('1'), initialState);
+		expect(guard.pending).toMatchObject({ id: 1, to: detail('1'), phase: 'guards' });
+
+		guard.cancel();
+		gate.resolve(true);
+
+		expect(await result).toEqual({ status: 'cancelled', superseded: false });
+		expect(guard.pending).toBeNull();
+	});
+
+	it('emits lifecycle events', async () => {
+		const guard = createNavigationGuard<AppState, Dest, string>({
+			getDestination: (s) => s.destination,
+			canEnter: [({ to }) => (to?.type === 'admin' ? { redirect: detail('1') } : true)],
+			load: () => 'data'
+		});
+		const events: string[] = [];
+		const unsubscribe = guard.subscribe((event) => events.push(event.type));
+
+		await guard.resolve({ type: 'admin', state: {} }, initialState);
+		unsubscribe();
+		await guard.resolve(detail('2'), initialState);
+
+		expect(events).toEqual(['started', 'redirected', 'loading', 'resolved']);
+	});
+});
+
+describe('updatePendingNavigation', () => {
+	const navigation = (id: number): PendingNavigation<Dest> => ({
+		id,
+		from: null,
+		to: detail(String(id)),
+		phase: 'guards'
+	});
+
+	it('tracks started navigations and clears settled ones', () => {
+		const pending = updatePendingNavigation(null, { type: 'started', navigation: navigation(1) });
+		expect(pending).toEqual(navigation(1));
+
+		expect(updatePendingNavigation(pending, { type: 'blocked', navigation: navigation(1), guard: 'leave' })).toBeNull();
+	});
+
+	it('ignores settled events from superseded navigations', () => {
+		const pending = navigation(2);
+		expect(
+			updatePendingNavigation(pending, { type: 'cancelled', navigation: navigation(1), superseded: true })
+		).toBe(pending);
+	});
+});
+
+describe('syncBrowserHistory with guard', () => {
+	let originalPathname: string;
+
+	const reducer: Reducer<AppState, AppAction, {}> = (state, action) => {
+		switch (action.type) {
+			case 'presented':
+				return [{ ...state, destination: action.destination, item: action.item }, Effect.none()];
+			case 'navigationChanged':
+				return [
+					{
+						...state,
+						pendingNavigation: updatePendingNavigation(state.pendingNavigation, action.event)
+					},
+					Effect.none()
+				];
+		}
+	};
+
+	const parse = (path: string): Dest | null => {
+		if (path === '/admin') return { type: 'admin', state: {} };
+		if (path === '/login') return { type: 'login', state: {} };
+		const match = path.match(/^\/item-(.+)$/);
+		return match ? detail(match[1]!) : null;
+	};
+
+	const serialize = (state: AppState): string => {
+		const dest = state.destination;
+		if (!dest) return '/';
+		return dest.type === 'detail' ? `/item-${dest.state.id}` : `/${dest.type}`;
+	};
+
+	function navigate(path: string) {
+		history.replaceState(null, '', path);
+		window.dispatchEvent(new PopStateEvent('popstate', { state: null }));
+	}
+
+	beforeEach(() => {
+		originalPathname = window.location.pathname;
+		history.replaceState(null, '', '/');
+	});
+
+	afterEach(() => {
+		history.replaceState(null, '', originalPathname);
+	});
+
+	it('dispatches the destination with loaded data once resolved', async () => {
+		const store = createStore({ initialState, reducer, dependencies: {} });
+		const item = deferred<string>();
+		const guard = createNavigationGuard<AppState, Dest, string>({
+			getDestination: (s) => s.destination,
+			load: () => item.promise
+		});
+
+		const cleanup = syncBrowserHistory(store, {
+			parse,
+			serialize,
+			guard,
+			navigationToAction: (event) => ({ type: 'navigationChanged', event }),
+			destinationToAction: (destination, _query, data) => ({
+				type: 'presented',
+				destination,
+				item: data ?? null
+			})
+		});
+
+		navigate('/item-5');
+		await vi.waitFor(() => expect(store.state.pendingNavigation?.phase).toBe('loading'));
+		expect(store.state.destination).toBeNull();
+
+		item.resolve('Widget');
+		await vi.waitFor(() => expect(store.state.destination).toEqual(detail('5')));
+		expect(store.state.item).toBe('Widget');
+		expect(store.state.pendingNavigation).toBeNull();
+
+		cleanup();
+	});
+
+	it('restores the URL when a guard blocks the navigation', async () => {
+		const store = createStore({
+			initialState: { ...initialState, destination: detail('1'), dirty: true },
+			reducer,
+			dependencies: {}
+		});
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canLeave: [({ state }) => !state.dirty]
+		});
+		const destinationToAction = vi.fn(() => null);
+
+		const cleanup = syncBrowserHistory(store, { parse, serialize, guard, destinationToAction });
+
+		navigate('/item-2');
+		await vi.waitFor(() => expect(window.location.pathname).toBe('/item-1'));
+		expect(destinationToAction).not.toHaveBeenCalled();
+
+		cleanup();
+	});
+
+	it('dispatches the redirect target and rewrites the URL', async () => {
+		const store = createStore({ initialState, reducer, dependencies: {} });
+		const guard = createNavigationGuard<AppState, Dest>({
+			getDestination: (s) => s.destination,
+			canEnter: [
+				({ to, state }) =>
+					to?.type === 'admin' && !state.loggedIn ? { redirect: { type: 'login', state: {} } } : true
+			]
+		});
+
+		const cleanup = syncBrowserHistory(store, {
+			parse,
+			serialize,
+			guard,
+			destinationToAction: (destination) => ({ type: 'presented', destination, item: null })
+		});
+
+		navigate('/admin');
+		await vi.waitFor(() => expect(store.state.destination).toEqual({ type: 'login', state: {} }));
+		expect(window.location.pathname).toBe('/login');
+
+		cleanup();
+	});
+
+	it('only presents the latest of overlapping navigations', async () => {
+		const store = createStore({ initialState, reducer, dependencies: {} });
+		const slow = deferred<string>();
+		const guard = createNavigationGuard<AppState, Dest, string>({
+			getDestination: (s) => s.destination,
+			load: ({ to }) => (to?.type === 'detail' && to.state.id === '1' ? slow.promise : 'fast')
+		});
+		const destinationToAction = vi.fn((destination: Dest | null, _query?: unknown, data?: string) => ({
+			type: 'presented' as const,
+			destination,
+			item: data ?? null
+		}));
+
+		const cleanup = syncBrowserHistory(store, { parse, serialize, guard, destinationToAction });
+
+		navigate('/item-1');
+		navigate('/item-2');
+		await vi.waitFor(() => expect(store.state.destination).toEqual(detail('2')));
+		slow.resolve('slow');
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(destinationToAction).toHaveBeenCalledTimes(1);
+		expect(store.state.item).toBe('fast');
+
+		cleanup();
+	});
+});
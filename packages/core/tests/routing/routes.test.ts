@@ -0,0 +1,208 @@
+/**
+ * Unit Tests: Declarative Route Table
+ *
+ * Tests for defineRoutes and route: parsing, serialization, nesting,
+ * schemas, and round-trips.
+ */
+
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { defineRoutes, route, type InferDestination } from '../../src/lib/routing/routes';
+import { parseDestination } from '../../src/lib/routing/parser';
+import { serializeDestination } from '../../src/lib/routing/serializer';
+import { number, optional, enumSchema, boolean, string } from '../../src/lib/routing/schemas';
+
+const routes = defineRoutes({
+	basePath: '/inventory',
+	routes: [
+		route('/', { destination: 'list', query: { q: optional(string()), page: optional(number()) } }),
+		route('/add', { destination: 'addItem' }),
+		route('/item-:id', {
+			destination: 'detailItem',
+			params: { id: number({ integer: true }) },
+			query: { tab: optional(enumSchema(['info', 'history'] as const)) },
+			children: [
+				route('/edit', { destination: 'editItem', query: { draft: boolean() } }),
+				route('/edit/:field', { destination: 'editField' })
+			]
+		}),
+		route('/settings', {
+			children: [route('/profile', { destination: 'profile' })]
+		}),
+		route('/files/*path', { destination: 'file' })
+	]
+});
+
+type InventoryDestination = InferDestination<typeof routes>;
+
+const destinations: InventoryDestination[] = [
+	{ type: 'list', state: {} },
+	{ type: 'list', state: { q: 'red shoes', page: 2 } },
+	{ type: 'addItem', state: {} },
+	{ type: 'detailItem', state: { id: 42 } },
+	{ type: 'detailItem', state: { id: 42, tab: 'history' } },
+	{ type: 'editItem', state: { id: 7, draft: true } },
+	{ type: 'editField', state: { id: 7, field: 'name with spaces' } },
+	{ type: 'profile', state: {} },
+	{ type: 'file', state: { path: ['docs', 'read me.md'] } }
+];
+
+describe('defineRoutes', () => {
+	describe('type inference', () => {
+		it('infers the destination union from the table', () => {
+			expectTypeOf<InventoryDestination['type']>().toEqualTypeOf<
+				'list' | 'addItem' | 'detailItem' | 'editItem' | 'editField' | 'profile' | 'file'
+			>();
+		});
+
+		it('infers params from patterns and schemas', () => {
+			type Detail = Extract<InventoryDestination, { type: 'detailItem' }>['state'];
+			expectTypeOf<Detail>().toEqualTypeOf<{ id: number; tab?: 'info' | 'history' }>();
+
+			type File = Extract<InventoryDestination, { type: 'file' }>['state'];
+			expectTypeOf<File>().toEqualTypeOf<{ path: string[] }>();
+		});
+
+		it('inherits parent params and query in children', () => {
+			type EditField = Extract<InventoryDestination, { type: 'editField' }>['state'];
+			expectTypeOf<EditField>().toEqualTypeOf<{
+				id: number;
+				field: string;
+				tab?: 'info' | 'history';
+			}>();
+
+			type Edit = Extract<InventoryDestination, { type: 'editItem' }>['state'];
+			expectTypeOf<Edit>().toEqualTypeOf<{ id: number; draft: boolean; tab?: 'info' | 'history' }>();
+		});
+
+		it('rejects schemas for params that are not in the pattern', () => {
+			// @ts-expect-error - 'itemId' is not a param of '/item-:id'
+			route('/item-:id', { params: { itemId: number() } });
+		});
+	});
+
+	describe('parse', () => {
+		it('parses paths with typed params', () => {
+			expect(routes.parse('/inventory/item-42')).toEqual({ type: 'detailItem', state: { id: 42 } });
+		});
+
+		it('parses the base path', () => {
+			expect(routes.parse('/inventory')).toEqual({ type: 'list', state: {} });
+			expect(routes.parse('/inventory/')).toEqual({ type: 'list', state: {} });
+		});
+
+		it('parses nested routes', () => {
+			expect(routes.parse('/inventory/item-7/edit/name')).toEqual({
+				type: 'editField',
+				state: { id: 7, field: 'name' }
+			});
+			expect(routes.parse('/inventory/settings/profile')).toEqual({ type: 'profile', state: {} });
+		});
+
+		it('does not match layout routes without a destination', () => {
+			expect(routes.parse('/inventory/settings')).toBeNull();
+		});
+
+		it('parses splats as segment arrays', () => {
+			expect(routes.parse('/inventory/files/a/b/c.txt')).toEqual({
+				type: 'file',
+				state: { path: ['a', 'b', 'c.txt'] }
+			});
+		});
+
+		it('parses query parameters with schemas', () => {
+			expect(routes.parse('/inventory/item-42?tab=history&ignored=1')).toEqual({
+				type: 'detailItem',
+				state: { id: 42, tab: 'history' }
+			});
+		});
+
+		it('returns null when a param schema rejects the value', () => {
+			expect(routes.parse('/inventory/item-abc')).toBeNull();
+			expect(routes.parse('/inventory/item-1.5')).toBeNull();
+		});
+
+		it('returns null when a query schema rejects the value', () => {
+			expect(routes.parse('/inventory/item-42?tab=unknown')).toBeNull();
+			expect(routes.parse('/inventory/item-42/edit')).toBeNull();
+		});
+
+		it('returns null outside the base path', () => {
+			expect(routes.parse('/other/item-42')).toBeNull();
+			expect(routes.parse('/inventoryx/item-42')).toBeNull();
+		});
+	});
+
+	describe('serialize', () => {
+		it('serializes params into the pattern', () => {
+			expect(routes.serialize({ type: 'detailItem', state: { id: 42 } })).toBe('/inventory/item-42');
+		});
+
+		it('serializes query parameters', () => {
+			expect(routes.serialize({ type: 'list', state: { q: 'red shoes', page: 2 } })).toBe(
+				'/inventory?q=red%20shoes&page=2'
+			);
+			expect(routes.serializePath({ type: 'list', state: { q: 'red' } })).toBe('/inventory');
+			expect(routes.serializeQuery({ type: 'list', state: { q: 'red' } })).toBe('q=red');
+		});
+
+		it('encodes params and splats', () => {
+			expect(routes.serialize({ type: 'file', state: { path: ['a b', 'c.txt'] } })).toBe(
+				'/inventory/files/a%20b/c.txt'
+			);
+		});
+
+		it('serializes null to the base path', () => {
+			expect(routes.serialize(null)).toBe('/inventory');
+		});
+
+		it('falls back to the base path for unknown destinations', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			expect(routes.serialize({ type: 'missing', state: {} } as never)).toBe('/inventory');
+			expect(warn).toHaveBeenCalledOnce();
+			warn.mockRestore();
+		});
+	});
+
+	describe('round-trip', () => {
+		it.each(destinations.map((destination) => [destination.type, destination] as const))(
+			'parse(serialize(%s)) returns the destination',
+			(_, destination) => {
+				expect(routes.parse(routes.serialize(destination))).toEqual(destination);
+			}
+		);
+
+		it('round-trips without a base path', () => {
+			const rootRoutes = defineRoutes({
+				routes: [route('/', { destination: 'home' }), route('/users/:id', { destination: 'user' })]
+			});
+
+			for (const destination of [
+				{ type: 'home', state: {} },
+				{ type: 'user', state: { id: 'ann' } }
+			] as InferDestination<typeof rootRoutes>[]) {
+				expect(rootRoutes.parse(rootRoutes.serialize(destination))).toEqual(destination);
+			}
+			expect(rootRoutes.serialize({ type: 'home', state: {} })).toBe('/');
+		});
+	});
+
+	describe('parser / serializer configs', () => {
+		it('plugs into parseDestination and serializeDestination', () => {
+			const destination: InventoryDestination = { type: 'editField', state: { id: 3, field: 'sku' } };
+			const path = serializeDestination(destination, routes.serializer);
+
+			expect(path).toBe('/inventory/item-3/edit/sku');
+			expect(parseDestination(path, routes.parser)).toEqual(destination);
+		});
+	});
+
+	describe('validation', () => {
+		it('throws on duplicate destinations', () => {
+			expect(() =>
+				defineRoutes({
+					routes: [route('/a', { destination: 'page' }), route('/b', { destination: 'page' })]
+				})
+			).toThrow('Duplicate route destination: "page"');
+		});
+	});
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit Tests: Scroll and Focus Restoration
+ *
+ * Tests for per-entry scroll/focus snapshots in syncBrowserHistory.
+ * JSDOM does not scroll, so a container with a writable scrollTop is used.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { syncBrowserHistory } from '../../src/lib/routing/browser-history';
+import { createMemoryHistoryAdapter, type HistoryAdapter } from '../../src/lib/routing/history-adapter';
+import {
+	RESTORATION_STATE_KEY,
+	getRestorationSnapshot,
+	type HistoryRestorationConfig,
+	type RestorationSnapshot
+} from '../../src/lib/routing/scroll-restoration';
+import { createStore } from '../../src/lib/store.svelte';
+import { Effect } from '../../src/lib/effect';
+import type { Reducer } from '../../src/lib/types';
+import type { PresentationState } from '../../src/lib/navigation/types';
+
+// Test Types
+type Dest = { type: 'detail'; state: { id: string } } | { type: 'feed'; state: {} };
+
+interface AppState {
+	destination: Dest | null;
+	presentation: PresentationState<Dest>;
+}
+
+type AppAction = { type: 'navigated'; destination: Dest | null } | { type: 'presentationCompleted' };
+
+const reducer: Reducer<AppState, AppAction, {}> = (state, action) => {
+	switch (action.type) {
+		case 'navigated':
+			return [
+				{
+					destination: action.destination,
+					presentation: action.destination
+						? { status: 'presenting', content: action.destination }
+						: { status: 'idle' }
+				},
+				Effect.none()
+			];
+		case 'presentationCompleted':
+			return [
+				{
+					...state,
+					presentation:
+						state.presentation.status === 'presenting'
+							? { status: 'presented', content: state.presentation.content }
+							: state.presentation
+				},
+				Effect.none()
+			];
+	}
+};
+
+const parse = (path: string): Dest | null => {
+	if (path === '/feed') return { type: 'feed', state: {} };
+	const match = path.match(/^\/item-(.+)$/);
+	return match ? { type: 'detail', state: { id: match[1]! } } : null;
+};
+
+const serialize = (state: AppState) =>
+	state.destination?.type === 'detail' ? `/item-${state.destination.state.id}` : '/';
+
+const wait = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function popTo(path: string, snapshot: RestorationSnapshot | null) {
+	const state = snapshot ? { [RESTORATION_STATE_KEY]: snapshot } : null;
+	history.replaceState(state, '', path);
+	window.dispatchEvent(new PopStateEvent('popstate', { state }));
+}
+
+describe('syncBrowserHistory restoration', () => {
+	let originalPathname: string;
+	let container: HTMLDivElement;
+	let button: HTMLButtonElement;
+	let scrollTop: number;
+
+	beforeEach(() => {
+		originalPathname = window.location.pathname;
+		history.replaceState(null, '', '/');
+
+		scrollTop = 0;
+		container = document.createElement('div');
+		Object.defineProperty(container, 'scrollTop', {
+			get: () => scrollTop,
+			set: (value: number) => {
+				scrollTop = value;
+			}
+		});
+		button = document.createElement('button');
+		button.id = 'save';
+		container.appendChild(button);
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		container.remove();
+		history.replaceState(null, '', originalPathname);
+	});
+
+	function setup(restoration: HistoryRestorationConfig<AppState, Dest> = {}, history?: HistoryAdapter) {
+		const store = createStore({
+			initialState: { destination: null, presentation: { status: 'idle' } } as AppState,
+			reducer,
+			dependencies: {}
+		});
+		const cleanup = syncBrowserHistory(store, {
+			parse,
+			serialize,
+			destinationToAction: (destination) => ({ type: 'navigated', destination }),
+			restoration: { scrollContainer: () => container, captureDelay: 0, ...restoration },
+			...(history ? { history } : {})
+		});
+		return { store, cleanup };
+	}
+
+	it('saves scroll and focus into the current history entry', async () => {
+		const { cleanup } = setup();
+
+		scrollTop = 300;
+		button.focus();
+		await wait();
+
+		expect(getRestorationSnapshot(history.state)).toEqual({ x: 0, y: 300, focus: '[id="save"]' });
+
+		cleanup();
+	});
+
+	it('saves the entry being left before a sync pushState', async () => {
+		const { cleanup } = setup({ captureDelay: 1000 });
+		const states: unknown[] = [];
+		const onPopState = (event: PopStateEvent) => states.push(event.state);
+		window.addEventListener('popstate', onPopState);
+
+		scrollTop = 120;
+		history.pushState({ composableSvelteSync: true }, '', '/item-1');
+		history.back();
+		await vi.waitFor(() => expect(states).toHaveLength(1));
+
+		expect(getRestorationSnapshot(states[0])).toEqual({ x: 0, y: 120, focus: null });
+
+		window.removeEventListener('popstate', onPopState);
+		cleanup();
+	});
+
+	it('saves the entry being left before a sync push through a history adapter', async () => {
+		const memory = createMemoryHistoryAdapter();
+		const push = memory.push;
+		const { cleanup } = setup({ captureDelay: 10 }, memory);
+
+		// Scrolling queues a capture that must not land on the new entry
+		scrollTop = 120;
+		window.dispatchEvent(new Event('scroll'));
+		memory.push('/item-1', { composableSvelteSync: true });
+		await wait(20);
+
+		expect(getRestorationSnapshot(memory.entries[0]!.state)).toEqual({ x: 0, y: 120, focus: null });
+		expect(getRestorationSnapshot(memory.entries[1]!.state)).toBeNull();
+
+		cleanup();
+		expect(memory.push).toBe(push);
+	});
+
+	it('restores scroll and focus on back/forward', async () => {
+		const { store, cleanup } = setup();
+
+		popTo('/item-1', { x: 0, y: 450, focus: '[id="save"]' });
+		expect(store.state.destination).toEqual({ type: 'detail', state: { id: '1' } });
+
+		await wait();
+		expect(scrollTop).toBe(450);
+		expect(document.activeElement).toBe(button);
+
+		cleanup();
+	});
+
+	it('waits for the presentation animation before restoring', async () => {
+		const { store, cleanup } = setup({ getPresentation: (state) => state.presentation });
+
+		popTo('/item-1', { x: 0, y: 200, focus: null });
+		await wait();
+		expect(scrollTop).toBe(0);
+
+		store.dispatch({ type: 'presentationCompleted' });
+		await wait();
+		expect(scrollTop).toBe(200);
+
+		cleanup();
+	});
+
+	it('skips destinations that opt out', async () => {
+		const { cleanup } = setup({ shouldRestore: (destination) => destination?.type !== 'feed' });
+
+		popTo('/feed', { x: 0, y: 900, focus: null });
+		await wait();
+		expect(scrollTop).toBe(0);
+
+		cleanup();
+	});
+
+	it('takes over scroll restoration until cleanup', () => {
+		history.scrollRestoration = 'auto';
+		const { cleanup } = setup();
+		expect(history.scrollRestoration).toBe('manual');
+
+		cleanup();
+		expect(history.scrollRestoration).toBe('auto');
+	});
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStore } from '../src/lib/store.svelte.js';
+import { Effect } from '../src/lib/effect.js';
+import {
+  recordSession,
+  serializeSession,
+  parseSession,
+  replaySession
+} from '../src/lib/test/index.js';
+import type { Reducer } from '../src/lib/types.js';
+
+interface CanvasState {
+  selectedNodes: Set<string>;
+  positions: Map<string, { x: number; y: number }>;
+  savedAt: Date | null;
+  thumbnail: Uint8Array | null;
+}
+
+type CanvasAction =
+  | { type: 'selectNode'; id: string }
+  | { type: 'moveNode'; id: string; x: number; y: number }
+  | { type: 'save' }
+  | { type: 'saved'; at: Date; thumbnail: Uint8Array };
+
+function createCanvasReducer(
+  saveCanvas: () => Promise<{ at: Date; thumbnail: Uint8Array }>
+): Reducer<CanvasState, CanvasAction> {
+  return (state, action) => {
+    switch (action.type) {
+      case 'selectNode':
+        return [{ ...state, selectedNodes: new Set([...state.selectedNodes, action.id]) }, Effect.none()];
+      case 'moveNode': {
+        const positions = new Map(state.positions);
+        positions.set(action.id, { x: action.x, y: action.y });
+        return [{ ...state, positions }, Effect.none()];
+      }
+      case 'save':
+        return [
+          state,
+          Effect.run(async (dispatch) => {
+            const result = await saveCanvas();
+            dispatch({ type: 'saved', ...result });
+          })
+        ];
+      case 'saved':
+        return [{ ...state, savedAt: action.at, thumbnail: action.thumbnail }, Effect.none()];
+    }
+  };
+}
+
+const initialState: CanvasState = {
+  selectedNodes: new Set(),
+  positions: new Map(),
+  savedAt: null,
+  thumbnail: null
+};
+
+async function recordCanvasSession(): Promise<string> {
+  const store = createStore({
+    initialState,
+    reducer: createCanvasReducer(async () => ({
+      at: new Date('2024-05-01T12:00:00.000Z'),
+      thumbnail: new Uint8Array([0, 127, 255])
+    }))
+  });
+
+  store.dispatch({ type: 'selectNode', id: 'node-1' });
+  store.dispatch({ type: 'moveNode', id: 'node-1', x: 40, y: 80 });
+  store.dispatch({ type: 'save' });
+  await vi.waitFor(() => expect(store.state.savedAt).not.toBeNull());
+
+  return serializeSession(recordSession(store, initialState));
+}
+
+describe('session recordings', () => {
+  it('records the initial state and the store history', () => {
+    const store = createStore({ initialState, reducer: createCanvasReducer(async () => { throw new Error('offline'); }) });
+    store.dispatch({ type: 'selectNode', id: 'node-1' });
+
+    const recording = recordSession(store, initialState);
+
+    expect(recording.version).toBe(1);
+    expect(recording.initialState).toBe(initialState);
+    expect(recording.actions).toEqual([{ type: 'selectNode', id: 'node-1' }]);
+  });
+
+  it('round-trips Date, Set, Map and Uint8Array values through JSON', () => {
+    const state: CanvasState = {
+      selectedNodes: new Set(['a', 'b']),
+      positions: new Map([['a', { x: 1, y: 2 }]]),
+      savedAt: new Date('2024-01-01T00:00:00.000Z'),
+      thumbnail: new Uint8Array([1, 2, 250])
+    };
+
+    const json = serializeSession(recordSession<CanvasState, CanvasAction>({ history: [] }, state));
+    expect(JSON.parse(json).initialState.selectedNodes).toEqual({ $type: 'Set', value: ['a', 'b'] });
+
+    const restored = parseSession<CanvasState, CanvasAction>(json).initialState;
+    expect(restored.selectedNodes).toEqual(new Set(['a', 'b']));
+    expect(restored.positions).toEqual(new Map([['a', { x: 1, y: 2 }]]));
+    expect(restored.savedAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(restored.thumbnail).toEqual(new Uint8Array([1, 2, 250]));
+  });
+
+  it('accepts an already parsed JSON fixture', () => {
+    const fixture = { version: 1, recordedAt: '', initialState: { tags: { $type: 'Set', value: [1] } }, actions: [] };
+
+    expect(parseSession<{ tags: Set<number> }, never>(fixture).initialState.tags).toEqual(new Set([1]));
+  });
+
+  it('rejects data that is not a session recording', () => {
+    expect(() => parseSession('{"state": {}}')).toThrow('Invalid session recording');
+  });
+});
+
+describe('replaySession()', () => {
+  it('replays a recorded session to the same final state', async () => {
+    const json = await recordCanvasSession();
+
+    const store = await replaySession(json, {
+      reducer: createCanvasReducer(async () => { throw new Error('offline'); })
+    });
+
+    expect(store.getState()).toEqual({
+      selectedNodes: new Set(['node-1']),
+      positions: new Map([['node-1', { x: 40, y: 80 }]]),
+      savedAt: new Date('2024-05-01T12:00:00.000Z'),
+      thumbnail: new Uint8Array([0, 127, 255])
+    });
+    expect(store.getHistory().map((action) => action.type)).toEqual(['selectNode', 'moveNode', 'save', 'saved']);
+  });
+
+  it('uses the recorded effect results instead of running effects', async () => {
+    const json = await recordCanvasSession();
+    const saveCanvas = vi.fn(async () => ({ at: new Date(), thumbnail: new Uint8Array() }));
+
+    const store = await replaySession(json, { reducer: createCanvasReducer(saveCanvas) });
+    store.assertNoPendingActions();
+
+    expect(saveCanvas).not.toHaveBeenCalled();
+    expect(store.getState().savedAt).toEqual(new Date('2024-05-01T12:00:00.000Z'));
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tests for the fetch-based SSE client
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLiveSSE } from '../../src/lib/sse/live-client.js';
+import type { SSEEvent, SSEMessage } from '../../src/lib/sse/types.js';
+import { SSE_ERROR_CODES } from '../../src/lib/sse/types.js';
+
+interface FakeStream {
+  response: Response;
+  push(text: string): void;
+  end(): void;
+  fail(error: unknown): void;
+}
+
+function createStream(init: { status?: number; contentType?: string } = {}): FakeStream {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    }
+  });
+  const status = init.status ?? 200;
+  const response = {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers({ 'content-type': init.contentType ?? 'text/event-stream; charset=utf-8' }),
+    body
+  } as unknown as Response;
+
+  return {
+    response,
+    push: (text) => controller.enqueue(encoder.encode(text)),
+    end: () => controller.close(),
+    fail: (error) => controller.error(error)
+  };
+}
+
+/** fetch mock serving the given streams in order. */
+function createFetch(...streams: FakeStream[]) {
+  let index = 0;
+  return vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => {
+    const stream = streams[index++];
+    if (!stream) throw new TypeError('Failed to fetch');
+    return stream.response;
+  });
+}
+
+function headersOf(fetchMock: ReturnType<typeof createFetch>, call: number): Record<string, string> {
+  return fetchMock.mock.calls[call]?.[1]?.headers as Record<string, string>;
+}
+
+describe('Live SSE Client', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send stream headers and deliver parsed messages', async () => {
+    const stream = createStream();
+    const fetchMock = createFetch(stream);
+    const client = createLiveSSE<{ text: string } | string>({
+      fetch: fetchMock,
+      headers: { Authorization: 'Bearer t' }
+    });
+    const messages: SSEMessage<{ text: string } | string>[] = [];
+    client.subscribe((message) => messages.push(message));
+
+    await client.connect('https://api.example.com/events');
+
+    expect(client.state.status).toBe('connected');
+    expect(fetchMock.mock.calls[0]?.[1]?.method).toBe('GET');
+    expect(headersOf(fetchMock, 0)).toEqual({
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Authorization: 'Bearer t'
+    });
+
+    stream.push('event: chat\nid: 1\ndata: {"text":"hi"}\n\n');
+    stream.push('data: plain text\n\n');
+
+    await vi.waitFor(() => expect(messages).toHaveLength(2));
+    expect(messages[0]).toMatchObject({ event: 'chat', id: '1', data: { text: 'hi' }, raw: '{"text":"hi"}' });
+    expect(messages[1]).toMatchObject({ event: 'message', id: null, data: 'plain text' });
+    expect(client.state.lastEventId).toBe('1');
+    expect(client.stats.messagesReceived).toBe(2);
+
+    await client.disconnect();
+  });
+
+  it('should POST JSON bodies', async () => {
+    const fetchMock = createFetch(createStream());
+    const client = createLiveSSE({ fetch: fetchMock });
+
+    await client.connect('/api/complete', { method: 'POST', body: { prompt: 'Hi' }, lastEventId: '9' });
+
+    const init = fetchMock.mock.calls[0]?.[1];
+    expect(init?.method).toBe('POST');
+    expect(init?.body).toBe('{"prompt":"Hi"}');
+    expect(headersOf(fetchMock, 0)).toMatchObject({
+      'Content-Type': 'application/json',
+      'Last-Event-ID': '9'
+    });
+
+    await client.disconnect();
+  });
+
+  it('should reject non-event-stream responses', async () => {
+    const client = createLiveSSE({ fetch: createFetch(createStream({ contentType: 'application/json' })) });
+
+    await expect(client.connect('/events')).rejects.toMatchObject({
+      code: SSE_ERROR_CODES.INVALID_CONTENT_TYPE,
+      recoverable: false
+    });
+    expect(client.state.status).toBe('failed');
+  });
+
+  it('should reject failed responses with their status', async () => {
+    const client = createLiveSSE({ fetch: createFetch(createStream({ status: 401 })) });
+
+    await expect(client.connect('/events')).rejects.toMatchObject({ status: 401, recoverable: false });
+  });
+
+  it('should reconnect with Last-Event-ID after the stream fails', async () => {
+    const first = createStream();
+    const second = createStream();
+    const fetchMock = createFetch(first, second);
+    const client = createLiveSSE({
+      fetch: fetchMock,
+      reconnect: { enabled: true, maxAttempts: 3, initialDelay: 10, maxDelay: 100, backoffMultiplier: 2, jitter: false }
+    });
+    const events: SSEEvent[] = [];
+    client.subscribeToEvents((event) => events.push(event));
+
+    await client.connect('/events');
+    first.push('id: 5\ndata: a\n\n');
+    first.fail(new Error('network lost'));
+
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain('reconnected'));
+
+    expect(headersOf(fetchMock, 1)['Last-Event-ID']).toBe('5');
+    expect(events.map(e => e.type)).toEqual(['connected', 'error', 'disconnected', 'reconnecting', 'connected', 'reconnected']);
+    expect(events[3]).toMatchObject({ attempt: 1, delay: 10, lastEventId: '5' });
+    expect(client.stats.reconnects).toBe(1);
+
+    await client.disconnect();
+  });
+
+  it('should use the retry field as the reconnection delay', async () => {
+    const first = createStream();
+    const client = createLiveSSE({
+      fetch: createFetch(first, createStream()),
+      reconnect: { enabled: true, maxAttempts: 3, initialDelay: 1000, maxDelay: 30000, backoffMultiplier: 2, jitter: false }
+    });
+    const events: SSEEvent[] = [];
+    client.subscribeToEvents((event) => events.push(event));
+
+    await client.connect('/events');
+    first.push('retry: 25\n\n');
+    first.end();
+
+    await vi.waitFor(() => expect(events.find(e => e.type === 'reconnecting')).toMatchObject({ delay: 25 }));
+    expect(events.find(e => e.type === 'disconnected')).toMatchObject({ reason: 'Stream ended', wasClean: true });
+
+    await client.disconnect();
+  });
+
+  it('should not reconnect after the stream ends when reconnectOnEnd is false', async () => {
+    const stream = createStream();
+    const fetchMock = createFetch(stream);
+    const client = createLiveSSE({ fetch: fetchMock, reconnectOnEnd: false });
+
+    await client.connect('/api/complete', { method: 'POST', body: 'prompt' });
+    stream.push('data: done\n\n');
+    stream.end();
+
+    await vi.waitFor(() => expect(client.state.status).toBe('disconnected'));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not reconnect after a POST stream ends by default', async () => {
+    const stream = createStream();
+    const fetchMock = createFetch(stream, createStream());
+    const client = createLiveSSE({
+      fetch: fetchMock,
+      reconnect: { enabled: true, maxAttempts: 3, initialDelay: 1, maxDelay: 1, backoffMultiplier: 1, jitter: false }
+    });
+
+    await client.connect('/api/complete', { method: 'POST', body: { prompt: 'Hi' } });
+    stream.push('data: done\n\n');
+    stream.end();
+
+    await vi.waitFor(() => expect(client.state.status).toBe('disconnected'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop reconnecting when the server answers 204', async () => {
+    const client = createLiveSSE({ fetch: createFetch(createStream({ status: 204 })) });
+    const events: SSEEvent[] = [];
+    client.subscribeToEvents((event) => events.push(event));
+
+    await client.connect('/events');
+
+    expect(client.state.status).toBe('disconnected');
+    expect(events).toEqual([expect.objectContaining({ type: 'disconnected', reason: 'No content' })]);
+  });
+
+  it('should fail after max reconnection attempts', async () => {
+    const first = createStream();
+    const client = createLiveSSE({
+      fetch: createFetch(first),
+      reconnect: { enabled: true, maxAttempts: 2, initialDelay: 1, maxDelay: 1, backoffMultiplier: 1, jitter: false }
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await client.connect('/events');
+    first.end();
+
+    await vi.waitFor(() => expect(client.state.lastError?.code).toBe(SSE_ERROR_CODES.MAX_RECONNECTS));
+    expect(client.state.status).toBe('failed');
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('should stop delivering messages after disconnect', async () => {
+    const stream = createStream();
+    const client = createLiveSSE({ fetch: createFetch(stream) });
+    const listener = vi.fn();
+    const events: SSEEvent[] = [];
+    client.subscribe(listener);
+    client.subscribeToEvents((event) => events.push(event));
+
+    await client.connect('/events');
+    await client.disconnect();
+
+    expect(client.state).toMatchObject({ status: 'disconnected', url: null });
+    expect(events.map(e => e.type)).toEqual(['connected', 'disconnected']);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should time out waiting for the response', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn((_url: string | URL | Request, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      })
+    );
+    const client = createLiveSSE({ fetch: fetchMock, connectionTimeout: 500 });
+
+    const result = client.connect('/events').catch((error: unknown) => error);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await result).toMatchObject({ code: SSE_ERROR_CODES.CONNECTION_TIMEOUT });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for Mock SSE Client
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createMockSSE } from '../../src/lib/sse/testing/mock-client.js';
+import type { SSEEvent, SSEMessage } from '../../src/lib/sse/types.js';
+import { SSEError, SSE_ERROR_CODES } from '../../src/lib/sse/types.js';
+
+describe('Mock SSE Client', () => {
+  describe('Connection Management', () => {
+    it('should record connections with their request options', async () => {
+      const client = createMockSSE();
+
+      await client.connect('/api/complete', { method: 'POST', body: { prompt: 'Hi' }, lastEventId: '3' });
+
+      expect(client.state).toMatchObject({ status: 'connected', url: '/api/complete', lastEventId: '3' });
+      expect(client.connections).toEqual([
+        { url: '/api/complete', options: { method: 'POST', body: { prompt: 'Hi' }, lastEventId: '3' } }
+      ]);
+    });
+
+    it('should reject connect when already connected', async () => {
+      const client = createMockSSE();
+      await client.connect('/events');
+
+      await expect(client.connect('/events')).rejects.toThrow('Already connected');
+    });
+
+    it('should emit connected and disconnected events', async () => {
+      const client = createMockSSE();
+      const events: SSEEvent[] = [];
+      client.subscribeToEvents((event) => events.push(event));
+
+      await client.connect('/events');
+      await client.disconnect();
+
+      expect(events.map(e => e.type)).toEqual(['connected', 'disconnected']);
+      expect(client.state.status).toBe('disconnected');
+    });
+  });
+
+  describe('Simulation', () => {
+    it('should deliver simulated messages and track the last event id', async () => {
+      const client = createMockSSE<{ text: string }>();
+      const messages: SSEMessage<{ text: string }>[] = [];
+      client.subscribe((message) => messages.push(message));
+      await client.connect('/events');
+
+      client.simulateMessage({ text: 'a' });
+      client.simulateMessage({ text: 'b' }, { event: 'chat', id: '2' });
+
+      expect(messages.map(m => [m.event, m.id, m.data])).toEqual([
+        ['message', null, { text: 'a' }],
+        ['chat', '2', { text: 'b' }]
+      ]);
+      expect(client.state.lastEventId).toBe('2');
+      expect(client.stats.messagesReceived).toBe(2);
+    });
+
+    it('should simulate errors and disconnects', async () => {
+      const client = createMockSSE();
+      const listener = vi.fn();
+      client.subscribeToEvents(listener);
+      await client.connect('/events');
+      const error = new SSEError('Stream failed', SSE_ERROR_CODES.STREAM_FAILED, true);
+
+      client.simulateError(error);
+      client.simulateDisconnect('Stream failed');
+
+      expect(client.state.lastError).toBe(error);
+      expect(client.state.status).toBe('disconnected');
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'error', error }));
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'disconnected', wasClean: false }));
+    });
+
+    it('should reset state, listeners and history', async () => {
+      const client = createMockSSE();
+      const listener = vi.fn();
+      client.subscribe(listener);
+      await client.connect('/events');
+
+      client.reset();
+      client.simulateMessage('ignored');
+
+      expect(client.connections).toHaveLength(0);
+      expect(client.state.status).toBe('disconnected');
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for the event stream parser
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createEventStreamParser, type ParsedEvent } from '../../src/lib/sse/parser.js';
+
+function parse(...chunks: string[]) {
+  const events: ParsedEvent[] = [];
+  const ids: string[] = [];
+  const retries: number[] = [];
+  const parser = createEventStreamParser({
+    onEvent: (event) => events.push(event),
+    onId: (id) => ids.push(id),
+    onRetry: (delay) => retries.push(delay)
+  });
+  chunks.forEach(chunk => parser.push(chunk));
+  return { events, ids, retries };
+}
+
+describe('Event Stream Parser', () => {
+  it('should dispatch events on blank lines', () => {
+    const { events } = parse('data: hello\n\ndata: world\n\n');
+
+    expect(events).toEqual([
+      { event: 'message', data: 'hello', id: null },
+      { event: 'message', data: 'world', id: null }
+    ]);
+  });
+
+  it('should read event, id and multi-line data fields', () => {
+    const { events, ids } = parse('event: update\nid: 42\ndata: line 1\ndata: line 2\n\n');
+
+    expect(events).toEqual([{ event: 'update', data: 'line 1\nline 2', id: '42' }]);
+    expect(ids).toEqual(['42']);
+  });
+
+  it('should handle chunks split anywhere, including CRLF', () => {
+    const { events } = parse('da', 'ta: a\r', '\n\r', '\ndata:b\rdata', ': c\r\r', 'data: d');
+
+    expect(events.map(e => e.data)).toEqual(['a', 'b\nc']);
+  });
+
+  it('should ignore comments, unknown fields and incomplete events', () => {
+    const { events } = parse(':keep-alive\nfoo: bar\ndata: x\n\ndata: pending');
+
+    expect(events).toEqual([{ event: 'message', data: 'x', id: null }]);
+  });
+
+  it('should report ids without data and ignore ids containing NULL', () => {
+    const { events, ids } = parse('id: 7\n\nid: a\0b\n\n');
+
+    expect(events).toEqual([]);
+    expect(ids).toEqual(['7']);
+  });
+
+  it('should only accept numeric retry fields', () => {
+    const { retries } = parse('retry: 3000\nretry: soon\n\n');
+
+    expect(retries).toEqual([3000]);
+  });
+
+  it('should strip a leading byte order mark', () => {
+    const onEvent = vi.fn();
+    createEventStreamParser({ onEvent }).push('﻿data: x\n\n');
+
+    expect(onEvent).toHaveBeenCalledWith({ event: 'message', data: 'x', id: null });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for Spy SSE Client
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSpySSE } from '../../src/lib/sse/testing/spy-client.js';
+import { createMockSSE } from '../../src/lib/sse/testing/mock-client.js';
+
+describe('Spy SSE Client', () => {
+  it('should record connections and disconnections', async () => {
+    const spy = createSpySSE(createMockSSE());
+
+    await spy.connect('/events', { headers: { Authorization: 'Bearer t' } });
+    await spy.disconnect();
+    await spy.connect('/other');
+
+    expect(spy.connections.map(c => c.url)).toEqual(['/events', '/other']);
+    expect(spy.connections[0]?.options).toEqual({ headers: { Authorization: 'Bearer t' } });
+    expect(spy.connections[1]).not.toHaveProperty('options');
+    expect(spy.disconnections).toHaveLength(1);
+    expect(spy.connectionsTo('/events')).toBe(1);
+  });
+
+  it('should record received messages and delegate state', async () => {
+    const mock = createMockSSE<string>();
+    const spy = createSpySSE(mock);
+    const received: string[] = [];
+    spy.subscribe((message) => received.push(message.data));
+
+    await spy.connect('/events');
+    mock.simulateMessage('hello', { id: '1' });
+
+    expect(received).toEqual(['hello']);
+    expect(spy.receivedMessages.map(m => m.data)).toEqual(['hello']);
+    expect(spy.state).toBe(mock.state);
+    expect(spy.stats.messagesReceived).toBe(1);
+  });
+
+  it('should reset recorded data', async () => {
+    const spy = createSpySSE(createMockSSE());
+    await spy.connect('/events');
+
+    spy.reset();
+
+    expect(spy.connections).toHaveLength(0);
+    expect(spy.disconnections).toHaveLength(0);
+    expect(spy.receivedMessages).toHaveLength(0);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { hydrateStore, parseState } from '../../src/lib/ssr/hydrate';
+import { hydrateStore, parseState, applyStreamChunks, STREAM_CHUNKS_KEY } from '../../src/lib/ssr/hydrate';
 import { serializeStore } from '../../src/lib/ssr/serialize';
 import { createStore } from '../../src/lib/store.svelte';
 import { Effect } from '../../src/lib/effect';
@@ -320,3 +320,43 @@ describe('parseState', () => {
     expect(parsed).toEqual([]);
   });
 });
+
+describe('streamed chunks', () => {
+  it('applies patches and replacements in order', () => {
+    const state = applyStreamChunks({ count: 1, user: null, stale: true } as Record<string, unknown>, [
+      { type: 'patch', set: { count: 2 }, unset: ['stale'] },
+      { type: 'deferred', actions: [{ type: 'increment' }] },
+      { type: 'patch', set: { user: { id: 1, name: 'Ada' } }, unset: [] }
+    ]);
+
+    expect(state).toEqual({ count: 2, user: { id: 1, name: 'Ada' } });
+    expect(applyStreamChunks(1, [{ type: 'replace', state: 2 }])).toBe(2);
+  });
+
+  it('merges patches and re-dispatches deferred actions', () => {
+    const store = hydrateStore<TestState, TestAction>(JSON.stringify(initialState), {
+      reducer,
+      chunks: [
+        { type: 'patch', set: { items: ['a'] }, unset: [] },
+        { type: 'deferred', actions: [{ type: 'increment' }] }
+      ]
+    });
+
+    expect(store.state.items).toEqual(['a']);
+    expect(store.state.count).toBe(1);
+    expect(store.history).toEqual([{ type: 'increment' }]);
+  });
+
+  it('reads chunks from the page by default', () => {
+    (window as unknown as Record<string, unknown>)[STREAM_CHUNKS_KEY] = [
+      { type: 'patch', set: { isLoading: true }, unset: [] }
+    ];
+
+    try {
+      const store = hydrateStore<TestState, TestAction>(JSON.stringify(initialState), { reducer });
+      expect(store.state.isLoading).toBe(true);
+    } finally {
+      delete (window as unknown as Record<string, unknown>)[STREAM_CHUNKS_KEY];
+    }
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { renderToStream, createServerEffects } from '../../src/lib/ssr/stream';
+import type { StreamChunk } from '../../src/lib/ssr/hydrate';
+import { createStore } from '../../src/lib/store.svelte';
+import { Effect } from '../../src/lib/effect';
+import type { Reducer } from '../../src/lib/types';
+
+vi.mock('svelte/server', () => ({
+  render: vi.fn(() => ({
+    body: '<main>Shell</main>',
+    head: ''
+  }))
+}));
+
+interface TestState {
+  products: string[] | null;
+  reviews: string[] | null;
+  note: string;
+}
+
+type TestAction =
+  | { type: 'loadProducts' }
+  | { type: 'productsLoaded'; products: string[] }
+  | { type: 'loadReviews' }
+  | { type: 'reviewsLoaded'; reviews: string[] }
+  | { type: 'track' };
+
+const initialState: TestState = { products: null, reviews: null, note: '</script><script>alert(1)</script>' };
+
+const App = {};
+
+/**
+ * Promise resolved from the test, to control when effects finish.
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+function setup(allow: TestAction['type'][] = ['loadProducts', 'loadReviews']) {
+  const products = deferred<string[]>();
+  const reviews = deferred<string[]>();
+  const tracked = vi.fn();
+
+  const reducer: Reducer<TestState, TestAction> = (state, action) => {
+    switch (action.type) {
+      case 'loadProducts':
+        return [state, Effect.run(async (dispatch) => {
+          dispatch({ type: 'productsLoaded', products: await products.promise });
+        })];
+      case 'productsLoaded':
+        return [{ ...state, products: action.products }, Effect.none()];
+      case 'loadReviews':
+        return [state, Effect.run(async (dispatch) => {
+          dispatch({ type: 'reviewsLoaded', reviews: await reviews.promise });
+        })];
+      case 'reviewsLoaded':
+        return [{ ...state, reviews: action.reviews }, Effect.none()];
+      case 'track':
+        return [state, Effect.fireAndForget(tracked)];
+    }
+  };
+
+  const serverEffects = createServerEffects<TestAction>({
+    allow: (action) => allow.includes(action.type)
+  });
+  const store = createStore({ initialState, reducer, ssr: { serverEffects } });
+
+  return { store, serverEffects, products, reviews, tracked };
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+function readChunks(html: string): StreamChunk<TestAction>[] {
+  return [...html.matchAll(/\.push\((.*)\)<\/script>/g)].map(match => JSON.parse(match[1]!));
+}
+
+describe('renderToStream', () => {
+  it('flushes the shell before server effects finish', async () => {
+    const { store, serverEffects, products } = setup();
+    store.dispatch({ type: 'loadProducts' });
+
+    const stream = renderToStream(App, { store }, { serverEffects });
+    const reader = stream.getReader();
+    const { value } = await reader.read();
+    const shell = new TextDecoder().decode(value);
+
+    expect(shell).toContain('<main>Shell</main>');
+    expect(shell).toContain('<script id="__COMPOSABLE_SVELTE_STATE__" type="application/json">');
+    expect(shell).not.toContain('</html>');
+    expect(serverEffects.pending).toBe(1);
+
+    products.resolve(['Lamp']);
+    let rest = '';
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      rest += new TextDecoder().decode(chunk.value);
+    }
+    expect(rest).toContain('</html>');
+  });
+
+  it('streams a patch for each effect in the order they finish', async () => {
+    const { store, serverEffects, products, reviews } = setup();
+    store.dispatch({ type: 'loadProducts' });
+    store.dispatch({ type: 'loadReviews' });
+
+    const html = readAll(renderToStream(App, { store }, { serverEffects }));
+    reviews.resolve(['Great']);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    products.resolve(['Lamp', 'Desk']);
+
+    expect(readChunks(await html)).toEqual([
+      { type: 'patch', set: { reviews: ['Great'] }, unset: [] },
+      { type: 'patch', set: { products: ['Lamp', 'Desk'] }, unset: [] }
+    ]);
+  });
+
+  it('defers effects still running at the deadline to the client', async () => {
+    vi.useFakeTimers();
+    try {
+      const { store, serverEffects, products, reviews } = setup();
+      store.dispatch({ type: 'loadProducts' });
+      store.dispatch({ type: 'loadReviews' });
+
+      const html = readAll(renderToStream(App, { store }, { serverEffects, deadline: 100 }));
+      products.resolve(['Lamp']);
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(readChunks(await html)).toEqual([
+        { type: 'patch', set: { products: ['Lamp'] }, unset: [] },
+        { type: 'deferred', actions: [{ type: 'loadReviews' }] }
+      ]);
+
+      // Late results are dropped: the client loads reviews again
+      reviews.resolve(['Great']);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(store.state.reviews).toBeNull();
+      expect(serverEffects.allows({ type: 'loadReviews' })).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps deferring effects that are not server-safe', async () => {
+    const { store, serverEffects, tracked } = setup(['loadProducts']);
+    store.dispatch({ type: 'track' });
+
+    const html = await readAll(renderToStream(App, { store }, { serverEffects }));
+
+    expect(tracked).not.toHaveBeenCalled();
+    expect(serverEffects.pending).toBe(0);
+    expect(readChunks(html)).toEqual([]);
+  });
+
+  it('closes the document after the shell without server effects', async () => {
+    const { store } = setup();
+
+    const html = await readAll(renderToStream(App, { store }, { title: 'Shop', clientScript: '/client.js' }));
+
+    expect(html).toContain('<title>Shop</title>');
+    expect(html).toMatch(/<script type="module" src="\/client\.js"><\/script>\s*<\/body>\s*<\/html>$/);
+  });
+
+  it('escapes state so it cannot close the script element', async () => {
+    const { store } = setup();
+
+    const html = await readAll(renderToStream(App, { store }));
+    const stateJSON = html.match(/application\/json">([\s\S]*?)<\/script>/)![1]!;
+
+    expect(stateJSON).not.toContain('</script>');
+    expect(JSON.parse(stateJSON).note).toBe(initialState.note);
+  });
+
+  it('throws when Component is missing', () => {
+    expect(() => renderToStream(null, {})).toThrow('renderToStream: Component is required');
+  });
+});
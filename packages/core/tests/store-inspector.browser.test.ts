@@ -0,0 +1,137 @@
+/**
+ * Browser tests for the StoreInspector component
+ *
+ * These tests use Vitest browser mode with Playwright to test the component in a real browser.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render } from 'vitest-browser-svelte';
+import { page, userEvent } from 'vitest/browser';
+import StoreInspector from '../src/lib/devtools/StoreInspector.svelte';
+import { createStore } from '../src/lib/store.svelte.js';
+import { scopeTo, type ScopedStore } from '../src/lib/navigation/scope.js';
+import { Effect } from '../src/lib/effect.js';
+import type { Reducer } from '../src/lib/types.js';
+
+interface TodoState {
+  todos: Array<{ title: string; done: boolean }>;
+  filter: string;
+}
+
+type TodoAction =
+  | { type: 'addTodo'; title: string }
+  | { type: 'toggleTodo'; index: number }
+  | { type: 'setFilter'; filter: string };
+
+const todoReducer: Reducer<TodoState, TodoAction> = (state, action) => {
+  switch (action.type) {
+    case 'addTodo':
+      return [{ ...state, todos: [...state.todos, { title: action.title, done: false }] }, Effect.none()];
+    case 'toggleTodo':
+      return [
+        {
+          ...state,
+          todos: state.todos.map((todo, index) =>
+            index === action.index ? { ...todo, done: !todo.done } : todo
+          )
+        },
+        Effect.none()
+      ];
+    case 'setFilter':
+      return [{ ...state, filter: action.filter }, Effect.none()];
+  }
+};
+
+function createTodoStore() {
+  return createStore({ initialState: { todos: [], filter: 'all' } as TodoState, reducer: todoReducer });
+}
+
+describe('StoreInspector', () => {
+  it('logs actions and shows the state diff of the selected one', async () => {
+    const store = createTodoStore();
+    render(StoreInspector<TodoState, TodoAction>, { props: { store } });
+
+    store.dispatch({ type: 'addTodo', title: 'Write tests' });
+    store.dispatch({ type: 'toggleTodo', index: 0 });
+
+    const log = page.getByRole('list', { name: 'Action log' });
+    await expect.poll(() => log.getByRole('listitem').elements().length).toBe(2);
+
+    await userEvent.click(page.getByText('toggleTodo'));
+
+    const changes = page.getByRole('list', { name: 'State changes' });
+    await expect.element(changes).toHaveTextContent('todos[0].done');
+    await expect.element(changes).toHaveTextContent('false → true');
+  });
+
+  it('filters the log by action type', async () => {
+    const store = createTodoStore();
+    render(StoreInspector<TodoState, TodoAction>, { props: { store } });
+
+    store.dispatch({ type: 'addTodo', title: 'One' });
+    store.dispatch({ type: 'setFilter', filter: 'done' });
+    store.dispatch({ type: 'addTodo', title: 'Two' });
+
+    await userEvent.fill(page.getByLabelText('Filter by action type'), 'filter');
+
+    const items = page.getByRole('list', { name: 'Action log' }).getByRole('listitem');
+    await expect.poll(() => items.elements().length).toBe(1);
+    await expect.element(items.first()).toHaveTextContent('setFilter');
+  });
+
+  it('exports the session as JSON', async () => {
+    const store = createTodoStore();
+    const onExport = vi.fn();
+    render(StoreInspector<TodoState, TodoAction>, { props: { store, onExport } });
+
+    store.dispatch({ type: 'addTodo', title: 'Report bug' });
+    await userEvent.click(page.getByRole('button', { name: 'Export' }));
+
+    const session = JSON.parse(onExport.mock.calls[0]![0]);
+    expect(session.initialState).toEqual({ todos: [], filter: 'all' });
+    expect(session.entries.map((entry: { action: TodoAction }) => entry.action)).toEqual([
+      { type: 'addTodo', title: 'Report bug' }
+    ]);
+    expect(session.finalState.todos).toEqual([{ title: 'Report bug', done: false }]);
+  });
+
+  it('records child actions of a scoped store', async () => {
+    interface ParentState {
+      editor: TodoState | null;
+      title: string;
+    }
+    type ParentAction = { type: 'editor'; action: any } | { type: 'rename'; title: string };
+
+    const parent = createStore<ParentState, ParentAction>({
+      initialState: { editor: { todos: [], filter: 'all' }, title: 'List' },
+      reducer: (state, action) => {
+        if (action.type === 'rename') return [{ ...state, title: action.title }, Effect.none()];
+        const child = action.action;
+        if (child.type !== 'presented' || !state.editor) return [state, Effect.none()];
+        const [editor] = todoReducer(state.editor, child.action, undefined);
+        return [{ ...state, editor }, Effect.none()];
+      }
+    });
+    const scoped = scopeTo(parent).into('editor').optional() as ScopedStore<TodoState, TodoAction>;
+    render(StoreInspector<TodoState, TodoAction>, { props: { store: scoped } });
+
+    scoped.dispatch({ type: 'addTodo', title: 'Scoped' });
+    parent.dispatch({ type: 'rename', title: 'Ignored' });
+
+    const items = page.getByRole('list', { name: 'Action log' }).getByRole('listitem');
+    await expect.poll(() => items.elements().length).toBe(1);
+
+    await userEvent.click(page.getByText('addTodo'));
+    await expect.element(page.getByRole('list', { name: 'State changes' })).toHaveTextContent('todos[0]');
+  });
+
+  it('explains when the store cannot be subscribed to', async () => {
+    render(StoreInspector<{ n: number }, never>, {
+      props: { store: { state: { n: 1 } } }
+    });
+
+    await expect
+      .element(page.getByText("This store doesn't support action subscriptions."))
+      .toBeInTheDocument();
+  });
+});
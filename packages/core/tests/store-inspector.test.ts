@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { diffState } from '../src/lib/devtools/state-diff.js';
+import { serializeInspectorSession } from '../src/lib/devtools/inspector.js';
+import { createStore } from '../src/lib/store.svelte.js';
+import { scopeTo, type ScopedStore } from '../src/lib/navigation/scope.js';
+import { Effect } from '../src/lib/effect.js';
+import type { Reducer } from '../src/lib/types.js';
+
+interface TodoState {
+  todos: Array<{ title: string; done: boolean }>;
+  filter: string;
+}
+
+type TodoAction =
+  | { type: 'addTodo'; title: string }
+  | { type: 'toggleTodo'; index: number }
+  | { type: 'setFilter'; filter: string };
+
+const todoReducer: Reducer<TodoState, TodoAction> = (state, action) => {
+  switch (action.type) {
+    case 'addTodo':
+      return [{ ...state, todos: [...state.todos, { title: action.title, done: false }] }, Effect.none()];
+    case 'toggleTodo':
+      return [
+        {
+          ...state,
+          todos: state.todos.map((todo, index) =>
+            index === action.index ? { ...todo, done: !todo.done } : todo
+          )
+        },
+        Effect.none()
+      ];
+    case 'setFilter':
+      return [{ ...state, filter: action.filter }, Effect.none()];
+  }
+};
+
+function createTodoStore() {
+  return createStore({ initialState: { todos: [], filter: 'all' } as TodoState, reducer: todoReducer });
+}
+
+describe('diffState()', () => {
+  it('reports added, removed and changed paths', () => {
+    const changes = diffState(
+      { count: 1, user: { name: 'Ann', role: 'admin' }, tags: ['a', 'b'] },
+      { count: 2, user: { name: 'Ann', email: 'ann@example.com' }, tags: ['a'] }
+    );
+
+    expect(changes).toEqual([
+      { kind: 'changed', path: 'count', before: 1, after: 2 },
+      { kind: 'removed', path: 'user.role', before: 'admin' },
+      { kind: 'added', path: 'user.email', after: 'ann@example.com' },
+      { kind: 'removed', path: 'tags[1]', before: 'b' }
+    ]);
+  });
+
+  it('skips shared branches and compares Sets by content', () => {
+    const shared = { items: [1, 2, 3] };
+
+    expect(diffState({ shared, ids: new Set([1]) }, { shared, ids: new Set([1]) })).toEqual([]);
+    expect(diffState({ ids: new Set([1]) }, { ids: new Set([2]) })).toHaveLength(1);
+  });
+
+  it('reports a changed root for different primitives', () => {
+    expect(diffState(1, 2)).toEqual([{ kind: 'changed', path: '', before: 1, after: 2 }]);
+  });
+});
+
+describe('serializeInspectorSession()', () => {
+  it('writes actions, changes and Sets as JSON', () => {
+    const json = serializeInspectorSession(
+      { ids: new Set<number>() },
+      [
+        {
+          id: 0,
+          action: { type: 'add', id: 1 },
+          state: { ids: new Set([1]) },
+          changes: [{ kind: 'changed', path: 'ids', before: new Set(), after: new Set([1]) }],
+          timestamp: 1000
+        }
+      ],
+      { ids: new Set([1]) }
+    );
+
+    const session = JSON.parse(json);
+    expect(session.version).toBe(1);
+    expect(session.initialState).toEqual({ ids: [] });
+    expect(session.entries).toEqual([
+      {
+        action: { type: 'add', id: 1 },
+        changes: [{ kind: 'changed', path: 'ids', before: [], after: [1] }],
+        timestamp: 1000
+      }
+    ]);
+    expect(session.finalState).toEqual({ ids: [1] });
+  });
+});
+
+describe('scoped subscribeToActions', () => {
+  it('forwards child actions with the child state only', () => {
+    interface ParentState {
+      editor: TodoState | null;
+      title: string;
+    }
+    type ParentAction = { type: 'editor'; action: any } | { type: 'rename'; title: string };
+
+    const parent = createStore<ParentState, ParentAction>({
+      initialState: { editor: { todos: [], filter: 'all' }, title: 'List' },
+      reducer: (state, action) => {
+        if (action.type === 'rename') return [{ ...state, title: action.title }, Effect.none()];
+        const child = action.action;
+        if (child.type !== 'presented' || !state.editor) return [state, Effect.none()];
+        const [editor] = todoReducer(state.editor, child.action, undefined);
+        return [{ ...state, editor }, Effect.none()];
+      }
+    });
+    const scoped = scopeTo(parent).into('editor').optional() as ScopedStore<TodoState, TodoAction>;
+    const received: Array<[TodoAction, TodoState]> = [];
+
+    const unsubscribe = scoped.subscribeToActions!((action, state) => received.push([action, state]));
+    scoped.dispatch({ type: 'addTodo', title: 'Scoped' });
+    parent.dispatch({ type: 'rename', title: 'Ignored' });
+    unsubscribe();
+    scoped.dispatch({ type: 'setFilter', filter: 'done' });
+
+    expect(received).toEqual([
+      [{ type: 'addTodo', title: 'Scoped' }, { todos: [{ title: 'Scoped', done: false }], filter: 'all' }]
+    ]);
+  });
+});
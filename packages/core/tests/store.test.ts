@@ -404,4 +404,405 @@ describe('createStore', () => {
     // Only the initial call from subscribe
     expect(listener).toHaveBeenCalledTimes(1);
   });
+
+  describe('retry and timeout effects', () => {
+    type LoadAction = { type: 'load' } | { type: 'loaded'; value: number } | { type: 'timedOut' };
+
+    function createLoadStore(effect: () => ReturnType<typeof Effect.run<LoadAction>>) {
+      const reducer: Reducer<{ value: number | null; timedOut: boolean }, LoadAction> = (state, action) => {
+        switch (action.type) {
+          case 'load':
+            return [state, effect()];
+          case 'loaded':
+            return [{ ...state, value: action.value }, Effect.none()];
+          case 'timedOut':
+            return [{ ...state, timedOut: true }, Effect.none()];
+        }
+      };
+      return createStore({ initialState: { value: null, timedOut: false }, reducer });
+    }
+
+    it('retries a failing effect with backoff', async () => {
+      const attempts = vi.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce(7);
+      const backoff = vi.fn((attempt: number) => attempt * 100);
+      const store = createLoadStore(() =>
+        Effect.retry(
+          Effect.run(async (dispatch) => {
+            dispatch({ type: 'loaded', value: await attempts() });
+          }),
+          { maxAttempts: 3, backoff }
+        )
+      );
+
+      store.dispatch({ type: 'load' });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(attempts).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(attempts).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(attempts).toHaveBeenCalledTimes(3);
+      expect(backoff.mock.calls).toEqual([[1], [2]]);
+      expect(store.state.value).toBe(7);
+    });
+
+    it('retries a failing cancellable effect', async () => {
+      const attempts = vi.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce(3);
+      const store = createLoadStore(() =>
+        Effect.retry(
+          Effect.cancellable('load', async (dispatch) => {
+            dispatch({ type: 'loaded', value: await attempts() });
+          }),
+          { maxAttempts: 2, backoff: 100 }
+        )
+      );
+
+      store.dispatch({ type: 'load' });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(attempts).toHaveBeenCalledTimes(2);
+      expect(store.state.value).toBe(3);
+    });
+
+    it('stops retrying when shouldRetry returns false and reports the error', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const error = new Error('forbidden');
+      const attempts = vi.fn().mockRejectedValue(error);
+      const store = createLoadStore(() =>
+        Effect.retry(Effect.run(async () => attempts()), {
+          maxAttempts: 5,
+          shouldRetry: (_error, attempt) => attempt < 2
+        })
+      );
+
+      store.dispatch({ type: 'load' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(attempts).toHaveBeenCalledTimes(2);
+      expect(consoleError).toHaveBeenCalledWith('[Composable Svelte] Effect error:', error);
+    });
+
+    it('runs onTimeout and drops late actions', async () => {
+      const store = createLoadStore(() =>
+        Effect.timeout(
+          Effect.run(async (dispatch) => {
+            await new Promise(resolve => setTimeout(resolve, 1000));
+            dispatch({ type: 'loaded', value: 1 });
+          }),
+          500,
+          (dispatch) => dispatch({ type: 'timedOut' })
+        )
+      );
+
+      store.dispatch({ type: 'load' });
+      await vi.advanceTimersByTimeAsync(500);
+      expect(store.state.timedOut).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(store.state.value).toBeNull();
+    });
+
+    it('clears the deadline timer when the effect finishes first', async () => {
+      const store = createLoadStore(() =>
+        Effect.timeout(Effect.run(async (dispatch) => dispatch({ type: 'loaded', value: 1 })), 60_000)
+      );
+
+      store.dispatch({ type: 'load' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(store.state.value).toBe(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('retries attempts that time out', async () => {
+      let call = 0;
+      const store = createLoadStore(() =>
+        Effect.retry(
+          Effect.timeout(
+            Effect.run(async (dispatch) => {
+              call++;
+              // First attempt hangs, second answers quickly
+              await new Promise(resolve => setTimeout(resolve, call === 1 ? 10_000 : 10));
+              dispatch({ type: 'loaded', value: call });
+            }),
+            100
+          ),
+          { maxAttempts: 2 }
+        )
+      );
+
+      store.dispatch({ type: 'load' });
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(call).toBe(2);
+      expect(store.state.value).toBe(2);
+    });
+
+    it('clears pending backoff timers on destroy', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const attempts = vi.fn().mockRejectedValue(new Error('offline'));
+      const store = createLoadStore(() =>
+        Effect.retry(Effect.run(async () => attempts()), { maxAttempts: 3, backoff: 1000 })
+      );
+
+      store.dispatch({ type: 'load' });
+      await vi.advanceTimersByTimeAsync(0);
+      store.destroy();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(attempts).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sequence, race and pool effects', () => {
+    type StepAction = { type: 'start' } | { type: 'step'; name: string };
+
+    function createStepStore(effect: () => ReturnType<typeof Effect.run<StepAction>>) {
+      const reducer: Reducer<{ steps: string[] }, StepAction> = (state, action) => {
+        switch (action.type) {
+          case 'start':
+            return [state, effect()];
+          case 'step':
+            return [{ steps: [...state.steps, action.name] }, Effect.none()];
+        }
+      };
+      return createStore({ initialState: { steps: [] as string[] }, reducer });
+    }
+
+    const step = (name: string, ms: number) =>
+      Effect.run<StepAction>(async (dispatch) => {
+        await new Promise(resolve => setTimeout(resolve, ms));
+        dispatch({ type: 'step', name });
+      });
+
+    it('runs sequence children in order', async () => {
+      const store = createStepStore(() => Effect.sequence(step('a', 300), step('b', 100), step('c', 50)));
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(300);
+      expect(store.state.steps).toEqual(['a']);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(store.state.steps).toEqual(['a', 'b']);
+
+      await vi.advanceTimersByTimeAsync(50);
+      expect(store.state.steps).toEqual(['a', 'b', 'c']);
+    });
+
+    it('stops a sequence when a child fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const store = createStepStore(() =>
+        Effect.sequence(
+          step('a', 0),
+          Effect.run(async () => {
+            throw new Error('boom');
+          }),
+          step('c', 0)
+        )
+      );
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(store.state.steps).toEqual(['a']);
+    });
+
+    it('keeps only the first finisher of a race', async () => {
+      const store = createStepStore(() => Effect.race(step('slow', 500), step('fast', 100)));
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(store.state.steps).toEqual(['fast']);
+    });
+
+    it('cancels cancellable race losers', async () => {
+      const store = createStepStore(() =>
+        Effect.race(
+          Effect.cancellable('slow-request', async (dispatch) => {
+            await new Promise(resolve => setTimeout(resolve, 500));
+            dispatch({ type: 'step', name: 'slow' });
+          }),
+          step('fast', 100)
+        )
+      );
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(store.state.steps).toEqual(['fast']);
+    });
+
+    it('lets a failing racer lose', async () => {
+      const store = createStepStore(() =>
+        Effect.race(
+          Effect.run(async () => {
+            throw new Error('boom');
+          }),
+          step('ok', 100)
+        )
+      );
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(store.state.steps).toEqual(['ok']);
+    });
+
+    it('limits pool concurrency', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const task = (name: string) =>
+        Effect.run<StepAction>(async (dispatch) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 100));
+          running--;
+          dispatch({ type: 'step', name });
+        });
+      const store = createStepStore(() => Effect.pool(2, ['a', 'b', 'c', 'd', 'e'].map(task)));
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(100);
+      expect(store.state.steps).toEqual(['a', 'b']);
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(store.state.steps).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(maxRunning).toBe(2);
+    });
+  });
+
+  describe('stream effects', () => {
+    type StreamAction =
+      | { type: 'start' }
+      | { type: 'stop' }
+      | { type: 'item'; value: string }
+      | { type: 'done' }
+      | { type: 'failed'; message: string };
+
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    function createStreamStore(source: () => AsyncIterable<string> | ReadableStream<string>) {
+      const reducer: Reducer<{ items: string[]; status: string }, StreamAction> = (state, action) => {
+        switch (action.type) {
+          case 'start':
+            return [
+              { ...state, status: 'streaming' },
+              Effect.stream('items', source(), (value) => ({ type: 'item', value }), {
+                onComplete: () => ({ type: 'done' }),
+                onError: (error) => ({ type: 'failed', message: (error as Error).message })
+              })
+            ];
+          case 'stop':
+            return [{ ...state, status: 'stopped' }, Effect.cancel('items')];
+          case 'item':
+            return [{ ...state, items: [...state.items, action.value] }, Effect.none()];
+          case 'done':
+            return [{ ...state, status: 'done' }, Effect.none()];
+          case 'failed':
+            return [{ ...state, status: `failed: ${action.message}` }, Effect.none()];
+        }
+      };
+      return createStore({ initialState: { items: [] as string[], status: 'idle' }, reducer });
+    }
+
+    it('dispatches one action per item, then the completion action', async () => {
+      const store = createStreamStore(async function* () {
+        yield 'a';
+        await sleep(100);
+        yield 'b';
+      });
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(store.state.items).toEqual(['a']);
+      expect(store.state.status).toBe('streaming');
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(store.state.items).toEqual(['a', 'b']);
+      expect(store.state.status).toBe('done');
+    });
+
+    it('dispatches the error action when the source throws', async () => {
+      const store = createStreamStore(async function* () {
+        yield 'a';
+        throw new Error('connection lost');
+      });
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(store.state.items).toEqual(['a']);
+      expect(store.state.status).toBe('failed: connection lost');
+    });
+
+    it('calls return() on the iterator when cancelled', async () => {
+      let closed = false;
+      const store = createStreamStore(async function* () {
+        try {
+          for (let i = 0; ; i++) {
+            yield String(i);
+            await sleep(100);
+          }
+        } finally {
+          closed = true;
+        }
+      });
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(150);
+      store.dispatch({ type: 'stop' });
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(store.state.items).toEqual(['0', '1']);
+      expect(store.state.status).toBe('stopped');
+      expect(closed).toBe(true);
+    });
+
+    it('cancels a ReadableStream source', async () => {
+      const cancel = vi.fn();
+      const store = createStreamStore(() =>
+        new ReadableStream<string>({
+          start(controller) {
+            controller.enqueue('a');
+          },
+          cancel
+        })
+      );
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(0);
+      store.dispatch({ type: 'stop' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(store.state.items).toEqual(['a']);
+      expect(store.state.status).toBe('stopped');
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('replaces a running stream with the same id', async () => {
+      let run = 0;
+      const store = createStreamStore(async function* () {
+        const current = ++run;
+        for (let i = 0; i < 2; i++) {
+          await sleep(100);
+          yield `${current}:${i}`;
+        }
+      });
+
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(150);
+      store.dispatch({ type: 'start' });
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(store.state.items).toEqual(['1:0', '2:0', '2:1']);
+      expect(store.state.status).toBe('done');
+    });
+  });
 });
@@ -10,6 +10,7 @@ import {
 	createTableReducer,
 	createInitialState
 } from '../src/lib/components/data-table/table.reducer.js';
+import { getVirtualRange } from '../src/lib/components/data-table/virtual-rows.js';
 import type { TableState, TableAction } from '../src/lib/components/data-table/table.types.js';
 
 interface Product {
@@ -504,3 +505,140 @@ describe('DataTable - Combined Operations', () => {
 		});
 	});
 });
+
+describe('DataTable - Infinite Loading', () => {
+	function createInfiniteStore(fetchPage: (cursor: string | null) => Promise<{ items: Product[]; nextCursor: string | null }>) {
+		const config = { fetchPage, pageSize: 2 };
+		return new TestStore({
+			initialState: createInitialState<Product>(config),
+			reducer: createTableReducer<Product>(config)
+		});
+	}
+
+	it('should append pages until there is no next page', async () => {
+		const store = createInfiniteStore(async (cursor) =>
+			cursor === null
+				? { items: mockProducts.slice(0, 3), nextCursor: 'p2' }
+				: { items: mockProducts.slice(2, 5), nextCursor: null }
+		);
+
+		await store.send({ type: 'nextPageRequested' }, (state) => {
+			expect(state.isLoading).toBe(true);
+			expect(state.isLoadingMore).toBe(false);
+		});
+		await store.receive({ type: 'nextPageLoaded' }, (state) => {
+			// All loaded rows are shown, not a page of pageSize
+			expect(state.data).toHaveLength(3);
+			expect(state.hasNextPage).toBe(true);
+		});
+
+		await store.send({ type: 'nextPageRequested' }, (state) => {
+			expect(state.isLoadingMore).toBe(true);
+		});
+		await store.receive({ type: 'nextPageLoaded' }, (state) => {
+			// Row 3 was in both pages
+			expect(state.data.map((p) => p.id)).toEqual(['1', '2', '3', '4', '5']);
+			expect(state.hasNextPage).toBe(false);
+			expect(state.isLoadingMore).toBe(false);
+		});
+
+		await store.send({ type: 'nextPageRequested' }, (state) => {
+			expect(state.isLoadingMore).toBe(false);
+		});
+	});
+
+	it('should keep loaded rows when the next page fails', async () => {
+		const store = createInfiniteStore(async (cursor) => {
+			if (cursor !== null) throw new Error('Network error');
+			return { items: mockProducts.slice(0, 2), nextCursor: 'p2' };
+		});
+
+		await store.send({ type: 'nextPageRequested' }, () => {});
+		await store.receive({ type: 'nextPageLoaded' });
+		await store.send({ type: 'nextPageRequested' }, () => {});
+		await store.receive({ type: 'nextPageLoadFailed' }, (state) => {
+			expect(state.error).toBe('Network error');
+			expect(state.data).toHaveLength(2);
+			expect(state.hasNextPage).toBe(true);
+		});
+	});
+
+	it('should drop a page that arrives after the data was reloaded', async () => {
+		let resolvePage!: (page: { items: Product[]; nextCursor: string | null }) => void;
+		const store = createInfiniteStore(() => new Promise((resolve) => (resolvePage = resolve)));
+
+		await store.send({ type: 'nextPageRequested' }, () => {});
+		await store.send({ type: 'dataLoaded', data: mockProducts.slice(0, 2) }, (state) => {
+			expect(state.isLoading).toBe(false);
+		});
+
+		resolvePage({ items: mockProducts.slice(2, 5), nextCursor: 'p2' });
+		await store.receive({ type: 'nextPageLoaded' }, (state) => {
+			expect(state.data.map((p) => p.id)).toEqual(['1', '2']);
+			expect(state.nextCursor).toBeNull();
+		});
+	});
+
+	it('should drop a page of a server-side table requested before a filter change', async () => {
+		const pages: Array<(page: { items: Product[]; nextCursor: string | null }) => void> = [];
+		const config = {
+			serverSide: true,
+			fetchPage: () => new Promise<{ items: Product[]; nextCursor: string | null }>((resolve) => pages.push(resolve))
+		};
+		const store = new TestStore({
+			initialState: createInitialState<Product>(config),
+			reducer: createTableReducer<Product>(config)
+		});
+
+		await store.send({ type: 'nextPageRequested' }, () => {});
+		pages[0]!({ items: mockProducts.slice(0, 2), nextCursor: 'p2' });
+		await store.receive({ type: 'nextPageLoaded' });
+
+		await store.send({ type: 'nextPageRequested' }, () => {});
+		await store.send(
+			{ type: 'filterAdded', filter: { column: 'category', operator: 'equals', value: 'Furniture' } },
+			(state) => {
+				expect(state.isLoadingMore).toBe(false);
+			}
+		);
+
+		pages[1]!({ items: mockProducts.slice(2, 5), nextCursor: null });
+		await store.receive({ type: 'nextPageLoaded' }, (state) => {
+			expect(state.data).toHaveLength(2);
+			expect(state.hasNextPage).toBe(true);
+		});
+	});
+
+	it('should sort and filter all loaded rows', async () => {
+		const store = createInfiniteStore(async () => ({ items: mockProducts, nextCursor: null }));
+
+		await store.send({ type: 'nextPageRequested' }, () => {});
+		await store.receive({ type: 'nextPageLoaded' });
+		await store.send(
+			{ type: 'filterAdded', filter: { column: 'category', operator: 'equals', value: 'Furniture' } },
+			(state) => {
+				expect(state.data.map((p) => p.name)).toEqual(['Desk', 'Chair', 'Lamp']);
+			}
+		);
+	});
+});
+
+describe('DataTable - Virtual Rows', () => {
+	it('should render the visible rows plus overscan', () => {
+		expect(getVirtualRange(1000, 4000, { rowHeight: 40, height: 400, overscan: 5 })).toEqual({
+			start: 95,
+			end: 116,
+			paddingTop: 95 * 40,
+			paddingBottom: (1000 - 116) * 40
+		});
+	});
+
+	it('should clamp the range to the rows', () => {
+		expect(getVirtualRange(3, 0, { rowHeight: 40, height: 400 })).toEqual({
+			start: 0,
+			end: 3,
+			paddingTop: 0,
+			paddingBottom: 0
+		});
+	});
+});
@@ -306,4 +306,458 @@ describe('TestStore', () => {
       expect(store.getState()).toEqual(initialState);
     });
   });
+
+  describe('expectEffect() and expectNoEffects()', () => {
+    type SearchAction = { type: 'queryChanged'; query: string } | { type: 'cleared' };
+
+    const reducer: Reducer<{ query: string }, SearchAction> = (state, action) => {
+      switch (action.type) {
+        case 'queryChanged':
+          return [
+            { query: action.query },
+            Effect.batch(
+              Effect.cancel('search'),
+              Effect.debounced('search', 300, async () => {})
+            )
+          ];
+        case 'cleared':
+          return [{ query: '' }, Effect.none()];
+      }
+    };
+
+    it('matches effects of the last send, flattening batches', async () => {
+      const store = createTestStore({ initialState: { query: '' }, reducer });
+
+      await store.send({ type: 'queryChanged', query: 'svelte' });
+
+      store.expectEffect({ _tag: 'Debounced', id: 'search', ms: 300 });
+      store.expectEffect({ _tag: 'Cancellable', id: 'search' });
+      store.expectNoEffects();
+    });
+
+    it('reports unasserted effects when nothing matches', async () => {
+      const store = createTestStore({ initialState: { query: '' }, reducer });
+
+      await store.send({ type: 'queryChanged', query: 'svelte' });
+
+      expect(() => store.expectEffect({ _tag: 'Debounced', ms: 500 })).toThrow(
+        'Unasserted effects: Cancellable({"id":"search"}), Debounced({"id":"search","ms":300})'
+      );
+    });
+
+    it('fails expectNoEffects() while effects are unasserted', async () => {
+      const store = createTestStore({ initialState: { query: '' }, reducer });
+
+      await store.send({ type: 'queryChanged', query: 'svelte' });
+      store.expectEffect({ _tag: 'Cancellable' });
+
+      expect(() => store.expectNoEffects()).toThrow('found 1 unasserted effect(s): Debounced');
+    });
+
+    it('passes expectNoEffects() for Effect.none()', async () => {
+      const store = createTestStore({ initialState: { query: 'svelte' }, reducer });
+
+      await store.send({ type: 'cleared' });
+
+      store.expectNoEffects();
+    });
+  });
+
+  describe('finish()', () => {
+    type SocketAction = { type: 'connect' } | { type: 'disconnect' };
+
+    function createSocketStore(cleanup: () => void) {
+      const reducer: Reducer<{ connected: boolean }, SocketAction> = (state, action) => {
+        switch (action.type) {
+          case 'connect':
+            return [{ connected: true }, Effect.subscription('socket', () => cleanup)];
+          case 'disconnect':
+            return [{ connected: false }, Effect.cancel('socket')];
+        }
+      };
+      return createTestStore({ initialState: { connected: false }, reducer });
+    }
+
+    it.skipIf(typeof vi === 'undefined')('fails while subscriptions are still running', async () => {
+      vi.useFakeTimers();
+
+      const store = createSocketStore(() => {});
+
+      await store.send({ type: 'connect' });
+
+      await expect(store.finish()).rejects.toThrow(
+        'Expected all subscriptions to be cancelled, but 1 still running: ["socket"]'
+      );
+
+      vi.useRealTimers();
+    });
+
+    it.skipIf(typeof vi === 'undefined')('passes once subscriptions are cancelled', async () => {
+      vi.useFakeTimers();
+
+      const cleanup = vi.fn();
+      const store = createSocketStore(cleanup);
+
+      await store.send({ type: 'connect' });
+      await store.send({ type: 'disconnect' });
+
+      await store.finish();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+
+      vi.useRealTimers();
+    });
+
+    it.skipIf(typeof vi === 'undefined')('ignores running subscriptions with exhaustivity off', async () => {
+      vi.useFakeTimers();
+
+      const store = createSocketStore(() => {});
+      store.exhaustivity = 'off';
+
+      await store.send({ type: 'connect' });
+
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('state assertions', () => {
+    const reducer: Reducer<{ user: { name: string; age: number }; tags: string[] }, { type: 'birthday' }> = (
+      state
+    ) => [{ ...state, user: { ...state.user, age: state.user.age + 1 } }, Effect.none()];
+    const initial = { user: { name: 'Ann', age: 30 }, tags: ['admin'] };
+
+    it('accepts an expected partial state', async () => {
+      const store = createTestStore({ initialState: initial, reducer });
+
+      await store.send({ type: 'birthday' }, { user: { age: 31 } });
+    });
+
+    it('reports mismatches per path', async () => {
+      const store = createTestStore({ initialState: initial, reducer });
+
+      await expect(
+        store.send({ type: 'birthday' }, { user: { name: 'Ann', age: 32 }, tags: ['admin'] })
+      ).rejects.toThrow(
+        'State mismatch after send({"type":"birthday"}):\n\n' +
+          '  state.user.age\n' +
+          '    - expected: 32\n' +
+          '    + received: 31'
+      );
+    });
+
+    it('adds the action and state changes to failing assertion callbacks', async () => {
+      const store = createTestStore({ initialState: initial, reducer });
+
+      const error = await store
+        .send({ type: 'birthday' }, (state) => {
+          expect(state.user.age).toBe(30);
+        })
+        .catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).message).toContain('State assertion failed after send({"type":"birthday"})');
+      expect((error as Error).message).toContain('expected 31 to be 30');
+      expect((error as Error).message).toContain('State changes:\n  state.user.age: 30 → 31');
+    });
+  });
+
+  describe('retry and timeout', () => {
+    type FetchAction =
+      | { type: 'fetch' }
+      | { type: 'fetched'; value: number }
+      | { type: 'fetchTimedOut' };
+
+    it.skipIf(typeof vi === 'undefined')('drives retry backoff with advanceTime', async () => {
+      vi.useFakeTimers();
+
+      const attempts = vi.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce(42);
+      const reducer: Reducer<CounterState, FetchAction> = (state, action) => {
+        switch (action.type) {
+          case 'fetch':
+            return [
+              state,
+              Effect.retry(
+                Effect.run(async (dispatch) => {
+                  dispatch({ type: 'fetched', value: await attempts() });
+                }),
+                { maxAttempts: 2, backoff: 500 }
+              )
+            ];
+          case 'fetched':
+            return [{ ...state, count: action.value }, Effect.none()];
+          default:
+            return [state, Effect.none()];
+        }
+      };
+
+      const store = createTestStore({ initialState, reducer });
+
+      await store.send({ type: 'fetch' });
+      await store.advanceTime(499);
+      expect(attempts).toHaveBeenCalledTimes(1);
+
+      await store.advanceTime(1);
+      await store.receive({ type: 'fetched' }, (state) => {
+        expect(state.count).toBe(42);
+      });
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+
+    it.skipIf(typeof vi === 'undefined')('dispatches onTimeout with advanceTime', async () => {
+      vi.useFakeTimers();
+
+      const reducer: Reducer<CounterState, FetchAction> = (state, action) => {
+        switch (action.type) {
+          case 'fetch':
+            return [
+              state,
+              Effect.timeout(
+                Effect.run(async (dispatch) => {
+                  await new Promise(resolve => setTimeout(resolve, 5000));
+                  dispatch({ type: 'fetched', value: 1 });
+                }),
+                1000,
+                (dispatch) => dispatch({ type: 'fetchTimedOut' })
+              )
+            ];
+          default:
+            return [state, Effect.none()];
+        }
+      };
+
+      const store = createTestStore({ initialState, reducer });
+
+      await store.send({ type: 'fetch' });
+      await store.advanceTime(1000);
+      await store.receive({ type: 'fetchTimedOut' });
+
+      // The late result is dropped
+      await store.advanceTime(4000);
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('effect errors', () => {
+    type LoadAction = { type: 'load' } | { type: 'loaded' } | { type: 'other' };
+
+    function createFailingStore(error: Error) {
+      const reducer: Reducer<CounterState, LoadAction> = (state, action) => {
+        switch (action.type) {
+          case 'load':
+            return [state, Effect.run(async () => {
+              throw error;
+            })];
+          default:
+            return [state, Effect.none()];
+        }
+      };
+      return createTestStore({ initialState, reducer });
+    }
+
+    it.skipIf(typeof vi === 'undefined')('rethrows the error of a failed effect from finish()', async () => {
+      vi.useFakeTimers();
+
+      const error = new Error('network down');
+      const store = createFailingStore(error);
+
+      await store.send({ type: 'load' });
+
+      await expect(store.finish()).rejects.toBe(error);
+
+      vi.useRealTimers();
+    });
+
+    it('rethrows the error of a failed effect from receive()', async () => {
+      const error = new Error('network down');
+      const store = createFailingStore(error);
+
+      await store.send({ type: 'load' });
+
+      await expect(store.receive({ type: 'loaded' })).rejects.toBe(error);
+    });
+  });
+
+  describe('sequence, race and pool', () => {
+    type StepAction = { type: 'start' } | { type: 'step'; name: string };
+
+    const step = (name: string, ms: number) =>
+      Effect.run<StepAction>(async (dispatch) => {
+        await new Promise(resolve => setTimeout(resolve, ms));
+        dispatch({ type: 'step', name });
+      });
+
+    function createStepTestStore(effect: ReturnType<typeof Effect.run<StepAction>>) {
+      const reducer: Reducer<{ steps: string[] }, StepAction> = (state, action) => {
+        switch (action.type) {
+          case 'start':
+            return [state, effect];
+          case 'step':
+            return [{ steps: [...state.steps, action.name] }, Effect.none()];
+        }
+      };
+      return createTestStore({ initialState: { steps: [] as string[] }, reducer });
+    }
+
+    it.skipIf(typeof vi === 'undefined')('runs a sequence in order', async () => {
+      vi.useFakeTimers();
+
+      const store = createStepTestStore(Effect.sequence(step('a', 200), step('b', 100)));
+
+      await store.send({ type: 'start' });
+      await store.advanceTime(200);
+      await store.receive({ type: 'step', name: 'a' });
+      await store.advanceTime(100);
+      await store.receive({ type: 'step', name: 'b' }, (state) => {
+        expect(state.steps).toEqual(['a', 'b']);
+      });
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+
+    it.skipIf(typeof vi === 'undefined')('receives only the race winner', async () => {
+      vi.useFakeTimers();
+
+      const store = createStepTestStore(Effect.race(step('slow', 500), step('fast', 100)));
+
+      await store.send({ type: 'start' });
+      await store.advanceTime(100);
+      await store.receive({ type: 'step', name: 'fast' });
+      await store.advanceTime(400);
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+
+    it.skipIf(typeof vi === 'undefined')('cancels id-based effects of losing racers', async () => {
+      vi.useFakeTimers();
+
+      let closed = false;
+      async function* ticks() {
+        try {
+          while (true) {
+            await new Promise(resolve => setTimeout(resolve, 1000));
+            yield 'tick';
+          }
+        } finally {
+          closed = true;
+        }
+      }
+      const store = createStepTestStore(
+        Effect.race(step('fast', 100), Effect.stream('ticks', ticks(), (name): StepAction => ({ type: 'step', name })))
+      );
+
+      await store.send({ type: 'start' });
+      await store.advanceTime(100);
+      await store.receive({ type: 'step', name: 'fast' });
+      await store.advanceTime(1000);
+      expect(closed).toBe(true);
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+
+    it.skipIf(typeof vi === 'undefined')('runs a pool with limited concurrency', async () => {
+      vi.useFakeTimers();
+
+      const store = createStepTestStore(Effect.pool(1, [step('a', 100), step('b', 100)]));
+
+      await store.send({ type: 'start' });
+      await store.advanceTime(100);
+      await store.receive({ type: 'step', name: 'a' });
+      await store.advanceTime(100);
+      await store.receive({ type: 'step', name: 'b' });
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('stream', () => {
+    type StreamAction =
+      | { type: 'start' }
+      | { type: 'stop' }
+      | { type: 'chunk'; text: string }
+      | { type: 'done' };
+
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    function createStreamTestStore(source: () => AsyncIterable<string>) {
+      const reducer: Reducer<{ text: string }, StreamAction> = (state, action) => {
+        switch (action.type) {
+          case 'start':
+            return [
+              state,
+              Effect.stream('chunks', source(), (text) => ({ type: 'chunk', text }), {
+                onComplete: () => ({ type: 'done' })
+              })
+            ];
+          case 'stop':
+            return [state, Effect.cancel('chunks')];
+          case 'chunk':
+            return [{ text: state.text + action.text }, Effect.none()];
+          case 'done':
+            return [state, Effect.none()];
+        }
+      };
+      return createTestStore({ initialState: { text: '' }, reducer });
+    }
+
+    it.skipIf(typeof vi === 'undefined')('receives one action per item as time advances', async () => {
+      vi.useFakeTimers();
+
+      const store = createStreamTestStore(async function* () {
+        for (const word of ['Hello', ' world']) {
+          await sleep(50);
+          yield word;
+        }
+      });
+
+      await store.send({ type: 'start' });
+      await store.advanceTime(50);
+      await store.receive({ type: 'chunk', text: 'Hello' });
+      await store.advanceTime(50);
+      await store.receive({ type: 'chunk', text: ' world' });
+      await store.receive({ type: 'done' }, (state) => {
+        expect(state.text).toBe('Hello world');
+      });
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+
+    it.skipIf(typeof vi === 'undefined')('closes the iterator on Effect.cancel', async () => {
+      vi.useFakeTimers();
+
+      let closed = false;
+      const store = createStreamTestStore(async function* () {
+        try {
+          while (true) {
+            await sleep(50);
+            yield '.';
+          }
+        } finally {
+          closed = true;
+        }
+      });
+
+      await store.send({ type: 'start' });
+      await store.advanceTime(50);
+      await store.receive({ type: 'chunk', text: '.' });
+      await store.send({ type: 'stop' });
+      await store.advanceTime(200);
+
+      expect(closed).toBe(true);
+      await store.finish();
+
+      vi.useRealTimers();
+    });
+  });
 });